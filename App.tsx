@@ -1,17 +1,68 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo, useSyncExternalStore } from 'react';
 import { QuranService } from './services/quranService';
-import { GeminiService } from './services/geminiService';
-import { Surah, AyahDisplayData, SearchResult, TafsirData, Language, SurahOverviewData } from './types';
+import { AiService } from './services/aiService';
+import { PROMPT_VERSIONS } from './services/aiPrompts';
+import { AiCacheService } from './services/aiCacheService';
+import { StudyDataService, ayahKey } from './services/studyDataService';
+import { ReadingProgressService, HISTORY_LIMIT, summarizeKhatm, surahPercent } from './services/readingProgressService';
+import { Route, parseHash, formatRoute } from './services/router';
+import { MorphologyService, MorphologyResult, ayahWords } from './services/morphologyService';
+import { HifzService, isDue, maskedWordIndexes } from './services/hifzService';
+import { TranslationService, resolveEditions, missingEditions, FALLBACK_EDITIONS } from './services/translationService';
+import { SearchResultService } from './services/searchResultService';
+import { TextSearchService } from './services/textSearchService';
+import { DivisionService } from './services/divisionService';
+import { parseReference } from './services/referenceParser';
+import { OfflineService } from './services/offlineService';
+import { NotFoundError, RequestErrorKind, errorMessageKey, canRetry, isAbortError } from './services/errors';
+import { Surah, AyahDisplayData, VerifiedSearchResult, TextSearchResult, TafsirData, Language, SurahOverviewData, QuranDataSource, ReadingMode, Bookmark, BookmarkFolder, BookmarkColor, AyahNote, ReadingHistoryEntry, SurahProgress, HifzCard, HifzGrade, HifzMaskStyle, Edition, TranslationSelection, ParsedReference, PassageRange } from './types';
 import { Icons } from './components/Icons';
 import { AyahView } from './components/AyahView';
 import { TafsirModal } from './components/TafsirModal';
 import { SurahOverviewModal } from './components/SurahOverviewModal';
+import { PassageTafsirModal } from './components/PassageTafsirModal';
+import { CommandPalette, PaletteAction } from './components/CommandPalette';
+import { DivisionsPanel } from './components/DivisionsPanel';
+import { SurahReader, ayahElementId } from './components/SurahReader';
+import { SearchResultCard } from './components/SearchResultCard';
+import { TextSearchResultCard } from './components/TextSearchResultCard';
+import { CacheManagerModal } from './components/CacheManagerModal';
+import { OfflineLibraryModal } from './components/OfflineLibraryModal';
+import { TranslationPickerModal } from './components/TranslationPickerModal';
+import { BookmarksPanel } from './components/BookmarksPanel';
+import { BookmarkEditorModal } from './components/BookmarkEditorModal';
+import { NoteEditorModal } from './components/NoteEditorModal';
+import { ReadingHistoryPanel } from './components/ReadingHistoryPanel';
+import { AudioPlayerBar } from './components/AudioPlayerBar';
+import { HifzControls } from './components/HifzControls';
+import { HifzPanel } from './components/HifzPanel';
+import { WordAnalysisPanel } from './components/WordAnalysisPanel';
+import { LANGUAGES, MessageKey, getTranslator, languageInfo, isLanguage, formatAyahRef, formatNumber, formatPercent } from './services/i18n';
 
 type ViewMode = 'reader' | 'search';
 
+// 'ai' asks Gemini for matching verses, 'text' runs the local lexical index
+type SearchMode = 'ai' | 'text';
+
+type SidebarTab = 'surahs' | 'parts' | 'bookmarks' | 'history' | 'hifz';
+
+const SIDEBAR_TAB_LABELS: Record<SidebarTab, MessageKey> = {
+  surahs: 'nav.surahs',
+  parts: 'nav.parts',
+  bookmarks: 'nav.saved',
+  history: 'nav.history',
+  hifz: 'hifz.title',
+};
+
+// Ayahs fetched per request in full-surah reading mode
+const SURAH_PAGE_SIZE = 20;
+
 function App() {
   // Config State
-  const [language, setLanguage] = useState<Language>('bn');
+  const [language, setLanguage] = useState<Language>(() => {
+    const saved = localStorage.getItem('language');
+    return isLanguage(saved) ? saved : 'bn';
+  });
   const [darkMode, setDarkMode] = useState(() => {
     if (typeof window !== 'undefined') {
       return localStorage.getItem('theme') === 'dark' || (!('theme' in localStorage) && window.matchMedia('(prefers-color-scheme: dark)').matches);
@@ -21,17 +72,28 @@ function App() {
   const [arabicFontSize, setArabicFontSize] = useState(() => parseInt(localStorage.getItem('arabicFontSize') || '36'));
   const [translationFontSize, setTranslationFontSize] = useState(() => parseInt(localStorage.getItem('translationFontSize') || '18'));
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [dataSource, setDataSource] = useState<QuranDataSource>(() => QuranService.getDataSource());
+  const [readingMode, setReadingMode] = useState<ReadingMode>(() => localStorage.getItem('readingMode') === 'surah' ? 'surah' : 'ayah');
+  const [translationCatalog, setTranslationCatalog] = useState<Edition[]>([]);
+  const [translationSelection, setTranslationSelection] = useState<TranslationSelection>(() => TranslationService.getSelection());
+  const [isTranslationPickerOpen, setIsTranslationPickerOpen] = useState(false);
+  const t = getTranslator(language);
 
   // Data State
   const [surahs, setSurahs] = useState<Surah[]>([]);
   const [currentSurah, setCurrentSurah] = useState<Surah | null>(null);
   const [currentAyahNum, setCurrentAyahNum] = useState<number>(1);
   const [ayahData, setAyahData] = useState<AyahDisplayData | null>(null);
+  const [surahAyahs, setSurahAyahs] = useState<AyahDisplayData[]>([]); // Loaded window in surah reading mode
   
   // Search & Filter State
   const [searchQuery, setSearchQuery] = useState('');
   const [surahQuery, setSurahQuery] = useState(''); // Sidebar filter
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchResults, setSearchResults] = useState<VerifiedSearchResult[]>([]);
+  const [textSearchResults, setTextSearchResults] = useState<TextSearchResult[]>([]);
+  const [textSearchTotal, setTextSearchTotal] = useState(0);
+  const [searchMode, setSearchMode] = useState<SearchMode>('ai');
+  const [submittedSearch, setSubmittedSearch] = useState<{ query: string; mode: SearchMode } | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('search');
 
@@ -39,16 +101,71 @@ function App() {
   const [isTafsirOpen, setIsTafsirOpen] = useState(false);
   const [tafsirData, setTafsirData] = useState<TafsirData | null>(null);
   const [isLoadingTafsir, setIsLoadingTafsir] = useState(false);
+  const [tafsirDraft, setTafsirDraft] = useState<Partial<TafsirData> | null>(null);
+  const [tafsirCachedAt, setTafsirCachedAt] = useState<number | null>(null);
 
   // Surah Overview State
   const [isOverviewOpen, setIsOverviewOpen] = useState(false);
   const [overviewData, setOverviewData] = useState<SurahOverviewData | null>(null);
   const [isLoadingOverview, setIsLoadingOverview] = useState(false);
+  const [overviewCachedAt, setOverviewCachedAt] = useState<number | null>(null);
+  const [isCacheManagerOpen, setIsCacheManagerOpen] = useState(false);
+  const [isOfflineLibraryOpen, setIsOfflineLibraryOpen] = useState(false);
+  const [isPassageOpen, setIsPassageOpen] = useState(false);
+  const [passageRange, setPassageRange] = useState<PassageRange | null>(null); // Set when a range is opened from the command palette
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+
+  // Study Data State (bookmarks & notes)
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [bookmarkFolders, setBookmarkFolders] = useState<BookmarkFolder[]>([]);
+  const [notes, setNotes] = useState<AyahNote[]>([]);
+  const [bookmarkEditorAyah, setBookmarkEditorAyah] = useState<AyahDisplayData | null>(null);
+  const [noteEditorAyah, setNoteEditorAyah] = useState<AyahDisplayData | null>(null);
+
+  // Word Analysis State
+  const [wordPanel, setWordPanel] = useState<{ ayah: AyahDisplayData; wordIndex: number } | null>(null);
+  const [wordAnalysis, setWordAnalysis] = useState<(MorphologyResult & { key: string }) | null>(null);
+  const [isLoadingWords, setIsLoadingWords] = useState(false);
+  const [wordError, setWordError] = useState<string | null>(null);
+
+  // Recitation Audio State
+  const [isAudioPlayerOpen, setIsAudioPlayerOpen] = useState(false);
+  const [isAudioPlaying, setIsAudioPlaying] = useState(false);
+
+  // Hifz State
+  const [isHifzMode, setIsHifzMode] = useState(false);
+  const [hifzMaskStyle, setHifzMaskStyle] = useState<HifzMaskStyle>('words');
+  const [hifzMaskLevel, setHifzMaskLevel] = useState(2);
+  const [revealedWords, setRevealedWords] = useState<Set<number>>(new Set());
+  const [hifzCards, setHifzCards] = useState<HifzCard[]>([]);
+  const [reviewQueue, setReviewQueue] = useState<string[] | null>(null); // Keys left in the running review session
+
+  // Reading History & Khatm State
+  const [readingHistory, setReadingHistory] = useState<ReadingHistoryEntry[]>([]);
+  const [readingProgress, setReadingProgress] = useState<Map<number, SurahProgress>>(new Map());
 
   // UI State
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [sidebarTab, setSidebarTab] = useState<SidebarTab>('surahs');
+  const [notice, setNotice] = useState<string | null>(null);
   const [isLoadingAyah, setIsLoadingAyah] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [isLoadingMoreAyahs, setIsLoadingMoreAyahs] = useState(false);
+  const [scrollTargetAyah, setScrollTargetAyah] = useState<number | null>(null);
+  const [error, setErrorState] = useState<{ message: string; retry?: () => void } | null>(null);
+  const isOnline = useSyncExternalStore(OfflineService.subscribe, OfflineService.isOnline);
+  const isAiAvailable = isOnline; // AI requests go through the server
+
+  // The error banner; `retry` adds a button that repeats the failed action
+  const setError = useCallback((message: string | null, retry?: () => void) => {
+    setErrorState(message === null ? null : { message, retry });
+  }, []);
+
+  // Shows a failed request in the banner, offering a retry unless trying again cannot help.
+  // Cancelled requests were replaced by newer ones, so they are not reported.
+  const showRequestError = (e: unknown, fallback: MessageKey, retry: () => void, overrides?: Partial<Record<RequestErrorKind, MessageKey>>) => {
+    if (isAbortError(e)) return;
+    setError(t(errorMessageKey(e, fallback, overrides)), canRetry(e) ? retry : undefined);
+  };
 
   // Touch/Swipe Refs
   const touchStartX = useRef<number | null>(null);
@@ -59,6 +176,26 @@ function App() {
   // Scroll Refs
   const mainScrollRef = useRef<HTMLDivElement>(null);
 
+  // In-flight tafsir stream, aborted when the modal closes or another tafsir starts
+  const tafsirAbortRef = useRef<AbortController | null>(null);
+
+  // In-flight reader, search and overview requests, aborted when a newer one replaces them
+  const readerAbortRef = useRef<AbortController | null>(null);
+  // Extending the loaded surah window, aborted whenever the reader loads something else
+  const moreAyahsAbortRef = useRef<AbortController | null>(null);
+  const searchAbortRef = useRef<AbortController | null>(null);
+  const overviewAbortRef = useRef<AbortController | null>(null);
+
+  // Latest word analysis request; responses for older ones are ignored, and it is aborted when the panel closes
+  const wordRequestRef = useRef<string | null>(null);
+  const wordAbortRef = useRef<AbortController | null>(null);
+
+  // URL routing: the initial hash is applied once the surah list is loaded. While a route
+  // from the URL is being applied, intermediate states replace the history entry instead of pushing.
+  const isRouteReadyRef = useRef(false);
+  const pendingRouteRef = useRef<string | null>(null);
+  const applyRouteRef = useRef<(route: Route) => void>(() => {});
+
   // Apply Dark Mode
   useEffect(() => {
     if (darkMode) {
@@ -76,19 +213,101 @@ function App() {
     localStorage.setItem('translationFontSize', translationFontSize.toString());
   }, [arabicFontSize, translationFontSize]);
 
-  // Initial Load
+  // Persist Language and set the document direction (Urdu and Arabic are right-to-left)
+  useEffect(() => {
+    localStorage.setItem('language', language);
+    document.documentElement.lang = language;
+    document.documentElement.dir = languageInfo(language).dir;
+  }, [language]);
+
+  // Persist Reading Mode
+  useEffect(() => {
+    localStorage.setItem('readingMode', readingMode);
+  }, [readingMode]);
+
+  // Initial Load (and reload when the data source changes)
   useEffect(() => {
     const fetchSurahs = async () => {
       try {
         const list = await QuranService.getAllSurahs();
         setSurahs(list);
       } catch (e) {
-        setError("Failed to load Surah list. Please check your connection.");
+        showRequestError(e, dataSource === 'local' ? 'reader.corpusLoadError' : 'reader.surahListError', () => fetchSurahs());
       }
     };
     fetchSurahs();
+    QuranService.getTranslationEditions()
+      .then(setTranslationCatalog)
+      .catch(e => {
+        console.warn('Using built-in translation list:', e);
+        setTranslationCatalog(FALLBACK_EDITIONS);
+      });
+  }, [dataSource]);
+
+  // Translations shown under the Arabic, resolved against what the current data source offers
+  const activeEditions = useMemo(
+    () => resolveEditions(translationCatalog, translationSelection[language], language),
+    [translationCatalog, translationSelection, language]
+  );
+  const hasMissingTranslations = missingEditions(translationCatalog, translationSelection[language]).length > 0;
+
+  // Load bookmarks and notes
+  const refreshStudyData = useCallback(async () => {
+    try {
+      const data = await StudyDataService.loadAll();
+      setBookmarkFolders(data.folders);
+      setBookmarks(data.bookmarks);
+      setNotes(data.notes);
+    } catch (e) {
+      console.error('Failed to load study data:', e);
+    }
   }, []);
 
+  useEffect(() => {
+    refreshStudyData();
+  }, [refreshStudyData]);
+
+  const bookmarksByKey = useMemo(() => new Map(bookmarks.map(b => [b.key, b])), [bookmarks]);
+  const notesByKey = useMemo(() => new Map(notes.map(n => [n.key, n])), [notes]);
+
+  // Load reading history and khatm progress
+  useEffect(() => {
+    Promise.all([ReadingProgressService.loadHistory(), ReadingProgressService.loadProgress()])
+      .then(([history, progress]) => {
+        setReadingHistory(history);
+        setReadingProgress(new Map(progress.map(p => [p.surahNumber, p])));
+      })
+      .catch(e => console.error('Failed to load reading history:', e));
+  }, []);
+
+  // Record every ayah shown in the reader (in surah mode, the ayah scrolled into focus)
+  useEffect(() => {
+    if (viewMode !== 'reader' || !ayahData) return;
+    ReadingProgressService.recordVisit(ayahData)
+      .then(({ entry, progress }) => {
+        setReadingHistory(prev => [entry, ...prev.filter(h => h.key !== entry.key)].slice(0, HISTORY_LIMIT));
+        setReadingProgress(prev => new Map(prev).set(progress.surahNumber, progress));
+      })
+      .catch(e => console.error('Failed to record reading progress:', e));
+  }, [ayahData, viewMode]);
+
+  // Load memorization cards
+  useEffect(() => {
+    HifzService.loadAll()
+      .then(setHifzCards)
+      .catch(e => console.error('Failed to load hifz cards:', e));
+  }, []);
+
+  const hifzCardsByKey = useMemo(() => new Map(hifzCards.map(c => [c.key, c])), [hifzCards]);
+
+  // Every ayah starts fully masked again
+  useEffect(() => {
+    setRevealedWords(new Set());
+  }, [ayahData?.surahNumber, ayahData?.ayahNumber]);
+
+  const khatm = useMemo(() => summarizeKhatm(surahs, readingProgress), [surahs, readingProgress]);
+  const lastRead = readingHistory[0];
+
   // Scroll to active surah in sidebar
   useEffect(() => {
     if ((isSidebarOpen || window.innerWidth >= 1024) && currentSurah) {
@@ -99,17 +318,33 @@ function App() {
 
   // Scroll main view top on ayah change
   useEffect(() => {
-    if (viewMode === 'reader') {
+    if (viewMode === 'reader' && readingMode === 'ayah') {
        mainScrollRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
     }
-  }, [ayahData, viewMode]);
+  }, [ayahData, viewMode, readingMode]);
+
+  // Scroll to a requested ayah once it is rendered in surah mode
+  useEffect(() => {
+    if (scrollTargetAyah === null || !currentSurah) return;
+    const el = document.getElementById(ayahElementId(currentSurah.number, scrollTargetAyah));
+    if (el) {
+      el.scrollIntoView({ block: 'start' });
+      setScrollTargetAyah(null);
+    }
+  }, [scrollTargetAyah, surahAyahs, currentSurah]);
 
   // Fetch Ayah when navigation changes
-  const loadAyah = useCallback(async (surahNum: number, ayahNum: number) => {
+  const loadAyah = useCallback(async (surahNum: number, ayahNum: number): Promise<AyahDisplayData | null> => {
+    readerAbortRef.current?.abort();
+    moreAyahsAbortRef.current?.abort();
+    const controller = new AbortController();
+    readerAbortRef.current = controller;
+
     setIsLoadingAyah(true);
     setError(null);
     try {
-      const data = await QuranService.getAyah(surahNum, ayahNum);
+      const data = await QuranService.getAyah(surahNum, ayahNum, controller.signal);
+      if (controller.signal.aborted) return null;
       setAyahData(data);
       setCurrentAyahNum(ayahNum);
       
@@ -117,67 +352,497 @@ function App() {
         const foundSurah = surahs.find(s => s.number === surahNum);
         if (foundSurah) setCurrentSurah(foundSurah);
       }
+      return data;
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        showRequestError(e, 'reader.ayahLoadError', () => loadAyah(surahNum, ayahNum), { offline: 'offline.surahNotSaved' });
+      }
+      return null;
+    } finally {
+      if (readerAbortRef.current === controller) {
+        readerAbortRef.current = null;
+        setIsLoadingAyah(false);
+      }
+    }
+  }, [surahs, currentSurah]);
+
+  // Fetch the page-sized chunk of a surah that contains the requested ayah
+  const loadSurahChunk = useCallback(async (surahNum: number, ayahNum: number): Promise<AyahDisplayData | null> => {
+    readerAbortRef.current?.abort();
+    moreAyahsAbortRef.current?.abort();
+    const controller = new AbortController();
+    readerAbortRef.current = controller;
+
+    setIsLoadingAyah(true);
+    setError(null);
+    try {
+      const start = Math.floor((ayahNum - 1) / SURAH_PAGE_SIZE) * SURAH_PAGE_SIZE + 1;
+      const ayahs = await QuranService.getSurahAyahs(surahNum, start, SURAH_PAGE_SIZE, controller.signal);
+      if (controller.signal.aborted) return null;
+      const target = ayahs.find(a => a.ayahNumber === ayahNum);
+      if (!target) throw new NotFoundError(`Ayah ${surahNum}:${ayahNum} not found.`);
+
+      setSurahAyahs(ayahs);
+      setAyahData(target);
+      setCurrentAyahNum(ayahNum);
+      setScrollTargetAyah(ayahNum);
+
+      if (!currentSurah || currentSurah.number !== surahNum) {
+        const foundSurah = surahs.find(s => s.number === surahNum);
+        if (foundSurah) setCurrentSurah(foundSurah);
+      }
+      return target;
     } catch (e) {
-      setError("Could not load Ayah. It might not exist or network is down.");
+      if (!controller.signal.aborted) {
+        showRequestError(e, 'reader.surahLoadError', () => loadSurahChunk(surahNum, ayahNum), { offline: 'offline.surahNotSaved' });
+      }
+      return null;
     } finally {
-      setIsLoadingAyah(false);
+      if (readerAbortRef.current === controller) {
+        readerAbortRef.current = null;
+        setIsLoadingAyah(false);
+      }
     }
   }, [surahs, currentSurah]);
 
+  // Extend the loaded window in surah mode by one chunk before or after it
+  const loadMoreAyahs = async (direction: 'previous' | 'next') => {
+    if (!currentSurah || surahAyahs.length === 0) return;
+    const first = surahAyahs[0].ayahNumber;
+    const last = surahAyahs[surahAyahs.length - 1].ayahNumber;
+    const start = direction === 'next' ? last + 1 : Math.max(1, first - SURAH_PAGE_SIZE);
+    const count = direction === 'next' ? SURAH_PAGE_SIZE : first - start;
+    if (count <= 0 || start > currentSurah.numberOfAyahs) return;
+
+    moreAyahsAbortRef.current?.abort();
+    const controller = new AbortController();
+    moreAyahsAbortRef.current = controller;
+    const surahNum = currentSurah.number;
+
+    setIsLoadingMoreAyahs(true);
+    try {
+      const ayahs = await QuranService.getSurahAyahs(surahNum, start, count, controller.signal);
+      if (controller.signal.aborted) return;
+      // Only join the chunk onto the window it was requested for, not one loaded for another surah since
+      const isSameWindow = (prev: AyahDisplayData[]) => prev.length > 0 && prev[0].surahNumber === surahNum
+        && (direction === 'next' ? prev[prev.length - 1].ayahNumber === start - 1 : prev[0].ayahNumber === first);
+      if (direction === 'next') {
+        setSurahAyahs(prev => (isSameWindow(prev) ? [...prev, ...ayahs] : prev));
+      } else {
+        setSurahAyahs(prev => (isSameWindow(prev) ? [...ayahs, ...prev] : prev));
+        setScrollTargetAyah(first); // Keep the reader where it was
+      }
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        showRequestError(e, 'reader.moreAyahsError', () => loadMoreAyahs(direction), { offline: 'offline.surahNotSaved' });
+      }
+    } finally {
+      if (moreAyahsAbortRef.current === controller) {
+        moreAyahsAbortRef.current = null;
+        setIsLoadingMoreAyahs(false);
+      }
+    }
+  };
+
+  // Navigate to an ayah in whichever reading mode is active; resolves with the ayah once shown
+  const goToAyah = async (surahNum: number, ayahNum: number): Promise<AyahDisplayData | null> => {
+    if (readingMode === 'ayah') {
+      return loadAyah(surahNum, ayahNum);
+    }
+    const loaded = currentSurah?.number === surahNum && surahAyahs.find(a => a.ayahNumber === ayahNum);
+    if (loaded) {
+      setAyahData(loaded);
+      setCurrentAyahNum(ayahNum);
+      setScrollTargetAyah(ayahNum);
+      return loaded;
+    }
+    return loadSurahChunk(surahNum, ayahNum);
+  };
+
+  const handleReadingModeChange = (mode: ReadingMode) => {
+    if (mode === 'surah') {
+      setIsHifzMode(false); // Hifz works one ayah at a time
+      setReviewQueue(null);
+    }
+    if (mode === readingMode) return;
+    setReadingMode(mode);
+    if (!currentSurah) return;
+    if (mode === 'surah') {
+      loadSurahChunk(currentSurah.number, currentAyahNum);
+    } else {
+      setSurahAyahs([]);
+      loadAyah(currentSurah.number, currentAyahNum);
+    }
+  };
+
+  const handleActiveAyahChange = (ayah: AyahDisplayData) => {
+    setAyahData(ayah);
+    setCurrentAyahNum(ayah.ayahNumber);
+  };
+
+  // Play (or pause) the recitation of an ayah; the reader then follows the audio
+  const handlePlayAyah = (ayah: AyahDisplayData) => {
+    const isCurrent = ayahData?.surahNumber === ayah.surahNumber && ayahData.ayahNumber === ayah.ayahNumber;
+    if (isCurrent && isAudioPlaying) {
+      setIsAudioPlaying(false);
+      return;
+    }
+    if (!isCurrent) handleActiveAyahChange(ayah);
+    setIsAudioPlayerOpen(true);
+    setIsAudioPlaying(true);
+  };
+
   // Handle Search
-  const handleSearch = async (e: React.FormEvent) => {
+  const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (!searchQuery.trim()) return;
+    // A typed reference such as "2:255" or "বাকারা ২৫৫" opens the ayah without searching
+    const reference = parseReference(searchQuery, surahs);
+    if (reference?.ayahNumber) {
+      selectSearchResult(reference.surahNumber, reference.ayahNumber);
+      return;
+    }
+    runSearch(searchQuery, searchMode);
+  };
 
+  const runSearch = async (query: string, mode: SearchMode) => {
+    searchAbortRef.current?.abort();
+    searchAbortRef.current = null;
+    setSubmittedSearch({ query, mode });
     setIsSearching(true);
     setSearchResults([]);
+    setTextSearchResults([]);
     setError(null);
+
+    if (mode === 'text') {
+      try {
+        const { results, total } = await TextSearchService.search(query);
+        setTextSearchResults(results);
+        setTextSearchTotal(total);
+        if (results.length === 0) {
+          setError(t('search.noTextMatch'));
+        }
+      } catch (e) {
+        setError(t('search.offlineLoadError'));
+      } finally {
+        setIsSearching(false);
+      }
+      return;
+    }
+
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
     try {
-      const results = await GeminiService.searchQuran(searchQuery, language);
+      const rawResults = await AiService.searchQuran(query, language, controller.signal);
+      const results = await SearchResultService.validateAndEnrich(rawResults, surahs);
+      if (controller.signal.aborted) return;
       setSearchResults(results);
       if (results.length === 0) {
-        setError(language === 'bn' ? "কোনো আয়াত পাওয়া যায়নি।" : "No relevant ayahs found.");
+        setError(t('search.noResults'));
       }
     } catch (e) {
-      setError(language === 'bn' ? "অনুসন্ধান ব্যর্থ হয়েছে।" : "Search failed. Please check connection.");
+      if (!controller.signal.aborted) {
+        showRequestError(e, 'search.failed', () => runSearch(query, mode), { offline: 'offline.aiUnavailable' });
+      }
     } finally {
-      setIsSearching(false);
+      if (searchAbortRef.current === controller) {
+        searchAbortRef.current = null;
+        setIsSearching(false);
+      }
     }
   };
 
   // Handle Tafsir Generation
-  const handleViewTafsir = async () => {
-    if (!ayahData) return;
+  const handleViewTafsir = async (target: AyahDisplayData | null = ayahData, refresh = false) => {
+    if (!target) return;
+    if (target !== ayahData) handleActiveAyahChange(target);
     setIsTafsirOpen(true);
+
+    tafsirAbortRef.current?.abort();
+    const controller = new AbortController();
+    tafsirAbortRef.current = controller;
     
     setIsLoadingTafsir(true);
     setTafsirData(null);
+    setTafsirDraft(null);
     try {
-      const tafsir = await GeminiService.generateTafsir(ayahData, language);
-      setTafsirData(tafsir);
+      const { data, cachedAt } = await AiCacheService.getOrGenerate(
+        { kind: 'tafsir', surahNumber: target.surahNumber, ayahNumber: target.ayahNumber, language, model: await AiService.getModelKey(), promptVersion: PROMPT_VERSIONS.tafsir },
+        () => AiService.streamTafsir(target, language, partial => {
+          if (!controller.signal.aborted) setTafsirDraft(partial);
+        }, controller.signal),
+        refresh
+      );
+      if (controller.signal.aborted) return;
+      setTafsirData(data);
+      setTafsirCachedAt(cachedAt);
     } catch (e) {
-      setError("Failed to generate Tafsir.");
+      if (controller.signal.aborted) return;
+      showRequestError(e, 'tafsir.error', () => handleViewTafsir(target, refresh), { offline: 'offline.notSaved' });
       setIsTafsirOpen(false);
     } finally {
-      setIsLoadingTafsir(false);
+      if (tafsirAbortRef.current === controller) {
+        tafsirAbortRef.current = null;
+        setIsLoadingTafsir(false);
+      }
     }
   };
 
+  // Closing the modal cancels a tafsir that is still streaming
+  const handleCloseTafsir = () => {
+    tafsirAbortRef.current?.abort();
+    tafsirAbortRef.current = null;
+    setIsLoadingTafsir(false);
+    setIsTafsirOpen(false);
+  };
+
   // Handle Surah Overview
-  const handleSurahOverview = async () => {
-    if (!currentSurah) return;
+  const handleSurahOverview = async (surah: Surah | null = currentSurah, refresh = false) => {
+    if (!surah) return;
     setIsOverviewOpen(true);
+
+    overviewAbortRef.current?.abort();
+    const controller = new AbortController();
+    overviewAbortRef.current = controller;
     
     setIsLoadingOverview(true);
     setOverviewData(null);
     try {
-      const data = await GeminiService.generateSurahOverview(currentSurah.englishName, currentSurah.number, language);
+      const { data, cachedAt } = await AiCacheService.getOrGenerate(
+        { kind: 'overview', surahNumber: surah.number, ayahNumber: null, language, model: await AiService.getModelKey(), promptVersion: PROMPT_VERSIONS.overview },
+        () => AiService.generateSurahOverview(surah.englishName, surah.number, language, controller.signal),
+        refresh
+      );
+      if (controller.signal.aborted) return;
       setOverviewData(data);
+      setOverviewCachedAt(cachedAt);
     } catch (e) {
-      setError("Failed to load overview.");
+      if (controller.signal.aborted) return;
+      showRequestError(e, 'overview.error', () => handleSurahOverview(surah, refresh), { offline: 'offline.notSaved' });
       setIsOverviewOpen(false);
     } finally {
-      setIsLoadingOverview(false);
+      if (overviewAbortRef.current === controller) {
+        overviewAbortRef.current = null;
+        setIsLoadingOverview(false);
+      }
+    }
+  };
+
+  // Hifz Handlers
+  const handleHifzToggle = () => {
+    if (isHifzMode) {
+      setIsHifzMode(false);
+      setReviewQueue(null);
+      return;
+    }
+    handleReadingModeChange('ayah');
+    setIsHifzMode(true);
+  };
+
+  // Review every card due today, oldest first, one ayah at a time
+  const handleStartReview = () => {
+    const due = hifzCards.filter(c => isDue(c)).sort((a, b) => a.dueAt - b.dueAt || a.surahNumber - b.surahNumber || a.ayahNumber - b.ayahNumber);
+    if (due.length === 0) return;
+    setReviewQueue(due.map(c => c.key));
+    setIsHifzMode(true);
+    setReadingMode('ayah');
+    setSurahAyahs([]);
+    setViewMode('reader');
+    setIsSidebarOpen(false);
+    loadAyah(due[0].surahNumber, due[0].ayahNumber);
+  };
+
+  const handleHifzGrade = async (grade: HifzGrade) => {
+    if (!ayahData) return;
+    const key = ayahKey(ayahData.surahNumber, ayahData.ayahNumber);
+    try {
+      const card = await HifzService.grade(ayahData, grade, hifzCardsByKey.get(key));
+      setHifzCards(prev => [...prev.filter(c => c.key !== key), card]);
+    } catch (e) {
+      setError(t('hifz.gradeError'));
+      return;
+    }
+
+    if (!reviewQueue) {
+      handleNextAyah();
+      return;
+    }
+    const remaining = reviewQueue.filter(k => k !== key);
+    if (remaining.length === 0) {
+      setReviewQueue(null);
+      setNotice(t('hifz.reviewComplete'));
+      return;
+    }
+    setReviewQueue(remaining);
+    const [surahNum, ayahNum] = remaining[0].split(':').map(Number);
+    loadAyah(surahNum, ayahNum);
+  };
+
+  // Handle Word Analysis (analysis is loaded once per ayah and language)
+  const handleWordClick = async (ayah: AyahDisplayData, wordIndex: number, refresh = false) => {
+    setWordPanel({ ayah, wordIndex });
+    const key = `${ayahKey(ayah.surahNumber, ayah.ayahNumber)}:${language}`;
+    if (!refresh && (wordAnalysis?.key === key || wordRequestRef.current === key)) return;
+
+    wordAbortRef.current?.abort();
+    const controller = new AbortController();
+    wordAbortRef.current = controller;
+    wordRequestRef.current = key;
+    setIsLoadingWords(true);
+    setWordAnalysis(null);
+    setWordError(null);
+    try {
+      const result = await MorphologyService.getWords(ayah, language, refresh, controller.signal);
+      if (wordRequestRef.current === key) setWordAnalysis({ ...result, key });
+    } catch (e) {
+      if (wordRequestRef.current === key && !controller.signal.aborted) {
+        setWordError(t(errorMessageKey(e, 'words.loadError', { offline: 'offline.notSaved' })));
+      }
+    } finally {
+      if (wordAbortRef.current === controller) wordAbortRef.current = null;
+      if (wordRequestRef.current === key) {
+        wordRequestRef.current = null;
+        setIsLoadingWords(false);
+      }
+    }
+  };
+
+  const closeWordPanel = () => {
+    wordAbortRef.current?.abort();
+    wordAbortRef.current = null;
+    wordRequestRef.current = null;
+    setIsLoadingWords(false);
+    setWordPanel(null);
+  };
+
+  // Refetch the text on screen, e.g. after switching data source or translations
+  const reloadReaderText = () => {
+    if (!ayahData) return;
+    if (readingMode === 'surah') {
+      loadSurahChunk(ayahData.surahNumber, ayahData.ayahNumber);
+    } else {
+      loadAyah(ayahData.surahNumber, ayahData.ayahNumber);
+    }
+  };
+
+  const handleDataSourceChange = (source: QuranDataSource) => {
+    if (source === dataSource) return;
+    QuranService.setDataSource(source);
+    setDataSource(source);
+    reloadReaderText();
+  };
+
+  const handleTranslationSelectionChange = (selection: TranslationSelection) => {
+    TranslationService.setSelection(selection);
+    setTranslationSelection(selection);
+  };
+
+  // Fetch the interface language's editions from now on, and refetch the ayahs on screen if they lack one
+  useEffect(() => {
+    if (translationCatalog.length === 0) return;
+    const editions = activeEditions.map(e => e.identifier);
+    QuranService.setTranslationEditions(editions);
+    if (ayahData && editions.some(id => !(id in ayahData.translations))) reloadReaderText();
+  }, [activeEditions]);
+
+  // Bookmark & Note Handlers
+  const handleSaveBookmark = async (options: { folderId: string | null; color: BookmarkColor }) => {
+    if (!bookmarkEditorAyah) return;
+    const existing = bookmarksByKey.get(ayahKey(bookmarkEditorAyah.surahNumber, bookmarkEditorAyah.ayahNumber));
+    try {
+      await StudyDataService.saveBookmark(bookmarkEditorAyah, options, existing);
+      setBookmarkEditorAyah(null);
+      refreshStudyData();
+    } catch (e) {
+      setError(t('study.bookmarkSaveError'));
+    }
+  };
+
+  const handleRemoveBookmark = async () => {
+    if (!bookmarkEditorAyah) return;
+    try {
+      await StudyDataService.removeBookmark(ayahKey(bookmarkEditorAyah.surahNumber, bookmarkEditorAyah.ayahNumber));
+      setBookmarkEditorAyah(null);
+      refreshStudyData();
+    } catch (e) {
+      setError(t('study.bookmarkRemoveError'));
+    }
+  };
+
+  const handleCreateFolder = async (name: string, color: BookmarkColor) => {
+    try {
+      const folder = await StudyDataService.createFolder(name, color);
+      refreshStudyData();
+      return folder;
+    } catch (e) {
+      setError(t('study.folderSaveError'));
+      return null;
+    }
+  };
+
+  const handleDeleteFolder = async (id: string) => {
+    try {
+      await StudyDataService.removeFolder(id);
+      refreshStudyData();
+    } catch (e) {
+      setError(t('study.folderDeleteError'));
+    }
+  };
+
+  const handleSaveNote = async (markdown: string) => {
+    if (!noteEditorAyah) return;
+    const existing = notesByKey.get(ayahKey(noteEditorAyah.surahNumber, noteEditorAyah.ayahNumber));
+    try {
+      await StudyDataService.saveNote(noteEditorAyah.surahNumber, noteEditorAyah.ayahNumber, markdown, existing);
+      setNoteEditorAyah(null);
+      refreshStudyData();
+    } catch (e) {
+      setError(t('study.noteSaveError'));
+    }
+  };
+
+  const handleExportStudyData = async () => {
+    const data = await StudyDataService.exportData();
+    const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `nur-al-quran-study-${data.exportedAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportStudyData = async (file: File) => {
+    setError(null);
+    try {
+      const summary = await StudyDataService.importData(JSON.parse(await file.text()));
+      await refreshStudyData();
+      setNotice(t('study.imported', { bookmarks: summary.bookmarks, notes: summary.notes }));
+    } catch (e) {
+      setError(t('study.importError', { reason: e instanceof Error ? e.message : 'invalid file' }));
+    }
+  };
+
+  // Audio only plays in the reader
+  useEffect(() => {
+    if (viewMode !== 'reader') setIsAudioPlaying(false);
+  }, [viewMode]);
+
+  // Reading History Handlers
+  const handleClearHistory = async () => {
+    try {
+      await ReadingProgressService.clearHistory();
+      setReadingHistory([]);
+    } catch (e) {
+      setError(t('history.clearError'));
+    }
+  };
+
+  const handleResetKhatm = async () => {
+    try {
+      await ReadingProgressService.resetProgress();
+      setReadingProgress(new Map());
+    } catch (e) {
+      setError(t('history.resetError'));
     }
   };
 
@@ -185,18 +850,18 @@ function App() {
   const handleNextAyah = () => {
     if (!currentSurah) return;
     if (currentAyahNum < currentSurah.numberOfAyahs) {
-      loadAyah(currentSurah.number, currentAyahNum + 1);
+      goToAyah(currentSurah.number, currentAyahNum + 1);
     } else if (currentSurah.number < 114) {
-      loadAyah(currentSurah.number + 1, 1);
+      goToAyah(currentSurah.number + 1, 1);
     }
   };
 
   const handlePrevAyah = () => {
     if (!currentSurah) return;
     if (currentAyahNum > 1) {
-      loadAyah(currentSurah.number, currentAyahNum - 1);
+      goToAyah(currentSurah.number, currentAyahNum - 1);
     } else if (currentSurah.number > 1) {
-       loadAyah(currentSurah.number - 1, 1);
+       goToAyah(currentSurah.number - 1, 1);
     }
   };
 
@@ -204,7 +869,7 @@ function App() {
      const num = parseInt(e.target.value);
      if (!currentSurah || isNaN(num)) return;
      if (num > 0 && num <= currentSurah.numberOfAyahs) {
-        loadAyah(currentSurah.number, num);
+        goToAyah(currentSurah.number, num);
      }
   };
 
@@ -240,14 +905,50 @@ function App() {
 
   const selectSearchResult = (surahNum: number, ayahNum: number) => {
     setViewMode('reader');
-    loadAyah(surahNum, ayahNum);
+    goToAyah(surahNum, ayahNum);
     setIsSidebarOpen(false);
   };
 
+  const openPassageRange = ({ surahNumber, ayahNumber, toAyah }: ParsedReference) => {
+    if (ayahNumber === null) return;
+    selectSearchResult(surahNumber, ayahNumber);
+    setPassageRange({ surahNumber, fromAyah: ayahNumber, toAyah: toAyah ?? ayahNumber });
+    setIsPassageOpen(true);
+  };
+
+  const searchFromPalette = (query: string) => {
+    setViewMode('search');
+    setSearchMode('ai');
+    setSearchQuery(query);
+    runSearch(query, 'ai');
+  };
+
+  // Commands offered by the palette for the current state of the app
+  const paletteActions: PaletteAction[] = [
+    ...LANGUAGES.filter(({ code }) => code !== language).map(({ code, nativeName }): PaletteAction => ({
+      id: `language-${code}`,
+      label: t('palette.switchLanguage', { name: nativeName }),
+      icon: 'Languages',
+      run: () => setLanguage(code),
+    })),
+    ...(currentSurah ? [{
+      id: 'overview',
+      label: t('palette.overview', { name: currentSurah.englishName }),
+      icon: 'Info' as const,
+      run: () => handleSurahOverview(),
+    }] : []),
+    ...(viewMode === 'reader' && ayahData ? [{
+      id: 'bookmark',
+      label: t('palette.bookmark', { reference: formatAyahRef(ayahData.surahNumber, ayahData.ayahNumber, language) }),
+      icon: 'Bookmark' as const,
+      run: () => setBookmarkEditorAyah(ayahData),
+    }] : []),
+  ];
+
   const selectSurahFromList = (surah: Surah) => {
     setViewMode('reader');
     setCurrentSurah(surah);
-    loadAyah(surah.number, 1);
+    goToAyah(surah.number, 1);
     setIsSidebarOpen(false);
   };
 
@@ -259,8 +960,123 @@ function App() {
     s.name.includes(surahQuery)
   );
 
+  // Words masked in hifz mode, minus the ones the user has revealed
+  const hifzMaskedWords = isHifzMode && readingMode === 'ayah' && ayahData
+    ? maskedWordIndexes(ayahWords(ayahData.arabicText).length, hifzMaskStyle, hifzMaskLevel, ayahData.ayahNumber)
+    : null;
+  const hiddenWords = hifzMaskedWords ? new Set([...hifzMaskedWords].filter(i => !revealedWords.has(i))) : undefined;
+
+  // URL Routing
+  const currentRoute: Route | null =
+    viewMode === 'search'
+      ? { name: 'search', query: submittedSearch?.query ?? '', mode: submittedSearch?.mode ?? 'ai' }
+      : !currentSurah
+        ? null
+        : isOverviewOpen
+          ? { name: 'overview', surahNumber: currentSurah.number }
+          : { name: 'ayah', surahNumber: currentSurah.number, ayahNumber: currentAyahNum, panel: isTafsirOpen ? 'tafsir' : null };
+  const currentHash = currentRoute ? formatRoute(currentRoute) : null;
+
+  // Bring the app to the state a route describes (deep link, back/forward, edited URL)
+  const applyRoute = async (route: Route) => {
+    const hash = formatRoute(route);
+    if (hash === currentHash) return;
+    pendingRouteRef.current = hash;
+
+    if (route.name === 'search') {
+      handleCloseTafsir();
+      setIsOverviewOpen(false);
+      setViewMode('search');
+      setSearchMode(route.mode);
+      setSearchQuery(route.query);
+      if (!route.query) {
+        setSubmittedSearch(null);
+        setSearchResults([]);
+        setTextSearchResults([]);
+      } else if (route.query !== submittedSearch?.query || route.mode !== submittedSearch?.mode) {
+        runSearch(route.query, route.mode);
+      }
+      return;
+    }
+
+    const surah = surahs.find(s => s.number === route.surahNumber);
+    if (!surah) {
+      pendingRouteRef.current = null;
+      setError(t('reader.surahNotFound', { surah: route.surahNumber }));
+      return;
+    }
+    setViewMode('reader');
+
+    if (route.name === 'overview') {
+      handleCloseTafsir();
+      if (currentSurah?.number !== surah.number) await goToAyah(surah.number, 1);
+      handleSurahOverview(surah);
+      return;
+    }
+
+    setIsOverviewOpen(false);
+    if (route.panel !== 'tafsir') handleCloseTafsir();
+    const isShown = ayahData?.surahNumber === route.surahNumber && ayahData.ayahNumber === route.ayahNumber;
+    const target = isShown ? ayahData : await goToAyah(route.surahNumber, route.ayahNumber);
+    if (route.panel === 'tafsir' && target && !isTafsirOpen) handleViewTafsir(target);
+  };
+  applyRouteRef.current = applyRoute;
+
+  // Apply the initial URL once surahs are available
+  useEffect(() => {
+    if (isRouteReadyRef.current || surahs.length === 0) return;
+    isRouteReadyRef.current = true;
+    applyRouteRef.current(parseHash(window.location.hash));
+  }, [surahs]);
+
+  useEffect(() => {
+    const onHashChange = () => applyRouteRef.current(parseHash(window.location.hash));
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  // AI search needs the network; exact text search runs on the bundled corpus
+  useEffect(() => {
+    if (!isAiAvailable) setSearchMode('text');
+  }, [isAiAvailable]);
+
+  // Ctrl+K (Cmd+K on macOS) opens the command palette from anywhere
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsPaletteOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // A failed navigation never reaches its route, so stop waiting for it
+  useEffect(() => {
+    if (error) pendingRouteRef.current = null;
+  }, [error]);
+
+  // Reflect app state in the URL. Moving between ayahs of the same surah replaces the
+  // history entry so scrolling through a surah does not flood the back button.
+  useEffect(() => {
+    if (!isRouteReadyRef.current || !currentHash || !currentRoute) return;
+    const pending = pendingRouteRef.current;
+    if (currentHash === pending) pendingRouteRef.current = null;
+
+    const previous = parseHash(window.location.hash);
+    if (formatRoute(previous) === currentHash) return;
+    const isSameSurah = previous.name === 'ayah' && currentRoute.name === 'ayah'
+      && previous.surahNumber === currentRoute.surahNumber && previous.panel === currentRoute.panel;
+    if (pending !== null || isSameSurah) {
+      window.history.replaceState(null, '', currentHash);
+    } else {
+      window.history.pushState(null, '', currentHash);
+    }
+  }, [currentHash]);
+
   return (
-    <div className={`flex h-screen overflow-hidden ${language === 'bn' ? 'font-bengali' : 'font-sans'} bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100 transition-colors duration-300`}>
+    <div className={`flex h-screen overflow-hidden ${languageInfo(language).fontClass} bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100 transition-colors duration-300`}>
       
       {/* Mobile Sidebar Overlay */}
       {isSidebarOpen && (
@@ -271,7 +1087,7 @@ function App() {
       )}
 
       {/* Sidebar Navigation */}
-      <aside className={`fixed lg:static inset-y-0 left-0 z-30 w-72 bg-white dark:bg-slate-950 border-r border-slate-200 dark:border-slate-800 transform transition-transform duration-300 ease-in-out ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full lg:translate-x-0'} flex flex-col`}>
+      <aside className={`fixed lg:static inset-y-0 start-0 z-30 w-72 bg-white dark:bg-slate-950 border-e border-slate-200 dark:border-slate-800 transform transition-transform duration-300 ease-in-out ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full rtl:translate-x-full lg:translate-x-0 rtl:lg:translate-x-0'} flex flex-col`}>
         <div className="p-6 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
           <div className="flex items-center gap-2 text-emerald-600 dark:text-emerald-500 font-bold text-xl">
              <Icons.BookOpen className="w-6 h-6" />
@@ -285,18 +1101,16 @@ function App() {
         {/* Language Toggle in Sidebar */}
         <div className="px-4 py-4 border-b border-slate-100 dark:border-slate-900">
            <div className="flex bg-slate-100 dark:bg-slate-900 rounded-lg p-1">
-             <button 
-               onClick={() => setLanguage('bn')}
-               className={`flex-1 py-1.5 text-sm rounded-md font-medium transition-all ${language === 'bn' ? 'bg-white dark:bg-slate-800 text-emerald-600 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
-             >
-               বাংলা
-             </button>
-             <button 
-               onClick={() => setLanguage('en')}
-               className={`flex-1 py-1.5 text-sm rounded-md font-medium transition-all ${language === 'en' ? 'bg-white dark:bg-slate-800 text-emerald-600 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
-             >
-               English
-             </button>
+             {LANGUAGES.map(({ code, nativeName, fontClass }) => (
+               <button 
+                 key={code}
+                 onClick={() => setLanguage(code)}
+                 lang={code}
+                 className={`flex-1 py-1.5 text-sm rounded-md font-medium transition-all ${fontClass} ${language === code ? 'bg-white dark:bg-slate-800 text-emerald-600 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+               >
+                 {nativeName}
+               </button>
+             ))}
            </div>
         </div>
 
@@ -306,39 +1120,91 @@ function App() {
              className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl mb-4 transition-colors ${viewMode === 'search' ? 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-400 font-semibold' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-900'}`}
            >
              <Icons.Search className="w-5 h-5" />
-             {language === 'bn' ? 'এআই অনুসন্ধান' : 'AI Search'}
+             {t('nav.aiSearch')}
            </button>
            
+           {/* Sidebar Tabs */}
+           <div className="flex mx-4 mb-3 border-b border-slate-100 dark:border-slate-800 font-sans">
+             {(['surahs', 'parts', 'bookmarks', 'history', 'hifz'] as SidebarTab[]).map(tab => (
+               <button
+                 key={tab}
+                 onClick={() => setSidebarTab(tab)}
+                 className={`flex-1 pb-2 text-xs font-semibold transition-colors border-b-2 -mb-px ${sidebarTab === tab ? 'border-emerald-500 text-emerald-600 dark:text-emerald-400' : 'border-transparent text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'}`}
+               >
+                 {t(SIDEBAR_TAB_LABELS[tab])}
+               </button>
+             ))}
+           </div>
+
+           {sidebarTab === 'parts' ? (
+             <DivisionsPanel
+               surahs={surahs}
+               language={language}
+               current={viewMode === 'reader' && currentSurah ? DivisionService.locate(currentSurah.number, currentAyahNum) : null}
+               onSelect={selectSearchResult}
+             />
+           ) : sidebarTab === 'bookmarks' ? (
+             <BookmarksPanel
+               folders={bookmarkFolders}
+               bookmarks={bookmarks}
+               notes={notes}
+               language={language}
+               onSelect={selectSearchResult}
+               onDeleteFolder={handleDeleteFolder}
+               onExport={handleExportStudyData}
+               onImport={handleImportStudyData}
+             />
+           ) : sidebarTab === 'hifz' ? (
+             <HifzPanel
+               cards={hifzCards}
+               surahs={surahs}
+               language={language}
+               onStartReview={handleStartReview}
+               onSelect={selectSearchResult}
+             />
+           ) : sidebarTab === 'history' ? (
+             <ReadingHistoryPanel
+               history={readingHistory}
+               khatm={khatm}
+               language={language}
+               onSelect={selectSearchResult}
+               onClearHistory={handleClearHistory}
+               onResetKhatm={handleResetKhatm}
+             />
+           ) : (
+           <>
            <div className="px-4 pb-2">
               <div className="relative">
-                <Icons.Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400" />
+                <Icons.Search className="absolute start-3 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400" />
                 <input
                   type="text"
                   value={surahQuery}
                   onChange={(e) => setSurahQuery(e.target.value)}
-                  placeholder={language === 'bn' ? "সূরা খুঁজুন..." : "Filter Surahs..."}
-                  className="w-full pl-8 pr-3 py-2 text-xs bg-slate-100 dark:bg-slate-900 border-none rounded-lg focus:ring-1 focus:ring-emerald-500 placeholder-slate-400 text-slate-700 dark:text-slate-300 font-sans"
+                  placeholder={t('nav.filterSurahs')}
+                  className="w-full ps-8 pe-3 py-2 text-xs bg-slate-100 dark:bg-slate-900 border-none rounded-lg focus:ring-1 focus:ring-emerald-500 placeholder-slate-400 text-slate-700 dark:text-slate-300 font-sans"
                 />
               </div>
            </div>
            
            <div className="px-4 py-2 text-xs font-bold text-slate-400 uppercase tracking-wider font-sans">
-             Surahs
+             {t('nav.surahs')}
            </div>
            
            <div className="space-y-1">
              {filteredSurahs.map(surah => {
                const isActive = currentSurah?.number === surah.number && viewMode === 'reader';
+               const percent = surahPercent(surah, readingProgress.get(surah.number));
                return (
                  <button
                    key={surah.number}
                    id={`surah-${surah.number}`}
                    onClick={() => selectSurahFromList(surah)}
-                   className={`w-full flex items-center justify-between px-4 py-2.5 rounded-lg text-sm transition-all ${isActive ? 'bg-emerald-500 text-white shadow-md' : 'text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-900'}`}
+                   title={percent > 0 ? t('nav.percentRead', { percent: formatPercent(percent, language) }) : undefined}
+                   className={`relative w-full flex items-center justify-between px-4 py-2.5 rounded-lg text-sm transition-all ${isActive ? 'bg-emerald-500 text-white shadow-md' : 'text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-900'}`}
                  >
                    <div className="flex items-center gap-3">
                      <span className={`flex items-center justify-center w-6 h-6 text-xs rounded-full border font-sans ${isActive ? 'border-white/30 bg-white/10' : 'border-slate-300 dark:border-slate-700 text-slate-500'}`}>
-                       {surah.number}
+                       {formatNumber(surah.number, language)}
                      </span>
                      <div className="flex flex-col items-start font-sans">
                         <span className="font-medium">{surah.englishName}</span>
@@ -346,22 +1212,29 @@ function App() {
                           <span className={`text-[10px] ${isActive ? 'opacity-80' : 'opacity-60'}`}>{surah.englishNameTranslation}</span>
                           {isActive && (
                             <span className="text-[10px] bg-white/20 px-1.5 py-0.5 rounded font-mono">
-                               Ayah {currentAyahNum}
+                               {t('reader.ayahNumber', { ayah: currentAyahNum })}
                             </span>
                           )}
                         </div>
                      </div>
                    </div>
                    <span className="font-arabic text-lg opacity-80">{surah.name.replace('سورة', '')}</span>
+                   {percent > 0 && (
+                     <span className={`absolute start-4 end-4 bottom-1 h-0.5 rounded-full overflow-hidden ${isActive ? 'bg-white/20' : 'bg-slate-200 dark:bg-slate-800'}`}>
+                       <span className={`block h-full rounded-full ${isActive ? 'bg-white' : percent === 100 ? 'bg-gold-500' : 'bg-emerald-500'}`} style={{ width: `${percent}%` }} />
+                     </span>
+                   )}
                  </button>
                );
              })}
              {filteredSurahs.length === 0 && (
                <div className="px-4 py-4 text-center text-xs text-slate-400">
-                 No Surah found.
+                 {t('nav.noSurahFound')}
                </div>
              )}
            </div>
+           </>
+           )}
         </nav>
       </aside>
 
@@ -370,12 +1243,33 @@ function App() {
         {/* Top Header Bar */}
         <header className="h-16 border-b border-slate-200 dark:border-slate-800 flex items-center justify-between px-4 bg-white dark:bg-slate-950 z-20">
           <div className="flex items-center gap-2">
-             <button onClick={() => setIsSidebarOpen(true)} className="lg:hidden p-2 -ml-2 text-slate-600 dark:text-slate-300">
+             <button onClick={() => setIsSidebarOpen(true)} className="lg:hidden p-2 -ms-2 text-slate-600 dark:text-slate-300">
                <Icons.Menu className="w-6 h-6" />
              </button>
              <span className="font-bold text-lg text-slate-800 dark:text-white font-sans lg:hidden">Nur Al-Quran</span>
           </div>
 
+          <div className="flex items-center gap-2">
+          {!isOnline && (
+            <span
+              title={t('offline.indicatorHint')}
+              className="flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-semibold bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 font-sans"
+            >
+              <Icons.WifiOff className="w-3.5 h-3.5" />
+              {t('offline.indicator')}
+            </span>
+          )}
+
+          <button
+            onClick={() => setIsPaletteOpen(true)}
+            title={t('palette.open')}
+            className="hidden sm:flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs text-slate-400 border border-slate-200 dark:border-slate-700 hover:border-emerald-400 hover:text-emerald-600 transition-colors font-sans"
+          >
+            <Icons.Search className="w-3.5 h-3.5" />
+            <span>{t('palette.open')}</span>
+            <kbd className="px-1 rounded bg-slate-100 dark:bg-slate-800 text-[10px]" dir="ltr">Ctrl K</kbd>
+          </button>
+
           <div className="relative">
             <button 
               onClick={() => setIsSettingsOpen(!isSettingsOpen)}
@@ -386,14 +1280,14 @@ function App() {
 
             {/* Settings Popover */}
             {isSettingsOpen && (
-              <div className="absolute right-0 top-full mt-2 w-72 bg-white dark:bg-slate-900 rounded-xl shadow-xl border border-slate-200 dark:border-slate-800 p-4 animate-in fade-in zoom-in-95 duration-200 origin-top-right">
+              <div className="absolute end-0 top-full mt-2 w-72 bg-white dark:bg-slate-900 rounded-xl shadow-xl border border-slate-200 dark:border-slate-800 p-4 animate-in fade-in zoom-in-95 duration-200 origin-top-right rtl:origin-top-left">
                 <h4 className="font-bold text-slate-800 dark:text-slate-200 mb-4 text-sm uppercase tracking-wide flex items-center gap-2">
-                  <Icons.Settings className="w-4 h-4" /> Appearance
+                  <Icons.Settings className="w-4 h-4" /> {t('settings.appearance')}
                 </h4>
                 
                 {/* Theme Toggle */}
                 <div className="flex items-center justify-between mb-6">
-                  <span className="text-sm text-slate-600 dark:text-slate-400">Theme</span>
+                  <span className="text-sm text-slate-600 dark:text-slate-400">{t('settings.theme')}</span>
                   <div className="flex bg-slate-100 dark:bg-slate-800 rounded-lg p-1">
                     <button 
                       onClick={() => setDarkMode(false)}
@@ -413,8 +1307,8 @@ function App() {
                 {/* Arabic Font Size */}
                 <div className="mb-4">
                   <div className="flex justify-between items-center mb-2">
-                    <span className="text-sm text-slate-600 dark:text-slate-400">Arabic Size</span>
-                    <span className="text-xs text-slate-400 font-mono">{arabicFontSize}px</span>
+                    <span className="text-sm text-slate-600 dark:text-slate-400">{t('settings.arabicSize')}</span>
+                    <span className="text-xs text-slate-400 font-mono" dir="ltr">{arabicFontSize}px</span>
                   </div>
                   <input 
                     type="range" 
@@ -429,8 +1323,8 @@ function App() {
                 {/* Translation Font Size */}
                 <div>
                   <div className="flex justify-between items-center mb-2">
-                    <span className="text-sm text-slate-600 dark:text-slate-400">Translation Size</span>
-                    <span className="text-xs text-slate-400 font-mono">{translationFontSize}px</span>
+                    <span className="text-sm text-slate-600 dark:text-slate-400">{t('settings.translationSize')}</span>
+                    <span className="text-xs text-slate-400 font-mono" dir="ltr">{translationFontSize}px</span>
                   </div>
                   <input 
                     type="range" 
@@ -441,9 +1335,65 @@ function App() {
                     className="w-full accent-emerald-500 h-2 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer"
                   />
                 </div>
+
+                {/* Translations */}
+                <div className="mt-6 pt-4 border-t border-slate-100 dark:border-slate-800 flex items-center justify-between">
+                  <span className="text-sm text-slate-600 dark:text-slate-400">{t('translations.title')}</span>
+                  <button 
+                    onClick={() => { setIsTranslationPickerOpen(true); setIsSettingsOpen(false); }}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-md font-medium bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:text-emerald-600 transition-colors"
+                  >
+                    {hasMissingTranslations
+                      ? <Icons.AlertTriangle className="w-3.5 h-3.5 text-amber-500" />
+                      : <Icons.Languages className="w-3.5 h-3.5" />}
+                    {' '}{t('settings.translationsSelected', { count: activeEditions.length })}
+                  </button>
+                </div>
+
+                {/* AI Cache */}
+                <div className="mt-6 pt-4 border-t border-slate-100 dark:border-slate-800 flex items-center justify-between">
+                  <span className="text-sm text-slate-600 dark:text-slate-400">{t('cache.title')}</span>
+                  <button 
+                    onClick={() => { setIsCacheManagerOpen(true); setIsSettingsOpen(false); }}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-md font-medium bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:text-emerald-600 transition-colors"
+                  >
+                    <Icons.Database className="w-3.5 h-3.5" /> {t('settings.manage')}
+                  </button>
+                </div>
+
+                {/* Offline Reading */}
+                <div className="mt-6 pt-4 border-t border-slate-100 dark:border-slate-800 flex items-center justify-between">
+                  <span className="text-sm text-slate-600 dark:text-slate-400">{t('offline.title')}</span>
+                  <button 
+                    onClick={() => { setIsOfflineLibraryOpen(true); setIsSettingsOpen(false); }}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-md font-medium bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:text-emerald-600 transition-colors"
+                  >
+                    <Icons.Download className="w-3.5 h-3.5" /> {t('settings.manage')}
+                  </button>
+                </div>
+
+                {/* Data Source */}
+                <div className="mt-6 pt-4 border-t border-slate-100 dark:border-slate-800">
+                  <span className="block text-sm text-slate-600 dark:text-slate-400 mb-2">{t('settings.quranData')}</span>
+                  <div className="flex bg-slate-100 dark:bg-slate-800 rounded-lg p-1">
+                    <button 
+                      onClick={() => handleDataSourceChange('remote')}
+                      className={`flex-1 flex items-center justify-center gap-1.5 py-1.5 text-xs rounded-md font-medium transition-all ${dataSource === 'remote' ? 'bg-white dark:bg-slate-700 text-emerald-600 shadow-sm' : 'text-slate-400'}`}
+                    >
+                      <Icons.Cloud className="w-3.5 h-3.5" /> {t('settings.online')}
+                    </button>
+                    <button 
+                      onClick={() => handleDataSourceChange('local')}
+                      className={`flex-1 flex items-center justify-center gap-1.5 py-1.5 text-xs rounded-md font-medium transition-all ${dataSource === 'local' ? 'bg-white dark:bg-slate-700 text-emerald-600 shadow-sm' : 'text-slate-400'}`}
+                    >
+                      <Icons.HardDrive className="w-3.5 h-3.5" /> {t('settings.offline')}
+                    </button>
+                  </div>
+                </div>
               </div>
             )}
           </div>
+          </div>
         </header>
 
         {/* Scrollable Content */}
@@ -451,10 +1401,27 @@ function App() {
           ref={mainScrollRef}
           className="flex-1 overflow-y-auto p-4 md:p-8 custom-scrollbar relative"
         >
+          {notice && (
+             <div className="mb-6 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400 px-4 py-3 rounded-lg border border-emerald-200 dark:border-emerald-800 flex items-center gap-2">
+               <Icons.BadgeCheck className="w-5 h-5" />
+               <span className="flex-1">{notice}</span>
+               <button onClick={() => setNotice(null)}><Icons.X className="w-4 h-4" /></button>
+             </div>
+          )}
+
           {error && (
              <div className="mb-6 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 px-4 py-3 rounded-lg border border-red-200 dark:border-red-800 flex items-center gap-2">
-               <Icons.Info className="w-5 h-5" />
-               {error}
+               <Icons.Info className="w-5 h-5 shrink-0" />
+               <span className="flex-1">{error.message}</span>
+               {error.retry && (
+                 <button
+                   onClick={error.retry}
+                   className="shrink-0 flex items-center gap-1 text-xs font-semibold px-2.5 py-1.5 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
+                 >
+                   <Icons.RefreshCw className="w-3.5 h-3.5" />
+                   {t('errors.retry')}
+                 </button>
+               )}
              </div>
           )}
 
@@ -465,27 +1432,74 @@ function App() {
                   <Icons.Sparkles className="w-8 h-8" />
                 </div>
                 <h1 className="text-3xl md:text-5xl font-bold mb-4 bg-clip-text text-transparent bg-gradient-to-r from-slate-900 to-slate-600 dark:from-white dark:to-slate-400">
-                  {language === 'bn' ? 'কুরআন জিজ্ঞাসা করুন' : 'Ask the Quran'}
+                  {searchMode === 'ai'
+                    ? t('search.askTitle')
+                    : t('search.textTitle')}
                 </h1>
                 <p className="text-lg text-slate-500 dark:text-slate-400 max-w-xl mx-auto">
-                  {language === 'bn' 
-                    ? 'বাংলা বা ইংরেজিতে অনুসন্ধান করুন। এআই এর মাধ্যমে জানুন সঠিক তথ্য।' 
-                    : 'Search with natural language. Discover guidance through AI-powered semantic search.'}
+                  {searchMode === 'ai'
+                    ? t('search.askSubtitle')
+                    : t('search.textSubtitle')}
                 </p>
               </div>
 
+              {/* Continue Reading */}
+              {lastRead && (
+                <div className="mb-8">
+                <button
+                  onClick={() => selectSearchResult(lastRead.surahNumber, lastRead.ayahNumber)}
+                  className="inline-flex items-center gap-3 ps-3 pe-5 py-2.5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-sm hover:border-emerald-400 transition-colors text-start font-sans"
+                >
+                  <span className="flex items-center justify-center w-9 h-9 rounded-full bg-emerald-100 dark:bg-emerald-900/40 text-emerald-600 dark:text-emerald-400">
+                    <Icons.Play className="w-4 h-4" />
+                  </span>
+                  <span className="flex flex-col">
+                    <span className="text-xs text-slate-400">{t('search.continueReading')}</span>
+                    <span className="text-sm font-semibold text-slate-700 dark:text-slate-200">
+                      {lastRead.surahNameEnglish} {formatAyahRef(lastRead.surahNumber, lastRead.ayahNumber, language)}
+                    </span>
+                  </span>
+                  <span className="ms-3 text-xs font-medium text-emerald-600 dark:text-emerald-400">
+                    {t('search.khatmPercent', { percent: formatPercent(khatm.percent, language) })}
+                  </span>
+                </button>
+                </div>
+              )}
+
+              {/* Search Mode Toggle */}
+              <div className="inline-flex bg-slate-100 dark:bg-slate-800 rounded-full p-1 mb-6 font-sans">
+                <button 
+                  onClick={() => setSearchMode('ai')}
+                  disabled={!isAiAvailable}
+                  title={isAiAvailable ? undefined : t('offline.aiUnavailable')}
+                  className={`flex items-center gap-1.5 px-4 py-1.5 text-sm rounded-full font-medium transition-all disabled:opacity-40 ${searchMode === 'ai' ? 'bg-white dark:bg-slate-700 text-emerald-600 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+                >
+                  <Icons.Sparkles className="w-4 h-4" />
+                  {t('search.askMode')}
+                </button>
+                <button 
+                  onClick={() => setSearchMode('text')}
+                  className={`flex items-center gap-1.5 px-4 py-1.5 text-sm rounded-full font-medium transition-all ${searchMode === 'text' ? 'bg-white dark:bg-slate-700 text-emerald-600 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+                >
+                  <Icons.Type className="w-4 h-4" />
+                  {t('search.exactText')}
+                </button>
+              </div>
+
               <form onSubmit={handleSearch} className="relative max-w-2xl mx-auto mb-12">
                 <input 
                   type="text" 
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  placeholder={language === 'bn' ? "উদাহরণ: ধৈর্য সম্পর্কে কুরআন কি বলে?" : "Example: What does Quran say about patience?"}
-                  className="w-full pl-6 pr-14 py-4 rounded-full border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-lg shadow-sm focus:border-emerald-500 focus:ring-0 transition-colors"
+                  placeholder={searchMode === 'ai'
+                    ? t('search.askPlaceholder')
+                    : t('search.textPlaceholder')}
+                  className="w-full ps-6 pe-14 py-4 rounded-full border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-lg shadow-sm focus:border-emerald-500 focus:ring-0 transition-colors"
                 />
                 <button 
                   type="submit"
                   disabled={isSearching}
-                  className="absolute right-2 top-2 p-2.5 bg-emerald-600 hover:bg-emerald-700 text-white rounded-full transition-colors disabled:bg-slate-400"
+                  className="absolute end-2 top-2 p-2.5 bg-emerald-600 hover:bg-emerald-700 text-white rounded-full transition-colors disabled:bg-slate-400"
                 >
                   {isSearching ? (
                     <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin" />
@@ -495,32 +1509,36 @@ function App() {
                 </button>
               </form>
 
-              {searchResults.length > 0 && (
-                <div className="text-left space-y-4 animate-in slide-in-from-bottom-4 duration-500">
+              {searchMode === 'text' && textSearchResults.length > 0 && (
+                <div className="text-start space-y-4 animate-in slide-in-from-bottom-4 duration-500">
                   <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider px-2">
-                    {language === 'bn' ? 'প্রস্তাবিত আয়াতসমূহ' : 'Suggested Verses'}
+                    {textSearchTotal > textSearchResults.length
+                      ? t('search.showingFirst', { shown: textSearchResults.length, count: textSearchTotal })
+                      : t('search.matchingAyahs', { count: textSearchResults.length })}
                   </h2>
-                  {searchResults.map((result, index) => (
-                    <button
-                      key={index}
-                      onClick={() => selectSearchResult(result.surahNumber, result.ayahNumber)}
-                      className="w-full group bg-white dark:bg-slate-800 p-5 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-emerald-400 dark:hover:border-emerald-500 transition-all hover:shadow-md text-left"
-                    >
-                      <div className="flex justify-between items-start mb-2">
-                        <div className="flex gap-2 items-center">
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-400 font-sans">
-                            Surah {result.surahNumber}, Ayah {result.ayahNumber}
-                          </span>
-                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-bold font-sans ${result.confidenceScore > 80 ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-400'}`}>
-                             {result.confidenceScore}% Match
-                          </span>
-                        </div>
-                        <Icons.ChevronRight className="w-4 h-4 text-slate-300 group-hover:text-emerald-500 transition-colors" />
-                      </div>
-                      <p className={`text-slate-600 dark:text-slate-300 text-sm leading-relaxed ${language === 'bn' ? 'font-bengali' : 'font-sans'}`}>
-                        {result.reasoning}
-                      </p>
-                    </button>
+                  {textSearchResults.map(result => (
+                    <TextSearchResultCard
+                      key={`${result.surahNumber}:${result.ayahNumber}`}
+                      result={result}
+                      language={language}
+                      onSelect={() => selectSearchResult(result.surahNumber, result.ayahNumber)}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {searchMode === 'ai' && searchResults.length > 0 && (
+                <div className="text-start space-y-4 animate-in slide-in-from-bottom-4 duration-500">
+                  <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider px-2">
+                    {t('search.suggested')}
+                  </h2>
+                  {searchResults.map(result => (
+                    <SearchResultCard
+                      key={`${result.surahNumber}:${result.ayahNumber}`}
+                      result={result}
+                      language={language}
+                      onSelect={() => selectSearchResult(result.surahNumber, result.ayahNumber)}
+                    />
                   ))}
                 </div>
               )}
@@ -528,7 +1546,7 @@ function App() {
           ) : (
             // Reader Mode
             <div 
-              className="max-w-4xl mx-auto pb-24 min-h-[60vh] outline-none"
+              className={`max-w-4xl mx-auto ${isAudioPlayerOpen ? 'pb-44' : 'pb-24'} min-h-[60vh] outline-none`}
               onTouchStart={onTouchStart}
               onTouchMove={onTouchMove}
               onTouchEnd={onTouchEnd}
@@ -536,7 +1554,7 @@ function App() {
               {isLoadingAyah ? (
                 <div className="flex flex-col items-center justify-center h-64">
                    <div className="w-12 h-12 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin mb-4"></div>
-                   <p className="text-slate-400">{language === 'bn' ? 'লোড হচ্ছে...' : 'Loading Ayah...'}</p>
+                   <p className="text-slate-400">{t('reader.loadingAyah')}</p>
                 </div>
               ) : ayahData ? (
                 <>
@@ -545,81 +1563,205 @@ function App() {
                        onClick={() => setViewMode('search')}
                        className="text-slate-500 hover:text-emerald-600 flex items-center gap-1 text-sm font-medium transition-colors font-sans"
                     >
-                      <Icons.ChevronLeft className="w-4 h-4" /> {language === 'bn' ? 'অনুসন্ধানে ফিরে যান' : 'Back to Search'}
+                      <Icons.ChevronLeft className="w-4 h-4 rtl:rotate-180" /> {t('reader.backToSearch')}
                     </button>
                     
-                    {currentSurah && (
-                      <button 
-                         onClick={handleSurahOverview}
-                         className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gold-600 dark:text-gold-400 hover:bg-gold-50 dark:hover:bg-gold-900/20 px-3 py-2 rounded-lg transition-colors font-sans"
+                    <div className="flex items-center gap-2">
+                      {/* Reading Mode Toggle */}
+                      <div className="flex bg-slate-100 dark:bg-slate-800 rounded-lg p-1 font-sans">
+                        <button 
+                          onClick={() => handleReadingModeChange('ayah')}
+                          className={`px-3 py-1 text-xs rounded-md font-medium transition-all ${readingMode === 'ayah' ? 'bg-white dark:bg-slate-700 text-emerald-600 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+                        >
+                          {t('reader.modeAyah')}
+                        </button>
+                        <button 
+                          onClick={() => handleReadingModeChange('surah')}
+                          className={`px-3 py-1 text-xs rounded-md font-medium transition-all ${readingMode === 'surah' ? 'bg-white dark:bg-slate-700 text-emerald-600 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+                        >
+                          {t('reader.modeSurah')}
+                        </button>
+                      </div>
+
+                      <button
+                         onClick={handleHifzToggle}
+                         title={t('hifz.mode')}
+                         className={`flex items-center gap-2 text-xs font-bold uppercase tracking-wider px-3 py-2 rounded-lg transition-colors font-sans ${isHifzMode ? 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
                       >
-                        <Icons.Info className="w-4 h-4" />
-                        {language === 'bn' ? 'সূরা পরিচিতি' : 'Surah Overview'}
+                        <Icons.Brain className="w-4 h-4" />
+                        <span className="hidden sm:inline">{t('hifz.title')}</span>
                       </button>
-                    )}
-                  </div>
 
-                  <AyahView 
-                    data={ayahData} 
-                    language={language}
-                    isActive={true}
-                    isLoadingTafsir={isLoadingTafsir}
-                    onTafsirClick={handleViewTafsir}
-                    arabicFontSize={arabicFontSize}
-                    translationFontSize={translationFontSize}
-                  />
+                      {!isAudioPlayerOpen && (
+                        <button
+                           onClick={() => handlePlayAyah(ayahData)}
+                           className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-emerald-600 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 px-3 py-2 rounded-lg transition-colors font-sans"
+                        >
+                          <Icons.Volume2 className="w-4 h-4" />
+                          <span className="hidden sm:inline">{t('audio.listen')}</span>
+                        </button>
+                      )}
 
-                  {/* Pagination Controls */}
-                  <div className="fixed bottom-0 left-0 lg:left-72 right-0 bg-white dark:bg-slate-950 border-t border-slate-200 dark:border-slate-800 p-4 flex justify-between items-center z-10 px-6 md:px-12 font-sans">
-                     <button 
-                       onClick={handlePrevAyah}
-                       className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-300 transition-colors"
-                     >
-                       <Icons.ChevronLeft className="w-5 h-5" />
-                       <span className="hidden sm:inline">Prev</span>
-                     </button>
-
-                     <div className="flex flex-col items-center">
-                       <span className="text-xs text-slate-500 dark:text-slate-400 font-medium mb-1">
-                         {currentSurah?.englishName} {currentSurah?.number}
-                       </span>
-                       <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-900 rounded-md px-2 py-0.5">
-                         <span className="text-xs text-slate-400">Ayah</span>
-                         <input 
-                            type="number" 
-                            value={currentAyahNum}
-                            onChange={handleJumpToAyah}
-                            className="w-10 text-center bg-transparent text-sm font-bold text-slate-800 dark:text-white border-none p-0 focus:ring-0"
-                         />
-                         <span className="text-[10px] text-slate-400">/ {currentSurah?.numberOfAyahs}</span>
-                       </div>
-                     </div>
+                      {currentSurah && (
+                        <button
+                           onClick={() => { setPassageRange(null); setIsPassageOpen(true); }}
+                           className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-emerald-600 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 px-3 py-2 rounded-lg transition-colors font-sans"
+                        >
+                          <Icons.Layers className="w-4 h-4" />
+                          <span className="hidden sm:inline">{t('passage.short')}</span>
+                        </button>
+                      )}
 
-                     <button 
-                       onClick={handleNextAyah}
-                       className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-300 transition-colors"
-                     >
-                       <span className="hidden sm:inline">Next</span>
-                       <Icons.ChevronRight className="w-5 h-5" />
-                     </button>
+                      {currentSurah && (
+                        <button 
+                           onClick={() => handleSurahOverview()}
+                           className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gold-600 dark:text-gold-400 hover:bg-gold-50 dark:hover:bg-gold-900/20 px-3 py-2 rounded-lg transition-colors font-sans"
+                        >
+                          <Icons.Info className="w-4 h-4" />
+                          <span className="hidden sm:inline">{t('overview.title')}</span>
+                        </button>
+                      )}
+                    </div>
                   </div>
+
+                  {readingMode === 'surah' && currentSurah ? (
+                    <SurahReader
+                      ayahs={surahAyahs}
+                      language={language}
+                      editions={activeEditions}
+                      activeAyah={currentAyahNum}
+                      totalAyahs={currentSurah.numberOfAyahs}
+                      isLoadingTafsir={isLoadingTafsir}
+                      isLoadingMore={isLoadingMoreAyahs}
+                      arabicFontSize={arabicFontSize}
+                      translationFontSize={translationFontSize}
+                      scrollRoot={mainScrollRef}
+                      onActiveAyahChange={isAudioPlaying ? () => {} : handleActiveAyahChange} // Follow the recitation, not the scroll, while playing
+                      onTafsirClick={handleViewTafsir}
+                      bookmarksByKey={bookmarksByKey}
+                      notesByKey={notesByKey}
+                      onBookmarkClick={setBookmarkEditorAyah}
+                      onNoteClick={setNoteEditorAyah}
+                      onWordClick={handleWordClick}
+                      playingAyah={isAudioPlaying ? currentAyahNum : null}
+                      onPlayClick={handlePlayAyah}
+                      onLoadPrevious={() => loadMoreAyahs('previous')}
+                      onLoadNext={() => loadMoreAyahs('next')}
+                    />
+                  ) : (
+                    <AyahView 
+                      data={ayahData} 
+                      language={language}
+                      editions={activeEditions}
+                      isActive={true}
+                      isLoadingTafsir={isLoadingTafsir}
+                      onTafsirClick={() => handleViewTafsir()}
+                      arabicFontSize={arabicFontSize}
+                      translationFontSize={translationFontSize}
+                      bookmark={bookmarksByKey.get(ayahKey(ayahData.surahNumber, ayahData.ayahNumber))}
+                      note={notesByKey.get(ayahKey(ayahData.surahNumber, ayahData.ayahNumber))}
+                      onBookmarkClick={() => setBookmarkEditorAyah(ayahData)}
+                      onNoteClick={() => setNoteEditorAyah(ayahData)}
+                      onWordClick={(wordIndex) => hiddenWords?.has(wordIndex)
+                        ? setRevealedWords(prev => new Set(prev).add(wordIndex))
+                        : handleWordClick(ayahData, wordIndex)}
+                      hiddenWords={hiddenWords}
+                      isPlaying={isAudioPlaying}
+                      onPlayClick={() => handlePlayAyah(ayahData)}
+                    />
+                  )}
+
+                  {hifzMaskedWords && (
+                    <HifzControls
+                      card={hifzCardsByKey.get(ayahKey(ayahData.surahNumber, ayahData.ayahNumber))}
+                      maskStyle={hifzMaskStyle}
+                      maskLevel={hifzMaskLevel}
+                      hiddenCount={hiddenWords?.size ?? 0}
+                      reviewRemaining={reviewQueue ? reviewQueue.length : null}
+                      language={language}
+                      onMaskStyleChange={setHifzMaskStyle}
+                      onMaskLevelChange={setHifzMaskLevel}
+                      onRevealAll={() => setRevealedWords(new Set(hifzMaskedWords))}
+                      onGrade={handleHifzGrade}
+                    />
+                  )}
+
                 </>
               ) : (
                 <div className="text-center py-20 text-slate-400 font-sans">
-                  Select a Surah or Search to begin.
+                  {t('reader.emptyState')}
                 </div>
               )}
             </div>
           )}
         </div>
+
+        {/* Recitation Player & Pagination Controls */}
+        {viewMode === 'reader' && currentSurah && (
+          <div className="fixed bottom-0 start-0 lg:start-72 end-0 bg-white dark:bg-slate-950 border-t border-slate-200 dark:border-slate-800 z-10">
+            {isAudioPlayerOpen && ayahData && (
+              <AudioPlayerBar
+                ayah={ayahData}
+                surah={currentSurah}
+                isPlaying={isAudioPlaying}
+                language={language}
+                onPlayingChange={setIsAudioPlaying}
+                onAdvance={handleNextAyah}
+                onJumpTo={(ayahNumber) => goToAyah(currentSurah.number, ayahNumber)}
+                onClose={() => {
+                  setIsAudioPlaying(false);
+                  setIsAudioPlayerOpen(false);
+                }}
+              />
+            )}
+            <div className="p-4 flex justify-between items-center px-6 md:px-12 font-sans">
+               <button 
+                 onClick={handlePrevAyah}
+                 className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-300 transition-colors"
+               >
+                 <Icons.ChevronLeft className="w-5 h-5 rtl:rotate-180" />
+                 <span className="hidden sm:inline">{t('reader.previous')}</span>
+               </button>
+
+               <div className="flex flex-col items-center">
+                 <span className="text-xs text-slate-500 dark:text-slate-400 font-medium mb-1">
+                   {currentSurah?.englishName} {formatNumber(currentSurah.number, language)}
+                 </span>
+                 <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-900 rounded-md px-2 py-0.5">
+                   <span className="text-xs text-slate-400">{t('reader.modeAyah')}</span>
+                   <input 
+                      type="number" 
+                      value={currentAyahNum}
+                      onChange={handleJumpToAyah}
+                      className="w-10 text-center bg-transparent text-sm font-bold text-slate-800 dark:text-white border-none p-0 focus:ring-0"
+                   />
+                   <span className="text-[10px] text-slate-400">/ {formatNumber(currentSurah.numberOfAyahs, language)}</span>
+                 </div>
+               </div>
+
+               <button 
+                 onClick={handleNextAyah}
+                 className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-300 transition-colors"
+               >
+                 <span className="hidden sm:inline">{t('reader.next')}</span>
+                 <Icons.ChevronRight className="w-5 h-5 rtl:rotate-180" />
+               </button>
+            </div>
+          </div>
+        )}
       </main>
 
       {/* Tafsir Modal */}
       <TafsirModal 
         isOpen={isTafsirOpen} 
-        onClose={() => setIsTafsirOpen(false)} 
+        onClose={handleCloseTafsir} 
         data={tafsirData} 
+        ayah={ayahData}
+        draft={tafsirDraft}
         isLoading={isLoadingTafsir} 
+        language={language}
+        cachedAt={tafsirCachedAt}
+        onRegenerate={() => handleViewTafsir(ayahData, true)}
       />
 
       {/* Surah Overview Modal */}
@@ -629,6 +1771,88 @@ function App() {
         data={overviewData}
         isLoading={isLoadingOverview}
         language={language}
+        cachedAt={overviewCachedAt}
+        onRegenerate={() => handleSurahOverview(currentSurah, true)}
+      />
+
+      {/* Passage Tafsir */}
+      <PassageTafsirModal
+        isOpen={isPassageOpen}
+        onClose={() => setIsPassageOpen(false)}
+        surah={currentSurah}
+        ayahNumber={currentAyahNum}
+        initialRange={passageRange}
+        language={language}
+      />
+
+      {/* Command Palette */}
+      <CommandPalette
+        isOpen={isPaletteOpen}
+        onClose={() => setIsPaletteOpen(false)}
+        language={language}
+        surahs={surahs}
+        actions={paletteActions}
+        onGoTo={selectSearchResult}
+        onOpenPassage={openPassageRange}
+        onSearch={isAiAvailable ? searchFromPalette : undefined}
+      />
+
+      {/* Bookmark & Note Editors */}
+      <BookmarkEditorModal
+        ayah={bookmarkEditorAyah}
+        bookmark={bookmarkEditorAyah ? bookmarksByKey.get(ayahKey(bookmarkEditorAyah.surahNumber, bookmarkEditorAyah.ayahNumber)) : undefined}
+        folders={bookmarkFolders}
+        language={language}
+        onClose={() => setBookmarkEditorAyah(null)}
+        onSave={handleSaveBookmark}
+        onRemove={handleRemoveBookmark}
+        onCreateFolder={handleCreateFolder}
+      />
+      <NoteEditorModal
+        ayah={noteEditorAyah}
+        note={noteEditorAyah ? notesByKey.get(ayahKey(noteEditorAyah.surahNumber, noteEditorAyah.ayahNumber)) : undefined}
+        language={language}
+        onClose={() => setNoteEditorAyah(null)}
+        onSave={handleSaveNote}
+      />
+
+      {/* Word-by-word Analysis */}
+      <WordAnalysisPanel
+        ayah={wordPanel?.ayah ?? null}
+        wordIndex={wordPanel?.wordIndex ?? 0}
+        result={wordAnalysis}
+        isLoading={isLoadingWords}
+        error={wordError}
+        language={language}
+        onClose={closeWordPanel}
+        onSelectWord={(wordIndex) => wordPanel && setWordPanel({ ...wordPanel, wordIndex })}
+        onRegenerate={() => wordPanel && handleWordClick(wordPanel.ayah, wordPanel.wordIndex, true)}
+      />
+
+      {/* AI Cache Manager */}
+      <CacheManagerModal
+        isOpen={isCacheManagerOpen}
+        onClose={() => setIsCacheManagerOpen(false)}
+        language={language}
+      />
+
+      {/* Offline Reading */}
+      <OfflineLibraryModal
+        isOpen={isOfflineLibraryOpen}
+        onClose={() => setIsOfflineLibraryOpen(false)}
+        language={language}
+        surahs={surahs}
+        dataSource={dataSource}
+      />
+
+      {/* Translation Editions */}
+      <TranslationPickerModal
+        isOpen={isTranslationPickerOpen}
+        onClose={() => setIsTranslationPickerOpen(false)}
+        language={language}
+        catalog={translationCatalog}
+        selection={translationSelection}
+        onChange={handleTranslationSelectionChange}
       />
     </div>
   );
@@ -0,0 +1,261 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AyahDisplayData, Surah, Language } from '../types';
+import { RecitationService, RECITERS, PLAYBACK_SPEEDS } from '../services/recitationService';
+import { Icons } from './Icons';
+import { getTranslator, formatAyahRef, formatNumber } from '../services/i18n';
+
+interface AudioPlayerBarProps {
+  ayah: AyahDisplayData; // Ayah being recited
+  surah: Surah;
+  isPlaying: boolean;
+  language: Language;
+  onPlayingChange: (isPlaying: boolean) => void;
+  onAdvance: () => void; // Move the reader to the next ayah
+  onJumpTo: (ayahNumber: number) => void; // Move the reader to an ayah of the current surah
+  onClose: () => void;
+}
+
+interface RepeatRange {
+  enabled: boolean;
+  from: number;
+  to: number;
+  count: number; // Times to play the range; 0 repeats until stopped
+}
+
+const REPEAT_COUNTS = [1, 2, 3, 5, 7, 10, 0];
+
+export const AudioPlayerBar: React.FC<AudioPlayerBarProps> = ({
+  ayah,
+  surah,
+  isPlaying,
+  language,
+  onPlayingChange,
+  onAdvance,
+  onJumpTo,
+  onClose
+}) => {
+  const t = getTranslator(language);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const passesRef = useRef(0); // Completed plays of the repeat range
+  const [reciterId, setReciterId] = useState(() => RecitationService.getReciterId());
+  const [speed, setSpeed] = useState(() => RecitationService.getSpeed());
+  const [repeat, setRepeat] = useState<RepeatRange>({ enabled: false, from: ayah.ayahNumber, to: ayah.ayahNumber, count: 3 });
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const src = RecitationService.getAudioUrl(reciterId, ayah.surahNumber, ayah.ayahNumber);
+
+  // Start or stop playback, including after the ayah (source) changes
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (isPlaying) {
+      audio.play().catch((e: DOMException) => {
+        if (e.name !== 'AbortError') onPlayingChange(false); // AbortError: superseded by a newer source
+      });
+    } else {
+      audio.pause();
+    }
+  }, [src, isPlaying]);
+
+  // Loading a new source resets playbackRate to defaultPlaybackRate, so set both
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.defaultPlaybackRate = speed;
+    audio.playbackRate = speed;
+  }, [speed, src]);
+
+  useEffect(() => {
+    setError(null);
+    setProgress(0);
+  }, [src]);
+
+  // A repeat range only applies to the surah it was set in
+  useEffect(() => {
+    passesRef.current = 0;
+    setRepeat(r => ({ ...r, enabled: false }));
+  }, [surah.number]);
+
+  // Detached audio elements keep playing, so stop on unmount
+  useEffect(() => {
+    const audio = audioRef.current;
+    return () => audio?.pause();
+  }, []);
+
+  const isOutsideRange = repeat.enabled && (ayah.ayahNumber < repeat.from || ayah.ayahNumber > repeat.to);
+
+  const handleTogglePlay = () => {
+    if (!isPlaying && isOutsideRange) {
+      passesRef.current = 0;
+      onJumpTo(repeat.from);
+    }
+    onPlayingChange(!isPlaying);
+  };
+
+  const handleEnded = () => {
+    if (repeat.enabled && ayah.ayahNumber === repeat.to) {
+      passesRef.current += 1;
+      if (repeat.count === 0 || passesRef.current < repeat.count) {
+        if (repeat.from === ayah.ayahNumber) {
+          audioRef.current!.currentTime = 0;
+          audioRef.current!.play().catch(() => onPlayingChange(false));
+        } else {
+          onJumpTo(repeat.from);
+        }
+        return;
+      }
+      passesRef.current = 0;
+      onPlayingChange(false);
+      return;
+    }
+    if (ayah.surahNumber === 114 && ayah.ayahNumber === surah.numberOfAyahs) {
+      onPlayingChange(false);
+      return;
+    }
+    onAdvance();
+  };
+
+  const handleRepeatToggle = () => {
+    passesRef.current = 0;
+    setRepeat(r => r.enabled
+      ? { ...r, enabled: false }
+      : { ...r, enabled: true, from: ayah.ayahNumber, to: ayah.ayahNumber });
+  };
+
+  const updateRange = (field: 'from' | 'to', value: string) => {
+    const n = parseInt(value);
+    if (isNaN(n)) return;
+    const clamped = Math.min(Math.max(n, 1), surah.numberOfAyahs);
+    passesRef.current = 0;
+    setRepeat(r => field === 'from'
+      ? { ...r, from: clamped, to: Math.max(r.to, clamped) }
+      : { ...r, to: clamped, from: Math.min(r.from, clamped) });
+  };
+
+  const selectClass = "text-xs bg-slate-100 dark:bg-slate-900 border-none rounded-md py-1 ps-2 pe-6 text-slate-600 dark:text-slate-300 focus:ring-1 focus:ring-emerald-500";
+  const numberClass = "w-12 text-center text-xs bg-slate-100 dark:bg-slate-900 border-none rounded-md py-1 px-1 text-slate-700 dark:text-slate-200 focus:ring-1 focus:ring-emerald-500";
+
+  return (
+    <div className="border-b border-slate-200 dark:border-slate-800 px-4 md:px-12 py-2 space-y-2 font-sans">
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="auto"
+        onEnded={handleEnded}
+        onTimeUpdate={(e) => {
+          const { currentTime, duration } = e.currentTarget;
+          setProgress(duration ? currentTime / duration : 0);
+        }}
+        onError={() => {
+          setError(t('audio.unavailable'));
+          onPlayingChange(false);
+        }}
+      />
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleTogglePlay}
+          title={isPlaying ? t('common.pause') : t('common.play')}
+          className="flex items-center justify-center w-9 h-9 shrink-0 rounded-full bg-emerald-600 hover:bg-emerald-700 text-white transition-colors"
+        >
+          {isPlaying ? <Icons.Pause className="w-4 h-4" /> : <Icons.Play className="w-4 h-4 ml-0.5" />}
+        </button>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between text-xs mb-1">
+            <span className="font-semibold text-slate-700 dark:text-slate-200 truncate">
+              {ayah.surahNameEnglish} {formatAyahRef(ayah.surahNumber, ayah.ayahNumber, language)}
+            </span>
+            {error && <span className="text-red-500 truncate ms-2">{error}</span>}
+          </div>
+          <div className="h-1 rounded-full bg-slate-200 dark:bg-slate-800 overflow-hidden">
+            <div className="h-full bg-emerald-500" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+
+        <button
+          onClick={handleRepeatToggle}
+          title={t('audio.repeat')}
+          className={`p-1.5 rounded-lg transition-colors ${repeat.enabled ? 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-600 dark:text-emerald-400' : 'text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+        >
+          <Icons.Repeat className="w-4 h-4" />
+        </button>
+
+        <select
+          value={speed}
+          onChange={(e) => {
+            const next = Number(e.target.value);
+            setSpeed(next);
+            RecitationService.setSpeed(next);
+          }}
+          title={t('audio.speed')}
+          className={selectClass}
+        >
+          {PLAYBACK_SPEEDS.map(s => <option key={s} value={s}>{formatNumber(s, language)}×</option>)}
+        </select>
+
+        <select
+          value={reciterId}
+          onChange={(e) => {
+            setReciterId(e.target.value);
+            RecitationService.setReciterId(e.target.value);
+          }}
+          title={t('audio.reciter')}
+          className={`${selectClass} hidden sm:block max-w-[11rem]`}
+        >
+          {RECITERS.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+        </select>
+
+        <button
+          onClick={onClose}
+          title={t('audio.close')}
+          className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+        >
+          <Icons.X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {repeat.enabled && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500 dark:text-slate-400 ps-12">
+          <span>{t('audio.ayahs')}</span>
+          <input
+            type="number"
+            min={1}
+            max={surah.numberOfAyahs}
+            value={repeat.from}
+            onChange={(e) => updateRange('from', e.target.value)}
+            className={numberClass}
+          />
+          <span>–</span>
+          <input
+            type="number"
+            min={1}
+            max={surah.numberOfAyahs}
+            value={repeat.to}
+            onChange={(e) => updateRange('to', e.target.value)}
+            className={numberClass}
+          />
+          <span>×</span>
+          <select
+            value={repeat.count}
+            onChange={(e) => {
+              passesRef.current = 0;
+              setRepeat(r => ({ ...r, count: Number(e.target.value) }));
+            }}
+            className={selectClass}
+          >
+            {REPEAT_COUNTS.map(c => (
+              <option key={c} value={c}>{c === 0 ? '∞' : formatNumber(c, language)}</option>
+            ))}
+          </select>
+          {isOutsideRange && (
+            <span className="text-gold-600 dark:text-gold-400">
+              {t('audio.outsideRange')}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,47 +1,107 @@
 import React from 'react';
-import { AyahDisplayData, Language } from '../types';
+import ReactMarkdown from 'react-markdown';
+import { AyahDisplayData, Edition, Language, Bookmark, AyahNote } from '../types';
 import { Icons } from './Icons';
+import { BOOKMARK_COLOR_CLASSES } from './bookmarkColors';
+import { tokenizeAyah } from '../services/morphologyService';
+import { primaryTranslation } from '../services/translationService';
+import { DivisionService } from '../services/divisionService';
+import { getTranslator, languageInfo, isLanguage, formatAyahRef } from '../services/i18n';
 
 interface AyahViewProps {
   data: AyahDisplayData;
   language: Language;
+  editions: Edition[]; // Translations to show, in order
   onTafsirClick: () => void;
   isLoadingTafsir: boolean;
   isActive: boolean; // Is this the currently focused ayah?
   arabicFontSize: number;
   translationFontSize: number;
+  bookmark?: Bookmark;
+  note?: AyahNote;
+  onBookmarkClick?: () => void;
+  onNoteClick?: () => void;
+  onWordClick?: (wordIndex: number) => void; // Makes each Arabic word tappable
+  hiddenWords?: Set<number>; // Hifz mode: indexes of words to mask
+  isPlaying?: boolean; // Is this ayah being recited?
+  onPlayClick?: () => void;
 }
 
 export const AyahView: React.FC<AyahViewProps> = ({ 
   data, 
   language, 
+  editions,
   onTafsirClick, 
   isLoadingTafsir, 
   isActive,
   arabicFontSize,
-  translationFontSize
+  translationFontSize,
+  bookmark,
+  note,
+  onBookmarkClick,
+  onNoteClick,
+  onWordClick,
+  hiddenWords,
+  isPlaying,
+  onPlayClick
 }) => {
-  const translation = language === 'bn' ? data.textBn : data.textEn;
+  const t = getTranslator(language);
+  const shownEditions = editions.filter(e => data.translations[e.identifier]);
+  const editionFont = (edition: Edition) => isLanguage(edition.language)
+    ? languageInfo(edition.language).fontClass
+    : edition.direction === 'rtl' ? 'font-arabic' : 'font-sans';
 
   return (
-    <div className={`p-6 rounded-2xl transition-all duration-300 border ${isActive ? 'bg-white dark:bg-slate-800 border-emerald-500 shadow-lg ring-1 ring-emerald-500/50' : 'bg-white/50 dark:bg-slate-800/50 border-slate-200 dark:border-slate-700 hover:border-emerald-300 dark:hover:border-emerald-700'}`}>
+    <div className={`p-6 rounded-2xl transition-all duration-300 border ${isPlaying ? 'bg-white dark:bg-slate-800 border-gold-500 shadow-lg ring-1 ring-gold-500/50' : isActive ? 'bg-white dark:bg-slate-800 border-emerald-500 shadow-lg ring-1 ring-emerald-500/50' : 'bg-white/50 dark:bg-slate-800/50 border-slate-200 dark:border-slate-700 hover:border-emerald-300 dark:hover:border-emerald-700'}`}>
       {/* Header */}
       <div className="flex justify-between items-center mb-6 border-b border-slate-100 dark:border-slate-700 pb-4">
-        <span className="text-sm font-medium text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-900 px-3 py-1 rounded-full">
-          {data.surahNameEnglish} {data.surahNumber}:{data.ayahNumber}
-        </span>
+        <div className="flex flex-col items-start gap-1">
+          <span className="text-sm font-medium text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-900 px-3 py-1 rounded-full">
+            {data.surahNameEnglish} {formatAyahRef(data.surahNumber, data.ayahNumber, language)}
+          </span>
+          <span className="px-3 text-[10px] text-slate-400 font-sans">
+            {t('divisions.juzNumber', { number: data.juz })} · {t('divisions.pageNumber', { number: data.page })} · {t('divisions.rukuNumber', { number: DivisionService.rukuInSurah(data.ruku) })}
+          </span>
+        </div>
         <div className="flex gap-2">
+           {onPlayClick && (
+             <button
+               onClick={onPlayClick}
+               title={isPlaying ? t('common.pause') : t('reader.playRecitation')}
+               className={`p-1.5 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors ${isPlaying ? 'text-gold-500' : 'text-slate-400'}`}
+             >
+               {isPlaying ? <Icons.Volume2 className="w-4 h-4 animate-pulse" /> : <Icons.Play className="w-4 h-4" />}
+             </button>
+           )}
+           {onBookmarkClick && (
+             <button
+               onClick={onBookmarkClick}
+               title={t('reader.bookmark')}
+               className={`p-1.5 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors ${bookmark ? BOOKMARK_COLOR_CLASSES[bookmark.color].text : 'text-slate-400'}`}
+             >
+               <Icons.Bookmark className="w-4 h-4" fill={bookmark ? 'currentColor' : 'none'} />
+             </button>
+           )}
+           {onNoteClick && (
+             <button
+               onClick={onNoteClick}
+               title={t('reader.note')}
+               className={`p-1.5 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors ${note ? 'text-gold-500' : 'text-slate-400'}`}
+             >
+               <Icons.NotebookPen className="w-4 h-4" />
+             </button>
+           )}
            <button 
              onClick={onTafsirClick}
              disabled={isLoadingTafsir}
              className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-emerald-600 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/30 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
            >
              {isLoadingTafsir ? (
-               <span className="animate-pulse">Loading...</span> 
+               <span className="animate-pulse">{t('common.loading')}</span> 
              ) : (
                <>
                  <Icons.BookHeart className="w-4 h-4" />
-                 {language === 'bn' ? 'তাফসীর পড়ুন' : 'Read Tafsir'}
+                 {t('reader.readTafsir')}
                </>
              )}
            </button>
@@ -54,19 +114,72 @@ export const AyahView: React.FC<AyahViewProps> = ({
           className="font-arabic leading-[2.2] text-slate-800 dark:text-slate-100 font-normal transition-all duration-200"
           style={{ fontSize: `${arabicFontSize}px` }}
         >
-          {data.arabicText}
+          {onWordClick ? tokenizeAyah(data.arabicText).map((token, i) => (
+            <React.Fragment key={i}>
+              {i > 0 && ' '}
+              {token.wordIndex === null ? token.text : (
+                <span
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => onWordClick(token.wordIndex!)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') onWordClick(token.wordIndex!); }}
+                  className={hiddenWords?.has(token.wordIndex)
+                    ? "cursor-pointer rounded-md text-transparent bg-slate-200 dark:bg-slate-700 select-none transition-colors"
+                    : "cursor-pointer rounded-md hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 transition-colors"}
+                >
+                  {token.text}
+                </span>
+              )}
+            </React.Fragment>
+          )) : data.arabicText}
         </p>
       </div>
 
-      {/* Translation */}
-      <div className="text-left">
-        <p 
-          className={`text-slate-600 dark:text-slate-300 leading-relaxed transition-all duration-200 ${language === 'bn' ? 'font-bengali' : 'font-sans'}`}
-          style={{ fontSize: `${translationFontSize}px` }}
+      {/* Translations */}
+      {shownEditions.length === 0 ? (
+        <div className="text-start">
+          <p 
+            className={`text-slate-600 dark:text-slate-300 leading-relaxed transition-all duration-200 ${languageInfo(language).fontClass}`}
+            style={{ fontSize: `${translationFontSize}px` }}
+          >
+            {primaryTranslation(data, language) || t('reader.translationUnavailable')}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {shownEditions.map(edition => (
+            <div key={edition.identifier} dir={edition.direction === 'rtl' ? 'rtl' : 'ltr'} className="text-start">
+              {shownEditions.length > 1 && (
+                <span className="block mb-1 text-[10px] font-bold uppercase tracking-wider text-slate-400 font-sans">
+                  {edition.englishName} · {edition.language}
+                </span>
+              )}
+              <p 
+                className={`text-slate-600 dark:text-slate-300 leading-relaxed transition-all duration-200 ${editionFont(edition)}`}
+                style={{ fontSize: `${translationFontSize}px` }}
+              >
+                {data.translations[edition.identifier]}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Personal Note */}
+      {note && (
+        <button
+          onClick={onNoteClick}
+          className="mt-6 w-full text-start p-4 rounded-xl bg-gold-50/60 dark:bg-gold-900/10 border border-gold-200/60 dark:border-gold-800/40 hover:border-gold-400 transition-colors"
         >
-          {translation}
-        </p>
-      </div>
+          <span className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-gold-600 dark:text-gold-400 mb-2 font-sans">
+            <Icons.NotebookPen className="w-3 h-3" />
+            {t('reader.myNote')}
+          </span>
+          <div className={`prose prose-sm dark:prose-invert max-w-none text-slate-600 dark:text-slate-300 line-clamp-4 ${languageInfo(language).fontClass}`}>
+            <ReactMarkdown>{note.markdown}</ReactMarkdown>
+          </div>
+        </button>
+      )}
     </div>
   );
 };
\ No newline at end of file
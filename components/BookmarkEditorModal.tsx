@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { AyahDisplayData, Bookmark, BookmarkColor, BookmarkFolder, Language } from '../types';
+import { BOOKMARK_COLORS } from '../services/studyDataService';
+import { BOOKMARK_COLOR_CLASSES } from './bookmarkColors';
+import { Icons } from './Icons';
+import { getTranslator, formatAyahRef } from '../services/i18n';
+
+interface BookmarkEditorModalProps {
+  ayah: AyahDisplayData | null; // Modal is open while set
+  bookmark?: Bookmark;
+  folders: BookmarkFolder[];
+  language: Language;
+  onClose: () => void;
+  onSave: (options: { folderId: string | null; color: BookmarkColor }) => void;
+  onRemove: () => void;
+  onCreateFolder: (name: string, color: BookmarkColor) => Promise<BookmarkFolder | null>; // null when it could not be saved
+}
+
+export const BookmarkEditorModal: React.FC<BookmarkEditorModalProps> = ({
+  ayah,
+  bookmark,
+  folders,
+  language,
+  onClose,
+  onSave,
+  onRemove,
+  onCreateFolder
+}) => {
+  const t = getTranslator(language);
+  const [color, setColor] = useState<BookmarkColor>('emerald');
+  const [folderId, setFolderId] = useState<string | null>(null);
+  const [newFolderName, setNewFolderName] = useState('');
+
+  useEffect(() => {
+    setColor(bookmark?.color ?? 'emerald');
+    setFolderId(bookmark?.folderId ?? null);
+    setNewFolderName('');
+  }, [ayah, bookmark]);
+
+  if (!ayah) return null;
+
+  const handleCreateFolder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newFolderName.trim()) return;
+    const folder = await onCreateFolder(newFolderName, color);
+    if (!folder) return;
+    setFolderId(folder.id);
+    setNewFolderName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+      {/* Backdrop */}
+      <div 
+        className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm transition-opacity" 
+        onClick={onClose}
+      ></div>
+
+      {/* Modal Content */}
+      <div className="relative w-full max-w-sm bg-white dark:bg-slate-800 rounded-2xl shadow-2xl overflow-hidden flex flex-col animate-in fade-in zoom-in-95 duration-200 font-sans">
+        
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
+            <Icons.Bookmark className="w-5 h-5 text-emerald-600" />
+            {ayah.surahNameEnglish} {formatAyahRef(ayah.surahNumber, ayah.ayahNumber, language)}
+          </h3>
+          <button 
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400 transition-colors"
+          >
+            <Icons.X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          {/* Color */}
+          <div>
+            <span className="block text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">
+              {t('study.color')}
+            </span>
+            <div className="flex gap-2">
+              {BOOKMARK_COLORS.map(c => (
+                <button
+                  key={c}
+                  onClick={() => setColor(c)}
+                  className={`w-7 h-7 rounded-full ${BOOKMARK_COLOR_CLASSES[c].dot} transition-transform ${color === c ? 'ring-2 ring-offset-2 ring-slate-400 dark:ring-offset-slate-800 scale-110' : 'opacity-70 hover:opacity-100'}`}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Folder */}
+          <div>
+            <span className="block text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">
+              {t('study.folder')}
+            </span>
+            <select
+              value={folderId ?? ''}
+              onChange={(e) => setFolderId(e.target.value || null)}
+              className="w-full text-sm bg-slate-100 dark:bg-slate-900 border-none rounded-lg py-2 px-3 text-slate-700 dark:text-slate-300 focus:ring-1 focus:ring-emerald-500"
+            >
+              <option value="">{t('study.noFolder')}</option>
+              {folders.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+            </select>
+            <form onSubmit={handleCreateFolder} className="flex gap-2 mt-2">
+              <input
+                type="text"
+                value={newFolderName}
+                onChange={(e) => setNewFolderName(e.target.value)}
+                placeholder={t('study.newFolder')}
+                className="flex-1 text-sm bg-slate-100 dark:bg-slate-900 border-none rounded-lg py-2 px-3 text-slate-700 dark:text-slate-300 focus:ring-1 focus:ring-emerald-500 placeholder-slate-400"
+              />
+              <button type="submit" className="p-2 rounded-lg text-slate-500 hover:text-emerald-600 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors">
+                <Icons.FolderPlus className="w-4 h-4" />
+              </button>
+            </form>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-between items-center px-6 py-4 border-t border-slate-200 dark:border-slate-700">
+          {bookmark ? (
+            <button
+              onClick={onRemove}
+              className="flex items-center gap-1.5 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 px-3 py-2 rounded-lg transition-colors"
+            >
+              <Icons.Trash2 className="w-4 h-4" />
+              {t('study.remove')}
+            </button>
+          ) : <span />}
+          <button
+            onClick={() => onSave({ folderId, color })}
+            className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-medium transition-colors"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
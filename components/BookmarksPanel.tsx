@@ -0,0 +1,135 @@
+import React, { useRef } from 'react';
+import { Bookmark, BookmarkFolder, AyahNote, Language } from '../types';
+import { BOOKMARK_COLOR_CLASSES } from './bookmarkColors';
+import { Icons } from './Icons';
+import { getTranslator, languageInfo, formatAyahRef, formatNumber } from '../services/i18n';
+
+interface BookmarksPanelProps {
+  folders: BookmarkFolder[];
+  bookmarks: Bookmark[];
+  notes: AyahNote[];
+  language: Language;
+  onSelect: (surahNumber: number, ayahNumber: number) => void;
+  onDeleteFolder: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+export const BookmarksPanel: React.FC<BookmarksPanelProps> = ({
+  folders,
+  bookmarks,
+  notes,
+  language,
+  onSelect,
+  onDeleteFolder,
+  onExport,
+  onImport
+}) => {
+  const t = getTranslator(language);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const groups = [
+    ...folders.map(folder => ({ folder, items: bookmarks.filter(b => b.folderId === folder.id) })),
+    { folder: null, items: bookmarks.filter(b => !b.folderId || !folders.some(f => f.id === b.folderId)) },
+  ].filter(g => g.folder || g.items.length > 0);
+
+  const sectionTitle = "px-4 py-2 text-xs font-bold text-slate-400 uppercase tracking-wider font-sans";
+
+  return (
+    <div className="font-sans">
+      {/* Import / Export */}
+      <div className="flex gap-2 px-4 pb-3">
+        <button
+          onClick={onExport}
+          className="flex-1 flex items-center justify-center gap-1.5 py-1.5 text-xs rounded-md font-medium bg-slate-100 dark:bg-slate-900 text-slate-600 dark:text-slate-300 hover:text-emerald-600 transition-colors"
+        >
+          <Icons.Download className="w-3.5 h-3.5" /> {t('study.export')}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 flex items-center justify-center gap-1.5 py-1.5 text-xs rounded-md font-medium bg-slate-100 dark:bg-slate-900 text-slate-600 dark:text-slate-300 hover:text-emerald-600 transition-colors"
+        >
+          <Icons.Upload className="w-3.5 h-3.5" /> {t('study.import')}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className={sectionTitle}>{t('study.bookmarks')}</div>
+      {bookmarks.length === 0 && folders.length === 0 && (
+        <div className="px-4 py-3 text-center text-xs text-slate-400">
+          {t('study.noBookmarks')}
+        </div>
+      )}
+      {groups.map(({ folder, items }) => (
+        <div key={folder?.id ?? 'unfiled'} className="mb-2">
+          <div className="flex items-center justify-between px-4 py-1.5">
+            <span className="flex items-center gap-2 text-xs font-semibold text-slate-600 dark:text-slate-300">
+              {folder ? (
+                <Icons.Folder className={`w-3.5 h-3.5 ${BOOKMARK_COLOR_CLASSES[folder.color].text}`} />
+              ) : (
+                <Icons.Bookmark className="w-3.5 h-3.5 text-slate-400" />
+              )}
+              {folder ? folder.name : t('study.unfiled')}
+              <span className="text-[10px] text-slate-400">{formatNumber(items.length, language)}</span>
+            </span>
+            {folder && (
+              <button
+                onClick={() => onDeleteFolder(folder.id)}
+                title={t('study.deleteFolder')}
+                className="p-1 rounded text-slate-300 hover:text-red-500 transition-colors"
+              >
+                <Icons.Trash2 className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+          <div className="space-y-0.5">
+            {items.map(b => (
+              <button
+                key={b.key}
+                onClick={() => onSelect(b.surahNumber, b.ayahNumber)}
+                className="w-full flex items-center gap-2 ps-9 pe-4 py-1.5 rounded-lg text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-900 transition-colors"
+              >
+                <span className={`w-2 h-2 rounded-full shrink-0 ${BOOKMARK_COLOR_CLASSES[b.color].dot}`} />
+                <span className="truncate">{b.surahNameEnglish}</span>
+                <span className="ms-auto text-xs font-mono text-slate-400">{formatAyahRef(b.surahNumber, b.ayahNumber, language)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className={`${sectionTitle} mt-2`}>{t('study.notes')}</div>
+      {notes.length === 0 && (
+        <div className="px-4 py-3 text-center text-xs text-slate-400">
+          {t('study.noNotes')}
+        </div>
+      )}
+      <div className="space-y-0.5">
+        {notes.map(n => (
+          <button
+            key={n.key}
+            onClick={() => onSelect(n.surahNumber, n.ayahNumber)}
+            className="w-full flex flex-col items-start px-4 py-2 rounded-lg text-start hover:bg-slate-100 dark:hover:bg-slate-900 transition-colors"
+          >
+            <span className="flex items-center gap-1.5 text-xs font-mono text-gold-600 dark:text-gold-400">
+              <Icons.NotebookPen className="w-3 h-3" /> {formatAyahRef(n.surahNumber, n.ayahNumber, language)}
+            </span>
+            <span className={`text-xs text-slate-500 dark:text-slate-400 line-clamp-2 ${languageInfo(language).fontClass}`}>
+              {n.markdown.replace(/[#*_>`]/g, '').slice(0, 140)}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
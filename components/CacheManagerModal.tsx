@@ -0,0 +1,165 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AiCacheEntry, AiCacheKind, Language } from '../types';
+import { AiCacheService } from '../services/aiCacheService';
+import { Icons } from './Icons';
+import { getTranslator, formatDate, MessageKey } from '../services/i18n';
+
+interface CacheManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  language: Language;
+}
+
+const LIMIT_OPTIONS_MB = [1, 5, 10, 25, 50];
+
+const KIND_LABELS: Record<AiCacheKind, MessageKey> = {
+  tafsir: 'cache.kind.tafsir',
+  comparison: 'cache.kind.comparison',
+  passage: 'cache.kind.passage',
+  overview: 'cache.kind.overview',
+  morphology: 'cache.kind.morphology',
+};
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+
+export const CacheManagerModal: React.FC<CacheManagerModalProps> = ({ isOpen, onClose, language }) => {
+  const t = getTranslator(language);
+  const [entries, setEntries] = useState<AiCacheEntry[]>([]);
+  const [limit, setLimit] = useState(AiCacheService.getLimit());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(await AiCacheService.list());
+    } catch (e) {
+      setError(t('cache.readError'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [language]);
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refresh]);
+
+  if (!isOpen) return null;
+
+  const totalSize = entries.reduce((sum, e) => sum + e.size, 0);
+
+  const handleRemove = async (key: string) => {
+    await AiCacheService.remove(key);
+    refresh();
+  };
+
+  const handleClear = async () => {
+    await AiCacheService.clear();
+    refresh();
+  };
+
+  const handleLimitChange = async (megabytes: number) => {
+    const bytes = megabytes * 1024 * 1024;
+    setLimit(bytes);
+    await AiCacheService.setLimit(bytes);
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+      {/* Backdrop */}
+      <div 
+        className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm transition-opacity" 
+        onClick={onClose}
+      ></div>
+
+      {/* Modal Content */}
+      <div className="relative w-full max-w-2xl max-h-[85vh] bg-white dark:bg-slate-800 rounded-2xl shadow-2xl overflow-hidden flex flex-col animate-in fade-in zoom-in-95 duration-200">
+        
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
+            <Icons.Database className="w-5 h-5 text-emerald-600" />
+            {t('cache.title')}
+          </h3>
+          <button 
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400 transition-colors"
+          >
+            <Icons.X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Summary & Controls */}
+        <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-700 space-y-3 font-sans">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-slate-600 dark:text-slate-300">
+              {t('cache.entries', { count: entries.length })} · {formatBytes(totalSize)} / {formatBytes(limit)}
+            </span>
+            <button
+              onClick={handleClear}
+              disabled={entries.length === 0}
+              className="flex items-center gap-1.5 text-xs font-semibold text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-40"
+            >
+              <Icons.Trash2 className="w-4 h-4" />
+              {t('cache.clearAll')}
+            </button>
+          </div>
+          <div className="w-full h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+            <div className="h-full bg-emerald-500 transition-all" style={{ width: `${Math.min(100, (totalSize / limit) * 100)}%` }} />
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              {t('cache.sizeLimit')}
+            </span>
+            <select
+              value={Math.round(limit / (1024 * 1024))}
+              onChange={(e) => handleLimitChange(Number(e.target.value))}
+              className="text-xs bg-slate-100 dark:bg-slate-900 border-none rounded-md py-1 ps-2 pe-6 text-slate-700 dark:text-slate-300 focus:ring-1 focus:ring-emerald-500"
+            >
+              {LIMIT_OPTIONS_MB.map(mb => <option key={mb} value={mb}>{mb} MB</option>)}
+            </select>
+          </div>
+        </div>
+
+        {/* Scrollable Body */}
+        <div className="overflow-y-auto flex-1 p-4 custom-scrollbar font-sans">
+          {error && <div className="text-sm text-red-500 text-center py-4">{error}</div>}
+          {isLoading && entries.length === 0 ? (
+            <div className="flex justify-center py-10">
+              <div className="w-8 h-8 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center text-sm text-slate-400 py-10">
+              {t('cache.empty')}
+            </div>
+          ) : (
+            <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+              {entries.map(entry => (
+                <li key={entry.key} className="flex items-center justify-between py-2.5 px-2 text-sm">
+                  <div className="flex flex-col">
+                    <span className="font-medium text-slate-700 dark:text-slate-200">
+                      {t(KIND_LABELS[entry.kind])} {entry.ayahNumber === null ? entry.surahNumber : `${entry.surahNumber}:${entry.kind === 'passage' ? entry.variant : entry.ayahNumber}`}
+                      <span className="ms-2 text-[10px] uppercase px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400">{entry.language}</span>
+                    </span>
+                    <span className="text-[11px] text-slate-400">
+                      {formatBytes(entry.size)} · {entry.model} · {t('cache.lastUsed', { date: formatDate(entry.lastAccessed, language) })}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(entry.key)}
+                    className="p-1.5 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                  >
+                    <Icons.Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
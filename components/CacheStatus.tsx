@@ -0,0 +1,41 @@
+import React, { useSyncExternalStore } from 'react';
+import { Language } from '../types';
+import { Icons } from './Icons';
+import { OfflineService } from '../services/offlineService';
+import { getTranslator, formatDate } from '../services/i18n';
+
+interface CacheStatusProps {
+  cachedAt: number | null;
+  onRegenerate: () => void;
+  language: Language;
+}
+
+/**
+ * Header control for AI modals: shows whether the content came from the cache and offers a fresh generation.
+ */
+export const CacheStatus: React.FC<CacheStatusProps> = ({ cachedAt, onRegenerate, language }) => {
+  const t = getTranslator(language);
+  const isOnline = useSyncExternalStore(OfflineService.subscribe, OfflineService.isOnline);
+  return (
+    <div className="flex items-center gap-2 font-sans">
+      {cachedAt !== null && (
+        <span
+          title={formatDate(cachedAt, language)}
+          className="hidden sm:inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300"
+        >
+          <Icons.Database className="w-3 h-3" />
+          {t('cache.cached')} · {formatDate(cachedAt, language, { dateStyle: 'short' })}
+        </span>
+      )}
+      <button
+        onClick={onRegenerate}
+        disabled={!isOnline}
+        title={isOnline ? undefined : t('offline.aiUnavailable')}
+        className="flex items-center gap-1 text-xs font-semibold text-emerald-600 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/30 px-2.5 py-1.5 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+      >
+        <Icons.RefreshCw className="w-3.5 h-3.5" />
+        {t('cache.regenerate')}
+      </button>
+    </div>
+  );
+};
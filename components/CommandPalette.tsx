@@ -0,0 +1,167 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Language, ParsedReference, Surah } from '../types';
+import { parseReference, matchSurahNames } from '../services/referenceParser';
+import { Icons } from './Icons';
+import { getTranslator, formatAyahRef, formatNumber } from '../services/i18n';
+
+export interface PaletteAction {
+  id: string;
+  label: string;
+  icon: keyof typeof Icons;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  language: Language;
+  surahs: Surah[];
+  actions: PaletteAction[]; // App commands, filtered by what is typed
+  onGoTo: (surahNumber: number, ayahNumber: number) => void;
+  onOpenPassage: (reference: ParsedReference) => void; // For ranges such as 18:1-10
+  onSearch?: (query: string) => void; // AI search fallback; left out while AI is unavailable
+}
+
+// Surah suggestions shown for a partly typed name
+const MAX_SURAH_MATCHES = 5;
+
+/**
+ * Ctrl+K palette: jumps straight to typed references and surah names, runs app actions,
+ * and falls back to an AI search for anything else.
+ */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose, language, surahs, actions, onGoTo, onOpenPassage, onSearch }) => {
+  const t = getTranslator(language);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setSelected(0);
+    inputRef.current?.focus();
+  }, [isOpen]);
+
+  const items = useMemo((): PaletteAction[] => {
+    const text = query.trim();
+    const surahName = (n: number) => surahs.find(s => s.number === n)?.englishName ?? '';
+    const result: PaletteAction[] = [];
+
+    const reference = parseReference(text, surahs);
+    if (reference && reference.ayahNumber !== null) {
+      const { surahNumber, ayahNumber, toAyah } = reference;
+      result.push({
+        id: 'goto',
+        label: t('palette.goTo', { reference: `${surahName(surahNumber)} ${formatAyahRef(surahNumber, ayahNumber, language)}` }),
+        icon: 'BookOpen',
+        run: () => onGoTo(surahNumber, ayahNumber),
+      });
+      if (toAyah !== null) {
+        result.push({
+          id: 'passage',
+          label: t('palette.passage', { reference: `${surahName(surahNumber)} ${formatAyahRef(surahNumber, ayahNumber, language)}–${formatNumber(toAyah, language)}` }),
+          icon: 'Layers',
+          run: () => onOpenPassage(reference),
+        });
+      }
+    }
+
+    const openSurah = (surahNumber: number): PaletteAction => ({
+      id: `surah-${surahNumber}`,
+      label: t('palette.openSurah', { number: surahNumber, name: surahName(surahNumber) }),
+      icon: 'BookOpen',
+      run: () => onGoTo(surahNumber, 1),
+    });
+    // A full surah name opens it first; partial or translated names are only suggested after the search
+    if (reference && reference.ayahNumber === null) result.push(openSurah(reference.surahNumber));
+
+    const lowered = text.toLowerCase();
+    result.push(...actions.filter(a => !lowered || a.label.toLowerCase().includes(lowered)));
+
+    if (text && reference?.ayahNumber == null && onSearch) {
+      result.push({ id: 'search', label: t('palette.search', { query: text }), icon: 'Sparkles', run: () => onSearch(text) });
+    }
+    if (text && !reference) {
+      result.push(...matchSurahNames(text, surahs).slice(0, MAX_SURAH_MATCHES).map(openSurah));
+    }
+    return result;
+  }, [query, surahs, actions, language, onSearch]);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [query]);
+
+  if (!isOpen) return null;
+
+  const runItem = (item: PaletteAction | undefined) => {
+    if (!item) return;
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(i => Math.min(i + 1, items.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      runItem(items[selected]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-start justify-center p-4 pt-[15vh]">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      ></div>
+
+      <div className="relative w-full max-w-xl bg-white dark:bg-slate-800 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-150 font-sans">
+        <div className="flex items-center gap-3 px-4 border-b border-slate-200 dark:border-slate-700">
+          <Icons.Search className="w-5 h-5 text-slate-400 shrink-0" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={t('palette.placeholder')}
+            className="flex-1 py-4 bg-transparent border-none text-slate-800 dark:text-slate-100 placeholder-slate-400 focus:ring-0"
+          />
+          <kbd className="hidden sm:block px-1.5 py-0.5 text-[10px] rounded border border-slate-200 dark:border-slate-600 text-slate-400">Esc</kbd>
+        </div>
+
+        <ul className="max-h-80 overflow-y-auto custom-scrollbar p-2">
+          {items.map((item, i) => {
+            const Icon = Icons[item.icon];
+            return (
+              <li key={item.id}>
+                <button
+                  onClick={() => runItem(item)}
+                  onMouseMove={() => setSelected(i)}
+                  className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm text-start transition-colors ${i === selected ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300' : 'text-slate-600 dark:text-slate-300'}`}
+                >
+                  <Icon className="w-4 h-4 shrink-0" />
+                  <span className="truncate">{item.label}</span>
+                </button>
+              </li>
+            );
+          })}
+          {items.length === 0 && (
+            <li className="px-3 py-6 text-center text-xs text-slate-400">{t('palette.empty')}</li>
+          )}
+        </ul>
+
+        <div className="px-4 py-2 border-t border-slate-100 dark:border-slate-700 text-[11px] text-slate-400">
+          {t('palette.hint')}
+        </div>
+      </div>
+    </div>
+  );
+};
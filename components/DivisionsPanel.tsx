@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { AyahDivisions, QuranDivision, Surah, Language } from '../types';
+import { DivisionService } from '../services/divisionService';
+import { getTranslator, formatAyahRef, formatNumber, MessageKey } from '../services/i18n';
+
+interface DivisionsPanelProps {
+  surahs: Surah[];
+  language: Language;
+  current: AyahDivisions | null; // Divisions of the ayah being read, highlighted in the lists
+  onSelect: (surahNumber: number, ayahNumber: number) => void;
+}
+
+const DIVISION_LABELS: Record<QuranDivision, MessageKey> = {
+  juz: 'divisions.juz',
+  hizbQuarter: 'divisions.hizb',
+  manzil: 'divisions.manzil',
+  page: 'divisions.page',
+};
+
+const QUARTERS_PER_HIZB = 4;
+
+/**
+ * Jump lists for the juz, hizb, manzil and page divisions, each opening at the division's first ayah.
+ */
+export const DivisionsPanel: React.FC<DivisionsPanelProps> = ({ surahs, language, current, onSelect }) => {
+  const t = getTranslator(language);
+  const [division, setDivision] = useState<QuranDivision>('juz');
+
+  const numbers = (d: QuranDivision | 'ruku', per = 1) => Array.from({ length: DivisionService.count(d) / per }, (_, i) => i + 1);
+  const go = (d: QuranDivision, n: number) => {
+    const { surahNumber, ayahNumber } = DivisionService.start(d, n);
+    onSelect(surahNumber, ayahNumber);
+  };
+  const startLabel = (d: QuranDivision, n: number) => {
+    const { surahNumber, ayahNumber } = DivisionService.start(d, n);
+    const surah = surahs.find(s => s.number === surahNumber);
+    return `${surah ? `${surah.englishName} ` : ''}${formatAyahRef(surahNumber, ayahNumber, language)}`;
+  };
+
+  const rowClass = (isActive: boolean) => `w-full flex items-center justify-between gap-3 px-4 py-2 rounded-lg text-sm text-start transition-colors ${isActive ? 'bg-emerald-500 text-white shadow-md' : 'text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-900'}`;
+
+  return (
+    <div className="font-sans">
+      <div className="flex mx-4 mb-3 bg-slate-100 dark:bg-slate-900 rounded-lg p-1">
+        {(Object.keys(DIVISION_LABELS) as QuranDivision[]).map(d => (
+          <button
+            key={d}
+            onClick={() => setDivision(d)}
+            className={`flex-1 px-2 py-1 text-xs rounded-md font-medium transition-all ${division === d ? 'bg-white dark:bg-slate-700 text-emerald-600 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+          >
+            {t(DIVISION_LABELS[d])}
+          </button>
+        ))}
+      </div>
+
+      {division === 'page' ? (
+        <div className="grid grid-cols-6 gap-1 px-4">
+          {numbers('page').map(n => (
+            <button
+              key={n}
+              onClick={() => go('page', n)}
+              title={startLabel('page', n)}
+              className={`py-1.5 text-[11px] rounded transition-colors ${current?.page === n ? 'bg-emerald-500 text-white' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-900'}`}
+            >
+              {formatNumber(n, language, { useGrouping: false })}
+            </button>
+          ))}
+        </div>
+      ) : division === 'hizbQuarter' ? (
+        <div className="space-y-0.5">
+          {numbers('hizbQuarter', QUARTERS_PER_HIZB).map(hizb => {
+            const firstQuarter = (hizb - 1) * QUARTERS_PER_HIZB + 1;
+            const isActive = !!current && Math.ceil(current.hizbQuarter / QUARTERS_PER_HIZB) === hizb;
+            return (
+              <div key={hizb} className={rowClass(isActive)}>
+                <button onClick={() => go('hizbQuarter', firstQuarter)} className="flex flex-col items-start min-w-0">
+                  <span className="font-medium">{t('divisions.hizbNumber', { number: hizb })}</span>
+                  <span className="text-[10px] opacity-70 truncate">{startLabel('hizbQuarter', firstQuarter)}</span>
+                </button>
+                <span className="flex gap-1 shrink-0">
+                  {Array.from({ length: QUARTERS_PER_HIZB }, (_, i) => firstQuarter + i).map((quarter, i) => (
+                    <button
+                      key={quarter}
+                      onClick={() => go('hizbQuarter', quarter)}
+                      title={`${t('divisions.quarter', { number: i + 1 })} · ${startLabel('hizbQuarter', quarter)}`}
+                      className={`w-6 h-6 text-[10px] rounded-full border transition-colors ${current?.hizbQuarter === quarter ? 'bg-white text-emerald-600 border-white' : isActive ? 'border-white/40 hover:bg-white/20' : 'border-slate-300 dark:border-slate-700 text-slate-500 hover:border-emerald-400'}`}
+                    >
+                      {formatNumber(i + 1, language)}
+                    </button>
+                  ))}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="space-y-0.5">
+          {numbers(division).map(n => (
+            <button key={n} onClick={() => go(division, n)} className={rowClass(current?.[division] === n)}>
+              <span className="font-medium">
+                {t(division === 'juz' ? 'divisions.juzNumber' : 'divisions.manzilNumber', { number: n })}
+              </span>
+              <span className="text-[10px] opacity-70 truncate">{startLabel(division, n)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
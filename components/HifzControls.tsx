@@ -0,0 +1,123 @@
+import React from 'react';
+import { HifzCard, HifzGrade, HifzMaskStyle, Language } from '../types';
+import { MASK_LEVELS, isMemorized } from '../services/hifzService';
+import { Icons } from './Icons';
+import { getTranslator, languageInfo, formatDate, formatPercent, MessageKey } from '../services/i18n';
+
+interface HifzControlsProps {
+  card?: HifzCard;
+  maskStyle: HifzMaskStyle;
+  maskLevel: number;
+  hiddenCount: number; // Words still hidden after reveals
+  reviewRemaining: number | null; // Cards left in the review session, if one is running
+  language: Language;
+  onMaskStyleChange: (style: HifzMaskStyle) => void;
+  onMaskLevelChange: (level: number) => void;
+  onRevealAll: () => void;
+  onGrade: (grade: HifzGrade) => void;
+}
+
+const GRADES: Array<{ grade: HifzGrade; label: MessageKey; className: string }> = [
+  { grade: 1, label: 'hifz.grade.forgot', className: 'bg-red-50 text-red-600 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-800' },
+  { grade: 3, label: 'hifz.grade.hard', className: 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-800' },
+  { grade: 4, label: 'hifz.grade.good', className: 'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-800' },
+  { grade: 5, label: 'hifz.grade.easy', className: 'bg-sky-50 text-sky-700 border-sky-200 dark:bg-sky-900/20 dark:text-sky-400 dark:border-sky-800' },
+];
+
+export const HifzControls: React.FC<HifzControlsProps> = ({
+  card,
+  maskStyle,
+  maskLevel,
+  hiddenCount,
+  reviewRemaining,
+  language,
+  onMaskStyleChange,
+  onMaskLevelChange,
+  onRevealAll,
+  onGrade
+}) => {
+  const t = getTranslator(language);
+  const formatDue = (time: number) => formatDate(time, language, { month: 'short', day: 'numeric' });
+
+  return (
+    <div className="mt-4 p-4 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 space-y-4 font-sans">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-emerald-600 dark:text-emerald-400">
+          <Icons.Brain className="w-4 h-4" />
+          {t('hifz.title')}
+          {reviewRemaining !== null && (
+            <span className="normal-case font-medium text-slate-400">
+              · {t('hifz.reviewRemaining', { count: reviewRemaining })}
+            </span>
+          )}
+        </span>
+
+        {/* Mask controls */}
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-100 dark:bg-slate-900 rounded-lg p-1">
+            {(['words', 'lines'] as HifzMaskStyle[]).map(style => (
+              <button
+                key={style}
+                onClick={() => onMaskStyleChange(style)}
+                className={`px-2.5 py-0.5 text-xs rounded-md font-medium transition-all ${maskStyle === style ? 'bg-white dark:bg-slate-700 text-emerald-600 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+              >
+                {style === 'words' ? t('hifz.maskWords') : t('hifz.maskLines')}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-900 rounded-lg p-1">
+            <button
+              onClick={() => onMaskLevelChange(maskLevel - 1)}
+              disabled={maskLevel <= 0}
+              title={t('hifz.hideLess')}
+              className="p-1 rounded-md text-slate-500 hover:bg-white dark:hover:bg-slate-700 disabled:opacity-30"
+            >
+              <Icons.Minus className="w-3 h-3" />
+            </button>
+            <span className="w-10 text-center text-xs font-semibold text-slate-600 dark:text-slate-300">
+              {formatPercent((maskLevel / MASK_LEVELS) * 100, language)}
+            </span>
+            <button
+              onClick={() => onMaskLevelChange(maskLevel + 1)}
+              disabled={maskLevel >= MASK_LEVELS}
+              title={t('hifz.hideMore')}
+              className="p-1 rounded-md text-slate-500 hover:bg-white dark:hover:bg-slate-700 disabled:opacity-30"
+            >
+              <Icons.Plus className="w-3 h-3" />
+            </button>
+          </div>
+          <button
+            onClick={onRevealAll}
+            disabled={hiddenCount === 0}
+            className="flex items-center gap-1 px-2.5 py-1.5 text-xs rounded-lg font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 transition-colors"
+          >
+            <Icons.Eye className="w-3.5 h-3.5" /> {t('hifz.revealAll')}
+          </button>
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-400">
+        {t('hifz.instructions')}
+      </p>
+
+      {/* Self-grading */}
+      <div className="grid grid-cols-4 gap-2">
+        {GRADES.map(({ grade, label, className }) => (
+          <button
+            key={grade}
+            onClick={() => onGrade(grade)}
+            className={`py-2 text-sm font-semibold rounded-lg border transition-opacity hover:opacity-80 ${className} ${languageInfo(language).fontClass}`}
+          >
+            {t(label)}
+          </button>
+        ))}
+      </div>
+
+      <div className="text-[11px] text-slate-400">
+        {card
+          ? `${isMemorized(card) ? `${t('hifz.memorized')} · ` : ''}${t('hifz.nextReview', { date: formatDue(card.dueAt), count: card.intervalDays })}`
+          : t('hifz.newCard')}
+      </div>
+    </div>
+  );
+};
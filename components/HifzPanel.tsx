@@ -0,0 +1,90 @@
+import React from 'react';
+import { HifzCard, Surah, Language } from '../types';
+import { isDue, isMemorized } from '../services/hifzService';
+import { Icons } from './Icons';
+import { getTranslator, formatAyahRef, formatNumber } from '../services/i18n';
+
+interface HifzPanelProps {
+  cards: HifzCard[];
+  surahs: Surah[];
+  language: Language;
+  onStartReview: () => void;
+  onSelect: (surahNumber: number, ayahNumber: number) => void;
+}
+
+export const HifzPanel: React.FC<HifzPanelProps> = ({ cards, surahs, language, onStartReview, onSelect }) => {
+  const t = getTranslator(language);
+  const sectionTitle = "px-4 py-2 text-xs font-bold text-slate-400 uppercase tracking-wider font-sans";
+  const due = cards.filter(c => isDue(c)).sort((a, b) => a.dueAt - b.dueAt);
+
+  const perSurah = surahs
+    .map(surah => {
+      const surahCards = cards.filter(c => c.surahNumber === surah.number);
+      const memorized = surahCards.filter(isMemorized).length;
+      return { surah, memorized, learning: surahCards.length - memorized };
+    })
+    .filter(s => s.memorized + s.learning > 0);
+
+  return (
+    <div className="font-sans">
+      {/* Daily Review */}
+      <div className={sectionTitle}>{t('hifz.todaysReview')}</div>
+      <div className="mx-4 mb-4 p-3 rounded-xl bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-800">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-slate-600 dark:text-slate-300">
+            {t('hifz.due', { count: due.length })}
+          </span>
+          <button
+            onClick={onStartReview}
+            disabled={due.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white disabled:bg-slate-300 dark:disabled:bg-slate-700 transition-colors"
+          >
+            <Icons.Brain className="w-3.5 h-3.5" /> {t('hifz.start')}
+          </button>
+        </div>
+        {due.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {due.slice(0, 12).map(c => (
+              <button
+                key={c.key}
+                onClick={() => onSelect(c.surahNumber, c.ayahNumber)}
+                className="px-1.5 py-0.5 text-[10px] font-mono rounded bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-500 hover:text-emerald-600 transition-colors"
+              >
+                {formatAyahRef(c.surahNumber, c.ayahNumber, language)}
+              </button>
+            ))}
+            {due.length > 12 && <span className="text-[10px] text-slate-400 self-center">+{formatNumber(due.length - 12, language)}</span>}
+          </div>
+        )}
+      </div>
+
+      {/* Per-surah memorization */}
+      <div className={sectionTitle}>{t('hifz.bySurah')}</div>
+      {perSurah.length === 0 && (
+        <div className="px-4 py-3 text-center text-xs text-slate-400">
+          {t('hifz.empty')}
+        </div>
+      )}
+      <div className="space-y-0.5">
+        {perSurah.map(({ surah, memorized, learning }) => (
+          <button
+            key={surah.number}
+            onClick={() => onSelect(surah.number, 1)}
+            className="w-full flex flex-col gap-1 px-4 py-2 rounded-lg text-start hover:bg-slate-100 dark:hover:bg-slate-900 transition-colors"
+          >
+            <span className="w-full flex items-center justify-between text-sm text-slate-700 dark:text-slate-300">
+              <span className="truncate">{formatNumber(surah.number, language)}. {surah.englishName}</span>
+              <span className="text-[10px] text-slate-400">
+                {t('hifz.surahProgress', { memorized, learning, total: surah.numberOfAyahs })}
+              </span>
+            </span>
+            <span className="flex w-full h-1 rounded-full overflow-hidden bg-slate-200 dark:bg-slate-800">
+              <span className="h-full bg-emerald-500" style={{ width: `${(memorized / surah.numberOfAyahs) * 100}%` }} />
+              <span className="h-full bg-emerald-300 dark:bg-emerald-700" style={{ width: `${(learning / surah.numberOfAyahs) * 100}%` }} />
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React from 'react';
-import { BookOpen, Search, Menu, X, ChevronRight, ChevronLeft, Sparkles, BookHeart, Info, Settings, Sun, Moon, Type, Minus, Plus, ArrowUp } from 'lucide-react';
+import { BookOpen, Search, Menu, X, ChevronRight, ChevronLeft, Sparkles, BookHeart, Info, Settings, Sun, Moon, Type, Minus, Plus, ArrowUp, Cloud, HardDrive, BadgeCheck, AlertTriangle, Database, Trash2, RefreshCw, Bookmark, NotebookPen, Folder, FolderPlus, Download, Upload, History, Play, Pause, Repeat, Volume2, Brain, Eye, Languages, MessageCircle, Send, Columns2, Link2, Layers, WifiOff } from 'lucide-react';
 
 export const Icons = {
   BookOpen,
@@ -17,5 +17,32 @@ export const Icons = {
   Type,
   Minus,
   Plus,
-  ArrowUp
+  ArrowUp,
+  Cloud,
+  HardDrive,
+  BadgeCheck,
+  AlertTriangle,
+  Database,
+  Trash2,
+  RefreshCw,
+  Bookmark,
+  NotebookPen,
+  Folder,
+  FolderPlus,
+  Download,
+  Upload,
+  History,
+  Play,
+  Pause,
+  Repeat,
+  Volume2,
+  Brain,
+  Eye,
+  Languages,
+  MessageCircle,
+  Send,
+  Columns2,
+  Link2,
+  Layers,
+  WifiOff
 };
\ No newline at end of file
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { AyahDisplayData, AyahNote, Language } from '../types';
+import { primaryTranslation } from '../services/translationService';
+import { getTranslator, languageInfo, formatAyahRef } from '../services/i18n';
+import { Icons } from './Icons';
+
+interface NoteEditorModalProps {
+  ayah: AyahDisplayData | null; // Modal is open while set
+  note?: AyahNote;
+  language: Language;
+  onClose: () => void;
+  onSave: (markdown: string) => void;
+}
+
+export const NoteEditorModal: React.FC<NoteEditorModalProps> = ({ ayah, note, language, onClose, onSave }) => {
+  const t = getTranslator(language);
+  const [markdown, setMarkdown] = useState('');
+  const [isPreview, setIsPreview] = useState(false);
+
+  useEffect(() => {
+    setMarkdown(note?.markdown ?? '');
+    setIsPreview(false);
+  }, [ayah, note]);
+
+  if (!ayah) return null;
+
+  const translation = primaryTranslation(ayah, language);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+      {/* Backdrop */}
+      <div 
+        className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm transition-opacity" 
+        onClick={onClose}
+      ></div>
+
+      {/* Modal Content */}
+      <div className="relative w-full max-w-2xl max-h-[85vh] bg-white dark:bg-slate-800 rounded-2xl shadow-2xl overflow-hidden flex flex-col animate-in fade-in zoom-in-95 duration-200">
+        
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2 font-sans">
+            <Icons.NotebookPen className="w-5 h-5 text-gold-500" />
+            {t('reader.note')} · {ayah.surahNameEnglish} {formatAyahRef(ayah.surahNumber, ayah.ayahNumber, language)}
+          </h3>
+          <button 
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400 transition-colors"
+          >
+            <Icons.X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Scrollable Body */}
+        <div className="overflow-y-auto flex-1 p-6 custom-scrollbar space-y-4">
+          <p className={`text-sm text-slate-500 dark:text-slate-400 italic ${languageInfo(language).fontClass}`}>
+            {translation}
+          </p>
+
+          <div className="flex bg-slate-100 dark:bg-slate-900 rounded-lg p-1 w-fit font-sans">
+            <button
+              onClick={() => setIsPreview(false)}
+              className={`px-3 py-1 text-xs rounded-md font-medium transition-all ${!isPreview ? 'bg-white dark:bg-slate-700 text-emerald-600 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+            >
+              {t('study.write')}
+            </button>
+            <button
+              onClick={() => setIsPreview(true)}
+              className={`px-3 py-1 text-xs rounded-md font-medium transition-all ${isPreview ? 'bg-white dark:bg-slate-700 text-emerald-600 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+            >
+              {t('study.preview')}
+            </button>
+          </div>
+
+          {isPreview ? (
+            <div className={`prose prose-slate dark:prose-invert max-w-none min-h-[12rem] ${languageInfo(language).fontClass}`}>
+              <ReactMarkdown>{markdown || t('study.emptyNote')}</ReactMarkdown>
+            </div>
+          ) : (
+            <textarea
+              value={markdown}
+              onChange={(e) => setMarkdown(e.target.value)}
+              autoFocus
+              rows={10}
+              placeholder={t('study.notePlaceholder')}
+              className={`w-full p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 focus:border-emerald-500 focus:ring-0 resize-y ${languageInfo(language).fontClass}`}
+            />
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-between items-center px-6 py-4 border-t border-slate-200 dark:border-slate-700 font-sans">
+          {note ? (
+            <button
+              onClick={() => onSave('')}
+              className="flex items-center gap-1.5 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 px-3 py-2 rounded-lg transition-colors"
+            >
+              <Icons.Trash2 className="w-4 h-4" />
+              {t('common.delete')}
+            </button>
+          ) : <span />}
+          <button
+            onClick={() => onSave(markdown)}
+            className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-medium transition-colors"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
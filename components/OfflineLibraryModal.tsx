@@ -0,0 +1,222 @@
+import React, { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { Language, OfflineSurahSummary, QuranDataSource, Surah } from '../types';
+import { QuranService } from '../services/quranService';
+import { OfflineLibraryService } from '../services/offlineLibraryService';
+import { OfflineService } from '../services/offlineService';
+import { Icons } from './Icons';
+import { getTranslator, formatDate, formatNumber } from '../services/i18n';
+
+interface OfflineLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  language: Language;
+  surahs: Surah[];
+  dataSource: QuranDataSource;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+
+/**
+ * Downloads surahs (or the whole Quran) with the selected translations for reading without a connection.
+ */
+export const OfflineLibraryModal: React.FC<OfflineLibraryModalProps> = ({ isOpen, onClose, language, surahs, dataSource }) => {
+  const t = getTranslator(language);
+  const isOnline = useSyncExternalStore(OfflineService.subscribe, OfflineService.isOnline);
+  const [saved, setSaved] = useState<Map<number, OfflineSurahSummary>>(new Map());
+  const [downloading, setDownloading] = useState<number | null>(null); // Surah being downloaded on its own
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null); // Whole-Quran download
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const list = await OfflineLibraryService.list();
+      setSaved(new Map(list.map(s => [s.surahNumber, s])));
+    } catch (e) {
+      setError(t('offline.readError'));
+    }
+  }, [language]);
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refresh]);
+
+  // Closing the modal stops a whole-Quran download after the current surah
+  useEffect(() => {
+    if (!isOpen) abortRef.current?.abort();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const isBusy = downloading !== null || progress !== null;
+  const totalSize = [...saved.values()].reduce((sum, s) => sum + s.size, 0);
+
+  const handleDownload = async (surah: Surah) => {
+    setDownloading(surah.number);
+    setError(null);
+    try {
+      await QuranService.downloadSurah(surah);
+      await refresh();
+    } catch (e) {
+      setError(t('offline.downloadError', { surah: surah.englishName }));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    try {
+      await QuranService.downloadAll(surahs, (done, total) => {
+        setProgress({ done, total });
+        if (done > 0) refresh();
+      }, controller.signal);
+    } catch (e) {
+      setError(t('offline.downloadAllError'));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      refresh();
+    }
+  };
+
+  const handleRemove = async (surahNumber: number) => {
+    await OfflineLibraryService.remove(surahNumber);
+    refresh();
+  };
+
+  const handleClear = async () => {
+    await OfflineLibraryService.clear();
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      ></div>
+
+      {/* Modal Content */}
+      <div className="relative w-full max-w-2xl max-h-[85vh] bg-white dark:bg-slate-800 rounded-2xl shadow-2xl overflow-hidden flex flex-col animate-in fade-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
+            <Icons.Download className="w-5 h-5 text-emerald-600" />
+            {t('offline.title')}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400 transition-colors"
+          >
+            <Icons.X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Summary & Controls */}
+        <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-700 space-y-3 font-sans">
+          {dataSource === 'local' && (
+            <p className="text-xs text-emerald-700 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/20 rounded-lg px-3 py-2">
+              {t('offline.bundledNote')}
+            </p>
+          )}
+          <div className="flex items-center justify-between gap-3 text-sm">
+            <span className="text-slate-600 dark:text-slate-300">
+              {t('offline.savedCount', { count: saved.size, total: surahs.length })} · {formatBytes(totalSize)}
+            </span>
+            <div className="flex items-center gap-1">
+              {progress ? (
+                <button
+                  onClick={() => abortRef.current?.abort()}
+                  className="flex items-center gap-1.5 text-xs font-semibold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 px-3 py-1.5 rounded-lg transition-colors"
+                >
+                  <Icons.X className="w-4 h-4" />
+                  {t('offline.stop')}
+                </button>
+              ) : (
+                <button
+                  onClick={handleDownloadAll}
+                  disabled={!isOnline || isBusy || saved.size === surahs.length}
+                  className="flex items-center gap-1.5 text-xs font-semibold text-emerald-600 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-40"
+                >
+                  <Icons.Download className="w-4 h-4" />
+                  {t('offline.downloadAll')}
+                </button>
+              )}
+              <button
+                onClick={handleClear}
+                disabled={saved.size === 0 || isBusy}
+                className="flex items-center gap-1.5 text-xs font-semibold text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-40"
+              >
+                <Icons.Trash2 className="w-4 h-4" />
+                {t('offline.removeAll')}
+              </button>
+            </div>
+          </div>
+          {progress && (
+            <div className="space-y-1">
+              <div className="w-full h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                <div className="h-full bg-emerald-500 transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+              </div>
+              <span className="text-[11px] text-slate-400">{t('offline.progress', { done: progress.done, total: progress.total })}</span>
+            </div>
+          )}
+          <p className="text-[11px] text-slate-400">{t('offline.aiCacheNote')}</p>
+          {!isOnline && <p className="text-xs text-amber-600 dark:text-amber-400">{t('offline.downloadNeedsNetwork')}</p>}
+        </div>
+
+        {/* Scrollable Body */}
+        <div className="overflow-y-auto flex-1 p-4 custom-scrollbar font-sans">
+          {error && <div className="text-sm text-red-500 text-center py-2">{error}</div>}
+          <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+            {surahs.map(surah => {
+              const entry = saved.get(surah.number);
+              return (
+                <li key={surah.number} className="flex items-center justify-between gap-3 py-2.5 px-2 text-sm">
+                  <div className="flex flex-col min-w-0">
+                    <span className="font-medium text-slate-700 dark:text-slate-200 truncate">
+                      {formatNumber(surah.number, language)}. {surah.englishName}
+                    </span>
+                    <span className="text-[11px] text-slate-400">
+                      {entry
+                        ? `${formatBytes(entry.size)} · ${t('offline.downloadedOn', { date: formatDate(entry.downloadedAt, language, { dateStyle: 'short' }) })}`
+                        : t('offline.ayahCount', { count: surah.numberOfAyahs })}
+                    </span>
+                  </div>
+                  {downloading === surah.number ? (
+                    <div className="w-5 h-5 me-1.5 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
+                  ) : entry ? (
+                    <span className="flex items-center gap-1 shrink-0">
+                      <Icons.BadgeCheck className="w-4 h-4 text-emerald-500" />
+                      <button
+                        onClick={() => handleRemove(surah.number)}
+                        disabled={isBusy}
+                        className="p-1.5 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors disabled:opacity-40"
+                      >
+                        <Icons.Trash2 className="w-4 h-4" />
+                      </button>
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => handleDownload(surah)}
+                      disabled={!isOnline || isBusy}
+                      title={t('offline.download')}
+                      className="p-1.5 rounded-md text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 transition-colors disabled:opacity-40"
+                    >
+                      <Icons.Download className="w-4 h-4" />
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,240 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { AyahDisplayData, Language, PassageRange, PassageTafsir, Surah } from '../types';
+import { AiService } from '../services/aiService';
+import { AiCacheService } from '../services/aiCacheService';
+import { PassageService } from '../services/passageService';
+import { errorMessageKey, canRetry } from '../services/errors';
+import { MAX_PASSAGE_AYAHS, PROMPT_VERSIONS } from '../services/aiPrompts';
+import { primaryTranslation } from '../services/translationService';
+import { Icons } from './Icons';
+import { CacheStatus } from './CacheStatus';
+import { RequestErrorMessage } from './RequestErrorMessage';
+import { getTranslator, languageInfo, formatNumber } from '../services/i18n';
+
+interface PassageTafsirModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  surah: Surah | null;
+  ayahNumber: number; // The passage starts here by default
+  initialRange?: PassageRange | null; // Explained as soon as the modal opens, e.g. a range typed in the command palette
+  language: Language;
+}
+
+// Ayahs selected when the modal opens, counting the current one
+const DEFAULT_PASSAGE_LENGTH = 5;
+
+/**
+ * Tafsir of a range of ayahs or a whole ruku, read as one passage, with a note beside each ayah.
+ */
+export const PassageTafsirModal: React.FC<PassageTafsirModalProps> = ({ isOpen, onClose, surah, ayahNumber, initialRange, language }) => {
+  const t = getTranslator(language);
+  const [fromAyah, setFromAyah] = useState(ayahNumber);
+  const [toAyah, setToAyah] = useState(ayahNumber);
+  const [range, setRange] = useState<PassageRange | null>(null); // The passage being shown
+  const [ayahs, setAyahs] = useState<AyahDisplayData[]>([]);
+  const [tafsir, setTafsir] = useState<PassageTafsir | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<{ message: string; retry?: () => void } | null>(null);
+  const requestRef = useRef(0);
+  // Aborted when another passage is requested or the modal closes
+  const abortRef = useRef<AbortController | null>(null);
+
+  const explain = async (selected: PassageRange, refresh = false) => {
+    const request = ++requestRef.current;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setFromAyah(selected.fromAyah);
+    setToAyah(selected.toAyah);
+    setRange(selected);
+    setTafsir(null);
+    setIsLoading(true);
+    setError(null);
+    try {
+      const passage = await PassageService.getAyahs(selected);
+      if (request !== requestRef.current) return;
+      setAyahs(passage);
+      const { data, cachedAt } = await AiCacheService.getOrGenerate(
+        {
+          kind: 'passage',
+          surahNumber: selected.surahNumber,
+          ayahNumber: selected.fromAyah,
+          language,
+          model: await AiService.getModelKey(),
+          promptVersion: PROMPT_VERSIONS.passage,
+          variant: `${selected.fromAyah}-${selected.toAyah}`,
+        },
+        () => AiService.generatePassageTafsir(passage, language, controller.signal),
+        refresh
+      );
+      if (request !== requestRef.current) return;
+      setTafsir(data);
+      setCachedAt(cachedAt);
+    } catch (e) {
+      if (request !== requestRef.current) return;
+      setError({
+        message: t(errorMessageKey(e, 'passage.error', { offline: 'offline.notSaved' })),
+        retry: canRetry(e) ? () => explain(selected, refresh) : undefined,
+      });
+    } finally {
+      if (request === requestRef.current) {
+        abortRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen || !surah) return;
+    setAyahs([]);
+    setTafsir(null);
+    setError(null);
+    if (initialRange?.surahNumber === surah.number) {
+      explain(PassageService.clampRange(surah, initialRange.fromAyah, initialRange.toAyah));
+    } else {
+      // Start from the ayah being read when the modal opens
+      const initial = PassageService.clampRange(surah, ayahNumber, ayahNumber + DEFAULT_PASSAGE_LENGTH - 1);
+      setFromAyah(initial.fromAyah);
+      setToAyah(initial.toAyah);
+      setRange(null);
+    }
+    return () => {
+      requestRef.current++;
+      abortRef.current?.abort();
+      abortRef.current = null;
+    };
+  }, [isOpen, surah?.number, initialRange]);
+
+  if (!isOpen || !surah) return null;
+
+  const explainRuku = () => {
+    explain(PassageService.findRuku(surah, PassageService.clampRange(surah, fromAyah, fromAyah).fromAyah));
+  };
+
+  const fontClass = languageInfo(language).fontClass;
+  const noteFor = (n: number) => tafsir?.ayahNotes.find(note => note.ayahNumber === n)?.note;
+  const numberInput = "w-16 px-2 py-1.5 text-sm text-center bg-slate-100 dark:bg-slate-900 border-none rounded-lg text-slate-700 dark:text-slate-200 focus:ring-1 focus:ring-emerald-500";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      ></div>
+
+      {/* Modal Content */}
+      <div className="relative w-full max-w-4xl max-h-[90vh] bg-white dark:bg-slate-800 rounded-2xl shadow-2xl overflow-hidden flex flex-col animate-in fade-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
+            <Icons.Layers className="w-5 h-5 text-emerald-600" />
+            {t('passage.title')}
+          </h3>
+          <div className="flex items-center gap-2">
+            {tafsir && range && !isLoading && (
+              <CacheStatus cachedAt={cachedAt} onRegenerate={() => explain(range, true)} language={language} />
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400 transition-colors"
+            >
+              <Icons.X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Range picker */}
+        <div className="flex flex-wrap items-center gap-3 px-6 py-4 border-b border-slate-100 dark:border-slate-700 font-sans">
+          <span className="text-sm font-semibold text-slate-700 dark:text-slate-200">{surah.englishName}</span>
+          <label className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+            {t('passage.from')}
+            <input type="number" min={1} max={surah.numberOfAyahs} value={fromAyah} onChange={(e) => setFromAyah(Number(e.target.value))} className={numberInput} />
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+            {t('passage.to')}
+            <input type="number" min={1} max={surah.numberOfAyahs} value={toAyah} onChange={(e) => setToAyah(Number(e.target.value))} className={numberInput} />
+          </label>
+          <button
+            onClick={() => explain(PassageService.clampRange(surah, fromAyah, toAyah))}
+            disabled={isLoading}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white disabled:bg-slate-300 dark:disabled:bg-slate-700 transition-colors"
+          >
+            <Icons.Sparkles className="w-3.5 h-3.5" /> {t('passage.explain')}
+          </button>
+          <button
+            onClick={explainRuku}
+            disabled={isLoading}
+            title={t('passage.rukuHint')}
+            className="px-3 py-1.5 text-xs font-semibold rounded-lg border border-emerald-200 dark:border-emerald-800 text-emerald-700 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 disabled:opacity-50 transition-colors"
+          >
+            {t('passage.wholeRuku')}
+          </button>
+          <span className="text-[11px] text-slate-400">{t('passage.limit', { max: MAX_PASSAGE_AYAHS })}</span>
+        </div>
+
+        {/* Scrollable Body */}
+        <div className="overflow-y-auto flex-1 p-6 md:p-8 custom-scrollbar">
+          {error ? (
+            <RequestErrorMessage message={error.message} onRetry={error.retry} language={language} />
+          ) : !range ? (
+            <div className="text-center text-sm text-slate-400 py-10">{t('passage.hint')}</div>
+          ) : (
+            <div className="space-y-6">
+              {/* Passage overview */}
+              {tafsir ? (
+                <>
+                  <div className="bg-emerald-50 dark:bg-emerald-900/20 p-4 rounded-xl border border-emerald-100 dark:border-emerald-800/30">
+                    <h4 className="text-xl font-bold text-emerald-800 dark:text-emerald-300">{tafsir.passageReference}</h4>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {tafsir.keyThemes.map((theme, idx) => (
+                      <span key={idx} className="px-3 py-1 rounded-full text-xs font-medium bg-gold-100 text-gold-700 dark:bg-gold-900/30 dark:text-gold-400 border border-gold-200 dark:border-gold-800">
+                        {theme}
+                      </span>
+                    ))}
+                  </div>
+                  <div className={`prose prose-slate dark:prose-invert max-w-none ${fontClass} prose-headings:text-emerald-700 dark:prose-headings:text-emerald-400 prose-p:leading-8`}>
+                    <ReactMarkdown>{tafsir.overview}</ReactMarkdown>
+                  </div>
+                </>
+              ) : isLoading && (
+                <div className="flex flex-col items-center justify-center h-40 space-y-4">
+                  <div className="w-10 h-10 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
+                  <p className="text-sm text-slate-500 dark:text-slate-400 animate-pulse">{t('passage.loading')}</p>
+                </div>
+              )}
+
+              {/* Full passage with a note per ayah */}
+              <div className="space-y-4">
+                {ayahs.map(ayah => (
+                  <section key={ayah.ayahNumber} className="p-4 rounded-xl bg-slate-50 dark:bg-slate-900/40 border border-slate-100 dark:border-slate-700">
+                    <span className="inline-flex items-center justify-center w-7 h-7 mb-2 rounded-full text-xs font-bold bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 font-sans">
+                      {formatNumber(ayah.ayahNumber, language)}
+                    </span>
+                    <p className="font-arabic text-2xl leading-[2.2] text-slate-800 dark:text-slate-100" dir="rtl">{ayah.arabicText}</p>
+                    <p className={`mt-2 text-sm text-slate-600 dark:text-slate-300 leading-relaxed ${fontClass}`}>{primaryTranslation(ayah, language)}</p>
+                    {noteFor(ayah.ayahNumber) && (
+                      <div className={`mt-3 pt-3 border-t border-slate-200 dark:border-slate-700 prose prose-sm prose-slate dark:prose-invert max-w-none ${fontClass}`}>
+                        <ReactMarkdown>{noteFor(ayah.ayahNumber)!}</ReactMarkdown>
+                      </div>
+                    )}
+                  </section>
+                ))}
+              </div>
+
+              {tafsir && (
+                <div className="pt-4 border-t border-slate-200 dark:border-slate-700 text-xs text-slate-400 dark:text-slate-500 italic">
+                  {t('tafsir.disclaimer')}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { ReadingHistoryEntry, Language } from '../types';
+import { KhatmSummary } from '../services/readingProgressService';
+import { Icons } from './Icons';
+import { getTranslator, formatDate, formatPercent, formatAyahRef } from '../services/i18n';
+
+interface ReadingHistoryPanelProps {
+  history: ReadingHistoryEntry[];
+  khatm: KhatmSummary;
+  language: Language;
+  onSelect: (surahNumber: number, ayahNumber: number) => void;
+  onClearHistory: () => void;
+  onResetKhatm: () => void;
+}
+
+export const ReadingHistoryPanel: React.FC<ReadingHistoryPanelProps> = ({
+  history,
+  khatm,
+  language,
+  onSelect,
+  onClearHistory,
+  onResetKhatm
+}) => {
+  const t = getTranslator(language);
+  const sectionTitle = "px-4 py-2 text-xs font-bold text-slate-400 uppercase tracking-wider font-sans";
+
+  const formatVisit = (timestamp: number) =>
+    formatDate(timestamp, language, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  return (
+    <div className="font-sans">
+      {/* Khatm Progress */}
+      <div className={sectionTitle}>{t('history.khatmProgress')}</div>
+      <div className="mx-4 mb-4 p-3 rounded-xl bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-800">
+        <div className="flex items-baseline justify-between mb-2">
+          <span className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">{formatPercent(khatm.percent, language)}</span>
+          <span className="text-xs text-slate-500">
+            {t('history.ayahsRead', { count: khatm.totalAyahs, read: khatm.readAyahs })}
+          </span>
+        </div>
+        <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-800 overflow-hidden">
+          <div className="h-full bg-emerald-500 transition-all" style={{ width: `${khatm.percent}%` }} />
+        </div>
+        <button
+          onClick={() => {
+            if (window.confirm(t('history.confirmReset'))) onResetKhatm();
+          }}
+          disabled={khatm.readAyahs === 0}
+          className="mt-3 flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-emerald-600 disabled:opacity-40 disabled:hover:text-slate-500 transition-colors"
+        >
+          <Icons.RefreshCw className="w-3 h-3" /> {t('history.resetKhatm')}
+        </button>
+      </div>
+
+      {/* Recently Read */}
+      <div className="flex items-center justify-between pe-4">
+        <div className={sectionTitle}>{t('history.recentlyRead')}</div>
+        {history.length > 0 && (
+          <button
+            onClick={onClearHistory}
+            title={t('history.clear')}
+            className="p-1 rounded text-slate-300 hover:text-red-500 transition-colors"
+          >
+            <Icons.Trash2 className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      {history.length === 0 && (
+        <div className="px-4 py-3 text-center text-xs text-slate-400">
+          {t('history.empty')}
+        </div>
+      )}
+      <div className="space-y-0.5">
+        {history.map(entry => (
+          <button
+            key={entry.key}
+            onClick={() => onSelect(entry.surahNumber, entry.ayahNumber)}
+            className="w-full flex items-center gap-2 px-4 py-1.5 rounded-lg text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-900 transition-colors"
+          >
+            <Icons.History className="w-3.5 h-3.5 shrink-0 text-slate-400" />
+            <span className="flex flex-col items-start min-w-0">
+              <span className="truncate">{entry.surahNameEnglish}</span>
+              <span className="text-[10px] text-slate-400">{formatVisit(entry.visitedAt)}</span>
+            </span>
+            <span className="ms-auto text-xs font-mono text-slate-400">{formatAyahRef(entry.surahNumber, entry.ayahNumber, language)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
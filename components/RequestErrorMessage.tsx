@@ -0,0 +1,31 @@
+import React from 'react';
+import { Language } from '../types';
+import { Icons } from './Icons';
+import { getTranslator } from '../services/i18n';
+
+interface RequestErrorMessageProps {
+  message: string;
+  onRetry?: () => void; // Omitted when trying again cannot help, e.g. a missing API key
+  language: Language;
+}
+
+/**
+ * Centered error for a failed request inside a panel or modal, with a retry button.
+ */
+export const RequestErrorMessage: React.FC<RequestErrorMessageProps> = ({ message, onRetry, language }) => {
+  const t = getTranslator(language);
+  return (
+    <div className="flex flex-col items-center gap-3 py-10 text-center font-sans">
+      <p className="text-sm text-red-600 dark:text-red-400">{message}</p>
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold text-emerald-600 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/30 transition-colors"
+        >
+          <Icons.RefreshCw className="w-3.5 h-3.5" />
+          {t('errors.retry')}
+        </button>
+      )}
+    </div>
+  );
+};
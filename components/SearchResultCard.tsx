@@ -0,0 +1,67 @@
+import React from 'react';
+import { VerifiedSearchResult, Language } from '../types';
+import { primaryTranslation } from '../services/translationService';
+import { getTranslator, languageInfo, formatAyahRef, formatPercent } from '../services/i18n';
+import { Icons } from './Icons';
+
+interface SearchResultCardProps {
+  result: VerifiedSearchResult;
+  language: Language;
+  onSelect: () => void;
+}
+
+export const SearchResultCard: React.FC<SearchResultCardProps> = ({ result, language, onSelect }) => {
+  const t = getTranslator(language);
+  const { ayah } = result;
+  const translation = ayah ? primaryTranslation(ayah, language) : null;
+
+  return (
+    <button
+      onClick={onSelect}
+      className="w-full group bg-white dark:bg-slate-800 p-5 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-emerald-400 dark:hover:border-emerald-500 transition-all hover:shadow-md text-start"
+    >
+      <div className="flex justify-between items-start mb-2">
+        <div className="flex flex-wrap gap-2 items-center">
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-400 font-sans">
+            {ayah
+              ? `${ayah.surahNameEnglish} ${formatAyahRef(result.surahNumber, result.ayahNumber, language)}`
+              : t('search.unknownAyahRef', { surah: result.surahNumber, ayah: result.ayahNumber })}
+          </span>
+          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-bold font-sans ${result.confidenceScore > 80 ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-400'}`}>
+             {t('search.confidence', { percent: formatPercent(result.confidenceScore, language) })}
+          </span>
+          {result.verified ? (
+            <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold font-sans bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-400">
+              <Icons.BadgeCheck className="w-3 h-3" />
+              {t('search.verified')}
+            </span>
+          ) : (
+            <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold font-sans bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400">
+              <Icons.AlertTriangle className="w-3 h-3" />
+              {t('search.unverified')}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {ayah && <span className="font-arabic text-lg text-slate-500 dark:text-slate-400">{ayah.surahNameArabic.replace('سورة', '')}</span>}
+          <Icons.ChevronRight className="w-4 h-4 text-slate-300 group-hover:text-emerald-500 transition-colors rtl:rotate-180" />
+        </div>
+      </div>
+
+      {ayah && (
+        <div className="mb-3 space-y-1">
+          <p className="font-arabic text-xl leading-loose text-right text-slate-800 dark:text-slate-100 line-clamp-2" dir="rtl">
+            {ayah.arabicText}
+          </p>
+          <p className={`text-sm text-slate-500 dark:text-slate-400 italic line-clamp-2 ${languageInfo(language).fontClass}`}>
+            {translation}
+          </p>
+        </div>
+      )}
+
+      <p className={`text-slate-600 dark:text-slate-300 text-sm leading-relaxed ${languageInfo(language).fontClass}`}>
+        {result.reasoning}
+      </p>
+    </button>
+  );
+};
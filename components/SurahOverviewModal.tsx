@@ -2,6 +2,8 @@ import React from 'react';
 import ReactMarkdown from 'react-markdown';
 import { SurahOverviewData, Language } from '../types';
 import { Icons } from './Icons';
+import { CacheStatus } from './CacheStatus';
+import { getTranslator, languageInfo } from '../services/i18n';
 
 interface SurahOverviewModalProps {
   isOpen: boolean;
@@ -9,11 +11,15 @@ interface SurahOverviewModalProps {
   data: SurahOverviewData | null;
   isLoading: boolean;
   language: Language;
+  cachedAt: number | null;
+  onRegenerate: () => void;
 }
 
-export const SurahOverviewModal: React.FC<SurahOverviewModalProps> = ({ isOpen, onClose, data, isLoading, language }) => {
+export const SurahOverviewModal: React.FC<SurahOverviewModalProps> = ({ isOpen, onClose, data, isLoading, language, cachedAt, onRegenerate }) => {
   if (!isOpen) return null;
 
+  const t = getTranslator(language);
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
       {/* Backdrop */}
@@ -29,14 +35,19 @@ export const SurahOverviewModal: React.FC<SurahOverviewModalProps> = ({ isOpen,
         <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
           <h3 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
             <Icons.BookOpen className="w-5 h-5 text-emerald-600" />
-            {language === 'bn' ? 'সূরা পরিচিতি' : 'Surah Overview'}
+            {t('overview.title')}
           </h3>
-          <button 
-            onClick={onClose}
-            className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400 transition-colors"
-          >
-            <Icons.X className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-2">
+            {data && !isLoading && (
+              <CacheStatus cachedAt={cachedAt} onRegenerate={onRegenerate} language={language} />
+            )}
+            <button 
+              onClick={onClose}
+              className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400 transition-colors"
+            >
+              <Icons.X className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
         {/* Scrollable Body */}
@@ -45,7 +56,7 @@ export const SurahOverviewModal: React.FC<SurahOverviewModalProps> = ({ isOpen,
             <div className="flex flex-col items-center justify-center h-64 space-y-4">
               <div className="w-12 h-12 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
               <p className="text-slate-500 dark:text-slate-400 animate-pulse">
-                {language === 'bn' ? 'তথ্য সংগ্রহ করা হচ্ছে...' : 'Gathering information...'}
+                {t('overview.loading')}
               </p>
             </div>
           ) : data ? (
@@ -61,9 +72,9 @@ export const SurahOverviewModal: React.FC<SurahOverviewModalProps> = ({ isOpen,
                 <div className="space-y-3">
                   <h4 className="flex items-center gap-2 font-bold text-emerald-700 dark:text-emerald-400 uppercase tracking-wide text-xs">
                     <Icons.Info className="w-4 h-4" />
-                    {language === 'bn' ? 'ভূমিকা' : 'Introduction'}
+                    {t('overview.introduction')}
                   </h4>
-                  <div className={`prose prose-sm dark:prose-invert text-slate-600 dark:text-slate-300 ${language === 'bn' ? 'font-bengali' : ''}`}>
+                  <div className={`prose prose-sm dark:prose-invert text-slate-600 dark:text-slate-300 ${languageInfo(language).fontClass}`}>
                     <ReactMarkdown>{data.introduction}</ReactMarkdown>
                   </div>
                 </div>
@@ -72,9 +83,9 @@ export const SurahOverviewModal: React.FC<SurahOverviewModalProps> = ({ isOpen,
                 <div className="space-y-3">
                   <h4 className="flex items-center gap-2 font-bold text-emerald-700 dark:text-emerald-400 uppercase tracking-wide text-xs">
                     <Icons.BookHeart className="w-4 h-4" />
-                    {language === 'bn' ? 'ঐতিহাসিক প্রেক্ষাপট' : 'Historical Context'}
+                    {t('overview.historicalContext')}
                   </h4>
-                  <div className={`prose prose-sm dark:prose-invert text-slate-600 dark:text-slate-300 ${language === 'bn' ? 'font-bengali' : ''}`}>
+                  <div className={`prose prose-sm dark:prose-invert text-slate-600 dark:text-slate-300 ${languageInfo(language).fontClass}`}>
                     <ReactMarkdown>{data.historicalContext}</ReactMarkdown>
                   </div>
                 </div>
@@ -85,11 +96,11 @@ export const SurahOverviewModal: React.FC<SurahOverviewModalProps> = ({ isOpen,
                  <div>
                     <h4 className="font-bold text-slate-800 dark:text-slate-200 mb-4 flex items-center gap-2">
                        <span className="w-2 h-2 rounded-full bg-gold-500"></span>
-                       {language === 'bn' ? 'মূল বিষয়বস্তু' : 'Key Themes'}
+                       {t('overview.keyThemes')}
                     </h4>
                     <ul className="space-y-2">
                       {data.keyThemes.map((theme, i) => (
-                        <li key={i} className={`flex items-start gap-2 text-sm text-slate-600 dark:text-slate-300 ${language === 'bn' ? 'font-bengali' : ''}`}>
+                        <li key={i} className={`flex items-start gap-2 text-sm text-slate-600 dark:text-slate-300 ${languageInfo(language).fontClass}`}>
                            <span className="mt-1.5 w-1 h-1 bg-slate-400 rounded-full shrink-0"></span>
                            {theme}
                         </li>
@@ -99,11 +110,11 @@ export const SurahOverviewModal: React.FC<SurahOverviewModalProps> = ({ isOpen,
                  <div>
                     <h4 className="font-bold text-slate-800 dark:text-slate-200 mb-4 flex items-center gap-2">
                        <span className="w-2 h-2 rounded-full bg-emerald-500"></span>
-                       {language === 'bn' ? 'শিক্ষা' : 'Key Lessons'}
+                       {t('overview.keyLessons')}
                     </h4>
                     <ul className="space-y-2">
                       {data.keyLessons.map((lesson, i) => (
-                        <li key={i} className={`flex items-start gap-2 text-sm text-slate-600 dark:text-slate-300 ${language === 'bn' ? 'font-bengali' : ''}`}>
+                        <li key={i} className={`flex items-start gap-2 text-sm text-slate-600 dark:text-slate-300 ${languageInfo(language).fontClass}`}>
                            <span className="mt-1.5 w-1 h-1 bg-slate-400 rounded-full shrink-0"></span>
                            {lesson}
                         </li>
@@ -115,7 +126,7 @@ export const SurahOverviewModal: React.FC<SurahOverviewModalProps> = ({ isOpen,
             </div>
           ) : (
              <div className="text-center text-slate-500">
-                {language === 'bn' ? 'কিছু ভুল হয়েছে।' : 'Something went wrong.'}
+                {t('common.somethingWrong')}
              </div>
           )}
         </div>
@@ -0,0 +1,142 @@
+import React, { useEffect, useRef } from 'react';
+import { AyahDisplayData, Edition, Language, Bookmark, AyahNote } from '../types';
+import { AyahView } from './AyahView';
+import { Icons } from './Icons';
+import { ayahKey } from '../services/studyDataService';
+import { getTranslator } from '../services/i18n';
+
+interface SurahReaderProps {
+  ayahs: AyahDisplayData[];
+  language: Language;
+  editions: Edition[];
+  activeAyah: number;
+  totalAyahs: number;
+  isLoadingTafsir: boolean;
+  isLoadingMore: boolean;
+  arabicFontSize: number;
+  translationFontSize: number;
+  scrollRoot: React.RefObject<HTMLDivElement | null>;
+  onActiveAyahChange: (ayah: AyahDisplayData) => void;
+  onTafsirClick: (ayah: AyahDisplayData) => void;
+  bookmarksByKey: Map<string, Bookmark>;
+  notesByKey: Map<string, AyahNote>;
+  onBookmarkClick: (ayah: AyahDisplayData) => void;
+  onNoteClick: (ayah: AyahDisplayData) => void;
+  onWordClick: (ayah: AyahDisplayData, wordIndex: number) => void;
+  playingAyah: number | null; // Ayah being recited, if any
+  onPlayClick: (ayah: AyahDisplayData) => void;
+  onLoadPrevious: () => void;
+  onLoadNext: () => void;
+}
+
+export const ayahElementId = (surahNumber: number, ayahNumber: number) => `ayah-${surahNumber}-${ayahNumber}`;
+
+export const SurahReader: React.FC<SurahReaderProps> = ({
+  ayahs,
+  language,
+  editions,
+  activeAyah,
+  totalAyahs,
+  isLoadingTafsir,
+  isLoadingMore,
+  arabicFontSize,
+  translationFontSize,
+  scrollRoot,
+  onActiveAyahChange,
+  onTafsirClick,
+  bookmarksByKey,
+  notesByKey,
+  onBookmarkClick,
+  onNoteClick,
+  onWordClick,
+  playingAyah,
+  onPlayClick,
+  onLoadPrevious,
+  onLoadNext
+}) => {
+  // Keep the latest callback without re-creating the observer on every render
+  const onActiveRef = useRef(onActiveAyahChange);
+  onActiveRef.current = onActiveAyahChange;
+
+  // Track the ayah crossing the upper part of the scroll area as the active one
+  useEffect(() => {
+    const root = scrollRoot.current;
+    if (!root || ayahs.length === 0) return;
+
+    const observer = new IntersectionObserver(entries => {
+      const visible = entries
+        .filter(entry => entry.isIntersecting)
+        .sort((a, b) => a.boundingClientRect.top - b.boundingClientRect.top)[0];
+      if (!visible) return;
+      const ayahNumber = Number((visible.target as HTMLElement).dataset.ayah);
+      const ayah = ayahs.find(a => a.ayahNumber === ayahNumber);
+      if (ayah) onActiveRef.current(ayah);
+    }, { root, rootMargin: '-20% 0px -70% 0px' });
+
+    ayahs.forEach(a => {
+      const el = document.getElementById(ayahElementId(a.surahNumber, a.ayahNumber));
+      if (el) observer.observe(el);
+    });
+    return () => observer.disconnect();
+  }, [ayahs, scrollRoot]);
+
+  if (ayahs.length === 0) return null;
+
+  const first = ayahs[0].ayahNumber;
+  const last = ayahs[ayahs.length - 1].ayahNumber;
+
+  const t = getTranslator(language);
+  const loadButtonClass = "w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-dashed border-slate-300 dark:border-slate-700 text-sm text-slate-500 dark:text-slate-400 hover:border-emerald-400 hover:text-emerald-600 transition-colors disabled:opacity-50 font-sans";
+
+  return (
+    <div className="space-y-6">
+      {first > 1 && (
+        <button onClick={onLoadPrevious} disabled={isLoadingMore} className={loadButtonClass}>
+          <Icons.ArrowUp className="w-4 h-4" />
+          {t('reader.earlierAyahs', { from: 1, to: first - 1 })}
+        </button>
+      )}
+
+      {ayahs.map(ayah => {
+        const isActive = ayah.ayahNumber === activeAyah;
+        return (
+          <div
+            key={ayah.ayahNumber}
+            id={ayahElementId(ayah.surahNumber, ayah.ayahNumber)}
+            data-ayah={ayah.ayahNumber}
+            className="scroll-mt-6"
+          >
+            <AyahView
+              data={ayah}
+              language={language}
+              editions={editions}
+              isActive={isActive}
+              isLoadingTafsir={isActive && isLoadingTafsir}
+              onTafsirClick={() => onTafsirClick(ayah)}
+              arabicFontSize={arabicFontSize}
+              translationFontSize={translationFontSize}
+              bookmark={bookmarksByKey.get(ayahKey(ayah.surahNumber, ayah.ayahNumber))}
+              note={notesByKey.get(ayahKey(ayah.surahNumber, ayah.ayahNumber))}
+              onBookmarkClick={() => onBookmarkClick(ayah)}
+              onNoteClick={() => onNoteClick(ayah)}
+              onWordClick={(wordIndex) => onWordClick(ayah, wordIndex)}
+              isPlaying={ayah.ayahNumber === playingAyah}
+              onPlayClick={() => onPlayClick(ayah)}
+            />
+          </div>
+        );
+      })}
+
+      {last < totalAyahs && (
+        <button onClick={onLoadNext} disabled={isLoadingMore} className={loadButtonClass}>
+          {isLoadingMore ? (
+            <div className="w-4 h-4 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin" />
+          ) : (
+            <Icons.ChevronRight className="w-4 h-4 rotate-90" />
+          )}
+          {t('reader.moreAyahs', { from: last + 1, to: totalAyahs })}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { AyahDisplayData, ChatMessage, Language, TafsirData } from '../types';
+import { AiService } from '../services/aiService';
+import { TafsirChatService } from '../services/tafsirChatService';
+import { OfflineService } from '../services/offlineService';
+import { errorMessageKey } from '../services/errors';
+import { linkAyahReferences } from '../services/router';
+import { Icons } from './Icons';
+import { getTranslator, languageInfo } from '../services/i18n';
+
+interface TafsirChatProps {
+  ayah: AyahDisplayData;
+  tafsir: TafsirData;
+  language: Language;
+}
+
+const markdownClass = "prose prose-sm prose-slate dark:prose-invert max-w-none prose-p:leading-7 prose-a:text-emerald-600 dark:prose-a:text-emerald-400";
+
+export const TafsirChat: React.FC<TafsirChatProps> = ({ ayah, tafsir, language }) => {
+  const t = getTranslator(language);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [answer, setAnswer] = useState<string | null>(null); // Streaming answer, null when idle
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+  const isOnline = useSyncExternalStore(OfflineService.subscribe, OfflineService.isOnline);
+
+  // Load this ayah's conversation; a pending answer for another ayah is cancelled
+  useEffect(() => {
+    let isCurrent = true;
+    setMessages([]);
+    setError(null);
+    TafsirChatService.getMessages(ayah.surahNumber, ayah.ayahNumber)
+      .then(saved => { if (isCurrent) setMessages(saved); })
+      .catch(e => console.warn('Could not load the tafsir conversation:', e));
+    return () => {
+      isCurrent = false;
+      abortRef.current?.abort();
+      abortRef.current = null;
+      setAnswer(null);
+    };
+  }, [ayah.surahNumber, ayah.ayahNumber]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages, answer]);
+
+  const handleAsk = async (e: React.SyntheticEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || answer !== null) return;
+
+    const asked = [...messages, { role: 'user' as const, text, createdAt: Date.now() }];
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessages(asked);
+    setQuestion('');
+    setAnswer('');
+    setError(null);
+    let reply: string;
+    try {
+      reply = await AiService.askFollowUp(ayah, tafsir, asked, language, partial => {
+        if (!controller.signal.aborted) setAnswer(partial);
+      }, controller.signal);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      // Put the question back so it can be retried
+      setMessages(messages);
+      setQuestion(text);
+      setError(t(errorMessageKey(err, 'chat.error')));
+      return;
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setAnswer(null);
+      }
+    }
+    if (controller.signal.aborted) return;
+
+    const answered = [...asked, { role: 'model' as const, text: reply, createdAt: Date.now() }];
+    setMessages(answered);
+    // The answer stays on screen even if it cannot be kept for next time
+    try {
+      await TafsirChatService.saveMessages(ayah.surahNumber, ayah.ayahNumber, answered);
+    } catch (err) {
+      console.warn('Failed to save follow-up chat:', err);
+    }
+  };
+
+  // Cancels the pending answer and puts its question back in the input
+  const handleStop = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setQuestion(messages[messages.length - 1]?.text ?? '');
+    setMessages(messages.slice(0, -1));
+    setAnswer(null);
+  };
+
+  const handleClear = async () => {
+    setMessages([]);
+    await TafsirChatService.clear(ayah.surahNumber, ayah.ayahNumber);
+  };
+
+  return (
+    <div className={`mt-8 pt-6 border-t border-slate-200 dark:border-slate-700 ${languageInfo(language).fontClass}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="flex items-center gap-2 text-sm font-bold text-slate-700 dark:text-slate-200">
+          <Icons.MessageCircle className="w-4 h-4 text-emerald-600" />
+          {t('chat.title')}
+        </h4>
+        {messages.length > 0 && answer === null && (
+          <button
+            onClick={handleClear}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-red-500 transition-colors"
+          >
+            <Icons.Trash2 className="w-3.5 h-3.5" /> {t('chat.clear')}
+          </button>
+        )}
+      </div>
+
+      {messages.length === 0 && answer === null && (
+        <p className="text-xs text-slate-400 mb-4">{t('chat.hint')}</p>
+      )}
+
+      <div className="space-y-3 mb-4">
+        {messages.map((message, i) => message.role === 'user' ? (
+          <div key={i} className="flex justify-end">
+            <p className="max-w-[85%] px-4 py-2 rounded-2xl rounded-ee-sm bg-emerald-600 text-white text-sm whitespace-pre-wrap">
+              {message.text}
+            </p>
+          </div>
+        ) : (
+          <div key={i} className={`max-w-[95%] px-4 py-3 rounded-2xl rounded-es-sm bg-slate-100 dark:bg-slate-700/50 ${markdownClass}`}>
+            <ReactMarkdown>{linkAyahReferences(message.text)}</ReactMarkdown>
+          </div>
+        ))}
+        {answer !== null && (
+          <div className={`max-w-[95%] px-4 py-3 rounded-2xl rounded-es-sm bg-slate-100 dark:bg-slate-700/50 ${markdownClass}`}>
+            {answer ? <ReactMarkdown>{answer}</ReactMarkdown> : <span className="text-xs text-slate-400 animate-pulse">{t('chat.thinking')}</span>}
+            <span className="inline-block w-2 h-4 align-middle bg-emerald-500 animate-pulse" />
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      {error && (
+        <div className="mb-3 text-xs text-red-600 dark:text-red-400 flex items-center gap-1.5">
+          <Icons.AlertTriangle className="w-3.5 h-3.5" /> {error}
+        </div>
+      )}
+
+      <form onSubmit={handleAsk} className="flex items-end gap-2">
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) handleAsk(e);
+          }}
+          rows={1}
+          disabled={!isOnline}
+          placeholder={isOnline ? t('chat.placeholder') : t('offline.aiUnavailable')}
+          className="flex-1 resize-none px-4 py-2.5 text-sm bg-slate-100 dark:bg-slate-900 border-none rounded-xl text-slate-700 dark:text-slate-200 placeholder-slate-400 focus:ring-1 focus:ring-emerald-500"
+        />
+        {answer !== null ? (
+          <button
+            type="button"
+            onClick={handleStop}
+            title={t('tafsir.stop')}
+            className="p-2.5 rounded-xl border border-slate-200 dark:border-slate-700 text-slate-500 hover:text-red-500 transition-colors"
+          >
+            <Icons.X className="w-5 h-5" />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!question.trim() || !isOnline}
+            title={t('chat.send')}
+            className="p-2.5 rounded-xl bg-emerald-600 hover:bg-emerald-700 text-white disabled:bg-slate-300 dark:disabled:bg-slate-700 transition-colors"
+          >
+            <Icons.Send className="w-5 h-5 rtl:-scale-x-100" />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { AyahDisplayData, Language, TafsirComparison } from '../types';
+import { AiService } from '../services/aiService';
+import { AiCacheService } from '../services/aiCacheService';
+import { errorMessageKey, canRetry } from '../services/errors';
+import { CLASSICAL_TAFSIRS, DEFAULT_COMPARISON_SOURCES, MAX_COMPARISON_SOURCES, PROMPT_VERSIONS } from '../services/aiPrompts';
+import { Icons } from './Icons';
+import { CacheStatus } from './CacheStatus';
+import { RequestErrorMessage } from './RequestErrorMessage';
+import { getTranslator, languageInfo } from '../services/i18n';
+
+interface TafsirComparisonViewProps {
+  ayah: AyahDisplayData;
+  language: Language;
+}
+
+const COLUMN_CLASSES: Record<number, string> = {
+  1: 'lg:grid-cols-1',
+  2: 'lg:grid-cols-2',
+  3: 'lg:grid-cols-3',
+  4: 'lg:grid-cols-4',
+};
+
+const sourceName = (id: string) => CLASSICAL_TAFSIRS.find(s => s.id === id)?.name ?? id;
+
+/**
+ * Classical tafsirs of one ayah next to each other: tabs on small screens, columns on large ones.
+ */
+export const TafsirComparisonView: React.FC<TafsirComparisonViewProps> = ({ ayah, language }) => {
+  const t = getTranslator(language);
+  const [sources, setSources] = useState<string[]>(DEFAULT_COMPARISON_SOURCES);
+  const [comparison, setComparison] = useState<TafsirComparison | null>(null);
+  const [comparedSources, setComparedSources] = useState<string[]>([]);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<{ message: string; retry?: () => void } | null>(null);
+  const [activeSource, setActiveSource] = useState<string | null>(null);
+  const requestRef = useRef(0);
+  // Aborted when a newer comparison starts or the view closes
+  const abortRef = useRef<AbortController | null>(null);
+
+  const compare = async (sourceIds: string[], refresh = false) => {
+    const request = ++requestRef.current;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { data, cachedAt } = await AiCacheService.getOrGenerate(
+        {
+          kind: 'comparison',
+          surahNumber: ayah.surahNumber,
+          ayahNumber: ayah.ayahNumber,
+          language,
+          model: await AiService.getModelKey(),
+          promptVersion: PROMPT_VERSIONS.comparison,
+          variant: [...sourceIds].sort().join('+'),
+        },
+        () => AiService.compareTafsir(ayah, sourceIds, language, controller.signal),
+        refresh
+      );
+      if (request !== requestRef.current) return;
+      setComparison(data);
+      setComparedSources(sourceIds);
+      setCachedAt(cachedAt);
+      setActiveSource(data.perspectives[0]?.sourceId ?? null);
+    } catch (e) {
+      if (request !== requestRef.current) return;
+      setError({
+        message: t(errorMessageKey(e, 'compare.error', { offline: 'offline.notSaved' })),
+        retry: canRetry(e) ? () => compare(sourceIds, refresh) : undefined,
+      });
+    } finally {
+      if (request === requestRef.current) {
+        abortRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Opening the view is the request to compare, so start with the current selection
+  useEffect(() => {
+    setComparison(null);
+    compare(sources);
+    return () => {
+      requestRef.current++;
+      abortRef.current?.abort();
+      abortRef.current = null;
+    };
+  }, [ayah.surahNumber, ayah.ayahNumber, language]);
+
+  const toggleSource = (id: string) => {
+    if (sources.includes(id)) {
+      if (sources.length > 2) setSources(sources.filter(s => s !== id));
+    } else if (sources.length < MAX_COMPARISON_SOURCES) {
+      // Keep the catalog order so columns line up the same way every time
+      setSources(CLASSICAL_TAFSIRS.map(s => s.id).filter(s => s === id || sources.includes(s)));
+    }
+  };
+
+  const selectionChanged = sources.join() !== comparedSources.join();
+  const fontClass = languageInfo(language).fontClass;
+
+  return (
+    <div className="space-y-5">
+      {/* Source picker */}
+      <div className="flex flex-wrap items-center gap-2 font-sans">
+        {CLASSICAL_TAFSIRS.map(source => {
+          const isSelected = sources.includes(source.id);
+          return (
+            <button
+              key={source.id}
+              onClick={() => toggleSource(source.id)}
+              title={source.author}
+              className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${isSelected ? 'bg-emerald-50 dark:bg-emerald-900/30 border-emerald-300 dark:border-emerald-700 text-emerald-700 dark:text-emerald-300' : 'border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:border-emerald-300'}`}
+            >
+              {source.name}
+            </button>
+          );
+        })}
+        {selectionChanged && !isLoading && (
+          <button
+            onClick={() => compare(sources)}
+            className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold bg-emerald-600 hover:bg-emerald-700 text-white transition-colors"
+          >
+            <Icons.Columns2 className="w-3.5 h-3.5" /> {t('compare.run')}
+          </button>
+        )}
+        <span className="text-[11px] text-slate-400">{t('compare.limit', { min: 2, max: MAX_COMPARISON_SOURCES })}</span>
+      </div>
+
+      {isLoading ? (
+        <div className="flex flex-col items-center justify-center h-48 space-y-4">
+          <div className="w-10 h-10 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
+          <p className="text-sm text-slate-500 dark:text-slate-400 animate-pulse">{t('compare.loading')}</p>
+        </div>
+      ) : error ? (
+        <RequestErrorMessage message={error.message} onRetry={error.retry} language={language} />
+      ) : comparison && (
+        <>
+          <div className="flex items-center justify-between gap-3">
+            <h4 className="text-lg font-bold text-emerald-800 dark:text-emerald-300">{comparison.ayahReference}</h4>
+            <CacheStatus cachedAt={cachedAt} onRegenerate={() => compare(comparedSources, true)} language={language} />
+          </div>
+
+          {/* Tabs (small screens) */}
+          <div className="flex gap-1 overflow-x-auto border-b border-slate-200 dark:border-slate-700 lg:hidden font-sans">
+            {comparison.perspectives.map(p => (
+              <button
+                key={p.sourceId}
+                onClick={() => setActiveSource(p.sourceId)}
+                className={`shrink-0 px-3 pb-2 text-xs font-semibold border-b-2 -mb-px transition-colors ${activeSource === p.sourceId ? 'border-emerald-500 text-emerald-600 dark:text-emerald-400' : 'border-transparent text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'}`}
+              >
+                {sourceName(p.sourceId)}
+              </button>
+            ))}
+          </div>
+
+          {/* Perspectives (columns on large screens) */}
+          <div className={`lg:grid gap-4 ${COLUMN_CLASSES[comparison.perspectives.length] ?? 'lg:grid-cols-4'}`}>
+            {comparison.perspectives.map(p => (
+              <section
+                key={p.sourceId}
+                className={`${activeSource === p.sourceId ? 'block' : 'hidden'} lg:block p-4 rounded-xl bg-slate-50 dark:bg-slate-900/40 border border-slate-100 dark:border-slate-700`}
+              >
+                <h5 className="hidden lg:block mb-2 text-sm font-bold text-slate-700 dark:text-slate-200 font-sans">
+                  {sourceName(p.sourceId)}
+                  <span className="block text-[11px] font-normal text-slate-400">
+                    {CLASSICAL_TAFSIRS.find(s => s.id === p.sourceId)?.author}
+                  </span>
+                </h5>
+                <div className={`prose prose-sm prose-slate dark:prose-invert max-w-none ${fontClass} prose-p:leading-7`}>
+                  <ReactMarkdown>{p.summary}</ReactMarkdown>
+                </div>
+              </section>
+            ))}
+          </div>
+
+          {/* Agreement and differences */}
+          <div className="grid md:grid-cols-2 gap-4">
+            <section className="p-4 rounded-xl bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-100 dark:border-emerald-800/30">
+              <h5 className="flex items-center gap-1.5 mb-2 text-sm font-bold text-emerald-800 dark:text-emerald-300">
+                <Icons.BadgeCheck className="w-4 h-4" /> {t('compare.commonGround')}
+              </h5>
+              <div className={`prose prose-sm prose-slate dark:prose-invert max-w-none ${fontClass}`}>
+                <ReactMarkdown>{comparison.commonGround}</ReactMarkdown>
+              </div>
+            </section>
+            <section className="p-4 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-800/30">
+              <h5 className="flex items-center gap-1.5 mb-2 text-sm font-bold text-amber-800 dark:text-amber-300">
+                <Icons.AlertTriangle className="w-4 h-4" /> {t('compare.differences')}
+              </h5>
+              <div className={`prose prose-sm prose-slate dark:prose-invert max-w-none ${fontClass}`}>
+                <ReactMarkdown>{comparison.differences}</ReactMarkdown>
+              </div>
+            </section>
+          </div>
+
+          <div className="pt-4 border-t border-slate-200 dark:border-slate-700 text-xs text-slate-400 dark:text-slate-500 italic">
+            {t('compare.disclaimer')}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
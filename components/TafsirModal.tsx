@@ -1,18 +1,41 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { TafsirData } from '../types';
+import { TafsirData, AyahDisplayData, Language } from '../types';
 import { Icons } from './Icons';
+import { CacheStatus } from './CacheStatus';
+import { TafsirChat } from './TafsirChat';
+import { TafsirReferences } from './TafsirReferences';
+import { TafsirComparisonView } from './TafsirComparisonView';
+import { getTranslator, languageInfo } from '../services/i18n';
 
 interface TafsirModalProps {
   isOpen: boolean;
   onClose: () => void;
   data: TafsirData | null;
+  ayah: AyahDisplayData | null; // The ayah the tafsir is about; follow-up questions are kept per ayah
+  draft: Partial<TafsirData> | null; // Fields received so far while streaming
   isLoading: boolean;
+  language: Language;
+  cachedAt: number | null;
+  onRegenerate: () => void;
 }
 
-export const TafsirModal: React.FC<TafsirModalProps> = ({ isOpen, onClose, data, isLoading }) => {
+type TafsirView = 'tafsir' | 'compare';
+
+export const TafsirModal: React.FC<TafsirModalProps> = ({ isOpen, onClose, data, ayah, draft, isLoading, language, cachedAt, onRegenerate }) => {
+  const [view, setView] = useState<TafsirView>('tafsir');
+
+  // Every opening starts on the blended tafsir; comparing sources is opt-in
+  useEffect(() => {
+    if (isOpen) setView('tafsir');
+  }, [isOpen, ayah?.surahNumber, ayah?.ayahNumber]);
+
   if (!isOpen) return null;
 
+  const t = getTranslator(language);
+  const content = data ?? (isLoading ? draft : null);
+  const isStreaming = isLoading && !data;
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
       {/* Backdrop */}
@@ -22,64 +45,121 @@ export const TafsirModal: React.FC<TafsirModalProps> = ({ isOpen, onClose, data,
       ></div>
 
       {/* Modal Content */}
-      <div className="relative w-full max-w-3xl max-h-[85vh] bg-white dark:bg-slate-800 rounded-2xl shadow-2xl overflow-hidden flex flex-col animate-in fade-in zoom-in-95 duration-200">
+      <div className={`relative w-full ${view === 'compare' ? 'max-w-6xl' : 'max-w-3xl'} max-h-[85vh] bg-white dark:bg-slate-800 rounded-2xl shadow-2xl overflow-hidden flex flex-col animate-in fade-in zoom-in-95 duration-200`}>
         
         {/* Header */}
         <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
           <h3 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
             <Icons.Sparkles className="w-5 h-5 text-gold-500" />
-            AI Tafsir
+            {t('tafsir.title')}
           </h3>
-          <button 
-            onClick={onClose}
-            className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400 transition-colors"
-          >
-            <Icons.X className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-2">
+            {ayah && (
+              <div className="flex bg-slate-200/60 dark:bg-slate-900 rounded-lg p-1 font-sans">
+                {(['tafsir', 'compare'] as TafsirView[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-3 py-1 text-xs rounded-md font-medium transition-all ${view === option ? 'bg-white dark:bg-slate-700 text-emerald-600 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+                  >
+                    {t(option === 'tafsir' ? 'compare.blended' : 'compare.title')}
+                  </button>
+                ))}
+              </div>
+            )}
+            {view === 'tafsir' && data && !isLoading && (
+              <CacheStatus cachedAt={cachedAt} onRegenerate={onRegenerate} language={language} />
+            )}
+            <button 
+              onClick={onClose}
+              className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400 transition-colors"
+            >
+              <Icons.X className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
         {/* Scrollable Body */}
         <div className="overflow-y-auto flex-1 p-6 md:p-8 custom-scrollbar">
-          {isLoading ? (
+          {view === 'compare' && ayah ? (
+            <TafsirComparisonView ayah={ayah} language={language} />
+          ) : isStreaming && !content?.ayahReference && !content?.tafsirText ? (
             <div className="flex flex-col items-center justify-center h-64 space-y-4">
               <div className="w-12 h-12 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
-              <p className="text-slate-500 dark:text-slate-400 font-bengali animate-pulse">
-                বিশ্লেষণ করা হচ্ছে... (Analyzing...)
+              <p className="text-slate-500 dark:text-slate-400 animate-pulse">
+                {t('tafsir.analyzing')}
               </p>
+              <button
+                onClick={onClose}
+                className="text-xs font-semibold text-slate-500 hover:text-red-500 px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 transition-colors font-sans"
+              >
+                {t('common.cancel')}
+              </button>
             </div>
-          ) : data ? (
+          ) : content ? (
             <div className="space-y-6">
               {/* Reference Header */}
-              <div className="bg-emerald-50 dark:bg-emerald-900/20 p-4 rounded-xl border border-emerald-100 dark:border-emerald-800/30">
-                <h4 className="text-xl font-bold text-emerald-800 dark:text-emerald-300 mb-1">
-                  {data.ayahReference}
-                </h4>
-                <p className="font-arabic text-2xl text-slate-700 dark:text-slate-300 opacity-80" dir="rtl">
-                  {data.arabicSnippet}...
-                </p>
-              </div>
+              {content.ayahReference ? (
+                <div className="bg-emerald-50 dark:bg-emerald-900/20 p-4 rounded-xl border border-emerald-100 dark:border-emerald-800/30">
+                  <h4 className="text-xl font-bold text-emerald-800 dark:text-emerald-300 mb-1">
+                    {content.ayahReference}
+                  </h4>
+                  {content.arabicSnippet && (
+                    <p className="font-arabic text-2xl text-slate-700 dark:text-slate-300 opacity-80" dir="rtl">
+                      {content.arabicSnippet}...
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <div className="h-20 rounded-xl bg-slate-100 dark:bg-slate-700/50 animate-pulse" />
+              )}
 
               {/* Themes */}
-              <div className="flex flex-wrap gap-2">
-                {data.keyThemes.map((theme, idx) => (
-                  <span key={idx} className="px-3 py-1 rounded-full text-xs font-medium bg-gold-100 text-gold-700 dark:bg-gold-900/30 dark:text-gold-400 border border-gold-200 dark:border-gold-800">
-                    {theme}
-                  </span>
-                ))}
-              </div>
+              {content.keyThemes ? (
+                <div className="flex flex-wrap gap-2">
+                  {content.keyThemes.map((theme, idx) => (
+                    <span key={idx} className="px-3 py-1 rounded-full text-xs font-medium bg-gold-100 text-gold-700 dark:bg-gold-900/30 dark:text-gold-400 border border-gold-200 dark:border-gold-800">
+                      {theme}
+                    </span>
+                  ))}
+                </div>
+              ) : isStreaming && (
+                <div className="flex gap-2">
+                  {[0, 1, 2].map(i => <span key={i} className="w-20 h-6 rounded-full bg-slate-100 dark:bg-slate-700/50 animate-pulse" />)}
+                </div>
+              )}
 
               {/* Main Content */}
-              <div className="prose prose-slate dark:prose-invert max-w-none font-bengali prose-headings:text-emerald-700 dark:prose-headings:text-emerald-400 prose-p:leading-8">
-                <ReactMarkdown>{data.tafsirText}</ReactMarkdown>
-              </div>
-              
-              <div className="mt-8 pt-4 border-t border-slate-200 dark:border-slate-700 text-xs text-slate-400 dark:text-slate-500 italic">
-                Disclaimer: This Tafsir is generated by AI based on authentic sources. Always verify with a qualified scholar for legal rulings.
+              <div className={`prose prose-slate dark:prose-invert max-w-none ${languageInfo(language).fontClass} prose-headings:text-emerald-700 dark:prose-headings:text-emerald-400 prose-p:leading-8`}>
+                <ReactMarkdown>{content.tafsirText || ''}</ReactMarkdown>
+                {isStreaming && <span className="inline-block w-2 h-5 align-middle bg-emerald-500 animate-pulse" />}
               </div>
+
+              {isStreaming ? (
+                <div className="flex justify-center">
+                  <button
+                    onClick={onClose}
+                    className="flex items-center gap-1.5 text-xs font-semibold text-slate-500 hover:text-red-500 px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 transition-colors font-sans"
+                  >
+                    <Icons.X className="w-3.5 h-3.5" />
+                    {t('tafsir.stop')}
+                  </button>
+                </div>
+              ) : (
+                <>
+                  {data && ayah && (
+                    <TafsirReferences tafsir={data} surahNumber={ayah.surahNumber} ayahNumber={ayah.ayahNumber} language={language} />
+                  )}
+                  <div className="mt-8 pt-4 border-t border-slate-200 dark:border-slate-700 text-xs text-slate-400 dark:text-slate-500 italic">
+                    {t('tafsir.disclaimer')}
+                  </div>
+                  {data && ayah && <TafsirChat ayah={ayah} tafsir={data} language={language} />}
+                </>
+              )}
             </div>
           ) : (
              <div className="text-center text-slate-500">
-                Something went wrong. Please try again.
+                {t('common.tryAgainError')}
              </div>
           )}
         </div>
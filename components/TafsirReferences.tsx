@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { Language, TafsirData, CheckedCitation, VerifiedRelatedAyah } from '../types';
+import { TafsirReferenceService } from '../services/tafsirReferenceService';
+import { primaryTranslation } from '../services/translationService';
+import { formatRoute } from '../services/router';
+import { Icons } from './Icons';
+import { getTranslator, languageInfo, formatAyahRef } from '../services/i18n';
+
+interface TafsirReferencesProps {
+  tafsir: TafsirData;
+  surahNumber: number;
+  ayahNumber: number;
+  language: Language;
+}
+
+const UnverifiedBadge: React.FC<{ language: Language }> = ({ language }) => (
+  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold font-sans bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400">
+    <Icons.AlertTriangle className="w-3 h-3" />
+    {getTranslator(language)('search.unverified')}
+  </span>
+);
+
+const VerificationBadge: React.FC<{ verified: boolean; language: Language }> = ({ verified, language }) => {
+  const t = getTranslator(language);
+  return verified ? (
+    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold font-sans bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-400">
+      <Icons.BadgeCheck className="w-3 h-3" />
+      {t('search.verified')}
+    </span>
+  ) : <UnverifiedBadge language={language} />;
+};
+
+// Only the title of a citation can be recognised, so it is never shown as verified
+const CitationBadge: React.FC<{ knownWork: boolean; language: Language }> = ({ knownWork, language }) => knownWork ? (
+  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold font-sans bg-sky-50 text-sky-700 dark:bg-sky-900/20 dark:text-sky-400">
+    <Icons.BookOpen className="w-3 h-3" />
+    {getTranslator(language)('references.knownWork')}
+  </span>
+) : <UnverifiedBadge language={language} />;
+
+/**
+ * The works a tafsir cites and the ayahs it points to, each checked before it is shown.
+ */
+export const TafsirReferences: React.FC<TafsirReferencesProps> = ({ tafsir, surahNumber, ayahNumber, language }) => {
+  const t = getTranslator(language);
+  const [citations, setCitations] = useState<CheckedCitation[]>([]);
+  const [relatedAyahs, setRelatedAyahs] = useState<VerifiedRelatedAyah[] | null>(null); // null while checking
+
+  useEffect(() => {
+    let isCurrent = true;
+    setCitations(TafsirReferenceService.checkCitations(tafsir.citations));
+    setRelatedAyahs(null);
+    TafsirReferenceService.verifyRelatedAyahs(tafsir.relatedAyahs, surahNumber, ayahNumber)
+      .then(verified => { if (isCurrent) setRelatedAyahs(verified); })
+      .catch(e => {
+        console.warn('Could not check related ayahs:', e);
+        if (isCurrent) setRelatedAyahs([]);
+      });
+    return () => { isCurrent = false; };
+  }, [tafsir, surahNumber, ayahNumber]);
+
+  if (citations.length === 0 && !tafsir.relatedAyahs?.length) return null;
+
+  const sectionTitle = "flex items-center gap-2 mb-3 text-xs font-bold text-slate-400 uppercase tracking-wider font-sans";
+
+  return (
+    <div className={`space-y-6 ${languageInfo(language).fontClass}`}>
+      {citations.length > 0 && (
+        <section>
+          <h4 className={sectionTitle}>
+            <Icons.BookOpen className="w-4 h-4" /> {t('references.sources')}
+          </h4>
+          <ul className="space-y-2">
+            {citations.map((citation, i) => (
+              <li key={i} className="flex items-start justify-between gap-3 text-sm">
+                <span className="min-w-0">
+                  <span className="font-semibold text-slate-700 dark:text-slate-200">{citation.work}</span>
+                  {citation.author && <span className="text-slate-500 dark:text-slate-400"> — {citation.author}</span>}
+                  {(citation.volume || citation.page) && (
+                    <span className="block text-xs text-slate-400">
+                      {[
+                        citation.volume && t('references.volume', { volume: citation.volume }),
+                        citation.page && t('references.page', { page: citation.page }),
+                      ].filter(Boolean).join(', ')}
+                    </span>
+                  )}
+                </span>
+                <CitationBadge knownWork={citation.knownWork} language={language} />
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {!!tafsir.relatedAyahs?.length && (
+        <section>
+          <h4 className={sectionTitle}>
+            <Icons.Link2 className="w-4 h-4" /> {t('references.related')}
+          </h4>
+          {relatedAyahs === null ? (
+            <div className="space-y-2">
+              {tafsir.relatedAyahs.map((_, i) => <div key={i} className="h-14 rounded-xl bg-slate-100 dark:bg-slate-700/50 animate-pulse" />)}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {relatedAyahs.map(related => (
+                <a
+                  key={`${related.surahNumber}:${related.ayahNumber}`}
+                  href={formatRoute({ name: 'ayah', surahNumber: related.surahNumber, ayahNumber: related.ayahNumber, panel: null })}
+                  className="block p-3 rounded-xl border border-slate-100 dark:border-slate-700 hover:border-emerald-300 dark:hover:border-emerald-700 hover:bg-emerald-50/50 dark:hover:bg-emerald-900/10 transition-colors"
+                >
+                  <span className="flex items-center justify-between gap-3">
+                    <span className="text-xs font-semibold text-emerald-700 dark:text-emerald-400 font-sans">
+                      {related.ayah ? `${related.ayah.surahNameEnglish} ` : ''}
+                      {formatAyahRef(related.surahNumber, related.ayahNumber, language)}
+                    </span>
+                    <VerificationBadge verified={related.verified} language={language} />
+                  </span>
+                  {related.reason && <span className="block mt-1 text-sm text-slate-600 dark:text-slate-300">{related.reason}</span>}
+                  {related.ayah && (
+                    <span className="block mt-1 text-xs text-slate-400 line-clamp-2">{primaryTranslation(related.ayah, language)}</span>
+                  )}
+                </a>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { TextSearchResult, TextSearchMatch, Language } from '../types';
+import { Icons } from './Icons';
+import { getTranslator, formatAyahRef } from '../services/i18n';
+
+interface TextSearchResultCardProps {
+  result: TextSearchResult;
+  language: Language;
+  onSelect: () => void;
+}
+
+const HighlightedText: React.FC<{ match: TextSearchMatch }> = ({ match }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  match.highlights.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(match.text.slice(cursor, start));
+    parts.push(
+      <mark key={i} className="bg-gold-400/30 dark:bg-gold-500/30 text-inherit rounded px-0.5">
+        {match.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < match.text.length) parts.push(match.text.slice(cursor));
+  return <>{parts}</>;
+};
+
+const FIELD_STYLES: Record<TextSearchMatch['field'], string> = {
+  ar: 'font-arabic text-xl leading-loose text-right text-slate-800 dark:text-slate-100',
+  bn: 'font-bengali text-sm leading-relaxed text-slate-600 dark:text-slate-300',
+  en: 'font-sans text-sm leading-relaxed text-slate-600 dark:text-slate-300',
+};
+
+export const TextSearchResultCard: React.FC<TextSearchResultCardProps> = ({ result, language, onSelect }) => (
+  <button
+    onClick={onSelect}
+    className="w-full group bg-white dark:bg-slate-800 p-5 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-emerald-400 dark:hover:border-emerald-500 transition-all hover:shadow-md text-start"
+  >
+    <div className="flex justify-between items-start mb-3">
+      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-400 font-sans">
+        {result.surahNameEnglish} {formatAyahRef(result.surahNumber, result.ayahNumber, language)}
+      </span>
+      <div className="flex items-center gap-2">
+        <span className="font-arabic text-lg text-slate-500 dark:text-slate-400">{result.surahNameArabic.replace('سورة', '')}</span>
+        <Icons.ChevronRight className="w-4 h-4 text-slate-300 group-hover:text-emerald-500 transition-colors rtl:rotate-180" />
+      </div>
+    </div>
+    <div className="space-y-2">
+      {result.matches.map(match => (
+        <p key={match.field} className={FIELD_STYLES[match.field]} dir={match.field === 'ar' ? 'rtl' : 'ltr'} lang={match.field}>
+          <HighlightedText match={match} />
+        </p>
+      ))}
+    </div>
+    {result.matches.length === 0 && (
+      <p className="text-sm text-slate-400">{getTranslator(language)('search.noMatch')}</p>
+    )}
+  </button>
+);
@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Edition, Language, TranslationSelection } from '../types';
+import { resolveEditions, missingEditions, editionName } from '../services/translationService';
+import { Icons } from './Icons';
+import { getTranslator, LANGUAGES, formatNumber } from '../services/i18n';
+
+interface TranslationPickerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  language: Language;
+  catalog: Edition[]; // Translation editions offered by the current data source
+  selection: TranslationSelection;
+  onChange: (selection: TranslationSelection) => void;
+}
+
+const languageLabel = (code: string, language: Language) => {
+  try {
+    return new Intl.DisplayNames([language], { type: 'language' }).of(code) ?? code;
+  } catch (error) {
+    return code;
+  }
+};
+
+export const TranslationPickerModal: React.FC<TranslationPickerModalProps> = ({
+  isOpen,
+  onClose,
+  language,
+  catalog,
+  selection,
+  onChange
+}) => {
+  const t = getTranslator(language);
+
+  // Which interface language's list is being edited
+  const [target, setTarget] = useState<Language>(language);
+  const [filter, setFilter] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setTarget(language);
+      setFilter('');
+    }
+  }, [isOpen, language]);
+
+  const selected = resolveEditions(catalog, selection[target], target).map(e => e.identifier);
+  // Choices the current data source cannot show; kept so they come back when the source changes
+  const missing = missingEditions(catalog, selection[target]);
+
+  // Group by language, interface languages first
+  const groups = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const matches = catalog.filter(e => !query
+      || e.name.toLowerCase().includes(query)
+      || e.englishName.toLowerCase().includes(query)
+      || e.identifier.includes(query)
+      || languageLabel(e.language, language).toLowerCase().includes(query));
+    const byLanguage = new Map<string, Edition[]>();
+    for (const edition of matches) {
+      byLanguage.set(edition.language, [...(byLanguage.get(edition.language) ?? []), edition]);
+    }
+    const rank = (code: string) => {
+      const index = LANGUAGES.findIndex(l => l.code === code);
+      return index < 0 ? LANGUAGES.length : index;
+    };
+    return [...byLanguage.entries()].sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b));
+  }, [catalog, filter, language]);
+
+  if (!isOpen) return null;
+
+  const toggle = (identifier: string) => {
+    const next = selected.includes(identifier)
+      ? selected.filter(id => id !== identifier)
+      : [...selected, identifier];
+    if (next.length === 0) return; // Always show at least one translation
+    onChange({ ...selection, [target]: [...next, ...missing] });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      ></div>
+
+      {/* Modal Content */}
+      <div className="relative w-full max-w-2xl max-h-[85vh] bg-white dark:bg-slate-800 rounded-2xl shadow-2xl overflow-hidden flex flex-col animate-in fade-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
+            <Icons.Languages className="w-5 h-5 text-emerald-600" />
+            {t('translations.title')}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400 transition-colors"
+          >
+            <Icons.X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Controls */}
+        <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-700 space-y-3 font-sans">
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              {t('translations.target')}
+            </span>
+            <div className="flex bg-slate-100 dark:bg-slate-900 rounded-lg p-1">
+              {LANGUAGES.map(({ code, nativeName }) => (
+                <button
+                  key={code}
+                  onClick={() => setTarget(code)}
+                  className={`px-3 py-1 text-xs rounded-md font-medium transition-all ${target === code ? 'bg-white dark:bg-slate-700 text-emerald-600 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+                >
+                  {nativeName}
+                </button>
+              ))}
+            </div>
+          </div>
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder={t('translations.filter')}
+            className="w-full px-3 py-2 text-sm bg-slate-100 dark:bg-slate-900 border-none rounded-lg text-slate-700 dark:text-slate-200 focus:ring-1 focus:ring-emerald-500"
+          />
+          {missing.length > 0 && (
+            <p className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+              <Icons.AlertTriangle className="w-4 h-4 shrink-0" />
+              {t('translations.unavailable', {
+                names: missing.map(id => editionName(id, catalog)).join(', '),
+                shown: selected.map(id => editionName(id, catalog)).join(', '),
+              })}
+            </p>
+          )}
+        </div>
+
+        {/* Scrollable Body */}
+        <div className="overflow-y-auto flex-1 p-4 custom-scrollbar font-sans">
+          {groups.length === 0 ? (
+            <div className="text-center text-sm text-slate-400 py-10">
+              {t('translations.empty')}
+            </div>
+          ) : groups.map(([code, editions]) => (
+            <div key={code} className="mb-4">
+              <div className="px-2 pb-1 text-xs font-bold text-slate-400 uppercase tracking-wider">
+                {languageLabel(code, language)}
+              </div>
+              {editions.map(edition => {
+                const position = selected.indexOf(edition.identifier);
+                return (
+                  <label
+                    key={edition.identifier}
+                    className="flex items-center gap-3 px-2 py-2 rounded-lg cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={position >= 0}
+                      onChange={() => toggle(edition.identifier)}
+                      className="rounded text-emerald-600 focus:ring-emerald-500"
+                    />
+                    <span className="flex-1 min-w-0">
+                      <span className="block text-sm text-slate-700 dark:text-slate-200 truncate">{edition.englishName}</span>
+                      <span className="block text-[11px] text-slate-400 truncate" dir={edition.direction === 'rtl' ? 'rtl' : 'ltr'}>{edition.name}</span>
+                    </span>
+                    {position >= 0 && selected.length > 1 && (
+                      <span className="text-[10px] font-bold w-5 h-5 flex items-center justify-center rounded-full bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300">
+                        {formatNumber(position + 1, language)}
+                      </span>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
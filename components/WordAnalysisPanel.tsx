@@ -0,0 +1,156 @@
+import React from 'react';
+import { AyahDisplayData, Language, PartOfSpeech } from '../types';
+import { MorphologyResult, ayahWords } from '../services/morphologyService';
+import { Icons } from './Icons';
+import { CacheStatus } from './CacheStatus';
+import { getTranslator, languageInfo, formatAyahRef, MessageKey } from '../services/i18n';
+
+interface WordAnalysisPanelProps {
+  ayah: AyahDisplayData | null; // Panel is open while set
+  wordIndex: number;
+  result: MorphologyResult | null;
+  isLoading: boolean;
+  error: string | null;
+  language: Language;
+  onClose: () => void;
+  onSelectWord: (wordIndex: number) => void;
+  onRegenerate: () => void;
+}
+
+const PART_OF_SPEECH_LABELS: Record<PartOfSpeech, MessageKey> = {
+  noun: 'words.pos.noun',
+  proper_noun: 'words.pos.proper_noun',
+  pronoun: 'words.pos.pronoun',
+  adjective: 'words.pos.adjective',
+  verb: 'words.pos.verb',
+  particle: 'words.pos.particle',
+  preposition: 'words.pos.preposition',
+  conjunction: 'words.pos.conjunction',
+};
+
+export const WordAnalysisPanel: React.FC<WordAnalysisPanelProps> = ({
+  ayah,
+  wordIndex,
+  result,
+  isLoading,
+  error,
+  language,
+  onClose,
+  onSelectWord,
+  onRegenerate
+}) => {
+  if (!ayah) return null;
+
+  const t = getTranslator(language);
+  const fontClass = languageInfo(language).fontClass;
+  const words = ayahWords(ayah.arabicText);
+  const analysis = result?.words.find(w => w.position === wordIndex + 1);
+
+  const field = (label: string, value: React.ReactNode, className = '') => (
+    <div className="flex flex-col gap-0.5">
+      <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400 font-sans">{label}</span>
+      <span className={`text-slate-700 dark:text-slate-200 ${className}`}>{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center sm:p-6">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      ></div>
+
+      {/* Panel Content */}
+      <div className="relative w-full max-w-lg max-h-[85vh] bg-white dark:bg-slate-800 rounded-t-2xl sm:rounded-2xl shadow-2xl overflow-hidden flex flex-col animate-in fade-in slide-in-from-bottom-4 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+          <h3 className="text-sm font-bold text-slate-800 dark:text-white flex items-center gap-2 font-sans">
+            <Icons.Type className="w-4 h-4 text-emerald-500" />
+            {t('words.title')} · {formatAyahRef(ayah.surahNumber, ayah.ayahNumber, language)}
+          </h3>
+          <div className="flex items-center gap-2">
+            {result?.source === 'ai' && !isLoading && (
+              <CacheStatus cachedAt={result.cachedAt} onRegenerate={onRegenerate} language={language} />
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400 transition-colors"
+            >
+              <Icons.X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-5 custom-scrollbar space-y-5">
+          {/* Word strip, in reading order (right to left) */}
+          <div className="flex flex-wrap gap-1.5 justify-start" dir="rtl">
+            {words.map((word, i) => (
+              <button
+                key={i}
+                onClick={() => onSelectWord(i)}
+                className={`font-arabic text-xl px-2 py-0.5 rounded-lg transition-colors ${i === wordIndex ? 'bg-emerald-500 text-white' : 'text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+              >
+                {word}
+              </button>
+            ))}
+          </div>
+
+          {/* Selected word; arrows follow the Arabic reading direction whatever the UI direction */}
+          <div className="flex items-center justify-between gap-3" dir="ltr">
+            <button
+              onClick={() => onSelectWord(wordIndex + 1)}
+              disabled={wordIndex >= words.length - 1}
+              title={t('words.next')}
+              className="p-2 rounded-full text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30 transition-colors"
+            >
+              <Icons.ChevronLeft className="w-5 h-5" />
+            </button>
+            <p className="font-arabic text-5xl text-center text-slate-800 dark:text-white leading-[1.6]" dir="rtl">
+              {words[wordIndex]}
+            </p>
+            <button
+              onClick={() => onSelectWord(wordIndex - 1)}
+              disabled={wordIndex <= 0}
+              title={t('words.previous')}
+              className="p-2 rounded-full text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30 transition-colors"
+            >
+              <Icons.ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="grid grid-cols-2 gap-4">
+              {[0, 1, 2, 3, 4].map(i => <div key={i} className="h-10 rounded-lg bg-slate-100 dark:bg-slate-700/50 animate-pulse" />)}
+            </div>
+          ) : error ? (
+            <div className="text-center text-sm text-red-500">{error}</div>
+          ) : analysis ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="col-span-2">
+                {field(t('words.meaning'), analysis.meaning, `text-lg font-semibold ${fontClass}`)}
+              </div>
+              {field(t('words.transliteration'), analysis.transliteration, 'italic font-sans')}
+              {field(t('words.partOfSpeech'), t(PART_OF_SPEECH_LABELS[analysis.partOfSpeech]), fontClass)}
+              {field(t('words.root'), analysis.root || '—', 'font-arabic text-xl')}
+              {field(t('words.lemma'), analysis.lemma || '—', 'font-arabic text-xl')}
+            </div>
+          ) : result ? (
+            <div className="text-center text-sm text-slate-400">
+              {t('words.noAnalysis')}
+            </div>
+          ) : null}
+
+          {result && !isLoading && (
+            <p className="text-[10px] text-slate-400 italic font-sans">
+              {result.source === 'dataset'
+                ? t('words.sourceDataset')
+                : t('words.sourceAi')}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,11 @@
+import { BookmarkColor } from '../types';
+
+// Tailwind classes per bookmark color: dot/swatch background and icon text color
+export const BOOKMARK_COLOR_CLASSES: Record<BookmarkColor, { dot: string; text: string }> = {
+  emerald: { dot: 'bg-emerald-500', text: 'text-emerald-500' },
+  gold: { dot: 'bg-gold-500', text: 'text-gold-500' },
+  sky: { dot: 'bg-sky-500', text: 'text-sky-500' },
+  rose: { dot: 'bg-rose-500', text: 'text-rose-500' },
+  violet: { dot: 'bg-violet-500', text: 'text-violet-500' },
+  slate: { dot: 'bg-slate-500', text: 'text-slate-500' },
+};
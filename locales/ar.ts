@@ -0,0 +1,308 @@
+import { Messages } from './en';
+
+export const ar: Messages = {
+  // Shared
+  'common.loading': 'جارٍ التحميل...',
+  'common.pause': 'إيقاف مؤقت',
+  'common.cancel': 'إلغاء',
+  'common.tryAgainError': 'حدث خطأ ما. يرجى المحاولة مرة أخرى.',
+  'common.somethingWrong': 'حدث خطأ ما.',
+  'common.save': 'حفظ',
+  'common.delete': 'حذف',
+  'common.play': 'تشغيل',
+
+  // Sidebar
+  'nav.aiSearch': 'البحث الذكي',
+  'nav.surahs': 'السور',
+  'nav.saved': 'المحفوظات',
+  'nav.history': 'السجل',
+  'nav.filterSurahs': 'ابحث عن سورة...',
+  'nav.percentRead': 'قُرئ {percent}',
+  'nav.noSurahFound': 'لم يُعثر على سورة.',
+  'nav.parts': 'الأجزاء',
+
+  // Settings
+  'settings.appearance': 'المظهر',
+  'settings.theme': 'السمة',
+  'settings.arabicSize': 'حجم النص العربي',
+  'settings.translationSize': 'حجم الترجمة',
+  'settings.translationsSelected': 'المحدد: {count}',
+  'settings.manage': 'إدارة',
+  'settings.quranData': 'بيانات القرآن',
+  'settings.online': 'متصل',
+  'settings.offline': 'دون اتصال',
+
+  // Search
+  'search.unknownAyahRef': 'سورة {surah}، آية {ayah}',
+  'search.confidence': 'تطابق {percent}',
+  'search.verified': 'موثّق',
+  'search.unverified': 'غير موثّق',
+  'search.noMatch': 'لا يوجد تطابق',
+  'search.noTextMatch': 'لم يُعثر على نص مطابق.',
+  'search.offlineLoadError': 'تعذّر تحميل نص القرآن دون اتصال.',
+  'search.noResults': 'لم يُعثر على آيات ذات صلة.',
+  'search.failed': 'فشل البحث. يُرجى التحقق من الاتصال.',
+  'search.askTitle': 'اسأل القرآن',
+  'search.askMode': 'اسأل القرآن',
+  'search.textTitle': 'ابحث عن نص مطابق',
+  'search.exactText': 'نص مطابق',
+  'search.askSubtitle': 'ابحث بلغتك الطبيعية، واكتشف الهداية عبر البحث الدلالي بالذكاء الاصطناعي.',
+  'search.textSubtitle': 'اكتب كلمات عربية أو بنغالية أو إنجليزية. يدعم "عبارة مطابقة" والبادئة* وOR و-الاستبعاد. يعمل دون اتصال.',
+  'search.askPlaceholder': 'مثال: ماذا يقول القرآن عن الصبر؟',
+  'search.textPlaceholder': 'مثال: "مع الصابرين" أو الصبر',
+  'search.continueReading': 'تابع القراءة',
+  'search.khatmPercent': 'الختمة {percent}',
+  'search.matchingAyahs': { zero: 'لا توجد آيات مطابقة', one: 'آية واحدة مطابقة', two: 'آيتان مطابقتان', few: '{count} آيات مطابقة', many: '{count} آية مطابقة', other: '{count} آية مطابقة' },
+  'search.showingFirst': 'عرض أول {shown} من {count} آية مطابقة',
+  'search.suggested': 'آيات مقترحة',
+
+  // Reader
+  'reader.playRecitation': 'استمع إلى التلاوة',
+  'reader.bookmark': 'إشارة مرجعية',
+  'reader.note': 'ملاحظة',
+  'reader.readTafsir': 'اقرأ التفسير',
+  'reader.translationUnavailable': 'الترجمة غير متوفرة',
+  'reader.myNote': 'ملاحظتي',
+  'reader.earlierAyahs': 'الآيات السابقة ({from}–{to})',
+  'reader.moreAyahs': 'المزيد من الآيات ({from}–{to})',
+  'reader.surahNotFound': 'السورة {surah} غير موجودة.',
+  'reader.ayahNumber': 'الآية {ayah}',
+  'reader.loadingAyah': 'جارٍ تحميل الآية...',
+  'reader.backToSearch': 'العودة إلى البحث',
+  'reader.modeAyah': 'آية',
+  'reader.modeSurah': 'السورة كاملة',
+  'reader.emptyState': 'اختر سورة أو ابحث للبدء.',
+  'reader.previous': 'السابقة',
+  'reader.next': 'التالية',
+  'reader.ayahLoadError': 'تعذّر تحميل الآية. ربما غير موجودة أو الشبكة غير متاحة.',
+  'reader.surahLoadError': 'تعذّر تحميل السورة. ربما غير موجودة أو الشبكة غير متاحة.',
+  'reader.moreAyahsError': 'تعذّر تحميل مزيد من الآيات.',
+  'reader.surahListError': 'تعذّر تحميل قائمة السور. يرجى التحقق من الاتصال.',
+  'reader.corpusLoadError': 'تعذّر تحميل بيانات القرآن دون اتصال.',
+
+  // Tafsir
+  'tafsir.title': 'تفسير بالذكاء الاصطناعي',
+  'tafsir.analyzing': 'جارٍ التحليل...',
+  'tafsir.stop': 'إيقاف الإنشاء',
+  'tafsir.disclaimer': 'تنبيه: هذا التفسير مولَّد بالذكاء الاصطناعي استنادًا إلى مصادر موثوقة. تحقق دائمًا من عالم مؤهل في الأحكام الشرعية.',
+  'tafsir.error': 'تعذّر إنشاء التفسير.',
+  'chat.title': 'اطرح سؤالًا للمتابعة',
+  'chat.hint': 'اسأل عن أي شيء يتعلق بهذه الآية وتفسيرها، مثل صلتها بالآية ٣:٢٠٠ أو معنى كلمة فيها.',
+  'chat.placeholder': 'اسأل عن هذه الآية...',
+  'chat.send': 'إرسال',
+  'chat.thinking': 'جارٍ التفكير...',
+  'chat.clear': 'مسح المحادثة',
+  'chat.error': 'تعذّر الحصول على إجابة. حاول مرة أخرى.',
+  'compare.blended': 'التفسير',
+  'compare.title': 'مقارنة المصادر',
+  'compare.run': 'قارن',
+  'compare.limit': 'اختر من {min} إلى {max} مؤلفات',
+  'compare.loading': 'جارٍ مقارنة التفاسير الكلاسيكية...',
+  'compare.error': 'تعذّرت مقارنة التفاسير. حاول مرة أخرى.',
+  'compare.commonGround': 'مواضع الاتفاق',
+  'compare.differences': 'مواضع الاختلاف',
+  'compare.disclaimer': 'هذه الملخصات من إنشاء الذكاء الاصطناعي ونُسبت إلى كل مؤلَّف قدر الإمكان. راجع التفسير الأصلي قبل الاقتباس منه.',
+  'references.sources': 'المصادر المذكورة',
+  'references.related': 'آيات ذات صلة',
+  'references.volume': 'ج {volume}',
+  'references.page': 'ص {page}',
+  'references.knownWork': 'مصدر معروف',
+
+  // Surah overview
+  'overview.title': 'نظرة عامة على السورة',
+  'overview.loading': 'جارٍ جمع المعلومات...',
+  'overview.introduction': 'مقدمة',
+  'overview.historicalContext': 'السياق التاريخي',
+  'overview.keyThemes': 'الموضوعات الرئيسية',
+  'overview.keyLessons': 'الدروس المستفادة',
+  'overview.error': 'تعذّر تحميل نظرة عامة على السورة.',
+
+  // Word analysis
+  'words.title': 'تحليل الكلمات',
+  'words.next': 'الكلمة التالية',
+  'words.previous': 'الكلمة السابقة',
+  'words.meaning': 'المعنى',
+  'words.transliteration': 'النطق',
+  'words.partOfSpeech': 'نوع الكلمة',
+  'words.root': 'الجذر',
+  'words.lemma': 'اللمة (أصل الكلمة)',
+  'words.noAnalysis': 'لا يتوفر تحليل لهذه الكلمة.',
+  'words.sourceDataset': 'المصدر: قاعدة البيانات الصرفية المرفقة.',
+  'words.sourceAi': 'مولَّد بالذكاء الاصطناعي؛ تحقق منه من مرجع موثوق.',
+  'words.pos.noun': 'اسم',
+  'words.pos.proper_noun': 'اسم علم',
+  'words.pos.pronoun': 'ضمير',
+  'words.pos.adjective': 'صفة',
+  'words.pos.verb': 'فعل',
+  'words.pos.particle': 'حرف',
+  'words.pos.preposition': 'حرف جر',
+  'words.pos.conjunction': 'حرف عطف',
+  'words.loadError': 'تعذّر تحميل تحليل الكلمة.',
+
+  // Recitation
+  'audio.unavailable': 'الصوت غير متوفر لهذه الآية.',
+  'audio.repeat': 'تكرار (A–B)',
+  'audio.speed': 'السرعة',
+  'audio.reciter': 'القارئ',
+  'audio.close': 'إغلاق المشغّل',
+  'audio.ayahs': 'الآيات',
+  'audio.outsideRange': 'سيبدأ التشغيل من بداية النطاق',
+  'audio.listen': 'استماع',
+
+  // Hifz
+  'hifz.title': 'الحفظ',
+  'hifz.reviewRemaining': { zero: 'لم يتبقَّ شيء للمراجعة', one: 'بقيت آية واحدة للمراجعة', two: 'بقيت آيتان للمراجعة', few: 'بقيت {count} آيات للمراجعة', many: 'بقيت {count} آية للمراجعة', other: 'بقيت {count} آية للمراجعة' },
+  'hifz.maskWords': 'كلمات',
+  'hifz.maskLines': 'أسطر',
+  'hifz.hideLess': 'إخفاء أقل',
+  'hifz.hideMore': 'إخفاء المزيد',
+  'hifz.revealAll': 'إظهار الكل',
+  'hifz.instructions': 'اقرأ من حفظك، واضغط على الكلمة المخفية للتحقق منها، ثم قيّم حفظك.',
+  'hifz.grade.forgot': 'نسيت',
+  'hifz.grade.hard': 'صعب',
+  'hifz.grade.good': 'جيد',
+  'hifz.grade.easy': 'سهل',
+  'hifz.memorized': 'محفوظة',
+  'hifz.nextReview': { zero: 'المراجعة التالية {date} · الفاصل {count} يوم', one: 'المراجعة التالية {date} · الفاصل يوم واحد', two: 'المراجعة التالية {date} · الفاصل يومان', few: 'المراجعة التالية {date} · الفاصل {count} أيام', many: 'المراجعة التالية {date} · الفاصل {count} يومًا', other: 'المراجعة التالية {date} · الفاصل {count} يوم' },
+  'hifz.newCard': 'آية جديدة: التقييم يضيفها إلى جدول المراجعة.',
+  'hifz.todaysReview': 'مراجعة اليوم',
+  'hifz.due': { zero: 'لا آيات مستحقة', one: 'آية واحدة مستحقة', two: 'آيتان مستحقتان', few: '{count} آيات مستحقة', many: '{count} آية مستحقة', other: '{count} آية مستحقة' },
+  'hifz.start': 'ابدأ',
+  'hifz.bySurah': 'حسب السورة',
+  'hifz.empty': 'فعّل وضع الحفظ في القارئ لتبدأ الحفظ.',
+  'hifz.surahProgress': '{memorized} محفوظة · {learning} قيد الحفظ / {total}',
+  'hifz.gradeError': 'تعذّر حفظ تقييمك.',
+  'hifz.reviewComplete': 'اكتملت مراجعة اليوم!',
+  'hifz.mode': 'وضع الحفظ',
+
+  // Reading history
+  'history.khatmProgress': 'تقدّم الختمة',
+  'history.ayahsRead': { other: '{read} من {count} آية' },
+  'history.confirmReset': 'هل تبدأ ختمة جديدة؟ سيُمسح سجل الآيات المقروءة.',
+  'history.resetKhatm': 'ابدأ ختمة جديدة',
+  'history.recentlyRead': 'قُرئ مؤخرًا',
+  'history.clear': 'مسح السجل',
+  'history.empty': 'لم تتم قراءة شيء بعد.',
+  'history.clearError': 'تعذّر مسح سجل القراءة.',
+  'history.resetError': 'تعذّر بدء ختمة جديدة.',
+
+  // Bookmarks and notes
+  'study.export': 'تصدير',
+  'study.import': 'استيراد',
+  'study.bookmarks': 'الإشارات المرجعية',
+  'study.noBookmarks': 'لا توجد إشارات مرجعية بعد.',
+  'study.unfiled': 'بلا مجلد',
+  'study.deleteFolder': 'حذف المجلد',
+  'study.notes': 'الملاحظات',
+  'study.noNotes': 'لا توجد ملاحظات بعد.',
+  'study.color': 'اللون',
+  'study.folder': 'المجلد',
+  'study.noFolder': 'بلا مجلد',
+  'study.newFolder': 'مجلد جديد...',
+  'study.remove': 'إزالة',
+  'study.write': 'كتابة',
+  'study.preview': 'معاينة',
+  'study.emptyNote': '*لم يُكتب شيء بعد*',
+  'study.notePlaceholder': 'اكتب تدبّرك في هذه الآية (يدعم Markdown)...',
+  'study.bookmarkSaveError': 'تعذّر حفظ الإشارة المرجعية.',
+  'study.noteSaveError': 'تعذّر حفظ الملاحظة.',
+  'study.bookmarkRemoveError': 'تعذّرت إزالة الإشارة المرجعية.',
+  'study.folderSaveError': 'تعذّر إنشاء المجلد.',
+  'study.folderDeleteError': 'تعذّر حذف المجلد.',
+  'study.imported': 'تم استيراد {bookmarks} إشارة مرجعية و{notes} ملاحظة.',
+  'study.importError': 'فشل الاستيراد: {reason}',
+
+  // AI cache
+  'cache.cached': 'من الذاكرة المؤقتة',
+  'cache.regenerate': 'إعادة الإنشاء',
+  'cache.title': 'ذاكرة الذكاء الاصطناعي المؤقتة',
+  'cache.readError': 'تعذّرت قراءة الذاكرة المؤقتة.',
+  'cache.entries': { zero: 'لا إدخالات', one: 'إدخال واحد', two: 'إدخالان', few: '{count} إدخالات', many: '{count} إدخالًا', other: '{count} إدخال' },
+  'cache.clearAll': 'مسح الكل',
+  'cache.sizeLimit': 'الحد الأقصى للحجم (يُحذف الأقدم استخدامًا أولًا)',
+  'cache.empty': 'الذاكرة المؤقتة فارغة.',
+  'cache.lastUsed': 'آخر استخدام {date}',
+  'cache.kind.tafsir': 'تفسير',
+  'cache.kind.overview': 'نظرة عامة',
+  'cache.kind.morphology': 'تحليل الكلمات',
+  'cache.kind.comparison': 'مقارنة',
+  'cache.kind.passage': 'تفسير المقطع',
+
+  // Translations
+  'translations.title': 'الترجمات',
+  'translations.target': 'تُعرض عندما تكون لغة الواجهة',
+  'translations.filter': 'ابحث باللغة أو المترجم...',
+  'translations.empty': 'لم يتم العثور على ترجمات.',
+  'translations.unavailable': 'مصدر بيانات القرآن الحالي لا يتضمن {names}، لذا تُعرض {shown} بدلًا منها. اختر مصدر البيانات المتصل في الإعدادات لاستخدام اختيارك.',
+
+  // Passage tafsir
+  'passage.title': 'تفسير المقطع',
+  'passage.short': 'مقطع',
+  'passage.from': 'من الآية',
+  'passage.to': 'إلى',
+  'passage.explain': 'اشرح المقطع',
+  'passage.wholeRuku': 'الركوع كاملاً',
+  'passage.rukuHint': 'اختر الركوع الذي يضم الآية الأولى',
+  'passage.limit': 'حتى {max} آية',
+  'passage.hint': 'اختر نطاقًا من الآيات أو الركوع كاملاً لقراءتها معًا بتفسير واحد.',
+  'passage.loading': 'جارٍ قراءة المقطع كاملاً...',
+  'passage.error': 'تعذّر تحميل تفسير المقطع. حاول مرة أخرى.',
+
+  // Divisions
+  'divisions.juz': 'جزء',
+  'divisions.hizb': 'حزب',
+  'divisions.manzil': 'منزل',
+  'divisions.page': 'صفحة',
+  'divisions.juzNumber': 'الجزء {number}',
+  'divisions.hizbNumber': 'الحزب {number}',
+  'divisions.manzilNumber': 'المنزل {number}',
+  'divisions.pageNumber': 'صفحة {number}',
+  'divisions.rukuNumber': 'الركوع {number}',
+  'divisions.quarter': 'الربع {number}',
+
+  // Command palette
+  'palette.open': 'انتقال إلى…',
+  'palette.placeholder': 'اكتب مرجعًا مثل 2:255 أو اسم سورة أو أمرًا',
+  'palette.goTo': 'انتقال إلى {reference}',
+  'palette.passage': 'تفسير المقطع {reference}',
+  'palette.openSurah': 'فتح السورة {number} · {name}',
+  'palette.switchLanguage': 'تغيير اللغة إلى {name}',
+  'palette.overview': 'نظرة عامة على سورة {name}',
+  'palette.bookmark': 'إضافة {reference} إلى العلامات',
+  'palette.search': 'اسأل الذكاء الاصطناعي: “{query}”',
+  'palette.empty': 'لا توجد أوامر مطابقة',
+  'palette.hint': '↑↓ للتنقل · Enter للفتح · Esc للإغلاق',
+
+  // Offline
+  'offline.title': 'القراءة دون اتصال',
+  'offline.indicator': 'غير متصل',
+  'offline.indicatorHint': 'لا يوجد اتصال. السور المحمّلة ومحتوى الذكاء الاصطناعي المحفوظ لا يزالان متاحين.',
+  'offline.aiUnavailable': 'تحتاج ميزات الذكاء الاصطناعي إلى اتصال بالإنترنت',
+  'offline.notSaved': 'لم يُحفظ هذا للاستخدام دون اتصال. اتصل بالإنترنت لإنشائه.',
+  'offline.surahNotSaved': 'لم تُحمَّل هذه السورة للقراءة دون اتصال.',
+  'offline.bundledNote': 'أنت تستخدم البيانات المضمّنة، لذا يعمل نص القرآن دون اتصال. تُستخدم التنزيلات هنا مع مصدر البيانات عبر الإنترنت.',
+  'offline.savedCount': 'حُفظت {count} من {total} سورة',
+  'offline.download': 'تنزيل للقراءة دون اتصال',
+  'offline.downloadAll': 'تنزيل القرآن كاملًا',
+  'offline.stop': 'إيقاف',
+  'offline.removeAll': 'حذف الكل',
+  'offline.progress': 'جارٍ تنزيل {done} من {total}…',
+  'offline.downloadedOn': 'حُمّلت في {date}',
+  'offline.ayahCount': { zero: 'لا آيات', one: 'آية واحدة', two: 'آيتان', few: '{count} آيات', many: '{count} آية', other: '{count} آية' },
+  'offline.aiCacheNote': 'التفاسير والنظرات العامة وتحليلات الكلمات التي فتحتها سابقًا محفوظة في ذاكرة الذكاء الاصطناعي ويمكن قراءتها دون اتصال.',
+  'offline.downloadNeedsNetwork': 'اتصل بالإنترنت لتنزيل السور.',
+  'offline.downloadError': 'تعذّر تنزيل {surah}. يُرجى المحاولة مرة أخرى.',
+  'offline.downloadAllError': 'توقف التنزيل قبل اكتماله. السور المحفوظة حتى الآن باقية.',
+  'offline.readError': 'تعذّرت قراءة المكتبة دون اتصال.',
+
+  // Errors
+  'errors.notFound': 'تعذّر العثور على ذلك.',
+  'errors.rateLimited': 'الطلبات كثيرة جدًا الآن. يرجى الانتظار قليلًا ثم المحاولة مجددًا.',
+  'errors.offline': 'أنت غير متصل. اتصل بالإنترنت وحاول مجددًا.',
+  'errors.invalidAiResponse': 'أعاد الذكاء الاصطناعي ردًا تعذّرت قراءته. يرجى المحاولة مجددًا.',
+  'errors.missingApiKey': 'مفتاح واجهة الذكاء الاصطناعي مفقود أو غير صالح. تحقّق من المفتاح في إعدادات البيئة.',
+  'errors.timeout': 'استغرق الطلب وقتًا طويلًا. يرجى المحاولة مجددًا.',
+  'errors.network': 'تعذّر الوصول إلى الخادم. تحقّق من اتصالك وحاول مجددًا.',
+  'errors.server': 'واجه الخادم مشكلة. يرجى المحاولة مجددًا.',
+  'errors.retry': 'حاول مجددًا',
+};
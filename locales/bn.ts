@@ -0,0 +1,308 @@
+import { Messages } from './en';
+
+export const bn: Messages = {
+  // Shared
+  'common.loading': 'লোড হচ্ছে...',
+  'common.pause': 'বিরতি',
+  'common.cancel': 'বাতিল',
+  'common.tryAgainError': 'কিছু ভুল হয়েছে। আবার চেষ্টা করুন।',
+  'common.somethingWrong': 'কিছু ভুল হয়েছে।',
+  'common.save': 'সংরক্ষণ',
+  'common.delete': 'মুছুন',
+  'common.play': 'শুনুন',
+
+  // Sidebar
+  'nav.aiSearch': 'এআই অনুসন্ধান',
+  'nav.surahs': 'সূরা',
+  'nav.saved': 'সংরক্ষিত',
+  'nav.history': 'ইতিহাস',
+  'nav.filterSurahs': 'সূরা খুঁজুন...',
+  'nav.percentRead': '{percent} পঠিত',
+  'nav.noSurahFound': 'কোনো সূরা পাওয়া যায়নি।',
+  'nav.parts': 'পারা',
+
+  // Settings
+  'settings.appearance': 'প্রদর্শন',
+  'settings.theme': 'থিম',
+  'settings.arabicSize': 'আরবি লেখার আকার',
+  'settings.translationSize': 'অনুবাদের আকার',
+  'settings.translationsSelected': '{count}টি নির্বাচিত',
+  'settings.manage': 'পরিচালনা',
+  'settings.quranData': 'কুরআনের ডেটা',
+  'settings.online': 'অনলাইন',
+  'settings.offline': 'অফলাইন',
+
+  // Search
+  'search.unknownAyahRef': 'সূরা {surah}, আয়াত {ayah}',
+  'search.confidence': '{percent} মিল',
+  'search.verified': 'যাচাইকৃত',
+  'search.unverified': 'যাচাই করা যায়নি',
+  'search.noMatch': 'কোনো মিল নেই',
+  'search.noTextMatch': 'কোনো মিল পাওয়া যায়নি।',
+  'search.offlineLoadError': 'অফলাইন ডেটা লোড করা যায়নি।',
+  'search.noResults': 'কোনো আয়াত পাওয়া যায়নি।',
+  'search.failed': 'অনুসন্ধান ব্যর্থ হয়েছে।',
+  'search.askTitle': 'কুরআন জিজ্ঞাসা করুন',
+  'search.askMode': 'কুরআন জিজ্ঞাসা',
+  'search.textTitle': 'হুবহু পাঠ খুঁজুন',
+  'search.exactText': 'হুবহু পাঠ',
+  'search.askSubtitle': 'বাংলা বা ইংরেজিতে অনুসন্ধান করুন। এআই এর মাধ্যমে জানুন সঠিক তথ্য।',
+  'search.textSubtitle': 'আরবি, বাংলা বা ইংরেজি শব্দ লিখুন। "হুবহু বাক্যাংশ", শব্দ*, OR এবং -বাদ দিন সমর্থিত।',
+  'search.askPlaceholder': 'উদাহরণ: ধৈর্য সম্পর্কে কুরআন কি বলে?',
+  'search.textPlaceholder': 'উদাহরণ: "আল্লাহ ধৈর্য্যশীলদের" বা الصبر',
+  'search.continueReading': 'পড়া চালিয়ে যান',
+  'search.khatmPercent': 'খতম {percent}',
+  'search.matchingAyahs': '{count}টি আয়াত মিলেছে',
+  'search.showingFirst': '{count}টি মিলে যাওয়া আয়াতের প্রথম {shown}টি দেখানো হচ্ছে',
+  'search.suggested': 'প্রস্তাবিত আয়াতসমূহ',
+
+  // Reader
+  'reader.playRecitation': 'তিলাওয়াত শুনুন',
+  'reader.bookmark': 'বুকমার্ক',
+  'reader.note': 'নোট',
+  'reader.readTafsir': 'তাফসীর পড়ুন',
+  'reader.translationUnavailable': 'অনুবাদ অনুপলব্ধ',
+  'reader.myNote': 'আমার নোট',
+  'reader.earlierAyahs': 'আগের আয়াত ({from}–{to})',
+  'reader.moreAyahs': 'আরও আয়াত ({from}–{to})',
+  'reader.surahNotFound': 'সূরাটি পাওয়া যায়নি।',
+  'reader.ayahNumber': 'আয়াত {ayah}',
+  'reader.loadingAyah': 'লোড হচ্ছে...',
+  'reader.backToSearch': 'অনুসন্ধানে ফিরে যান',
+  'reader.modeAyah': 'আয়াত',
+  'reader.modeSurah': 'পূর্ণ সূরা',
+  'reader.emptyState': 'শুরু করতে একটি সূরা বেছে নিন বা অনুসন্ধান করুন।',
+  'reader.previous': 'পূর্ববর্তী',
+  'reader.next': 'পরবর্তী',
+  'reader.ayahLoadError': 'আয়াতটি লোড করা যায়নি। এটি নেই অথবা নেটওয়ার্ক সংযোগ বিচ্ছিন্ন।',
+  'reader.surahLoadError': 'সূরাটি লোড করা যায়নি। এটি নেই অথবা নেটওয়ার্ক সংযোগ বিচ্ছিন্ন।',
+  'reader.moreAyahsError': 'আরও আয়াত লোড করা যায়নি।',
+  'reader.surahListError': 'সূরার তালিকা লোড করা যায়নি। অনুগ্রহ করে আপনার সংযোগ পরীক্ষা করুন।',
+  'reader.corpusLoadError': 'অফলাইন কুরআন ডেটা লোড করা যায়নি।',
+
+  // Tafsir
+  'tafsir.title': 'এআই তাফসীর',
+  'tafsir.analyzing': 'বিশ্লেষণ করা হচ্ছে...',
+  'tafsir.stop': 'থামান',
+  'tafsir.disclaimer': 'দ্রষ্টব্য: এই তাফসীর নির্ভরযোগ্য উৎসের ভিত্তিতে এআই দ্বারা তৈরি। শরয়ী বিধানের জন্য সবসময় একজন যোগ্য আলেমের কাছে যাচাই করুন।',
+  'tafsir.error': 'তাফসীর তৈরি করা যায়নি।',
+  'chat.title': 'আরও জিজ্ঞাসা করুন',
+  'chat.hint': 'এই আয়াত ও তাফসীর সম্পর্কে যেকোনো প্রশ্ন করুন, যেমন ৩:২০০ এর সাথে এর সম্পর্ক কী, বা এখানে কোনো শব্দের অর্থ কী।',
+  'chat.placeholder': 'এই আয়াত সম্পর্কে জিজ্ঞাসা করুন...',
+  'chat.send': 'পাঠান',
+  'chat.thinking': 'ভাবছে...',
+  'chat.clear': 'কথোপকথন মুছুন',
+  'chat.error': 'উত্তর পাওয়া যায়নি। আবার চেষ্টা করুন।',
+  'compare.blended': 'তাফসীর',
+  'compare.title': 'উৎস তুলনা',
+  'compare.run': 'তুলনা করুন',
+  'compare.limit': '{min}–{max}টি গ্রন্থ বেছে নিন',
+  'compare.loading': 'ক্লাসিক্যাল তাফসীরগুলো তুলনা করা হচ্ছে...',
+  'compare.error': 'তাফসীরগুলো তুলনা করা যায়নি। আবার চেষ্টা করুন।',
+  'compare.commonGround': 'যেখানে একমত',
+  'compare.differences': 'যেখানে ভিন্নমত',
+  'compare.disclaimer': 'সারাংশগুলো এআই তৈরি করেছে এবং যথাসম্ভব প্রতিটি গ্রন্থের নামে উল্লেখ করেছে। উদ্ধৃত করার আগে মূল তাফসীর দেখে নিন।',
+  'references.sources': 'উদ্ধৃত উৎস',
+  'references.related': 'সম্পর্কিত আয়াত',
+  'references.volume': 'খণ্ড {volume}',
+  'references.page': 'পৃ. {page}',
+  'references.knownWork': 'পরিচিত গ্রন্থ',
+
+  // Surah overview
+  'overview.title': 'সূরা পরিচিতি',
+  'overview.loading': 'তথ্য সংগ্রহ করা হচ্ছে...',
+  'overview.introduction': 'ভূমিকা',
+  'overview.historicalContext': 'ঐতিহাসিক প্রেক্ষাপট',
+  'overview.keyThemes': 'মূল বিষয়বস্তু',
+  'overview.keyLessons': 'শিক্ষা',
+  'overview.error': 'সূরা পরিচিতি লোড করা যায়নি।',
+
+  // Word analysis
+  'words.title': 'শব্দ বিশ্লেষণ',
+  'words.next': 'পরের শব্দ',
+  'words.previous': 'আগের শব্দ',
+  'words.meaning': 'অর্থ',
+  'words.transliteration': 'উচ্চারণ',
+  'words.partOfSpeech': 'পদ',
+  'words.root': 'মূল ধাতু',
+  'words.lemma': 'মূল শব্দ (লেমা)',
+  'words.noAnalysis': 'এই শব্দের বিশ্লেষণ পাওয়া যায়নি।',
+  'words.sourceDataset': 'উৎস: সংযুক্ত শব্দতত্ত্ব ডেটাসেট।',
+  'words.sourceAi': 'এআই দ্বারা তৈরি; যাচাই করে নিন।',
+  'words.pos.noun': 'বিশেষ্য',
+  'words.pos.proper_noun': 'নামবাচক বিশেষ্য',
+  'words.pos.pronoun': 'সর্বনাম',
+  'words.pos.adjective': 'বিশেষণ',
+  'words.pos.verb': 'ক্রিয়া',
+  'words.pos.particle': 'অব্যয় (হরফ)',
+  'words.pos.preposition': 'পদান্বয়ী অব্যয়',
+  'words.pos.conjunction': 'সংযোজক অব্যয়',
+  'words.loadError': 'শব্দ বিশ্লেষণ লোড করা যায়নি।',
+
+  // Recitation
+  'audio.unavailable': 'এই আয়াতের অডিও পাওয়া যায়নি।',
+  'audio.repeat': 'পুনরাবৃত্তি (A–B)',
+  'audio.speed': 'গতি',
+  'audio.reciter': 'ক্বারী',
+  'audio.close': 'বন্ধ করুন',
+  'audio.ayahs': 'আয়াত',
+  'audio.outsideRange': 'চালু করলে পরিসরের শুরু থেকে বাজবে',
+  'audio.listen': 'তিলাওয়াত',
+
+  // Hifz
+  'hifz.title': 'হিফজ',
+  'hifz.reviewRemaining': { other: 'পুনরালোচনায় বাকি {count}টি' },
+  'hifz.maskWords': 'শব্দ',
+  'hifz.maskLines': 'লাইন',
+  'hifz.hideLess': 'কম লুকান',
+  'hifz.hideMore': 'আরও লুকান',
+  'hifz.revealAll': 'সব দেখান',
+  'hifz.instructions': 'মুখস্থ থেকে পড়ুন, লুকানো শব্দে চাপ দিয়ে যাচাই করুন, তারপর নিজেকে মূল্যায়ন করুন।',
+  'hifz.grade.forgot': 'ভুলে গেছি',
+  'hifz.grade.hard': 'কঠিন',
+  'hifz.grade.good': 'ভালো',
+  'hifz.grade.easy': 'সহজ',
+  'hifz.memorized': 'মুখস্থ',
+  'hifz.nextReview': { other: 'পরবর্তী পুনরালোচনা {date} · ব্যবধান {count} দিন' },
+  'hifz.newCard': 'নতুন আয়াত: মূল্যায়ন করলে পুনরালোচনার সময়সূচিতে যুক্ত হবে।',
+  'hifz.todaysReview': 'আজকের পুনরালোচনা',
+  'hifz.due': { other: '{count}টি আয়াত বাকি' },
+  'hifz.start': 'শুরু করুন',
+  'hifz.bySurah': 'সূরাভিত্তিক অগ্রগতি',
+  'hifz.empty': 'রিডারে হিফজ মোড চালু করে আয়াত মুখস্থ শুরু করুন।',
+  'hifz.surahProgress': '{memorized} মুখস্থ · {learning} শিখছি / {total}',
+  'hifz.gradeError': 'মূল্যায়ন সংরক্ষণ করা যায়নি।',
+  'hifz.reviewComplete': 'আজকের পুনরালোচনা সম্পন্ন!',
+  'hifz.mode': 'হিফজ মোড',
+
+  // Reading history
+  'history.khatmProgress': 'খতম অগ্রগতি',
+  'history.ayahsRead': { other: '{count}টির মধ্যে {read}টি আয়াত' },
+  'history.confirmReset': 'নতুন খতম শুরু করবেন? পঠিত আয়াতের হিসাব মুছে যাবে।',
+  'history.resetKhatm': 'নতুন খতম শুরু করুন',
+  'history.recentlyRead': 'সম্প্রতি পঠিত',
+  'history.clear': 'ইতিহাস মুছুন',
+  'history.empty': 'এখনও কিছু পড়া হয়নি।',
+  'history.clearError': 'পড়ার ইতিহাস মুছে ফেলা যায়নি।',
+  'history.resetError': 'নতুন খতম শুরু করা যায়নি।',
+
+  // Bookmarks and notes
+  'study.export': 'এক্সপোর্ট',
+  'study.import': 'ইমপোর্ট',
+  'study.bookmarks': 'বুকমার্ক',
+  'study.noBookmarks': 'এখনও কোনো বুকমার্ক নেই।',
+  'study.unfiled': 'ফোল্ডারবিহীন',
+  'study.deleteFolder': 'ফোল্ডার মুছুন',
+  'study.notes': 'নোট',
+  'study.noNotes': 'এখনও কোনো নোট নেই।',
+  'study.color': 'রং',
+  'study.folder': 'ফোল্ডার',
+  'study.noFolder': 'কোনো ফোল্ডার নয়',
+  'study.newFolder': 'নতুন ফোল্ডার...',
+  'study.remove': 'সরান',
+  'study.write': 'লিখুন',
+  'study.preview': 'প্রিভিউ',
+  'study.emptyNote': '*কিছু লেখা হয়নি*',
+  'study.notePlaceholder': 'এই আয়াত নিয়ে আপনার চিন্তা লিখুন (মার্কডাউন সমর্থিত)...',
+  'study.bookmarkSaveError': 'বুকমার্ক সংরক্ষণ করা যায়নি।',
+  'study.noteSaveError': 'নোট সংরক্ষণ করা যায়নি।',
+  'study.bookmarkRemoveError': 'বুকমার্ক মুছে ফেলা যায়নি।',
+  'study.folderSaveError': 'ফোল্ডার তৈরি করা যায়নি।',
+  'study.folderDeleteError': 'ফোল্ডার মুছে ফেলা যায়নি।',
+  'study.imported': 'ইমপোর্ট সম্পন্ন: {bookmarks}টি বুকমার্ক, {notes}টি নোট।',
+  'study.importError': 'ফাইলটি ইমপোর্ট করা যায়নি।',
+
+  // AI cache
+  'cache.cached': 'ক্যাশ থেকে',
+  'cache.regenerate': 'পুনরায় তৈরি',
+  'cache.title': 'এআই ক্যাশ',
+  'cache.readError': 'ক্যাশ পড়া যায়নি।',
+  'cache.entries': { other: '{count}টি এন্ট্রি' },
+  'cache.clearAll': 'সব মুছুন',
+  'cache.sizeLimit': 'সর্বোচ্চ আকার (পুরনোগুলো আগে মুছে যাবে)',
+  'cache.empty': 'ক্যাশ খালি।',
+  'cache.lastUsed': 'শেষ ব্যবহার {date}',
+  'cache.kind.tafsir': 'তাফসীর',
+  'cache.kind.overview': 'সূরা পরিচিতি',
+  'cache.kind.morphology': 'শব্দ বিশ্লেষণ',
+  'cache.kind.comparison': 'তুলনা',
+  'cache.kind.passage': 'অনুচ্ছেদ তাফসীর',
+
+  // Translations
+  'translations.title': 'অনুবাদ নির্বাচন',
+  'translations.target': 'যে ইন্টারফেস ভাষার জন্য দেখাবে',
+  'translations.filter': 'ভাষা বা অনুবাদক খুঁজুন...',
+  'translations.empty': 'কোনো অনুবাদ পাওয়া যায়নি।',
+  'translations.unavailable': 'বর্তমান কুরআন ডেটা উৎসে {names} নেই, তাই এর বদলে {shown} দেখানো হচ্ছে। আপনার পছন্দ ব্যবহার করতে সেটিংসে কুরআন ডেটা অনলাইন করুন।',
+
+  // Passage tafsir
+  'passage.title': 'অনুচ্ছেদ তাফসীর',
+  'passage.short': 'অনুচ্ছেদ',
+  'passage.from': 'শুরুর আয়াত',
+  'passage.to': 'পর্যন্ত',
+  'passage.explain': 'অনুচ্ছেদ ব্যাখ্যা করুন',
+  'passage.wholeRuku': 'পূর্ণ রুকু',
+  'passage.rukuHint': 'প্রথম আয়াতটি যে রুকুতে আছে তা নির্বাচন করুন',
+  'passage.limit': 'সর্বোচ্চ {max}টি আয়াত',
+  'passage.hint': 'একসঙ্গে এক তাফসীরে পড়তে আয়াতের একটি পরিসর বা পূর্ণ রুকু বেছে নিন।',
+  'passage.loading': 'পুরো অনুচ্ছেদটি একসঙ্গে পড়া হচ্ছে...',
+  'passage.error': 'অনুচ্ছেদ তাফসীর লোড করা যায়নি। আবার চেষ্টা করুন।',
+
+  // Divisions
+  'divisions.juz': 'পারা',
+  'divisions.hizb': 'হিযব',
+  'divisions.manzil': 'মনজিল',
+  'divisions.page': 'পৃষ্ঠা',
+  'divisions.juzNumber': 'পারা {number}',
+  'divisions.hizbNumber': 'হিযব {number}',
+  'divisions.manzilNumber': 'মনজিল {number}',
+  'divisions.pageNumber': 'পৃষ্ঠা {number}',
+  'divisions.rukuNumber': 'রুকু {number}',
+  'divisions.quarter': 'চতুর্থাংশ {number}',
+
+  // Command palette
+  'palette.open': 'যান…',
+  'palette.placeholder': '২:২৫৫-এর মতো রেফারেন্স, সূরার নাম বা কমান্ড লিখুন',
+  'palette.goTo': '{reference}-এ যান',
+  'palette.passage': '{reference}-এর অংশভিত্তিক তাফসীর',
+  'palette.openSurah': 'সূরা {number} খুলুন · {name}',
+  'palette.switchLanguage': 'ভাষা পরিবর্তন: {name}',
+  'palette.overview': '{name} সূরার পরিচিতি',
+  'palette.bookmark': '{reference} বুকমার্ক করুন',
+  'palette.search': 'এআই-কে জিজ্ঞাসা করুন: “{query}”',
+  'palette.empty': 'মিলে যাওয়া কোনো কমান্ড নেই',
+  'palette.hint': '↑↓ সরাতে · Enter খুলতে · Esc বন্ধ করতে',
+
+  // Offline
+  'offline.title': 'অফলাইনে পড়া',
+  'offline.indicator': 'অফলাইন',
+  'offline.indicatorHint': 'সংযোগ নেই। ডাউনলোড করা সূরা ও সংরক্ষিত এআই কনটেন্ট এখনও দেখা যাবে।',
+  'offline.aiUnavailable': 'এআই ফিচারের জন্য ইন্টারনেট সংযোগ প্রয়োজন',
+  'offline.notSaved': 'এটি অফলাইনের জন্য সংরক্ষিত নেই। তৈরি করতে ইন্টারনেটে সংযুক্ত হোন।',
+  'offline.surahNotSaved': 'এই সূরাটি অফলাইনে পড়ার জন্য ডাউনলোড করা হয়নি।',
+  'offline.bundledNote': 'আপনি বান্ডেল করা অফলাইন ডেটা ব্যবহার করছেন, তাই কুরআনের পাঠ সংযোগ ছাড়াই চলে। এখানকার ডাউনলোড অনলাইন ডেটা সোর্সের সাথে ব্যবহৃত হয়।',
+  'offline.savedCount': '{total}টির মধ্যে {count}টি সূরা সংরক্ষিত',
+  'offline.download': 'অফলাইনের জন্য ডাউনলোড',
+  'offline.downloadAll': 'সম্পূর্ণ কুরআন ডাউনলোড',
+  'offline.stop': 'থামান',
+  'offline.removeAll': 'সব মুছুন',
+  'offline.progress': '{total}টির মধ্যে {done}টি ডাউনলোড হচ্ছে…',
+  'offline.downloadedOn': 'ডাউনলোড: {date}',
+  'offline.ayahCount': { other: '{count}টি আয়াত' },
+  'offline.aiCacheNote': 'আগে খোলা তাফসীর, পরিচিতি ও শব্দ বিশ্লেষণ এআই ক্যাশে রাখা থাকে এবং অফলাইনেও পড়া যায়।',
+  'offline.downloadNeedsNetwork': 'সূরা ডাউনলোড করতে ইন্টারনেটে সংযুক্ত হোন।',
+  'offline.downloadError': '{surah} ডাউনলোড করা যায়নি। আবার চেষ্টা করুন।',
+  'offline.downloadAllError': 'ডাউনলোড শেষ হওয়ার আগেই থেমে গেছে। এ পর্যন্ত সংরক্ষিত সূরাগুলো রাখা আছে।',
+  'offline.readError': 'অফলাইন লাইব্রেরি পড়া যায়নি।',
+
+  // Errors
+  'errors.notFound': 'এটি খুঁজে পাওয়া যায়নি।',
+  'errors.rateLimited': 'এই মুহূর্তে অনেক বেশি অনুরোধ হয়েছে। একটু অপেক্ষা করে আবার চেষ্টা করুন।',
+  'errors.offline': 'আপনি অফলাইনে আছেন। ইন্টারনেটে সংযুক্ত হয়ে আবার চেষ্টা করুন।',
+  'errors.invalidAiResponse': 'এআই এমন একটি উত্তর দিয়েছে যা পড়া যায়নি। আবার চেষ্টা করুন।',
+  'errors.missingApiKey': 'এআই এপিআই কী নেই বা সঠিক নয়। আপনার পরিবেশ সেটিংসে কী-টি যাচাই করুন।',
+  'errors.timeout': 'অনুরোধে অনেক বেশি সময় লেগেছে। আবার চেষ্টা করুন।',
+  'errors.network': 'সার্ভারে পৌঁছানো যায়নি। সংযোগ পরীক্ষা করে আবার চেষ্টা করুন।',
+  'errors.server': 'সার্ভারে সমস্যা হয়েছে। আবার চেষ্টা করুন।',
+  'errors.retry': 'আবার চেষ্টা করুন',
+};
@@ -0,0 +1,313 @@
+import { Message } from '../types';
+
+// The source catalog: every message key is defined here, and other catalogs fall back to it.
+// Placeholders are written {name}; plural messages are keyed by Intl.PluralRules category.
+export const en = {
+  // Shared
+  'common.loading': 'Loading...',
+  'common.pause': 'Pause',
+  'common.cancel': 'Cancel',
+  'common.tryAgainError': 'Something went wrong. Please try again.',
+  'common.somethingWrong': 'Something went wrong.',
+  'common.save': 'Save',
+  'common.delete': 'Delete',
+  'common.play': 'Play',
+
+  // Sidebar
+  'nav.aiSearch': 'AI Search',
+  'nav.surahs': 'Surahs',
+  'nav.saved': 'Saved',
+  'nav.history': 'History',
+  'nav.filterSurahs': 'Filter Surahs...',
+  'nav.percentRead': '{percent} read',
+  'nav.noSurahFound': 'No Surah found.',
+  'nav.parts': 'Parts',
+
+  // Settings
+  'settings.appearance': 'Appearance',
+  'settings.theme': 'Theme',
+  'settings.arabicSize': 'Arabic Size',
+  'settings.translationSize': 'Translation Size',
+  'settings.translationsSelected': '{count} selected',
+  'settings.manage': 'Manage',
+  'settings.quranData': 'Quran Data',
+  'settings.online': 'Online',
+  'settings.offline': 'Offline',
+
+  // Search
+  'search.unknownAyahRef': 'Surah {surah}, Ayah {ayah}',
+  'search.confidence': '{percent} Match',
+  'search.verified': 'Verified',
+  'search.unverified': 'Unverified',
+  'search.noMatch': 'No match',
+  'search.noTextMatch': 'No matching text found.',
+  'search.offlineLoadError': 'Could not load the offline Quran text.',
+  'search.noResults': 'No relevant ayahs found.',
+  'search.failed': 'Search failed. Please check connection.',
+  'search.askTitle': 'Ask the Quran',
+  'search.askMode': 'Ask the Quran',
+  'search.textTitle': 'Find Exact Text',
+  'search.exactText': 'Exact text',
+  'search.askSubtitle': 'Search with natural language. Discover guidance through AI-powered semantic search.',
+  'search.textSubtitle': 'Type Arabic, Bengali or English words. Supports "exact phrase", prefix*, OR and -exclude. Works offline.',
+  'search.askPlaceholder': 'Example: What does Quran say about patience?',
+  'search.textPlaceholder': 'Example: "with the patient" or الصبر',
+  'search.continueReading': 'Continue reading',
+  'search.khatmPercent': 'Khatm {percent}',
+  'search.matchingAyahs': { one: '{count} matching ayah', other: '{count} matching ayahs' },
+  'search.showingFirst': 'Showing the first {shown} of {count} matching ayahs',
+  'search.suggested': 'Suggested Verses',
+
+  // Reader
+  'reader.playRecitation': 'Play recitation',
+  'reader.bookmark': 'Bookmark',
+  'reader.note': 'Note',
+  'reader.readTafsir': 'Read Tafsir',
+  'reader.translationUnavailable': 'Translation unavailable',
+  'reader.myNote': 'My Note',
+  'reader.earlierAyahs': 'Earlier ayahs ({from}–{to})',
+  'reader.moreAyahs': 'More ayahs ({from}–{to})',
+  'reader.surahNotFound': 'Surah {surah} does not exist.',
+  'reader.ayahNumber': 'Ayah {ayah}',
+  'reader.loadingAyah': 'Loading Ayah...',
+  'reader.backToSearch': 'Back to Search',
+  'reader.modeAyah': 'Ayah',
+  'reader.modeSurah': 'Full Surah',
+  'reader.emptyState': 'Select a Surah or Search to begin.',
+  'reader.previous': 'Prev',
+  'reader.next': 'Next',
+  'reader.ayahLoadError': 'Could not load Ayah. It might not exist or network is down.',
+  'reader.surahLoadError': 'Could not load Surah. It might not exist or network is down.',
+  'reader.moreAyahsError': 'Could not load more ayahs.',
+  'reader.surahListError': 'Could not load the surah list. Please check your connection.',
+  'reader.corpusLoadError': 'Could not load the offline Quran data.',
+
+  // Tafsir
+  'tafsir.title': 'AI Tafsir',
+  'tafsir.analyzing': 'Analyzing...',
+  'tafsir.stop': 'Stop generating',
+  'tafsir.disclaimer': 'Disclaimer: This Tafsir is generated by AI based on authentic sources. Always verify with a qualified scholar for legal rulings.',
+  'tafsir.error': 'Failed to generate Tafsir.',
+  'chat.title': 'Ask a follow-up',
+  'chat.hint': 'Ask anything about this ayah and its tafsir, e.g. how it relates to 3:200 or what a word means here.',
+  'chat.placeholder': 'Ask about this ayah...',
+  'chat.send': 'Send',
+  'chat.thinking': 'Thinking...',
+  'chat.clear': 'Clear conversation',
+  'chat.error': 'Could not get an answer. Please try again.',
+  'compare.blended': 'Tafsir',
+  'compare.title': 'Compare sources',
+  'compare.run': 'Compare',
+  'compare.limit': 'Pick {min}–{max} works',
+  'compare.loading': 'Comparing the classical tafsirs...',
+  'compare.error': 'Could not compare the tafsirs. Please try again.',
+  'compare.commonGround': 'Where they agree',
+  'compare.differences': 'Where they differ',
+  'compare.disclaimer': 'Summaries are generated by AI and attributed to each work as best it can. Check the original tafsir before quoting it.',
+  'references.sources': 'Sources cited',
+  'references.related': 'Related ayahs',
+  'references.volume': 'Vol. {volume}',
+  'references.page': 'p. {page}',
+  'references.knownWork': 'Known work',
+
+  // Surah overview
+  'overview.title': 'Surah Overview',
+  'overview.loading': 'Gathering information...',
+  'overview.introduction': 'Introduction',
+  'overview.historicalContext': 'Historical Context',
+  'overview.keyThemes': 'Key Themes',
+  'overview.keyLessons': 'Key Lessons',
+  'overview.error': 'Failed to load overview.',
+
+  // Word analysis
+  'words.title': 'Word Analysis',
+  'words.next': 'Next word',
+  'words.previous': 'Previous word',
+  'words.meaning': 'Meaning',
+  'words.transliteration': 'Transliteration',
+  'words.partOfSpeech': 'Part of speech',
+  'words.root': 'Root',
+  'words.lemma': 'Lemma',
+  'words.noAnalysis': 'No analysis available for this word.',
+  'words.sourceDataset': 'Source: bundled morphology dataset.',
+  'words.sourceAi': 'Generated by AI; verify with a reliable reference.',
+  'words.pos.noun': 'Noun',
+  'words.pos.proper_noun': 'Proper noun',
+  'words.pos.pronoun': 'Pronoun',
+  'words.pos.adjective': 'Adjective',
+  'words.pos.verb': 'Verb',
+  'words.pos.particle': 'Particle',
+  'words.pos.preposition': 'Preposition',
+  'words.pos.conjunction': 'Conjunction',
+  'words.loadError': 'Could not load the word analysis.',
+
+  // Recitation
+  'audio.unavailable': 'Audio is not available for this ayah.',
+  'audio.repeat': 'Repeat (A–B)',
+  'audio.speed': 'Speed',
+  'audio.reciter': 'Reciter',
+  'audio.close': 'Close player',
+  'audio.ayahs': 'Ayahs',
+  'audio.outsideRange': 'Playback will start at the range',
+  'audio.listen': 'Listen',
+
+  // Hifz
+  'hifz.title': 'Hifz',
+  'hifz.reviewRemaining': { one: '{count} left to review', other: '{count} left to review' },
+  'hifz.maskWords': 'Words',
+  'hifz.maskLines': 'Lines',
+  'hifz.hideLess': 'Hide less',
+  'hifz.hideMore': 'Hide more',
+  'hifz.revealAll': 'Reveal all',
+  'hifz.instructions': 'Recite from memory, tap a hidden word to check it, then grade your recall.',
+  'hifz.grade.forgot': 'Forgot',
+  'hifz.grade.hard': 'Hard',
+  'hifz.grade.good': 'Good',
+  'hifz.grade.easy': 'Easy',
+  'hifz.memorized': 'Memorized',
+  'hifz.nextReview': { one: 'Next review {date} · interval {count} day', other: 'Next review {date} · interval {count} days' },
+  'hifz.newCard': 'New ayah: grading adds it to your review schedule.',
+  'hifz.todaysReview': 'Today\'s Review',
+  'hifz.due': { one: '{count} ayah due', other: '{count} ayahs due' },
+  'hifz.start': 'Start',
+  'hifz.bySurah': 'By Surah',
+  'hifz.empty': 'Turn on Hifz mode in the reader to start memorizing.',
+  'hifz.surahProgress': '{memorized} memorized · {learning} learning / {total}',
+  'hifz.gradeError': 'Could not save your grade.',
+  'hifz.reviewComplete': 'Today\'s review is complete!',
+  'hifz.mode': 'Hifz mode',
+
+  // Reading history
+  'history.khatmProgress': 'Khatm Progress',
+  'history.ayahsRead': { one: '{read} of {count} ayah', other: '{read} of {count} ayahs' },
+  'history.confirmReset': 'Start a new khatm? Your read ayahs will be cleared.',
+  'history.resetKhatm': 'Start new khatm',
+  'history.recentlyRead': 'Recently Read',
+  'history.clear': 'Clear history',
+  'history.empty': 'Nothing read yet.',
+  'history.clearError': 'Could not clear reading history.',
+  'history.resetError': 'Could not start a new khatm.',
+
+  // Bookmarks and notes
+  'study.export': 'Export',
+  'study.import': 'Import',
+  'study.bookmarks': 'Bookmarks',
+  'study.noBookmarks': 'No bookmarks yet.',
+  'study.unfiled': 'Unfiled',
+  'study.deleteFolder': 'Delete folder',
+  'study.notes': 'Notes',
+  'study.noNotes': 'No notes yet.',
+  'study.color': 'Color',
+  'study.folder': 'Folder',
+  'study.noFolder': 'No folder',
+  'study.newFolder': 'New folder...',
+  'study.remove': 'Remove',
+  'study.write': 'Write',
+  'study.preview': 'Preview',
+  'study.emptyNote': '*Nothing written yet*',
+  'study.notePlaceholder': 'Write your reflection on this ayah (Markdown supported)...',
+  'study.bookmarkSaveError': 'Could not save bookmark.',
+  'study.noteSaveError': 'Could not save note.',
+  'study.bookmarkRemoveError': 'Could not remove bookmark.',
+  'study.folderSaveError': 'Could not create folder.',
+  'study.folderDeleteError': 'Could not delete folder.',
+  'study.imported': 'Imported {bookmarks} bookmarks and {notes} notes.',
+  'study.importError': 'Import failed: {reason}',
+
+  // AI cache
+  'cache.cached': 'Cached',
+  'cache.regenerate': 'Regenerate',
+  'cache.title': 'AI Cache',
+  'cache.readError': 'Could not read the cache.',
+  'cache.entries': { one: '{count} entry', other: '{count} entries' },
+  'cache.clearAll': 'Clear all',
+  'cache.sizeLimit': 'Size limit (least recently used are evicted first)',
+  'cache.empty': 'The cache is empty.',
+  'cache.lastUsed': 'last used {date}',
+  'cache.kind.tafsir': 'Tafsir',
+  'cache.kind.overview': 'Overview',
+  'cache.kind.morphology': 'Word analysis',
+  'cache.kind.comparison': 'Comparison',
+  'cache.kind.passage': 'Passage tafsir',
+
+  // Translations
+  'translations.title': 'Translations',
+  'translations.target': 'Shown when the interface is in',
+  'translations.filter': 'Filter by language or translator...',
+  'translations.empty': 'No translations found.',
+  'translations.unavailable': 'The current Quran data source does not include {names}, so {shown} is shown instead. Switch Quran data to Online in settings to use your choice.',
+
+  // Passage tafsir
+  'passage.title': 'Passage tafsir',
+  'passage.short': 'Passage',
+  'passage.from': 'From ayah',
+  'passage.to': 'to',
+  'passage.explain': 'Explain passage',
+  'passage.wholeRuku': 'Whole ruku',
+  'passage.rukuHint': 'Select the ruku containing the first ayah',
+  'passage.limit': 'Up to {max} ayahs',
+  'passage.hint': 'Choose a range of ayahs or the whole ruku to read them together with one tafsir.',
+  'passage.loading': 'Reading the passage as a whole...',
+  'passage.error': 'Failed to load the passage tafsir. Please try again.',
+
+  // Divisions
+  'divisions.juz': 'Juz',
+  'divisions.hizb': 'Hizb',
+  'divisions.manzil': 'Manzil',
+  'divisions.page': 'Page',
+  'divisions.juzNumber': 'Juz {number}',
+  'divisions.hizbNumber': 'Hizb {number}',
+  'divisions.manzilNumber': 'Manzil {number}',
+  'divisions.pageNumber': 'Page {number}',
+  'divisions.rukuNumber': 'Ruku {number}',
+  'divisions.quarter': 'Quarter {number}',
+
+  // Command palette
+  'palette.open': 'Go to…',
+  'palette.placeholder': 'Type a reference like 2:255, a surah name or a command',
+  'palette.goTo': 'Go to {reference}',
+  'palette.passage': 'Passage tafsir of {reference}',
+  'palette.openSurah': 'Open surah {number} · {name}',
+  'palette.switchLanguage': 'Switch language to {name}',
+  'palette.overview': 'Surah overview of {name}',
+  'palette.bookmark': 'Bookmark {reference}',
+  'palette.search': 'Ask AI: “{query}”',
+  'palette.empty': 'No matching commands',
+  'palette.hint': '↑↓ to move · Enter to open · Esc to close',
+
+  // Offline
+  'offline.title': 'Offline reading',
+  'offline.indicator': 'Offline',
+  'offline.indicatorHint': 'No connection. Downloaded surahs and saved AI content are still available.',
+  'offline.aiUnavailable': 'AI features need an internet connection',
+  'offline.notSaved': 'This has not been saved for offline use. Connect to the internet to generate it.',
+  'offline.surahNotSaved': 'This surah has not been downloaded for offline reading.',
+  'offline.bundledNote': 'You are using the bundled offline data, so the Quran text already works without a connection. Downloads here are used with the online data source.',
+  'offline.savedCount': '{count} of {total} surahs saved',
+  'offline.download': 'Download for offline',
+  'offline.downloadAll': 'Download whole Quran',
+  'offline.stop': 'Stop',
+  'offline.removeAll': 'Remove all',
+  'offline.progress': 'Downloading {done} of {total}…',
+  'offline.downloadedOn': 'Downloaded {date}',
+  'offline.ayahCount': { one: '{count} ayah', other: '{count} ayahs' },
+  'offline.aiCacheNote': 'Tafsir, overviews and word analyses you have already opened are kept in the AI cache and stay readable offline.',
+  'offline.downloadNeedsNetwork': 'Connect to the internet to download surahs.',
+  'offline.downloadError': 'Could not download {surah}. Please try again.',
+  'offline.downloadAllError': 'The download stopped before finishing. Surahs saved so far are kept.',
+  'offline.readError': 'Could not read the offline library.',
+
+  // Errors
+  'errors.notFound': 'That could not be found.',
+  'errors.rateLimited': 'Too many requests right now. Please wait a moment and try again.',
+  'errors.offline': 'You are offline. Connect to the internet and try again.',
+  'errors.invalidAiResponse': 'The AI returned a response that could not be read. Please try again.',
+  'errors.missingApiKey': 'The AI API key is missing or invalid. Check the key in your environment settings.',
+  'errors.timeout': 'The request took too long. Please try again.',
+  'errors.network': 'Could not reach the server. Check your connection and try again.',
+  'errors.server': 'The server ran into a problem. Please try again.',
+  'errors.retry': 'Try again',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, Message>;
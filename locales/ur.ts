@@ -0,0 +1,308 @@
+import { Messages } from './en';
+
+export const ur: Messages = {
+  // Shared
+  'common.loading': 'لوڈ ہو رہا ہے...',
+  'common.pause': 'روکیں',
+  'common.cancel': 'منسوخ کریں',
+  'common.tryAgainError': 'کچھ غلط ہو گیا۔ دوبارہ کوشش کریں۔',
+  'common.somethingWrong': 'کچھ غلط ہو گیا۔',
+  'common.save': 'محفوظ کریں',
+  'common.delete': 'حذف کریں',
+  'common.play': 'چلائیں',
+
+  // Sidebar
+  'nav.aiSearch': 'اے آئی تلاش',
+  'nav.surahs': 'سورتیں',
+  'nav.saved': 'محفوظ',
+  'nav.history': 'تاریخچہ',
+  'nav.filterSurahs': 'سورت تلاش کریں...',
+  'nav.percentRead': '{percent} پڑھا گیا',
+  'nav.noSurahFound': 'کوئی سورت نہیں ملی۔',
+  'nav.parts': 'پارے',
+
+  // Settings
+  'settings.appearance': 'ظاہری شکل',
+  'settings.theme': 'تھیم',
+  'settings.arabicSize': 'عربی متن کا سائز',
+  'settings.translationSize': 'ترجمے کا سائز',
+  'settings.translationsSelected': '{count} منتخب',
+  'settings.manage': 'انتظام',
+  'settings.quranData': 'قرآن کا ڈیٹا',
+  'settings.online': 'آن لائن',
+  'settings.offline': 'آف لائن',
+
+  // Search
+  'search.unknownAyahRef': 'سورت {surah}، آیت {ayah}',
+  'search.confidence': '{percent} مطابقت',
+  'search.verified': 'تصدیق شدہ',
+  'search.unverified': 'غیر مصدقہ',
+  'search.noMatch': 'کوئی مطابقت نہیں',
+  'search.noTextMatch': 'کوئی مماثل متن نہیں ملا۔',
+  'search.offlineLoadError': 'آف لائن قرآن کا متن لوڈ نہیں ہو سکا۔',
+  'search.noResults': 'کوئی متعلقہ آیت نہیں ملی۔',
+  'search.failed': 'تلاش ناکام ہو گئی۔ براہِ کرم کنکشن چیک کریں۔',
+  'search.askTitle': 'قرآن سے پوچھیں',
+  'search.askMode': 'قرآن سے پوچھیں',
+  'search.textTitle': 'بعینہ متن تلاش کریں',
+  'search.exactText': 'بعینہ متن',
+  'search.askSubtitle': 'اپنی زبان میں تلاش کریں۔ اے آئی پر مبنی معنوی تلاش سے رہنمائی پائیں۔',
+  'search.textSubtitle': 'عربی، بنگالی یا انگریزی الفاظ لکھیں۔ "بعینہ جملہ"، سابقہ*، OR اور -خارج کی سہولت موجود ہے۔ آف لائن بھی کام کرتا ہے۔',
+  'search.askPlaceholder': 'مثال: صبر کے بارے میں قرآن کیا کہتا ہے؟',
+  'search.textPlaceholder': 'مثال: "مع الصابرين" یا الصبر',
+  'search.continueReading': 'پڑھنا جاری رکھیں',
+  'search.khatmPercent': 'ختم {percent}',
+  'search.matchingAyahs': { one: '{count} آیت ملی', other: '{count} آیات ملیں' },
+  'search.showingFirst': '{count} ملنے والی آیات میں سے پہلی {shown} دکھائی جا رہی ہیں',
+  'search.suggested': 'تجویز کردہ آیات',
+
+  // Reader
+  'reader.playRecitation': 'تلاوت سنیں',
+  'reader.bookmark': 'بک مارک',
+  'reader.note': 'نوٹ',
+  'reader.readTafsir': 'تفسیر پڑھیں',
+  'reader.translationUnavailable': 'ترجمہ دستیاب نہیں',
+  'reader.myNote': 'میرا نوٹ',
+  'reader.earlierAyahs': 'پچھلی آیات ({from}–{to})',
+  'reader.moreAyahs': 'مزید آیات ({from}–{to})',
+  'reader.surahNotFound': 'سورت {surah} موجود نہیں۔',
+  'reader.ayahNumber': 'آیت {ayah}',
+  'reader.loadingAyah': 'آیت لوڈ ہو رہی ہے...',
+  'reader.backToSearch': 'تلاش پر واپس جائیں',
+  'reader.modeAyah': 'آیت',
+  'reader.modeSurah': 'مکمل سورت',
+  'reader.emptyState': 'شروع کرنے کے لیے کوئی سورت منتخب کریں یا تلاش کریں۔',
+  'reader.previous': 'پچھلی',
+  'reader.next': 'اگلی',
+  'reader.ayahLoadError': 'آیت لوڈ نہیں ہو سکی۔ شاید یہ موجود نہیں یا نیٹ ورک بند ہے۔',
+  'reader.surahLoadError': 'سورت لوڈ نہیں ہو سکی۔ شاید یہ موجود نہیں یا نیٹ ورک بند ہے۔',
+  'reader.moreAyahsError': 'مزید آیات لوڈ نہیں ہو سکیں۔',
+  'reader.surahListError': 'سورتوں کی فہرست لوڈ نہیں ہو سکی۔ براہ کرم اپنا کنکشن چیک کریں۔',
+  'reader.corpusLoadError': 'آف لائن قرآن ڈیٹا لوڈ نہیں ہو سکا۔',
+
+  // Tafsir
+  'tafsir.title': 'اے آئی تفسیر',
+  'tafsir.analyzing': 'تجزیہ ہو رہا ہے...',
+  'tafsir.stop': 'روکیں',
+  'tafsir.disclaimer': 'نوٹ: یہ تفسیر مستند ماخذ کی بنیاد پر اے آئی نے تیار کی ہے۔ شرعی احکام کے لیے ہمیشہ کسی مستند عالم سے تصدیق کریں۔',
+  'tafsir.error': 'تفسیر تیار نہیں ہو سکی۔',
+  'chat.title': 'مزید سوال پوچھیں',
+  'chat.hint': 'اس آیت اور اس کی تفسیر کے بارے میں کچھ بھی پوچھیں، مثلاً اس کا ۳:۲۰۰ سے کیا تعلق ہے یا یہاں کسی لفظ کا کیا مطلب ہے۔',
+  'chat.placeholder': 'اس آیت کے بارے میں پوچھیں...',
+  'chat.send': 'بھیجیں',
+  'chat.thinking': 'سوچ رہا ہے...',
+  'chat.clear': 'گفتگو صاف کریں',
+  'chat.error': 'جواب نہیں مل سکا۔ دوبارہ کوشش کریں۔',
+  'compare.blended': 'تفسیر',
+  'compare.title': 'مآخذ کا موازنہ',
+  'compare.run': 'موازنہ کریں',
+  'compare.limit': '{min} سے {max} کتب منتخب کریں',
+  'compare.loading': 'کلاسیکی تفاسیر کا موازنہ ہو رہا ہے...',
+  'compare.error': 'تفاسیر کا موازنہ نہیں ہو سکا۔ دوبارہ کوشش کریں۔',
+  'compare.commonGround': 'جہاں اتفاق ہے',
+  'compare.differences': 'جہاں اختلاف ہے',
+  'compare.disclaimer': 'یہ خلاصے اے آئی نے تیار کیے ہیں اور حتی الامکان ہر کتاب سے منسوب کیے ہیں۔ حوالہ دینے سے پہلے اصل تفسیر دیکھ لیں۔',
+  'references.sources': 'حوالہ جاتی ماخذ',
+  'references.related': 'متعلقہ آیات',
+  'references.volume': 'جلد {volume}',
+  'references.page': 'ص {page}',
+  'references.knownWork': 'معروف کتاب',
+
+  // Surah overview
+  'overview.title': 'سورت کا تعارف',
+  'overview.loading': 'معلومات جمع کی جا رہی ہیں...',
+  'overview.introduction': 'تعارف',
+  'overview.historicalContext': 'تاریخی پس منظر',
+  'overview.keyThemes': 'اہم موضوعات',
+  'overview.keyLessons': 'اہم اسباق',
+  'overview.error': 'سورت کا تعارف لوڈ نہیں ہو سکا۔',
+
+  // Word analysis
+  'words.title': 'لفظی تجزیہ',
+  'words.next': 'اگلا لفظ',
+  'words.previous': 'پچھلا لفظ',
+  'words.meaning': 'معنی',
+  'words.transliteration': 'تلفظ',
+  'words.partOfSpeech': 'قسمِ کلام',
+  'words.root': 'مادہ',
+  'words.lemma': 'اصل لفظ',
+  'words.noAnalysis': 'اس لفظ کا تجزیہ دستیاب نہیں۔',
+  'words.sourceDataset': 'ماخذ: شامل صرفی ڈیٹاسیٹ۔',
+  'words.sourceAi': 'اے آئی سے تیار کردہ؛ کسی معتبر ماخذ سے تصدیق کریں۔',
+  'words.pos.noun': 'اسم',
+  'words.pos.proper_noun': 'اسمِ علم',
+  'words.pos.pronoun': 'ضمیر',
+  'words.pos.adjective': 'صفت',
+  'words.pos.verb': 'فعل',
+  'words.pos.particle': 'حرف',
+  'words.pos.preposition': 'حرفِ جار',
+  'words.pos.conjunction': 'حرفِ عطف',
+  'words.loadError': 'لفظی تجزیہ لوڈ نہیں ہو سکا۔',
+
+  // Recitation
+  'audio.unavailable': 'اس آیت کی آڈیو دستیاب نہیں۔',
+  'audio.repeat': 'تکرار (A–B)',
+  'audio.speed': 'رفتار',
+  'audio.reciter': 'قاری',
+  'audio.close': 'پلیئر بند کریں',
+  'audio.ayahs': 'آیات',
+  'audio.outsideRange': 'چلانے پر حد کے آغاز سے شروع ہوگا',
+  'audio.listen': 'تلاوت',
+
+  // Hifz
+  'hifz.title': 'حفظ',
+  'hifz.reviewRemaining': { other: 'دہرائی کے لیے {count} باقی' },
+  'hifz.maskWords': 'الفاظ',
+  'hifz.maskLines': 'سطریں',
+  'hifz.hideLess': 'کم چھپائیں',
+  'hifz.hideMore': 'زیادہ چھپائیں',
+  'hifz.revealAll': 'سب دکھائیں',
+  'hifz.instructions': 'زبانی پڑھیں، جانچنے کے لیے چھپے لفظ پر ٹیپ کریں، پھر اپنی یادداشت کو درجہ دیں۔',
+  'hifz.grade.forgot': 'بھول گیا',
+  'hifz.grade.hard': 'مشکل',
+  'hifz.grade.good': 'اچھا',
+  'hifz.grade.easy': 'آسان',
+  'hifz.memorized': 'حفظ شدہ',
+  'hifz.nextReview': { other: 'اگلی دہرائی {date} · وقفہ {count} دن' },
+  'hifz.newCard': 'نئی آیت: درجہ دینے سے یہ دہرائی کے شیڈول میں شامل ہو جائے گی۔',
+  'hifz.todaysReview': 'آج کی دہرائی',
+  'hifz.due': { one: '{count} آیت باقی', other: '{count} آیات باقی' },
+  'hifz.start': 'شروع کریں',
+  'hifz.bySurah': 'سورت وار',
+  'hifz.empty': 'حفظ شروع کرنے کے لیے ریڈر میں حفظ موڈ آن کریں۔',
+  'hifz.surahProgress': '{memorized} حفظ · {learning} زیرِ تعلیم / {total}',
+  'hifz.gradeError': 'آپ کا درجہ محفوظ نہیں ہو سکا۔',
+  'hifz.reviewComplete': 'آج کا دور مکمل ہو گیا!',
+  'hifz.mode': 'حفظ موڈ',
+
+  // Reading history
+  'history.khatmProgress': 'ختم کی پیش رفت',
+  'history.ayahsRead': { other: '{count} میں سے {read} آیات' },
+  'history.confirmReset': 'نیا ختم شروع کریں؟ پڑھی گئی آیات کا ریکارڈ مٹ جائے گا۔',
+  'history.resetKhatm': 'نیا ختم شروع کریں',
+  'history.recentlyRead': 'حال ہی میں پڑھا',
+  'history.clear': 'تاریخچہ صاف کریں',
+  'history.empty': 'ابھی تک کچھ نہیں پڑھا گیا۔',
+  'history.clearError': 'مطالعے کی تاریخ صاف نہیں ہو سکی۔',
+  'history.resetError': 'نیا ختم شروع نہیں ہو سکا۔',
+
+  // Bookmarks and notes
+  'study.export': 'ایکسپورٹ',
+  'study.import': 'امپورٹ',
+  'study.bookmarks': 'بک مارکس',
+  'study.noBookmarks': 'ابھی کوئی بک مارک نہیں۔',
+  'study.unfiled': 'بغیر فولڈر',
+  'study.deleteFolder': 'فولڈر حذف کریں',
+  'study.notes': 'نوٹس',
+  'study.noNotes': 'ابھی کوئی نوٹ نہیں۔',
+  'study.color': 'رنگ',
+  'study.folder': 'فولڈر',
+  'study.noFolder': 'کوئی فولڈر نہیں',
+  'study.newFolder': 'نیا فولڈر...',
+  'study.remove': 'ہٹائیں',
+  'study.write': 'لکھیں',
+  'study.preview': 'پیش نظارہ',
+  'study.emptyNote': '*ابھی کچھ نہیں لکھا گیا*',
+  'study.notePlaceholder': 'اس آیت پر اپنے غور و فکر لکھیں (مارک ڈاؤن معاون ہے)...',
+  'study.bookmarkSaveError': 'بُک مارک محفوظ نہیں ہو سکا۔',
+  'study.noteSaveError': 'نوٹ محفوظ نہیں ہو سکا۔',
+  'study.bookmarkRemoveError': 'بک مارک ہٹایا نہیں جا سکا۔',
+  'study.folderSaveError': 'فولڈر نہیں بن سکا۔',
+  'study.folderDeleteError': 'فولڈر حذف نہیں ہو سکا۔',
+  'study.imported': '{bookmarks} بُک مارکس اور {notes} نوٹس درآمد ہو گئے۔',
+  'study.importError': 'درآمد ناکام: {reason}',
+
+  // AI cache
+  'cache.cached': 'کیش سے',
+  'cache.regenerate': 'دوبارہ بنائیں',
+  'cache.title': 'اے آئی کیش',
+  'cache.readError': 'کیش پڑھا نہیں جا سکا۔',
+  'cache.entries': { one: '{count} اندراج', other: '{count} اندراجات' },
+  'cache.clearAll': 'سب صاف کریں',
+  'cache.sizeLimit': 'زیادہ سے زیادہ سائز (سب سے پرانے پہلے ہٹائے جائیں گے)',
+  'cache.empty': 'کیش خالی ہے۔',
+  'cache.lastUsed': 'آخری استعمال {date}',
+  'cache.kind.tafsir': 'تفسیر',
+  'cache.kind.overview': 'تعارف',
+  'cache.kind.morphology': 'لفظی تجزیہ',
+  'cache.kind.comparison': 'موازنہ',
+  'cache.kind.passage': 'حصے کی تفسیر',
+
+  // Translations
+  'translations.title': 'تراجم',
+  'translations.target': 'جب انٹرفیس کی زبان ہو',
+  'translations.filter': 'زبان یا مترجم سے تلاش کریں...',
+  'translations.empty': 'کوئی ترجمہ نہیں ملا۔',
+  'translations.unavailable': 'موجودہ قرآن ڈیٹا ماخذ میں {names} شامل نہیں، اس لیے اس کی جگہ {shown} دکھایا جا رہا ہے۔ اپنا انتخاب استعمال کرنے کے لیے ترتیبات میں قرآن ڈیٹا کو آن لائن کریں۔',
+
+  // Passage tafsir
+  'passage.title': 'حصے کی تفسیر',
+  'passage.short': 'حصہ',
+  'passage.from': 'آیت سے',
+  'passage.to': 'تک',
+  'passage.explain': 'حصے کی وضاحت کریں',
+  'passage.wholeRuku': 'پورا رکوع',
+  'passage.rukuHint': 'پہلی آیت والا رکوع منتخب کریں',
+  'passage.limit': 'زیادہ سے زیادہ {max} آیات',
+  'passage.hint': 'ایک ساتھ ایک تفسیر میں پڑھنے کے لیے آیات کی حد یا پورا رکوع منتخب کریں۔',
+  'passage.loading': 'پورا حصہ ایک ساتھ پڑھا جا رہا ہے...',
+  'passage.error': 'حصے کی تفسیر لوڈ نہیں ہو سکی۔ دوبارہ کوشش کریں۔',
+
+  // Divisions
+  'divisions.juz': 'پارہ',
+  'divisions.hizb': 'حزب',
+  'divisions.manzil': 'منزل',
+  'divisions.page': 'صفحہ',
+  'divisions.juzNumber': 'پارہ {number}',
+  'divisions.hizbNumber': 'حزب {number}',
+  'divisions.manzilNumber': 'منزل {number}',
+  'divisions.pageNumber': 'صفحہ {number}',
+  'divisions.rukuNumber': 'رکوع {number}',
+  'divisions.quarter': 'ربع {number}',
+
+  // Command palette
+  'palette.open': 'جائیں…',
+  'palette.placeholder': '2:255 جیسا حوالہ، سورہ کا نام یا کمانڈ لکھیں',
+  'palette.goTo': '{reference} پر جائیں',
+  'palette.passage': '{reference} کی اقتباس تفسیر',
+  'palette.openSurah': 'سورہ {number} کھولیں · {name}',
+  'palette.switchLanguage': 'زبان تبدیل کریں: {name}',
+  'palette.overview': 'سورہ {name} کا تعارف',
+  'palette.bookmark': '{reference} کو بُک مارک کریں',
+  'palette.search': 'اے آئی سے پوچھیں: “{query}”',
+  'palette.empty': 'کوئی مماثل کمانڈ نہیں',
+  'palette.hint': '↑↓ منتقل کرنے · Enter کھولنے · Esc بند کرنے کے لیے',
+
+  // Offline
+  'offline.title': 'آف لائن مطالعہ',
+  'offline.indicator': 'آف لائن',
+  'offline.indicatorHint': 'کنکشن نہیں ہے۔ ڈاؤن لوڈ شدہ سورتیں اور محفوظ اے آئی مواد اب بھی دستیاب ہیں۔',
+  'offline.aiUnavailable': 'اے آئی سہولیات کے لیے انٹرنیٹ کنکشن ضروری ہے',
+  'offline.notSaved': 'یہ آف لائن استعمال کے لیے محفوظ نہیں ہے۔ اسے بنانے کے لیے انٹرنیٹ سے جڑیں۔',
+  'offline.surahNotSaved': 'یہ سورہ آف لائن مطالعے کے لیے ڈاؤن لوڈ نہیں کی گئی۔',
+  'offline.bundledNote': 'آپ بنڈل شدہ آف لائن ڈیٹا استعمال کر رہے ہیں، اس لیے قرآن کا متن کنکشن کے بغیر بھی چلتا ہے۔ یہاں کے ڈاؤن لوڈ آن لائن ڈیٹا سورس کے ساتھ استعمال ہوتے ہیں۔',
+  'offline.savedCount': '{total} میں سے {count} سورتیں محفوظ',
+  'offline.download': 'آف لائن کے لیے ڈاؤن لوڈ',
+  'offline.downloadAll': 'پورا قرآن ڈاؤن لوڈ کریں',
+  'offline.stop': 'روکیں',
+  'offline.removeAll': 'سب ہٹائیں',
+  'offline.progress': '{total} میں سے {done} ڈاؤن لوڈ ہو رہی ہیں…',
+  'offline.downloadedOn': 'ڈاؤن لوڈ: {date}',
+  'offline.ayahCount': { one: '{count} آیت', other: '{count} آیات' },
+  'offline.aiCacheNote': 'پہلے کھولی گئی تفسیر، تعارف اور لفظی تجزیے اے آئی کیش میں محفوظ رہتے ہیں اور آف لائن بھی پڑھے جا سکتے ہیں۔',
+  'offline.downloadNeedsNetwork': 'سورتیں ڈاؤن لوڈ کرنے کے لیے انٹرنیٹ سے جڑیں۔',
+  'offline.downloadError': '{surah} ڈاؤن لوڈ نہیں ہو سکی۔ دوبارہ کوشش کریں۔',
+  'offline.downloadAllError': 'ڈاؤن لوڈ مکمل ہونے سے پہلے رک گیا۔ اب تک محفوظ سورتیں برقرار ہیں۔',
+  'offline.readError': 'آف لائن لائبریری پڑھی نہیں جا سکی۔',
+
+  // Errors
+  'errors.notFound': 'یہ نہیں مل سکا۔',
+  'errors.rateLimited': 'اس وقت بہت زیادہ درخواستیں ہیں۔ براہ کرم تھوڑا انتظار کر کے دوبارہ کوشش کریں۔',
+  'errors.offline': 'آپ آف لائن ہیں۔ انٹرنیٹ سے جڑ کر دوبارہ کوشش کریں۔',
+  'errors.invalidAiResponse': 'اے آئی کا جواب پڑھا نہیں جا سکا۔ براہ کرم دوبارہ کوشش کریں۔',
+  'errors.missingApiKey': 'اے آئی API کلید موجود نہیں یا درست نہیں۔ اپنی ماحول کی ترتیبات میں کلید چیک کریں۔',
+  'errors.timeout': 'درخواست میں بہت زیادہ وقت لگا۔ براہ کرم دوبارہ کوشش کریں۔',
+  'errors.network': 'سرور تک رسائی نہیں ہو سکی۔ اپنا کنکشن چیک کر کے دوبارہ کوشش کریں۔',
+  'errors.server': 'سرور میں مسئلہ پیش آیا۔ براہ کرم دوبارہ کوشش کریں۔',
+  'errors.retry': 'دوبارہ کوشش کریں',
+};
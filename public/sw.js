@@ -0,0 +1,88 @@
+// Service worker: keeps the app shell and the surah list available offline.
+// Bump CACHE_VERSION when the precache list changes; old caches are removed on activate.
+
+// Filled in by the precache-build-assets plugin in vite.config.ts: the hashed scripts and styles of this
+// build, so the app opens offline after the first visit, and an id that changes with them
+const BUILD_ASSETS = [];
+const BUILD_ID = 'dev';
+
+const CACHE_VERSION = 1;
+const SHELL_CACHE = `nur-shell-v${CACHE_VERSION}-${BUILD_ID}`;
+const RUNTIME_CACHE = `nur-runtime-v${CACHE_VERSION}`;
+
+// The surah list comes from getAllSurahs in services/remoteQuranProvider.ts
+const SURAH_LIST_URL = 'https://api.alquran.cloud/v1/surah';
+
+const PRECACHE_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', SURAH_LIST_URL, ...BUILD_ASSETS];
+
+// Versioned CDN files (scripts, styles, fonts) change rarely, so a cached copy is served first
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'aistudiocdn.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      // One unreachable URL should not stop the rest from being cached
+      .then(cache => Promise.allSettled(PRECACHE_URLS.map(url => cache.add(url))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE && key !== RUNTIME_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = async (cacheName, request, response) => {
+  if (!response.ok && response.type !== 'opaque') return;
+  const cache = await caches.open(cacheName);
+  await cache.put(request, response);
+};
+
+// Fresh content when online; the last cached copy when the network fails
+const networkFirst = async (request, cacheName) => {
+  try {
+    const response = await fetch(request);
+    putInCache(cacheName, request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const staleWhileRevalidate = async request => {
+  const cached = await caches.match(request);
+  const fresh = fetch(request)
+    .then(response => {
+      putInCache(RUNTIME_CACHE, request, response.clone());
+      return response;
+    });
+  if (cached) {
+    fresh.catch(() => {});
+    return cached;
+  }
+  return fresh;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return; // AI requests are POSTs and always go to the network
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      networkFirst(request, SHELL_CACHE).catch(() => caches.match('/index.html'))
+    );
+  } else if (url.href === SURAH_LIST_URL) {
+    event.respondWith(networkFirst(request, SHELL_CACHE));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  } else if (url.origin === self.location.origin) {
+    // Built assets and the bundled corpus (public/data) are cached as they are first used
+    event.respondWith(networkFirst(request, RUNTIME_CACHE));
+  }
+});
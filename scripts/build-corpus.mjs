@@ -0,0 +1,52 @@
+// Builds the bundled offline corpus (public/data/quran-corpus.json) used by the
+// local Quran data provider. Source text comes from the `quran-json` package:
+// Uthmani Arabic from quranenc.com plus its Bengali and English translations.
+//
+// Usage: npm run build:corpus
+
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { createRequire } from 'module';
+import path from 'path';
+
+const require = createRequire(import.meta.url);
+const distDir = path.join(path.dirname(require.resolve('quran-json/package.json')), 'dist');
+const outFile = path.resolve('public/data/quran-corpus.json');
+
+const readJson = async (file) => JSON.parse(await readFile(path.join(distDir, file), 'utf8'));
+
+const [bengali, english] = await Promise.all([
+  readJson('quran_bn.json'),
+  readJson('quran_en.json'),
+]);
+
+const surahs = english.map((chapter, index) => {
+  const bnChapter = bengali[index];
+  if (bnChapter.id !== chapter.id || bnChapter.verses.length !== chapter.verses.length) {
+    throw new Error(`Bengali and English sources disagree on surah ${chapter.id}`);
+  }
+
+  return {
+    number: chapter.id,
+    name: `سورة ${chapter.name}`,
+    englishName: chapter.transliteration,
+    englishNameTranslation: chapter.translation,
+    numberOfAyahs: chapter.total_verses,
+    revelationType: chapter.type === 'meccan' ? 'Meccan' : 'Medinan',
+    ayahs: chapter.verses.map((verse, i) => ({
+      ar: verse.text,
+      bn: bnChapter.verses[i].translation,
+      en: verse.translation,
+    })),
+  };
+});
+
+const { version } = await readJson('../package.json');
+const corpus = {
+  version: 1,
+  source: `quran-json@${version} (CC BY-SA 4.0)`,
+  surahs,
+};
+
+await mkdir(path.dirname(outFile), { recursive: true });
+await writeFile(outFile, JSON.stringify(corpus));
+console.log(`Wrote ${surahs.length} surahs to ${path.relative(process.cwd(), outFile)}`);
@@ -0,0 +1,47 @@
+// Builds services/quranDivisionData.ts: where each juz, hizb quarter, manzil, ruku and
+// mushaf page starts (Hafs, 604-page Madani print). Source data comes from the
+// `quran-meta` package.
+//
+// Usage: npm run build:divisions
+
+import { readFile, writeFile } from 'fs/promises';
+import { createRequire } from 'module';
+import path from 'path';
+import { JuzList, HizbQuarterList, ManzilList, RukuList, PageList, findSurahAyahByAyahId } from 'quran-meta/hafs';
+
+const require = createRequire(import.meta.url);
+const outFile = path.resolve('services/quranDivisionData.ts');
+
+// Each list holds the global ayah id where a division starts, padded with 0 in front and a sentinel at the end
+const divisions = {
+  JUZ_STARTS: JuzList,
+  HIZB_QUARTER_STARTS: HizbQuarterList,
+  MANZIL_STARTS: ManzilList,
+  RUKU_STARTS: RukuList,
+  PAGE_STARTS: PageList,
+};
+
+const formatList = (ayahIds) => {
+  const pairs = ayahIds.slice(1, -1).map(id => findSurahAyahByAyahId(id));
+  const lines = [];
+  for (let i = 0; i < pairs.length; i += 10) {
+    lines.push('  ' + pairs.slice(i, i + 10).map(([s, a]) => `[${s}, ${a}]`).join(', ') + ',');
+  }
+  return lines.join('\n');
+};
+
+const { version } = JSON.parse(await readFile(require.resolve('quran-meta/package.json'), 'utf8'));
+const source = [
+  `// Generated by scripts/build-divisions.mjs from quran-meta@${version} (Hafs); do not edit by hand.`,
+  '// The first ayah of each division as [surah, ayah], in order.',
+  '',
+  ...Object.entries(divisions).flatMap(([name, ayahIds]) => [
+    `export const ${name}: ReadonlyArray<readonly [number, number]> = [`,
+    formatList(ayahIds),
+    '];',
+    '',
+  ]),
+];
+
+await writeFile(outFile, source.join('\n'));
+console.log(`Wrote division tables to ${path.relative(process.cwd(), outFile)}`);
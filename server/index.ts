@@ -0,0 +1,194 @@
+import http from 'node:http';
+import { createHash } from 'node:crypto';
+import { AiProvider, AiProviderId } from '../types';
+import { createGeminiProvider } from '../services/geminiProvider';
+import { createOpenAiCompatibleProvider } from '../services/openAiCompatibleProvider';
+import { createMockAiProvider } from '../services/mockAiProvider';
+import { RequestError, RequestErrorKind, isAbortError } from '../services/errors';
+import { ROUTES } from './routes';
+import { createRateLimiter } from './rateLimiter';
+import { createResponseCache } from './responseCache';
+
+// The same .env.local the Vite dev server reads; variables already set in the environment win
+for (const file of ['.env.local', '.env']) {
+  try {
+    process.loadEnvFile(file);
+  } catch {
+    // Optional
+  }
+}
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const PORT = numberFromEnv('SERVER_PORT', 8787);
+const RATE_LIMIT_PER_MINUTE = numberFromEnv('RATE_LIMIT_PER_MINUTE', 30);
+const MAX_BODY_BYTES = numberFromEnv('MAX_BODY_BYTES', 256 * 1024);
+const CACHE_MAX_ENTRIES = numberFromEnv('CACHE_MAX_ENTRIES', 500);
+const CACHE_TTL_MS = numberFromEnv('CACHE_TTL_HOURS', 24) * 60 * 60 * 1000;
+// Behind a reverse proxy every request comes from the proxy's address, so read X-Forwarded-For instead
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+/**
+ * Builds the provider named by AI_PROVIDER (gemini | openai | mock), defaulting to Gemini.
+ * AI_MODEL, AI_BASE_URL and AI_API_KEY tune the chosen provider; `mock` needs no key or network.
+ */
+const createProviderFromConfig = (): AiProvider => {
+  const id = (process.env.AI_PROVIDER || 'gemini') as AiProviderId;
+  const model = process.env.AI_MODEL || undefined;
+
+  switch (id) {
+    case 'openai':
+      return createOpenAiCompatibleProvider({
+        baseUrl: process.env.AI_BASE_URL || undefined,
+        model,
+        apiKey: process.env.AI_API_KEY || undefined,
+      });
+    case 'mock':
+      return createMockAiProvider();
+    default:
+      return createGeminiProvider(process.env.GEMINI_API_KEY || '', model);
+  }
+};
+
+const provider = createProviderFromConfig();
+const rateLimiter = createRateLimiter({ limit: RATE_LIMIT_PER_MINUTE, windowMs: 60_000 });
+const cache = createResponseCache<unknown>({ maxEntries: CACHE_MAX_ENTRIES, ttlMs: CACHE_TTL_MS });
+
+// Errors are sent as { error: { kind, message } } so the browser can rebuild them (see errorFromBody)
+const STATUS_FOR_KIND: Record<RequestErrorKind, number> = {
+  notFound: 404,
+  rateLimited: 429,
+  offline: 503,
+  invalidAiResponse: 502,
+  missingApiKey: 503,
+  timeout: 504,
+  network: 502,
+  server: 502,
+};
+
+const describeError = (error: unknown): { status: number; body: { error: { kind: RequestErrorKind; message: string } } } => {
+  if (error instanceof RequestError) {
+    return { status: STATUS_FOR_KIND[error.kind], body: { error: { kind: error.kind, message: error.message } } };
+  }
+  console.error('Unexpected error:', error);
+  return { status: 500, body: { error: { kind: 'server', message: 'Internal server error' } } };
+};
+
+class BadRequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const clientIp = (req: http.IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// Reads the JSON body, refusing anything over MAX_BODY_BYTES before buffering it all
+const readBody = async (req: http.IncomingMessage): Promise<unknown> => {
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) throw new BadRequestError(413, 'Request body too large');
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new BadRequestError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new BadRequestError(400, 'Request body is not valid JSON');
+  }
+};
+
+const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  // The browser builds its AI cache keys from this, so answers of another provider or model are not reused
+  if (path === '/api/info') {
+    if (req.method !== 'GET') return sendJson(res, 405, { error: { message: 'Use GET' } }, { Allow: 'GET' });
+    return sendJson(res, 200, { provider: provider.id, model: provider.model }, { 'Cache-Control': 'no-store' });
+  }
+  const route = ROUTES[path];
+  if (!route) return sendJson(res, 404, { error: { message: 'Not found' } });
+  if (req.method !== 'POST') return sendJson(res, 405, { error: { message: 'Use POST' } }, { Allow: 'POST' });
+
+  const waitMs = rateLimiter.take(clientIp(req));
+  if (waitMs > 0) {
+    return sendJson(res, 429, { error: { kind: 'rateLimited', message: 'Too many requests' } }, { 'Retry-After': String(Math.ceil(waitMs / 1000)) });
+  }
+
+  let body: unknown;
+  try {
+    body = await readBody(req);
+  } catch (error) {
+    if (!(error instanceof BadRequestError)) throw error;
+    // Stop reading an oversized upload instead of draining it
+    res.setHeader('Connection', 'close');
+    return sendJson(res, error.status, { error: { message: error.message } });
+  }
+  const run = route.accept(body);
+  if (Array.isArray(run)) return sendJson(res, 400, { error: { message: run.slice(0, 5).join('; ') } });
+
+  // The browser going away (a closed modal, a newer search) cancels the model request
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const cacheKey = createHash('sha256').update(`${path}\n${JSON.stringify(body)}`).digest('hex');
+  const cached = route.cacheable ? cache.get(cacheKey) : undefined;
+
+  if (!route.stream) {
+    try {
+      const result = cached ?? await run(provider, controller.signal, () => {});
+      if (route.cacheable && cached === undefined) cache.set(cacheKey, result);
+      sendJson(res, 200, result);
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) return;
+      const { status, body: errorBody } = describeError(error);
+      sendJson(res, status, errorBody);
+    }
+    return;
+  }
+
+  // Streaming routes answer 200 straight away, so a failure arrives as the last line instead of a status
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' });
+  const writeLine = (line: unknown) => res.write(`${JSON.stringify(line)}\n`);
+  try {
+    const result = cached ?? await run(provider, controller.signal, update => {
+      if (!controller.signal.aborted) writeLine({ update });
+    });
+    if (route.cacheable && cached === undefined) cache.set(cacheKey, result);
+    writeLine({ result });
+  } catch (error) {
+    if (controller.signal.aborted || isAbortError(error)) return;
+    writeLine(describeError(error).body);
+  } finally {
+    res.end();
+  }
+};
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch(error => {
+    console.error('Request failed:', error);
+    if (!res.headersSent) sendJson(res, 500, { error: { kind: 'server', message: 'Internal server error' } });
+    else res.end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`AI proxy listening on http://localhost:${PORT} (${provider.id}/${provider.model})`);
+});
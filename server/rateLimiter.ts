@@ -0,0 +1,37 @@
+export interface RateLimiterConfig {
+  limit: number; // Requests allowed per client in each window
+  windowMs: number;
+}
+
+// Sweep expired windows once this many clients are tracked, so memory stays bounded
+const SWEEP_THRESHOLD = 10_000;
+
+/**
+ * Fixed-window rate limiter keyed by client (the server uses the IP address).
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimiterConfig) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  const sweep = (now: number) => {
+    for (const [key, window] of windows) {
+      if (now - window.start >= windowMs) windows.delete(key);
+    }
+  };
+
+  return {
+    /**
+     * Counts one request from `key`. Returns 0 when it is allowed, otherwise the milliseconds until the client may retry.
+     */
+    take(key: string, now = Date.now()): number {
+      if (windows.size >= SWEEP_THRESHOLD) sweep(now);
+      const window = windows.get(key);
+      if (!window || now - window.start >= windowMs) {
+        windows.set(key, { start: now, count: 1 });
+        return 0;
+      }
+      if (window.count >= limit) return window.start + windowMs - now;
+      window.count++;
+      return 0;
+    },
+  };
+};
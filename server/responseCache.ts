@@ -0,0 +1,31 @@
+export interface ResponseCacheConfig {
+  maxEntries: number;
+  ttlMs: number;
+}
+
+/**
+ * In-memory cache of AI responses, evicting the least recently used entry when full.
+ * Map iteration order is insertion order, so a hit is re-inserted to mark it as recent.
+ */
+export const createResponseCache = <T>({ maxEntries, ttlMs }: ResponseCacheConfig) => {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+
+  return {
+    get(key: string): T | undefined {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set(key: string, value: T) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+  };
+};
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AiProvider } from '../types';
+import { createMockAiProvider } from '../services/mockAiProvider';
+import { ROUTES } from './routes';
+
+const ayah = {
+  surahNumber: 2,
+  ayahNumber: 255,
+  arabicText: 'ٱللَّهُ لَآ إِلَٰهَ إِلَّا هُوَ',
+  translations: { 'en.sahih': 'Allah - there is no deity except Him', 'bn.bengali': 'আল্লাহ' },
+  surahNameEnglish: 'Al-Baqara',
+};
+
+const problems = (path: string, body: unknown): string[] => {
+  const run = ROUTES[path].accept(body);
+  return Array.isArray(run) ? run : [];
+};
+
+describe('ROUTES', () => {
+  it('accepts well-formed bodies and runs them against the provider', async () => {
+    const run = ROUTES['/api/search'].accept({ query: 'patience', language: 'en' });
+    if (Array.isArray(run)) return assert.fail(run.join('; '));
+    const provider: AiProvider = createMockAiProvider();
+    const results = await run(provider, new AbortController().signal, () => {});
+    assert.ok(Array.isArray(results));
+  });
+
+  it('rejects bodies that are not objects', () => {
+    assert.deepEqual(problems('/api/search', null), ['$: expected object, got null']);
+    assert.deepEqual(problems('/api/search', ['patience']), ['$: expected object, got array']);
+  });
+
+  it('rejects missing fields, unknown languages and oversized queries', () => {
+    assert.deepEqual(problems('/api/search', { language: 'xx' }), ['$.query: missing', '$.language: "xx" is not one of bn, en, ur, ar']);
+    assert.deepEqual(problems('/api/search', { query: 'a'.repeat(501), language: 'en' }), ['$.query: longer than 500 characters']);
+  });
+
+  it('checks the ayah fields prompts read', () => {
+    assert.deepEqual(problems('/api/tafsir', { ayah, language: 'bn' }), []);
+    assert.deepEqual(problems('/api/tafsir', { ayah: { ...ayah, surahNumber: 115, arabicText: 7 }, language: 'bn' }), [
+      '$.ayah.surahNumber: 115 is above 114',
+      '$.ayah.arabicText: expected string, got number',
+    ]);
+  });
+
+  it('requires every translation to be text', () => {
+    assert.deepEqual(problems('/api/tafsir', { ayah: { ...ayah, translations: { 'en.sahih': { text: 'x' } } }, language: 'en' }), [
+      '$.ayah.translations.en.sahih: expected string, got object',
+    ]);
+    assert.deepEqual(problems('/api/passage', { ayahs: [ayah, { ...ayah, translations: { en: 'x'.repeat(20_001) } }], language: 'en' }), [
+      '$.ayahs[1].translations.en: longer than 20000 characters',
+    ]);
+    const many = Object.fromEntries(Array.from({ length: 21 }, (_, i) => [`edition${i}`, 'text']));
+    assert.deepEqual(problems('/api/words', { ayah: { ...ayah, translations: many }, words: [], language: 'en' }), [
+      '$.ayah.translations: more than 20 editions',
+    ]);
+  });
+
+  it('limits comparisons to known sources and chats to the sent history', () => {
+    assert.deepEqual(problems('/api/compare', { ayah, sourceIds: [], language: 'en' }), ['$.sourceIds: fewer than 1 items']);
+    assert.match(problems('/api/compare', { ayah, sourceIds: ['made-up'], language: 'en' })[0], /^\$\.sourceIds\[0\]: "made-up" is not one of /);
+    const messages = Array.from({ length: 22 }, (_, i) => ({ role: i % 2 ? 'model' : 'user', text: 'q' }));
+    assert.deepEqual(problems('/api/chat', { ayah, tafsir: { tafsirText: 't' }, messages, language: 'en' }), ['$.messages: more than 21 items']);
+    assert.deepEqual(problems('/api/chat', { ayah, tafsir: { tafsirText: 't' }, messages: [{ role: 'system', text: 'q' }], language: 'en' }), [
+      '$.messages[0].role: "system" is not one of user, model',
+    ]);
+  });
+});
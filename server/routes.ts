@@ -0,0 +1,177 @@
+import { Type, Schema } from "@google/genai";
+import { AiProvider, AyahDisplayData, ChatMessage, Language, TafsirData } from '../types';
+import { LANGUAGES } from '../services/i18n';
+import { findSchemaProblems } from '../services/aiResponse';
+import { CLASSICAL_TAFSIRS, MAX_COMPARISON_SOURCES, MAX_PASSAGE_AYAHS } from '../services/aiPrompts';
+
+// Request body schemas, checked with findSchemaProblems before anything reaches the model
+
+const MAX_QUERY_LENGTH = 500;
+const MAX_TEXT_LENGTH = 20_000; // Ayah text, tafsir and chat messages
+// AiService sends at most 10 earlier exchanges plus the new question
+const MAX_CHAT_MESSAGES = 21;
+const MAX_TRANSLATIONS = 20;
+
+const LANGUAGE: Schema = { type: Type.STRING, enum: LANGUAGES.map(l => l.code) };
+const TEXT: Schema = { type: Type.STRING, maxLength: String(MAX_TEXT_LENGTH) };
+
+// The fields of AyahDisplayData that prompts use
+const AYAH: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    surahNumber: { type: Type.INTEGER, minimum: 1, maximum: 114 },
+    ayahNumber: { type: Type.INTEGER, minimum: 1, maximum: 286 },
+    arabicText: TEXT,
+    translations: { type: Type.OBJECT }, // Edition -> text; see translationProblems
+    surahNameEnglish: { type: Type.STRING, maxLength: '100' },
+  },
+  required: ["surahNumber", "ayahNumber", "arabicText", "translations", "surahNameEnglish"],
+};
+
+/**
+ * Schemas cannot describe a map, so the translations of the body's `ayah` or `ayahs` are checked here,
+ * once the body has passed its schema: each value must be text, like arabicText.
+ */
+const translationProblems = (value: unknown): string[] => {
+  const { ayah, ayahs } = value as { ayah?: { translations: object }; ayahs?: { translations: object }[] };
+  const found: [string, object][] = [
+    ...(ayah ? [['$.ayah', ayah.translations] as [string, object]] : []),
+    ...(ayahs ?? []).map((a, i): [string, object] => [`$.ayahs[${i}]`, a.translations]),
+  ];
+  return found.flatMap(([path, translations]) => {
+    const entries = Object.entries(translations);
+    if (entries.length > MAX_TRANSLATIONS) return [`${path}.translations: more than ${MAX_TRANSLATIONS} editions`];
+    return entries.flatMap(([edition, text]) => findSchemaProblems(text, TEXT, `${path}.translations.${edition}`));
+  });
+};
+
+const body = (properties: Record<string, Schema>): Schema => ({
+  type: Type.OBJECT,
+  properties,
+  required: Object.keys(properties),
+});
+
+// Request bodies once they pass their schema. Ayahs, tafsir and messages are only checked
+// for the fields prompts read, and unknown fields are allowed through.
+interface SearchBody { query: string; language: Language }
+interface TafsirBody { ayah: AyahDisplayData; language: Language }
+interface OverviewBody { surahName: string; surahNumber: number; language: Language }
+interface CompareBody { ayah: AyahDisplayData; sourceIds: string[]; language: Language }
+interface PassageBody { ayahs: AyahDisplayData[]; language: Language }
+interface WordsBody { ayah: AyahDisplayData; words: string[]; language: Language }
+interface ChatBody { ayah: AyahDisplayData; tafsir: TafsirData; messages: ChatMessage[]; language: Language }
+
+type OnUpdate = (update: unknown) => void;
+
+export interface Route<B> {
+  body: Schema; // A body without problems against this schema is a B
+  cacheable: boolean; // Chat answers depend on the whole conversation, so they are not cached
+  stream: boolean; // Sends `{ update }` lines while the model writes, then `{ result }`
+  run(provider: AiProvider, body: B, signal: AbortSignal, onUpdate: OnUpdate): Promise<unknown>;
+}
+
+// A route with its body type hidden, so routes with different bodies share one table
+export interface ServerRoute {
+  cacheable: boolean;
+  stream: boolean;
+  /**
+   * Checks an untrusted request body against the route's schema. Returns the problems found,
+   * or the route's run bound to the body, which is only then treated as the route's body type.
+   */
+  accept(value: unknown): string[] | ((provider: AiProvider, signal: AbortSignal, onUpdate: OnUpdate) => Promise<unknown>);
+}
+
+const route = <B>({ body: schema, cacheable, stream, run }: Route<B>): ServerRoute => ({
+  cacheable,
+  stream,
+  accept(value) {
+    const problems = findSchemaProblems(value, schema);
+    if (problems.length === 0) problems.push(...translationProblems(value));
+    if (problems.length > 0) return problems;
+    const body = value as B;
+    return (provider, signal, onUpdate) => run(provider, body, signal, onUpdate);
+  },
+});
+
+/**
+ * One endpoint per AiProvider method, under /api.
+ */
+export const ROUTES: Record<string, ServerRoute> = {
+  '/api/search': route<SearchBody>({
+    body: body({ query: { type: Type.STRING, maxLength: String(MAX_QUERY_LENGTH) }, language: LANGUAGE }),
+    cacheable: true,
+    stream: false,
+    run: (provider, { query, language }, signal) => provider.searchQuran(query, language, signal),
+  }),
+  '/api/tafsir': route<TafsirBody>({
+    body: body({ ayah: AYAH, language: LANGUAGE }),
+    cacheable: true,
+    stream: true,
+    run: (provider, { ayah, language }, signal, onUpdate) => provider.streamTafsir(ayah, language, onUpdate, signal),
+  }),
+  '/api/overview': route<OverviewBody>({
+    body: body({
+      surahName: { type: Type.STRING, maxLength: '100' },
+      surahNumber: { type: Type.INTEGER, minimum: 1, maximum: 114 },
+      language: LANGUAGE,
+    }),
+    cacheable: true,
+    stream: false,
+    run: (provider, { surahName, surahNumber, language }, signal) => provider.generateSurahOverview(surahName, surahNumber, language, signal),
+  }),
+  '/api/compare': route<CompareBody>({
+    body: body({
+      ayah: AYAH,
+      sourceIds: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING, enum: CLASSICAL_TAFSIRS.map(s => s.id) },
+        minItems: '1',
+        maxItems: String(MAX_COMPARISON_SOURCES),
+      },
+      language: LANGUAGE,
+    }),
+    cacheable: true,
+    stream: false,
+    run: (provider, { ayah, sourceIds, language }, signal) => provider.compareTafsir(ayah, sourceIds, language, signal),
+  }),
+  '/api/passage': route<PassageBody>({
+    body: body({
+      ayahs: { type: Type.ARRAY, items: AYAH, minItems: '1', maxItems: String(MAX_PASSAGE_AYAHS) },
+      language: LANGUAGE,
+    }),
+    cacheable: true,
+    stream: false,
+    run: (provider, { ayahs, language }, signal) => provider.generatePassageTafsir(ayahs, language, signal),
+  }),
+  '/api/words': route<WordsBody>({
+    body: body({
+      ayah: AYAH,
+      words: { type: Type.ARRAY, items: { type: Type.STRING, maxLength: '100' }, maxItems: '200' },
+      language: LANGUAGE,
+    }),
+    cacheable: true,
+    stream: false,
+    run: (provider, { ayah, words, language }, signal) => provider.analyzeWords(ayah, words, language, signal),
+  }),
+  '/api/chat': route<ChatBody>({
+    body: body({
+      ayah: AYAH,
+      tafsir: { type: Type.OBJECT, properties: { tafsirText: TEXT }, required: ["tafsirText"] },
+      messages: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: { role: { type: Type.STRING, enum: ['user', 'model'] }, text: TEXT },
+          required: ["role", "text"],
+        },
+        minItems: '1',
+        maxItems: String(MAX_CHAT_MESSAGES),
+      },
+      language: LANGUAGE,
+    }),
+    cacheable: false,
+    stream: true,
+    run: (provider, { ayah, tafsir, messages, language }, signal, onUpdate) =>
+      provider.askFollowUp(ayah, tafsir, messages, language, onUpdate, signal),
+  }),
+};
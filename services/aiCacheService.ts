@@ -0,0 +1,121 @@
+import { AiCacheEntry, AiCacheKind, Language } from '../types';
+import { STORES, withStore, requestToPromise } from './db';
+
+const LIMIT_KEY = 'aiCacheLimitBytes';
+export const DEFAULT_CACHE_LIMIT_BYTES = 5 * 1024 * 1024;
+
+export interface AiCacheDescriptor {
+  kind: AiCacheKind;
+  surahNumber: number;
+  ayahNumber: number | null; // null for whole-surah entries such as overviews
+  language: Language;
+  model: string;
+  promptVersion: number;
+  variant?: string; // Distinguishes entries for the same ayah, e.g. the sources a comparison covers
+}
+
+export interface CachedResult<T> {
+  data: T;
+  cachedAt: number | null; // When the cached copy was generated; null if freshly generated
+}
+
+export const buildCacheKey = (d: AiCacheDescriptor): string =>
+  [d.kind, d.model, `v${d.promptVersion}`, d.language, d.surahNumber, d.ayahNumber ?? '-', ...(d.variant ? [d.variant] : [])].join(':');
+
+const byteSize = (value: unknown): number => new Blob([JSON.stringify(value)]).size;
+
+const getLimit = (): number => {
+  const saved = typeof localStorage !== 'undefined' ? Number(localStorage.getItem(LIMIT_KEY)) : NaN;
+  return Number.isFinite(saved) && saved > 0 ? saved : DEFAULT_CACHE_LIMIT_BYTES;
+};
+
+/**
+ * Deletes least-recently-used entries until the cache fits within the size limit.
+ */
+const evict = (limit: number) => withStore(STORES.aiCache, 'readwrite', async store => {
+  const entries = await requestToPromise(store.index('lastAccessed').getAll() as IDBRequest<AiCacheEntry[]>);
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  for (const entry of entries) { // Ascending by lastAccessed
+    if (total <= limit) break;
+    store.delete(entry.key);
+    total -= entry.size;
+  }
+});
+
+/**
+ * Persistent IndexedDB cache for generated tafsir, comparisons, surah overviews and word analyses.
+ * Cache failures never block generation: reads fall back to a miss, writes are best effort.
+ */
+export const AiCacheService = {
+  async get<T>(descriptor: AiCacheDescriptor): Promise<AiCacheEntry<T> | null> {
+    try {
+      return await withStore(STORES.aiCache, 'readwrite', async store => {
+        const entry = await requestToPromise(store.get(buildCacheKey(descriptor)) as IDBRequest<AiCacheEntry<T> | undefined>);
+        if (!entry) return null;
+        entry.lastAccessed = Date.now();
+        store.put(entry);
+        return entry;
+      });
+    } catch (error) {
+      console.error('AI cache read failed:', error);
+      return null;
+    }
+  },
+
+  async put<T>(descriptor: AiCacheDescriptor, data: T): Promise<void> {
+    const now = Date.now();
+    const entry: AiCacheEntry<T> = {
+      ...descriptor,
+      key: buildCacheKey(descriptor),
+      data,
+      size: byteSize(data),
+      createdAt: now,
+      lastAccessed: now,
+    };
+    try {
+      await withStore(STORES.aiCache, 'readwrite', store => { store.put(entry); });
+      await evict(getLimit());
+    } catch (error) {
+      console.error('AI cache write failed:', error);
+    }
+  },
+
+  /**
+   * Returns the cached result when present, otherwise generates and stores it.
+   * Pass `refresh` to skip the cache and overwrite the stored copy.
+   */
+  async getOrGenerate<T>(descriptor: AiCacheDescriptor, generate: () => Promise<T>, refresh = false): Promise<CachedResult<T>> {
+    if (!refresh) {
+      const cached = await AiCacheService.get<T>(descriptor);
+      if (cached) return { data: cached.data, cachedAt: cached.createdAt };
+    }
+    const data = await generate();
+    await AiCacheService.put(descriptor, data);
+    return { data, cachedAt: null };
+  },
+
+  /**
+   * Lists all entries, most recently used first.
+   */
+  async list(): Promise<AiCacheEntry[]> {
+    const entries = await withStore(STORES.aiCache, 'readonly', store =>
+      requestToPromise(store.getAll() as IDBRequest<AiCacheEntry[]>)
+    );
+    return entries.sort((a, b) => b.lastAccessed - a.lastAccessed);
+  },
+
+  async remove(key: string): Promise<void> {
+    await withStore(STORES.aiCache, 'readwrite', store => { store.delete(key); });
+  },
+
+  async clear(): Promise<void> {
+    await withStore(STORES.aiCache, 'readwrite', store => { store.clear(); });
+  },
+
+  getLimit,
+
+  async setLimit(bytes: number): Promise<void> {
+    localStorage.setItem(LIMIT_KEY, String(bytes));
+    await evict(bytes);
+  },
+};
@@ -0,0 +1,94 @@
+import { Type, Schema } from "@google/genai";
+import { InvalidAiResponseError } from './errors';
+import { buildRepairPrompt } from './aiPrompts';
+
+// Problems quoted in an error or a repair prompt; the first few are enough to fix the rest
+const MAX_REPORTED_PROBLEMS = 5;
+
+/**
+ * Parses the JSON text of an AI response. Throws InvalidAiResponseError when it is empty or not valid JSON.
+ */
+export const parseAiJson = <T>(text: string | null | undefined): T => {
+  if (!text) throw new InvalidAiResponseError('The AI returned an empty response');
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new InvalidAiResponseError('The AI response is not valid JSON');
+  }
+};
+
+const describe = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+/**
+ * Checks a parsed value against a schema in the Gemini format (types, required fields, enums, numeric bounds
+ * and length limits) and lists what is wrong, e.g. "$.keyThemes: missing". Unknown fields are allowed.
+ * Used for AI responses here and for request bodies in server/routes.ts.
+ */
+export const findSchemaProblems = (value: unknown, schema: Schema, path = '$'): string[] => {
+  switch (schema.type) {
+    case Type.STRING:
+      if (typeof value !== 'string') return [`${path}: expected string, got ${describe(value)}`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path}: "${value}" is not one of ${schema.enum.join(', ')}`];
+      if (schema.maxLength !== undefined && value.length > Number(schema.maxLength)) return [`${path}: longer than ${schema.maxLength} characters`];
+      return [];
+    case Type.INTEGER:
+    case Type.NUMBER: {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path}: expected number, got ${describe(value)}`];
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) return [`${path}: expected integer, got ${value}`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: ${value} is below ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: ${value} is above ${schema.maximum}`];
+      return [];
+    }
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path}: expected boolean, got ${describe(value)}`];
+    case Type.ARRAY:
+      if (!Array.isArray(value)) return [`${path}: expected array, got ${describe(value)}`];
+      if (schema.minItems !== undefined && value.length < Number(schema.minItems)) return [`${path}: fewer than ${schema.minItems} items`];
+      if (schema.maxItems !== undefined && value.length > Number(schema.maxItems)) return [`${path}: more than ${schema.maxItems} items`];
+      return schema.items ? value.flatMap((item, i) => findSchemaProblems(item, schema.items!, `${path}[${i}]`)) : [];
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path}: expected object, got ${describe(value)}`];
+      const record = value as Record<string, unknown>;
+      const required = schema.required ?? [];
+      return Object.entries(schema.properties ?? {}).flatMap(([key, property]) => {
+        // Models often write null for an optional field they leave out
+        if (record[key] === undefined || record[key] === null) return required.includes(key) ? [`${path}.${key}: missing`] : [];
+        return findSchemaProblems(record[key], property, `${path}.${key}`);
+      });
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Returns `value` typed as T when it matches `schema`, and throws InvalidAiResponseError listing the problems otherwise.
+ */
+export const assertMatchesSchema = <T>(value: unknown, schema: Schema): T => {
+  const problems = findSchemaProblems(value, schema);
+  if (problems.length > 0) {
+    throw new InvalidAiResponseError(`The AI response does not match the schema: ${problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ')}`);
+  }
+  return value as T;
+};
+
+/**
+ * Validates an AI response and, when it is malformed, asks once more with a prompt that quotes the problems.
+ * `generate` sends a prompt and resolves with the parsed JSON; `first` replaces the first call when the
+ * response was already obtained another way, e.g. by streaming. A second malformed response throws
+ * InvalidAiResponseError.
+ */
+export const generateWithRepair = async <T>(
+  prompt: string,
+  schema: Schema,
+  generate: (prompt: string) => Promise<unknown>,
+  first: () => Promise<unknown> = () => generate(prompt)
+): Promise<T> => {
+  try {
+    return assertMatchesSchema<T>(await first(), schema);
+  } catch (error) {
+    if (!(error instanceof InvalidAiResponseError)) throw error;
+    console.warn('Retrying malformed AI response:', error.message);
+    return assertMatchesSchema<T>(await generate(buildRepairPrompt(prompt, error.message)), schema);
+  }
+};
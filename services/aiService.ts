@@ -0,0 +1,122 @@
+import { AyahDisplayData, Language, SearchResult, TafsirData, TafsirComparison, PassageTafsir, SurahOverviewData, WordAnalysis, ChatMessage, AiProvider } from '../types';
+import { createProxyAiProvider, DEFAULT_PROXY_URL } from './proxyAiProvider';
+import { OfflineService } from './offlineService';
+import { fetchJson } from './request';
+
+const PROXY_URL = (process.env.AI_PROXY_URL || DEFAULT_PROXY_URL).replace(/\/$/, '');
+
+// The browser never sees an API key: requests go to the app's server, which runs the provider named by AI_PROVIDER
+let provider: AiProvider = createProxyAiProvider({
+  baseUrl: PROXY_URL,
+  model: process.env.AI_MODEL || undefined,
+});
+
+// The last model key the server reported, so cached answers are still found offline
+const MODEL_KEY = 'aiModelKey';
+
+// What GET /api/info answers (see server/index.ts)
+interface ServerInfo {
+  provider: string;
+  model: string;
+}
+
+let serverModelKey: Promise<string> | null = null;
+
+const fetchServerModelKey = async (): Promise<string> => {
+  const info = await fetchJson<Partial<ServerInfo> | null>(`${PROXY_URL}/info`);
+  if (typeof info?.provider !== 'string' || typeof info.model !== 'string') throw new Error('The server did not report its AI model');
+  const key = `${info.provider}/${info.model}`;
+  localStorage.setItem(MODEL_KEY, key);
+  return key;
+};
+
+// Earlier exchanges sent with a follow-up question; older ones are dropped to bound the prompt size
+const FOLLOW_UP_HISTORY_EXCHANGES = 10;
+
+// Every provider except the mock calls a remote API, so fail fast with an OfflineError instead
+const requireNetwork = () => {
+  if (provider.id !== 'mock') OfflineService.requireOnline();
+};
+
+export const AiService = {
+  /**
+   * Identifies the provider and model answering, e.g. "gemini/gemini-2.5-flash". Used in cache keys.
+   * Through the proxy these are the server's, asked once per session; offline, or when the server
+   * cannot be reached, the last key it reported is used.
+   */
+  async getModelKey(): Promise<string> {
+    if (provider.id !== 'proxy') return `${provider.id}/${provider.model}`;
+    const saved = localStorage.getItem(MODEL_KEY) ?? `${provider.id}/${provider.model}`;
+    if (!OfflineService.isOnline()) return saved;
+    serverModelKey ??= fetchServerModelKey();
+    try {
+      return await serverModelKey;
+    } catch (error) {
+      console.warn('Using the last known AI model:', error);
+      serverModelKey = null; // Ask again next time
+      return saved;
+    }
+  },
+
+  /**
+   * Replaces the active provider, e.g. with the mock provider in tests.
+   */
+  useProvider(next: AiProvider) {
+    provider = next;
+    serverModelKey = null;
+  },
+
+  async searchQuran(query: string, language: Language, signal?: AbortSignal): Promise<SearchResult[]> {
+    requireNetwork();
+    return provider.searchQuran(query, language, signal);
+  },
+
+  async generateTafsir(ayahData: AyahDisplayData, language: Language): Promise<TafsirData> {
+    requireNetwork();
+    return provider.generateTafsir(ayahData, language);
+  },
+
+  async streamTafsir(
+    ayahData: AyahDisplayData,
+    language: Language,
+    onUpdate: (partial: Partial<TafsirData>) => void,
+    signal?: AbortSignal
+  ): Promise<TafsirData> {
+    requireNetwork();
+    return provider.streamTafsir(ayahData, language, onUpdate, signal);
+  },
+
+  async compareTafsir(ayahData: AyahDisplayData, sourceIds: string[], language: Language, signal?: AbortSignal): Promise<TafsirComparison> {
+    requireNetwork();
+    return provider.compareTafsir(ayahData, sourceIds, language, signal);
+  },
+
+  async generatePassageTafsir(ayahs: AyahDisplayData[], language: Language, signal?: AbortSignal): Promise<PassageTafsir> {
+    requireNetwork();
+    return provider.generatePassageTafsir(ayahs, language, signal);
+  },
+
+  async generateSurahOverview(surahName: string, surahNumber: number, language: Language, signal?: AbortSignal): Promise<SurahOverviewData> {
+    requireNetwork();
+    return provider.generateSurahOverview(surahName, surahNumber, language, signal);
+  },
+
+  async analyzeWords(ayahData: AyahDisplayData, words: string[], language: Language, signal?: AbortSignal): Promise<WordAnalysis[]> {
+    requireNetwork();
+    return provider.analyzeWords(ayahData, words, language, signal);
+  },
+
+  async askFollowUp(
+    ayahData: AyahDisplayData,
+    tafsir: TafsirData,
+    messages: ChatMessage[],
+    language: Language,
+    onUpdate: (answer: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    requireNetwork();
+    // Messages alternate user/model and end with the question, so this slice starts with a user turn
+    const recent = messages.slice(-(FOLLOW_UP_HISTORY_EXCHANGES * 2 + 1));
+    return provider.askFollowUp(ayahData, tafsir, recent, language, onUpdate, signal);
+  },
+};
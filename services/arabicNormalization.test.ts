@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeArabic, containsArabic, normalizeToken, arabicWordForms } from './arabicNormalization';
+
+describe('normalizeArabic', () => {
+  it('strips tashkeel and writes dagger alef as a full alef', () => {
+    assert.equal(normalizeArabic('مَٰلِكِ'), 'مالك');
+  });
+
+  it('unifies alef, ya, waw and ta marbuta forms', () => {
+    assert.equal(normalizeArabic('ٱلْأَرْضِ'), 'الارض');
+    assert.equal(normalizeArabic('إِيمَانٌ'), 'ايمان');
+    assert.equal(normalizeArabic('ٱلصَّلَوٰةَ'), 'الصلواه');
+    assert.equal(normalizeArabic('مُؤْمِنُونَ'), 'مومنون');
+  });
+
+  it('keeps a dagger alef on alef maksura as the seat only', () => {
+    assert.equal(normalizeArabic('مُوسَىٰ'), 'موسي');
+  });
+
+  it('removes tatweel', () => {
+    assert.equal(normalizeArabic('الـلـه'), 'الله');
+  });
+});
+
+describe('containsArabic', () => {
+  it('tells Arabic script from other scripts', () => {
+    assert.equal(containsArabic('الرحمن'), true);
+    assert.equal(containsArabic('patience'), false);
+    assert.equal(containsArabic('ধৈর্য'), false);
+  });
+});
+
+describe('normalizeToken', () => {
+  it('lower-cases Latin text', () => {
+    assert.equal(normalizeToken('Patience'), 'patience');
+  });
+});
+
+describe('arabicWordForms', () => {
+  it('removes a conjunction, a preposition and the article', () => {
+    const forms = arabicWordForms('وَبِٱلصَّبْرِ');
+    assert.ok(forms.includes('الصبر'));
+    assert.ok(forms.includes('صبر'));
+  });
+
+  it('handles the article contracted after lam', () => {
+    assert.ok(arabicWordForms('لِلنَّاسِ').includes('الناس'));
+  });
+
+  it('also gives the spelling without dagger alefs', () => {
+    assert.ok(arabicWordForms('ٱلرَّحْمَٰنِ').includes('الرحمن'));
+  });
+
+  it('does not reduce a word to a two-letter stem', () => {
+    assert.ok(!arabicWordForms('ٱللَّهِ').includes('له'));
+  });
+});
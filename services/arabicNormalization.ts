@@ -0,0 +1,80 @@
+// Arabic text normalization for matching user input against Quranic script.
+// Both the Uthmani corpus text and typed queries go through the same steps,
+// so "مالك" matches "مَٰلِكِ".
+
+// Harakat, tanween, shadda, sukun and other combining marks
+const TASHKEEL = /[\u0610-\u061A\u064B-\u065F\u06D6-\u06ED\u08D3-\u08FF]/g;
+const TATWEEL = /\u0640/g;
+
+// Superscript (dagger) alef is a full alef in modern spelling, except on alef maksura where it is only a seat
+const DAGGER_ALEF_ON_MAKSURA = /\u0649\u0670/g;
+const DAGGER_ALEF = /\u0670/g;
+
+const LETTER_FORMS: Record<string, string> = {
+  'أ': 'ا', // alef with hamza above
+  'إ': 'ا', // alef with hamza below
+  'آ': 'ا', // alef with madda
+  'ٱ': 'ا', // alef wasla
+  'ٲ': 'ا', // alef with wavy hamza above
+  'ٳ': 'ا', // alef with wavy hamza below
+  'ى': 'ي', // alef maksura
+  'ئ': 'ي', // ya with hamza
+  'ی': 'ي', // farsi ya
+  'ؤ': 'و', // waw with hamza
+  'ة': 'ه', // ta marbuta
+  'ک': 'ك', // keheh
+};
+
+const LETTER_FORM_PATTERN = new RegExp(`[${Object.keys(LETTER_FORMS).join('')}]`, 'g');
+
+/**
+ * Writes dagger alef as a full alef, strips tashkeel and tatweel and unifies alef, hamza, ya and ta marbuta forms.
+ */
+export const normalizeArabic = (text: string): string =>
+  text
+    .normalize('NFC')
+    .replace(DAGGER_ALEF_ON_MAKSURA, '\u0649')
+    .replace(DAGGER_ALEF, 'ا')
+    .replace(TASHKEEL, '')
+    .replace(TATWEEL, '')
+    .replace(LETTER_FORM_PATTERN, ch => LETTER_FORMS[ch]);
+
+const ARABIC_LETTER = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]/;
+
+export const containsArabic = (text: string): boolean => ARABIC_LETTER.test(text);
+
+/**
+ * Normalizes a single token of any script: Arabic folding plus lower-casing for Latin text.
+ */
+export const normalizeToken = (token: string): string =>
+  normalizeArabic(token).toLowerCase();
+
+// Conjunction, then preposition, then the article: "وبالصبر" -> "الصبر"; "للناس" contracts ل + ال
+const ARTICLE_PREFIX = /^[وف]?[بكل]?ال(?=..)/;
+const CONTRACTED_ARTICLE = /^[وف]?لل(?=..)/;
+const CONJUNCTION_PREFIX = /^[وف](?=...)/;
+
+/**
+ * Every normalized form an Arabic word can be found under: the word itself, the spelling without
+ * the dagger alefs (so "الرحمن" still matches "ٱلرَّحۡمَٰنِ"), and each of those with attached
+ * conjunctions, prepositions and the article removed ("بِٱلصَّبۡرِ" -> "الصبر", "صبر").
+ */
+export const arabicWordForms = (word: string): string[] => {
+  const spellings = [normalizeArabic(word), normalizeArabic(word.replace(DAGGER_ALEF, ''))];
+  const forms = new Set<string>();
+  for (const spelling of spellings) {
+    forms.add(spelling);
+    let stem: string | null = null;
+    if (ARTICLE_PREFIX.test(spelling)) stem = spelling.replace(ARTICLE_PREFIX, '');
+    else if (CONTRACTED_ARTICLE.test(spelling)) stem = spelling.replace(CONTRACTED_ARTICLE, '');
+    if (stem) {
+      forms.add(`ال${stem}`);
+      // Two-letter stems ("الله" -> "له") would collide with unrelated short words
+      if (stem.length > 2) forms.add(stem);
+    } else if (CONJUNCTION_PREFIX.test(spelling)) {
+      forms.add(spelling.replace(CONJUNCTION_PREFIX, ''));
+    }
+  }
+  return [...forms];
+};
+
@@ -0,0 +1,118 @@
+// Common Bengali names of the 114 surahs, in order. Alternative names and spellings
+// that readers often use are separated by "|".
+export const BENGALI_SURAH_NAMES: string[] = [
+  'ফাতিহা',
+  'বাকারা',
+  'আলে ইমরান',
+  'নিসা',
+  'মায়িদা|মায়েদা',
+  'আনআম',
+  'আরাফ',
+  'আনফাল',
+  'তাওবা|বারাআত',
+  'ইউনুস',
+  'হুদ',
+  'ইউসুফ',
+  'রাদ',
+  'ইবরাহীম|ইব্রাহিম',
+  'হিজর',
+  'নাহল',
+  'বনী ইসরাঈল|ইসরা',
+  'কাহফ',
+  'মারইয়াম|মরিয়ম',
+  'ত্বাহা|তাহা',
+  'আম্বিয়া',
+  'হাজ্জ|হজ',
+  'মুমিনূন',
+  'নূর',
+  'ফুরকান',
+  'শুআরা',
+  'নামল',
+  'কাসাস',
+  'আনকাবূত',
+  'রূম',
+  'লুকমান',
+  'সাজদা',
+  'আহযাব',
+  'সাবা',
+  'ফাতির',
+  'ইয়াসীন',
+  'সাফফাত',
+  'সোয়াদ|সাদ',
+  'যুমার',
+  'গাফির|মুমিন',
+  'ফুসসিলাত|হা-মীম সাজদা',
+  'শূরা',
+  'যুখরুফ',
+  'দুখান',
+  'জাসিয়া',
+  'আহকাফ',
+  'মুহাম্মাদ',
+  'ফাতহ',
+  'হুজুরাত',
+  'ক্বাফ|কাফ',
+  'যারিয়াত',
+  'তূর',
+  'নাজম',
+  'ক্বামার|কামার',
+  'আর-রাহমান|রহমান',
+  'ওয়াকিয়া',
+  'হাদীদ',
+  'মুজাদালা',
+  'হাশর',
+  'মুমতাহিনা',
+  'সাফ',
+  'জুমুআ|জুমা',
+  'মুনাফিকূন',
+  'তাগাবুন',
+  'তালাক',
+  'তাহরীম',
+  'মুলক',
+  'কলম|কালাম',
+  'হাক্কাহ',
+  'মাআরিজ',
+  'নূহ',
+  'জিন',
+  'মুযযাম্মিল',
+  'মুদ্দাসসির',
+  'কিয়ামাহ|কিয়ামা',
+  'দাহর|ইনসান',
+  'মুরসালাত',
+  'নাবা',
+  'নাযিআত',
+  'আবাসা',
+  'তাকভীর',
+  'ইনফিতার',
+  'মুতাফফিফীন',
+  'ইনশিকাক',
+  'বুরূজ',
+  'তারিক',
+  'আলা',
+  'গাশিয়াহ',
+  'ফাজর',
+  'বালাদ',
+  'শামস',
+  'লাইল',
+  'দুহা|দোহা',
+  'ইনশিরাহ|আলাম নাশরাহ',
+  'তীন',
+  'আলাক',
+  'কদর|ক্বদর',
+  'বাইয়্যিনাহ',
+  'যিলযাল',
+  'আদিয়াত',
+  'কারিআহ',
+  'তাকাসুর',
+  'আসর',
+  'হুমাযাহ',
+  'ফীল',
+  'কুরাইশ',
+  'মাঊন',
+  'কাওসার',
+  'কাফিরূন',
+  'নাসর',
+  'লাহাব|মাসাদ',
+  'ইখলাস',
+  'ফালাক',
+  'নাস',
+];
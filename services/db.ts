@@ -0,0 +1,97 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// Add new object stores here and bump DB_VERSION.
+
+const DB_NAME = 'nur-al-quran';
+const DB_VERSION = 6;
+
+export const STORES = {
+  aiCache: 'aiCache',
+  bookmarks: 'bookmarks',
+  bookmarkFolders: 'bookmarkFolders',
+  notes: 'notes',
+  readingHistory: 'readingHistory',
+  readingProgress: 'readingProgress',
+  hifzCards: 'hifzCards',
+  tafsirChats: 'tafsirChats',
+  offlineSurahs: 'offlineSurahs',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.aiCache)) {
+    const store = db.createObjectStore(STORES.aiCache, { keyPath: 'key' });
+    store.createIndex('lastAccessed', 'lastAccessed');
+  }
+  if (!db.objectStoreNames.contains(STORES.bookmarks)) {
+    db.createObjectStore(STORES.bookmarks, { keyPath: 'key' });
+  }
+  if (!db.objectStoreNames.contains(STORES.bookmarkFolders)) {
+    db.createObjectStore(STORES.bookmarkFolders, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.notes)) {
+    db.createObjectStore(STORES.notes, { keyPath: 'key' });
+  }
+  if (!db.objectStoreNames.contains(STORES.readingHistory)) {
+    const store = db.createObjectStore(STORES.readingHistory, { keyPath: 'key' });
+    store.createIndex('visitedAt', 'visitedAt');
+  }
+  if (!db.objectStoreNames.contains(STORES.readingProgress)) {
+    db.createObjectStore(STORES.readingProgress, { keyPath: 'surahNumber' });
+  }
+  if (!db.objectStoreNames.contains(STORES.hifzCards)) {
+    db.createObjectStore(STORES.hifzCards, { keyPath: 'key' });
+  }
+  if (!db.objectStoreNames.contains(STORES.tafsirChats)) {
+    db.createObjectStore(STORES.tafsirChats, { keyPath: 'key' });
+  }
+  if (!db.objectStoreNames.contains(STORES.offlineSurahs)) {
+    db.createObjectStore(STORES.offlineSurahs, { keyPath: 'surahNumber' });
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `fn` inside a transaction and resolves with its result once the transaction commits.
+ */
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await fn(tx.objectStore(storeName));
+  await done;
+  return result;
+};
@@ -0,0 +1,69 @@
+import { AyahDivisions, PassageRange, QuranDivision } from '../types';
+import { JUZ_STARTS, HIZB_QUARTER_STARTS, MANZIL_STARTS, RUKU_STARTS, PAGE_STARTS } from './quranDivisionData';
+
+type Starts = ReadonlyArray<readonly [number, number]>;
+
+const STARTS: Record<QuranDivision | 'ruku', Starts> = {
+  juz: JUZ_STARTS,
+  hizbQuarter: HIZB_QUARTER_STARTS,
+  manzil: MANZIL_STARTS,
+  ruku: RUKU_STARTS,
+  page: PAGE_STARTS,
+};
+
+// 1-based number of the division whose start is the last one at or before the ayah
+const findDivision = (starts: Starts, surahNumber: number, ayahNumber: number): number => {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    const [s, a] = starts[mid];
+    if (s < surahNumber || (s === surahNumber && a <= ayahNumber)) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+};
+
+/**
+ * Juz, hizb quarter, manzil, ruku and mushaf page lookups from the tables in quranDivisionData.ts.
+ * Numbers match the ones Al-Quran Cloud returns, so both data sources agree.
+ */
+export const DivisionService = {
+  count(division: QuranDivision | 'ruku'): number {
+    return STARTS[division].length;
+  },
+
+  /** First ayah of a division; `number` is 1-based. */
+  start(division: QuranDivision | 'ruku', number: number): { surahNumber: number; ayahNumber: number } {
+    const [surahNumber, ayahNumber] = STARTS[division][number - 1] ?? STARTS[division][0];
+    return { surahNumber, ayahNumber };
+  },
+
+  locate(surahNumber: number, ayahNumber: number): AyahDivisions {
+    return {
+      juz: findDivision(JUZ_STARTS, surahNumber, ayahNumber),
+      hizbQuarter: findDivision(HIZB_QUARTER_STARTS, surahNumber, ayahNumber),
+      manzil: findDivision(MANZIL_STARTS, surahNumber, ayahNumber),
+      ruku: findDivision(RUKU_STARTS, surahNumber, ayahNumber),
+      page: findDivision(PAGE_STARTS, surahNumber, ayahNumber),
+    };
+  },
+
+  /**
+   * The ayahs of a ruku. Rukus never cross a surah boundary, so one that is followed by
+   * the next surah runs to the surah's last ayah (`numberOfAyahs`).
+   */
+  rukuRange(ruku: number, numberOfAyahs: number): PassageRange {
+    const { surahNumber, ayahNumber } = DivisionService.start('ruku', ruku);
+    const next = RUKU_STARTS[ruku];
+    const toAyah = next && next[0] === surahNumber ? next[1] - 1 : numberOfAyahs;
+    return { surahNumber, fromAyah: ayahNumber, toAyah };
+  },
+
+  /** Ruku number counted from the start of its surah, as printed in the mushaf margin. */
+  rukuInSurah(ruku: number): number {
+    const [surahNumber] = RUKU_STARTS[ruku - 1];
+    const first = RUKU_STARTS.findIndex(([s]) => s === surahNumber);
+    return ruku - first;
+  },
+};
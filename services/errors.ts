@@ -0,0 +1,170 @@
+import type { MessageKey } from './i18n';
+
+// What went wrong with a request, independent of which service made it
+export type RequestErrorKind =
+  | 'notFound'
+  | 'rateLimited'
+  | 'offline'
+  | 'invalidAiResponse'
+  | 'missingApiKey'
+  | 'timeout'
+  | 'network'
+  | 'server';
+
+/**
+ * Base class for failures of Quran data and AI requests. The UI maps `kind` to a localized message.
+ */
+export class RequestError extends Error {
+  readonly kind: RequestErrorKind;
+  readonly status: number | null;
+
+  constructor(kind: RequestErrorKind, message: string, status: number | null = null) {
+    super(message);
+    this.name = 'RequestError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+export class NotFoundError extends RequestError {
+  constructor(message = 'Not found') {
+    super('notFound', message, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class RateLimitedError extends RequestError {
+  readonly retryAfterMs: number | null; // From the Retry-After header, when the server sent one
+
+  constructor(message = 'Too many requests', retryAfterMs: number | null = null) {
+    super('rateLimited', message, 429);
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Thrown instead of calling a network service while the device is offline.
+ */
+export class OfflineError extends RequestError {
+  constructor(message = 'This needs an internet connection') {
+    super('offline', message);
+    this.name = 'OfflineError';
+  }
+}
+
+export class InvalidAiResponseError extends RequestError {
+  constructor(message = 'The AI response could not be read') {
+    super('invalidAiResponse', message);
+    this.name = 'InvalidAiResponseError';
+  }
+}
+
+export class MissingApiKeyError extends RequestError {
+  constructor(message = 'The AI API key is missing or was rejected', status: number | null = null) {
+    super('missingApiKey', message, status);
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+/**
+ * True for the error a request rejects with when its AbortSignal is aborted.
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+/**
+ * Errors worth trying again automatically: rate limits, server errors, timeouts and dropped connections.
+ * Other 4xx responses (a rejected request body, say) would only fail the same way again.
+ */
+export const isRetryable = (error: unknown): boolean => {
+  if (!(error instanceof RequestError)) return false;
+  if (error.kind === 'server') return error.status === null || error.status >= 500;
+  return ['rateLimited', 'timeout', 'network'].includes(error.kind);
+};
+
+/**
+ * Whether to offer a retry button: trying again cannot fix a missing ayah or a missing API key.
+ */
+export const canRetry = (error: unknown): boolean =>
+  !(error instanceof NotFoundError || error instanceof MissingApiKeyError);
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+export const errorForStatus = (status: number, message: string, retryAfter: string | null = null): RequestError => {
+  if (status === 404) return new NotFoundError(message);
+  if (status === 429) return new RateLimitedError(message, parseRetryAfter(retryAfter));
+  if (status === 401 || status === 403) return new MissingApiKeyError(message, status);
+  return new RequestError('server', message, status);
+};
+
+/**
+ * Rebuilds the typed error a server sent as `{ error: { kind, message } }` (see server/index.ts),
+ * falling back to the status code when the body has no recognizable kind.
+ */
+export const errorFromBody = (status: number, body: unknown, retryAfter: string | null = null): RequestError => {
+  const sent = (body as { error?: { kind?: unknown; message?: unknown } } | null)?.error;
+  const message = typeof sent?.message === 'string' ? sent.message : `Request failed with ${status}`;
+  switch (sent?.kind) {
+    case 'notFound': return new NotFoundError(message);
+    case 'rateLimited': return new RateLimitedError(message, parseRetryAfter(retryAfter));
+    case 'invalidAiResponse': return new InvalidAiResponseError(message);
+    case 'missingApiKey': return new MissingApiKeyError(message, status);
+    case 'offline': return new OfflineError(message);
+    case 'timeout':
+    case 'network':
+    case 'server':
+      return new RequestError(sent.kind, message, status);
+    default:
+      return errorForStatus(status, message, retryAfter);
+  }
+};
+
+/**
+ * Turns whatever a request threw into a RequestError where the cause is recognizable:
+ * HTTP status codes (also on SDK errors that carry one) and network failures. Aborts pass through unchanged.
+ */
+export const toRequestError = (error: unknown): unknown => {
+  if (error instanceof RequestError || isAbortError(error)) return error;
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number' && status >= 400) {
+    return errorForStatus(status, error instanceof Error ? error.message : `Request failed with ${status}`);
+  }
+  // fetch rejects with a TypeError when the request never reaches the server
+  if (error instanceof TypeError) {
+    const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+    return offline ? new OfflineError() : new RequestError('network', error.message);
+  }
+  return error;
+};
+
+const MESSAGE_KEYS: Record<RequestErrorKind, MessageKey> = {
+  notFound: 'errors.notFound',
+  rateLimited: 'errors.rateLimited',
+  offline: 'errors.offline',
+  invalidAiResponse: 'errors.invalidAiResponse',
+  missingApiKey: 'errors.missingApiKey',
+  timeout: 'errors.timeout',
+  network: 'errors.network',
+  server: 'errors.server',
+};
+
+/**
+ * The message to show for a failed request. `fallback` covers unrecognized errors;
+ * `overrides` give a more specific message for some kinds in a particular context.
+ */
+export const errorMessageKey = (
+  error: unknown,
+  fallback: MessageKey,
+  overrides: Partial<Record<RequestErrorKind, MessageKey>> = {}
+): MessageKey => {
+  if (!(error instanceof RequestError)) return fallback;
+  return overrides[error.kind] ?? MESSAGE_KEYS[error.kind];
+};
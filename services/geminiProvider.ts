@@ -0,0 +1,208 @@
+import { GoogleGenAI, Schema } from "@google/genai";
+import { SearchResult, TafsirData, TafsirComparison, PassageTafsir, SurahOverviewData, WordAnalysis, AiProvider } from '../types';
+import {
+  buildSearchPrompt, SEARCH_SCHEMA,
+  buildTafsirPrompt, TAFSIR_SCHEMA, readTafsirDraft,
+  buildComparisonPrompt, COMPARISON_SCHEMA, orderPerspectives,
+  buildPassageTafsirPrompt, PASSAGE_TAFSIR_SCHEMA, orderAyahNotes,
+  buildOverviewPrompt, OVERVIEW_SCHEMA,
+  buildMorphologyPrompt, MORPHOLOGY_SCHEMA,
+  buildFollowUpSystemPrompt, chatTurnText,
+} from './aiPrompts';
+import { MissingApiKeyError, InvalidAiResponseError, toRequestError } from './errors';
+import { withRetry, AI_TIMEOUT_MS } from './request';
+import { parseAiJson, generateWithRepair } from './aiResponse';
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+/**
+ * AI provider backed by the Google Gemini API.
+ */
+export const createGeminiProvider = (apiKey: string, model: string = DEFAULT_GEMINI_MODEL): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const requireKey = () => {
+    if (!apiKey) throw new MissingApiKeyError();
+  };
+
+  const requestJson = async <T>(contents: string, responseSchema: Schema, signal?: AbortSignal): Promise<T> => {
+    const response = await withRetry(abortSignal => ai.models.generateContent({
+      model,
+      contents,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema,
+        abortSignal,
+      },
+    }), { signal, timeoutMs: AI_TIMEOUT_MS });
+    return parseAiJson<T>(response.text);
+  };
+
+  // Checked against the schema at runtime, with one repair attempt if the response is malformed
+  const generateJson = <T>(contents: string, responseSchema: Schema, signal?: AbortSignal): Promise<T> =>
+    generateWithRepair<T>(contents, responseSchema, prompt => requestJson(prompt, responseSchema, signal));
+
+  return {
+    id: 'gemini',
+    model,
+
+    /**
+     * Uses Gemini to perform a semantic search.
+     * Converts natural language (Bangla/English) into a list of specific Surah:Ayah references.
+     */
+    async searchQuran(query, language, signal) {
+      requireKey();
+
+      try {
+        return await generateJson<SearchResult[]>(buildSearchPrompt(query, language), SEARCH_SCHEMA, signal);
+      } catch (error) {
+        if (!signal?.aborted) console.error("Gemini Search Error:", error);
+        throw toRequestError(error);
+      }
+    },
+
+    /**
+     * Generates a detailed Tafsir for a specific Ayah in the requested language.
+     */
+    async generateTafsir(ayahData, language) {
+      requireKey();
+
+      try {
+        return await generateJson<TafsirData>(buildTafsirPrompt(ayahData, language), TAFSIR_SCHEMA);
+      } catch (error) {
+        console.error("Gemini Tafsir Error:", error);
+        throw toRequestError(error);
+      }
+    },
+
+    /**
+     * Streaming variant of generateTafsir.
+     */
+    async streamTafsir(ayahData, language, onUpdate, signal) {
+      requireKey();
+
+      try {
+        const prompt = buildTafsirPrompt(ayahData, language);
+        const stream = await withRetry(abortSignal => ai.models.generateContentStream({
+          model,
+          contents: prompt,
+          config: {
+            responseMimeType: "application/json",
+            responseSchema: TAFSIR_SCHEMA,
+            abortSignal,
+          },
+        }), { signal, timeoutMs: AI_TIMEOUT_MS });
+
+        let buffer = '';
+        for await (const chunk of stream) {
+          signal?.throwIfAborted();
+          buffer += chunk.text || '';
+          onUpdate(readTafsirDraft(buffer));
+        }
+
+        const tafsir = await generateWithRepair<TafsirData>(
+          prompt, TAFSIR_SCHEMA,
+          repairPrompt => requestJson(repairPrompt, TAFSIR_SCHEMA, signal),
+          async () => parseAiJson(buffer)
+        );
+        onUpdate(tafsir);
+        return tafsir;
+      } catch (error) {
+        if (!signal?.aborted) console.error("Gemini Tafsir Stream Error:", error);
+        throw toRequestError(error);
+      }
+    },
+
+    /**
+     * Summarizes several classical tafsirs of an Ayah separately, with their agreements and differences.
+     */
+    async compareTafsir(ayahData, sourceIds, language, signal) {
+      requireKey();
+
+      try {
+        const comparison = await generateJson<TafsirComparison>(buildComparisonPrompt(ayahData, sourceIds, language), COMPARISON_SCHEMA, signal);
+        return orderPerspectives(comparison, sourceIds);
+      } catch (error) {
+        if (!signal?.aborted) console.error("Gemini Tafsir Comparison Error:", error);
+        throw toRequestError(error);
+      }
+    },
+
+    /**
+     * Explains a passage of consecutive Ayahs as a whole, with a note on each Ayah.
+     */
+    async generatePassageTafsir(ayahs, language, signal) {
+      requireKey();
+
+      try {
+        const tafsir = await generateJson<PassageTafsir>(buildPassageTafsirPrompt(ayahs, language), PASSAGE_TAFSIR_SCHEMA, signal);
+        return orderAyahNotes(tafsir, ayahs);
+      } catch (error) {
+        if (!signal?.aborted) console.error("Gemini Passage Tafsir Error:", error);
+        throw toRequestError(error);
+      }
+    },
+
+    /**
+     * Generates a comprehensive overview of a Surah.
+     */
+    async generateSurahOverview(surahName, surahNumber, language, signal) {
+      requireKey();
+
+      try {
+        return await generateJson<SurahOverviewData>(buildOverviewPrompt(surahName, surahNumber, language), OVERVIEW_SCHEMA, signal);
+      } catch (error) {
+         if (!signal?.aborted) console.error("Gemini Surah Overview Error:", error);
+         throw toRequestError(error);
+      }
+    },
+
+    /**
+     * Analyzes an ayah word by word: transliteration, meaning, root, lemma and part of speech.
+     */
+    async analyzeWords(ayahData, words, language, signal) {
+      requireKey();
+
+      try {
+        // Not validated here: MorphologyService keeps the well-formed entries of a partly malformed response
+        return await requestJson<WordAnalysis[]>(buildMorphologyPrompt(ayahData, words, language), MORPHOLOGY_SCHEMA, signal);
+      } catch (error) {
+        if (!signal?.aborted) console.error("Gemini Morphology Error:", error);
+        throw toRequestError(error);
+      }
+    },
+
+    /**
+     * Answers a follow-up question with a multi-turn chat, replaying the earlier turns as history.
+     */
+    async askFollowUp(ayahData, tafsir, messages, language, onUpdate, signal) {
+      requireKey();
+
+      try {
+        const question = messages[messages.length - 1];
+        const chat = ai.chats.create({
+          model,
+          history: messages.slice(0, -1).map(m => ({ role: m.role, parts: [{ text: chatTurnText(m) }] })),
+          config: { systemInstruction: buildFollowUpSystemPrompt(ayahData, tafsir, language) },
+        });
+        const stream = await withRetry(
+          abortSignal => chat.sendMessageStream({ message: chatTurnText(question), config: { abortSignal } }),
+          { signal, timeoutMs: AI_TIMEOUT_MS }
+        );
+
+        let answer = '';
+        for await (const chunk of stream) {
+          signal?.throwIfAborted();
+          answer += chunk.text || '';
+          onUpdate(answer);
+        }
+
+        if (!answer) throw new InvalidAiResponseError('The AI returned an empty response');
+        return answer;
+      } catch (error) {
+        if (!signal?.aborted) console.error("Gemini Follow-up Error:", error);
+        throw toRequestError(error);
+      }
+    },
+  };
+};
@@ -0,0 +1,93 @@
+import { AyahDisplayData, HifzCard, HifzGrade, HifzMaskStyle } from '../types';
+import { STORES, withStore, requestToPromise } from './db';
+import { ayahKey } from './studyDataService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Cards reviewed successfully at this interval or longer count as memorized
+export const MATURE_INTERVAL_DAYS = 21;
+
+export const MASK_LEVELS = 4; // Level n hides n/4 of the words
+
+const startOfDay = (time: number) => {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+/**
+ * SM-2: a lapse (grade < 3) restarts the card at one day; otherwise the interval
+ * grows 1 → 6 → interval × ease. Ease moves with each grade but never drops below 1.3.
+ */
+export const scheduleReview = (card: HifzCard | undefined, ayah: AyahDisplayData, grade: HifzGrade, now = Date.now()): HifzCard => {
+  const previous = card ?? {
+    repetitions: 0,
+    intervalDays: 0,
+    easeFactor: INITIAL_EASE,
+  };
+
+  const repetitions = grade < 3 ? 0 : previous.repetitions + 1;
+  const intervalDays = repetitions === 0 ? 1
+    : repetitions === 1 ? 1
+    : repetitions === 2 ? 6
+    : Math.round(previous.intervalDays * previous.easeFactor);
+  const easeFactor = Math.max(MIN_EASE, previous.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  return {
+    key: ayahKey(ayah.surahNumber, ayah.ayahNumber),
+    surahNumber: ayah.surahNumber,
+    ayahNumber: ayah.ayahNumber,
+    surahNameEnglish: ayah.surahNameEnglish,
+    repetitions,
+    intervalDays,
+    easeFactor,
+    dueAt: startOfDay(now) + intervalDays * DAY_MS,
+    lastGrade: grade,
+    lastReviewedAt: now,
+  };
+};
+
+export const isDue = (card: HifzCard, now = Date.now()) => card.dueAt <= startOfDay(now);
+
+export const isMemorized = (card: HifzCard) => card.intervalDays >= MATURE_INTERVAL_DAYS;
+
+/**
+ * Indexes of the words hidden at a mask level (0 = none, MASK_LEVELS = all). Each level hides a
+ * superset of the previous one. "lines" covers the ayah from its end, like sliding a hand up the page;
+ * "words" scatters the hidden words, varying the pattern between ayahs.
+ */
+export const maskedWordIndexes = (wordCount: number, style: HifzMaskStyle, level: number, seed: number): Set<number> => {
+  const hidden = new Set<number>();
+  if (level <= 0) return hidden;
+  if (style === 'lines') {
+    const visible = Math.floor(wordCount * (1 - level / MASK_LEVELS));
+    for (let i = visible; i < wordCount; i++) hidden.add(i);
+    return hidden;
+  }
+  for (let i = 0; i < wordCount; i++) {
+    if ((i * 3 + seed) % MASK_LEVELS < level) hidden.add(i);
+  }
+  return hidden;
+};
+
+/**
+ * Memorization cards stored in IndexedDB, one per ayah the user has started learning.
+ */
+export const HifzService = {
+  loadAll(): Promise<HifzCard[]> {
+    return withStore(STORES.hifzCards, 'readonly', store =>
+      requestToPromise(store.getAll() as IDBRequest<HifzCard[]>));
+  },
+
+  async grade(ayah: AyahDisplayData, grade: HifzGrade, existing?: HifzCard): Promise<HifzCard> {
+    const card = scheduleReview(existing, ayah, grade);
+    await withStore(STORES.hifzCards, 'readwrite', store => { store.put(card); });
+    return card;
+  },
+
+  remove(key: string): Promise<void> {
+    return withStore(STORES.hifzCards, 'readwrite', store => { store.delete(key); });
+  },
+};
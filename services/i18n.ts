@@ -0,0 +1,82 @@
+import { Language, Message, PluralMessage } from '../types';
+import { en, MessageKey, Messages } from '../locales/en';
+import { bn } from '../locales/bn';
+import { ur } from '../locales/ur';
+import { ar } from '../locales/ar';
+
+export interface LanguageInfo {
+  code: Language;
+  nativeName: string;
+  promptName: string; // How AI prompts name the language
+  locale: string; // Intl locale, including the numbering system to use
+  dir: 'ltr' | 'rtl';
+  fontClass: string; // Tailwind font family for UI text
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'bn', nativeName: 'বাংলা', promptName: 'Bengali (Bangla)', locale: 'bn-BD', dir: 'ltr', fontClass: 'font-bengali' },
+  { code: 'en', nativeName: 'English', promptName: 'English', locale: 'en-US', dir: 'ltr', fontClass: 'font-sans' },
+  { code: 'ur', nativeName: 'اردو', promptName: 'Urdu', locale: 'ur-PK-u-nu-arabext', dir: 'rtl', fontClass: 'font-urdu' },
+  { code: 'ar', nativeName: 'العربية', promptName: 'Arabic', locale: 'ar-EG', dir: 'rtl', fontClass: 'font-arabic-ui' },
+];
+
+const CATALOGS: Record<Language, Partial<Messages>> = { bn, en, ur, ar };
+
+export type { MessageKey };
+export type MessageParams = Record<string, string | number>;
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+export const languageInfo = (language: Language): LanguageInfo =>
+  LANGUAGES.find(l => l.code === language) ?? LANGUAGES[1];
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some(l => l.code === value);
+
+/**
+ * Formats a number in the language's own digits (Bengali ০-৯, Arabic-Indic ٠-٩, Urdu ۰-۹).
+ */
+export const formatNumber = (value: number, language: Language, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(languageInfo(language).locale, options).format(value);
+
+/**
+ * A 0-100 percentage, e.g. 42 → "42%" / "৪২%" / "٤٢٪".
+ */
+export const formatPercent = (percent: number, language: Language): string =>
+  formatNumber(percent / 100, language, { style: 'percent', maximumFractionDigits: 0 });
+
+export const formatDate = (time: number, language: Language, options?: Intl.DateTimeFormatOptions): string =>
+  new Date(time).toLocaleString(languageInfo(language).locale, options);
+
+/**
+ * An ayah reference such as 2:255, in the language's digits.
+ */
+export const formatAyahRef = (surahNumber: number, ayahNumber: number, language: Language): string =>
+  `${formatNumber(surahNumber, language)}:${formatNumber(ayahNumber, language)}`;
+
+const pluralRules = new Map<Language, Intl.PluralRules>();
+
+const pluralForm = (message: PluralMessage, count: number, language: Language): string => {
+  if (!pluralRules.has(language)) pluralRules.set(language, new Intl.PluralRules(languageInfo(language).locale));
+  const category = pluralRules.get(language)!.select(count);
+  return message[category] ?? message.other;
+};
+
+/**
+ * Looks up a message and fills its {placeholders}. Numbers are formatted for the language, and
+ * a `count` param picks the plural form. Keys missing from a catalog fall back to English.
+ */
+export const translate = (language: Language, key: MessageKey, params: MessageParams = {}): string => {
+  const message: Message = CATALOGS[language][key] ?? en[key];
+  const template = typeof message === 'string' ? message : pluralForm(message, Number(params.count ?? 0), language);
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value, language, { useGrouping: false }) : value;
+  });
+};
+
+/**
+ * Binds `translate` to a language: `const t = getTranslator(language); t('reader.readTafsir')`.
+ */
+export const getTranslator = (language: Language): Translator =>
+  (key, params) => translate(language, key, params);
@@ -0,0 +1,105 @@
+import { Surah, Edition, CorpusSurah, QuranCorpus, QuranDataProvider, AyahDisplayData } from '../types';
+import { DivisionService } from './divisionService';
+import { fetchJson } from './request';
+import { NotFoundError } from './errors';
+
+const DEFAULT_CORPUS_URL = '/data/quran-corpus.json';
+
+// The corpus is a few megabytes, so allow longer than an API call
+const CORPUS_TIMEOUT_MS = 60_000;
+
+// The corpus carries one Bengali and one English translation (see scripts/build-corpus.mjs)
+const CORPUS_EDITIONS: Edition[] = [
+  { identifier: 'bn.quran-json', language: 'bn', name: 'বাংলা (quran-json)', englishName: 'Bengali (quran-json)', format: 'text', type: 'translation', direction: 'ltr' },
+  { identifier: 'en.quran-json', language: 'en', name: 'English (quran-json)', englishName: 'English (quran-json)', format: 'text', type: 'translation', direction: 'ltr' },
+];
+
+export type CorpusLoader = () => Promise<QuranCorpus>;
+
+const fetchCorpus = (url: string): CorpusLoader => () => fetchJson<QuranCorpus>(url, { timeoutMs: CORPUS_TIMEOUT_MS });
+
+let bundledCorpus: Promise<QuranCorpus> | null = null;
+
+/**
+ * Loads the bundled corpus once per session. Shared by the local provider and the text search index.
+ */
+export const loadBundledCorpus: CorpusLoader = () => {
+  if (!bundledCorpus) {
+    bundledCorpus = fetchCorpus(DEFAULT_CORPUS_URL)().catch(error => {
+      bundledCorpus = null;
+      throw error;
+    });
+  }
+  return bundledCorpus;
+};
+
+// Both corpus translations are always included; they cost nothing extra to read.
+// The corpus has no division numbers, so they come from the built-in tables.
+const toDisplayData = (surah: CorpusSurah, ayahNumber: number): AyahDisplayData => {
+  const ayah = surah.ayahs[ayahNumber - 1];
+  return {
+    surahNumber: surah.number,
+    ayahNumber,
+    arabicText: ayah.ar,
+    translations: { 'bn.quran-json': ayah.bn, 'en.quran-json': ayah.en },
+    surahNameEnglish: surah.englishName,
+    surahNameArabic: surah.name,
+    ...DivisionService.locate(surah.number, ayahNumber),
+  };
+};
+
+/**
+ * Data provider that reads the bundled JSON corpus, so the reader works without network access.
+ * Pass a custom loader to supply the corpus directly (e.g. in tests).
+ */
+export const createLocalQuranProvider = (load: CorpusLoader = loadBundledCorpus): QuranDataProvider => {
+  // Load once and share the same promise between concurrent callers
+  let corpusPromise: Promise<QuranCorpus> | null = null;
+
+  const getCorpus = () => {
+    if (!corpusPromise) {
+      corpusPromise = load().catch(error => {
+        corpusPromise = null;
+        throw error;
+      });
+    }
+    return corpusPromise;
+  };
+
+  return {
+    source: 'local',
+
+    async getAllSurahs() {
+      const corpus = await getCorpus();
+      return corpus.surahs.map(({ ayahs, ...surah }): Surah => surah);
+    },
+
+    async getTranslationEditions() {
+      return CORPUS_EDITIONS;
+    },
+
+    async getAyah(surahNumber, ayahNumber) {
+      const corpus = await getCorpus();
+      const surah = corpus.surahs[surahNumber - 1];
+      if (!surah?.ayahs[ayahNumber - 1]) {
+        throw new NotFoundError(`Ayah ${surahNumber}:${ayahNumber} not found.`);
+      }
+      return toDisplayData(surah, ayahNumber);
+    },
+
+    async getSurahAyahs(surahNumber, fromAyah, count) {
+      const corpus = await getCorpus();
+      const surah = corpus.surahs[surahNumber - 1];
+      if (!surah) {
+        throw new NotFoundError(`Surah ${surahNumber} not found.`);
+      }
+
+      const last = Math.min(fromAyah + count - 1, surah.numberOfAyahs);
+      const ayahs: AyahDisplayData[] = [];
+      for (let n = Math.max(fromAyah, 1); n <= last; n++) {
+        ayahs.push(toDisplayData(surah, n));
+      }
+      return ayahs;
+    },
+  };
+};
@@ -0,0 +1,120 @@
+import { SearchResult, TafsirData, SurahOverviewData, WordAnalysis, Language } from '../types';
+
+// Canned responses for the mock AI provider. Keys are lower-case keywords (search),
+// `surah:ayah:language` (tafsir), `surah:language` (overview) and `surah:ayah` (morphology).
+// Fixtures are written in Bengali and English; other languages use the English text.
+
+export type FixtureLanguage = 'bn' | 'en';
+
+export const fixtureLanguage = (language: Language): FixtureLanguage => language === 'bn' ? 'bn' : 'en';
+
+interface SearchFixture {
+  keywords: string[];
+  results: Array<Omit<SearchResult, 'reasoning'> & { reasoning: Record<FixtureLanguage, string> }>;
+}
+
+export const SEARCH_FIXTURES: SearchFixture[] = [
+  {
+    keywords: ['patience', 'patient', 'sabr', 'ধৈর্য', 'সবর', 'صبر'],
+    results: [
+      { surahNumber: 2, ayahNumber: 153, confidenceScore: 95, reasoning: {
+        en: 'Calls believers to seek help through patience and prayer, and promises that Allah is with the patient.',
+        bn: 'মুমিনদের ধৈর্য ও সালাতের মাধ্যমে সাহায্য চাইতে বলা হয়েছে এবং আল্লাহ ধৈর্যশীলদের সাথে আছেন।',
+      } },
+      { surahNumber: 2, ayahNumber: 155, confidenceScore: 88, reasoning: {
+        en: 'Describes the trials of fear, hunger and loss, and gives glad tidings to those who are patient.',
+        bn: 'ভয়, ক্ষুধা ও ক্ষতির পরীক্ষার কথা বলে এবং ধৈর্যশীলদের সুসংবাদ দেয়।',
+      } },
+      { surahNumber: 103, ayahNumber: 3, confidenceScore: 82, reasoning: {
+        en: 'Names mutual counselling to patience as a mark of those who are not in loss.',
+        bn: 'পরস্পরকে ধৈর্যের উপদেশ দেওয়াকে ক্ষতি থেকে মুক্ত মানুষের বৈশিষ্ট্য হিসেবে উল্লেখ করে।',
+      } },
+    ],
+  },
+  {
+    keywords: ['mercy', 'merciful', 'forgive', 'forgiveness', 'রহমত', 'দয়া', 'ক্ষমা', 'رحمة'],
+    results: [
+      { surahNumber: 39, ayahNumber: 53, confidenceScore: 96, reasoning: {
+        en: 'Tells those who have wronged themselves never to despair of Allah\'s mercy, for He forgives all sins.',
+        bn: 'যারা নিজেদের উপর জুলুম করেছে তাদের আল্লাহর রহমত থেকে নিরাশ না হতে বলা হয়েছে।',
+      } },
+      { surahNumber: 7, ayahNumber: 156, confidenceScore: 87, reasoning: {
+        en: 'States that Allah\'s mercy encompasses all things.',
+        bn: 'আল্লাহর রহমত সবকিছুকে পরিবেষ্টন করে আছে বলে ঘোষণা করে।',
+      } },
+      { surahNumber: 21, ayahNumber: 107, confidenceScore: 80, reasoning: {
+        en: 'Describes the Prophet ﷺ as sent only as a mercy to the worlds.',
+        bn: 'নবী ﷺ-কে বিশ্বজগতের জন্য রহমত হিসেবে প্রেরণের কথা বলে।',
+      } },
+    ],
+  },
+  {
+    keywords: ['prayer', 'salah', 'salat', 'pray', 'সালাত', 'নামাজ', 'صلاة'],
+    results: [
+      { surahNumber: 29, ayahNumber: 45, confidenceScore: 93, reasoning: {
+        en: 'Commands establishing prayer and explains that it restrains from immorality and wrongdoing.',
+        bn: 'সালাত কায়েমের নির্দেশ দেয় এবং বলে যে সালাত অশ্লীল ও মন্দ কাজ থেকে বিরত রাখে।',
+      } },
+      { surahNumber: 2, ayahNumber: 45, confidenceScore: 86, reasoning: {
+        en: 'Links seeking help through patience and prayer, noting that prayer is hard except for the humble.',
+        bn: 'ধৈর্য ও সালাতের মাধ্যমে সাহায্য চাওয়ার কথা বলে; বিনয়ীদের ছাড়া সালাত কঠিন।',
+      } },
+      { surahNumber: 20, ayahNumber: 14, confidenceScore: 78, reasoning: {
+        en: 'Allah commands Musa to establish prayer for His remembrance.',
+        bn: 'আল্লাহ মূসা (আ.)-কে তাঁর স্মরণের জন্য সালাত কায়েম করতে বলেন।',
+      } },
+    ],
+  },
+];
+
+// Used when no keyword matches, so the mock always returns something navigable
+export const DEFAULT_SEARCH_FIXTURE: SearchFixture['results'] = [
+  { surahNumber: 1, ayahNumber: 1, confidenceScore: 50, reasoning: {
+    en: 'Mock provider: no fixture matched this query, showing the opening of the Quran.',
+    bn: 'মক প্রোভাইডার: এই অনুসন্ধানের জন্য কোনো নমুনা নেই, তাই কুরআনের সূচনা দেখানো হচ্ছে।',
+  } },
+];
+
+export const TAFSIR_FIXTURES: Record<string, TafsirData> = {
+  '1:1:en': {
+    ayahReference: 'Surah Al-Fatihah 1:1',
+    arabicSnippet: 'بِسْمِ اللَّهِ الرَّحْمَٰنِ',
+    tafsirText: '### Beginning with the Name of Allah\n\nThe Basmalah opens the Quran and every surah but one. Ibn Kathir notes that beginning an action with Allah\'s name seeks His blessing and help.\n\n**Ar-Rahman** and **Ar-Rahim** both derive from *rahmah* (mercy): the first describes mercy that embraces all creation, the second mercy specific to the believers.',
+    keyThemes: ['Basmalah', 'Divine Mercy', 'Seeking Blessing'],
+  },
+  '1:1:bn': {
+    ayahReference: 'সূরা আল-ফাতিহা ১:১',
+    arabicSnippet: 'بِسْمِ اللَّهِ الرَّحْمَٰنِ',
+    tafsirText: '### আল্লাহর নামে শুরু\n\nবিসমিল্লাহ দিয়ে কুরআন শুরু হয়েছে। ইবনে কাসীর বলেন, আল্লাহর নামে কাজ শুরু করা মানে তাঁর বরকত ও সাহায্য প্রার্থনা করা।\n\n**আর-রাহমান** ও **আর-রাহীম** উভয়ই *রহমত* থেকে এসেছে: প্রথমটি সমগ্র সৃষ্টির প্রতি দয়া, দ্বিতীয়টি মুমিনদের প্রতি বিশেষ দয়া।',
+    keyThemes: ['বিসমিল্লাহ', 'আল্লাহর রহমত', 'বরকত'],
+  },
+};
+
+export const OVERVIEW_FIXTURES: Record<string, SurahOverviewData> = {
+  '1:en': {
+    surahName: 'Al-Fatihah (The Opening)',
+    introduction: 'The Opening of the Book, recited in every unit of prayer. It combines praise of Allah, affirmation of His sovereignty and a supplication for guidance.',
+    historicalContext: 'A **Makki** surah and among the earliest complete surahs revealed.',
+    keyThemes: ['Praise of Allah', 'Worship and reliance', 'Guidance to the straight path'],
+    keyLessons: ['Begin every matter with Allah\'s name', 'Worship Allah alone and seek help only from Him', 'Ask daily for guidance'],
+  },
+  '1:bn': {
+    surahName: 'আল-ফাতিহা (সূচনা)',
+    introduction: 'কিতাবের সূচনা, যা প্রতি রাকাআত সালাতে পাঠ করা হয়। এতে আল্লাহর প্রশংসা, তাঁর সার্বভৌমত্বের স্বীকৃতি ও হিদায়াতের দোয়া রয়েছে।',
+    historicalContext: 'এটি একটি **মাক্কী** সূরা এবং প্রথম দিকে অবতীর্ণ পূর্ণাঙ্গ সূরাগুলোর একটি।',
+    keyThemes: ['আল্লাহর প্রশংসা', 'ইবাদত ও তাওয়াক্কুল', 'সরল পথের হিদায়াত'],
+    keyLessons: ['প্রতিটি কাজ আল্লাহর নামে শুরু করা', 'একমাত্র আল্লাহর ইবাদত করা ও তাঁরই সাহায্য চাওয়া', 'প্রতিদিন হিদায়াত প্রার্থনা করা'],
+  },
+};
+
+// The Arabic form of each word is taken from the displayed text, so only the analysis is stored here
+type MorphologyFixture = Array<Omit<WordAnalysis, 'arabic' | 'meaning'> & { meaning: Record<FixtureLanguage, string> }>;
+
+export const MORPHOLOGY_FIXTURES: Record<string, MorphologyFixture> = {
+  '1:1': [
+    { position: 1, transliteration: 'bis-mi', meaning: { en: 'In (the) name', bn: 'নামে' }, root: 'س م و', lemma: 'اسْم', partOfSpeech: 'noun' },
+    { position: 2, transliteration: 'l-lahi', meaning: { en: '(of) Allah', bn: 'আল্লাহর' }, root: 'ا ل ه', lemma: 'اللَّه', partOfSpeech: 'proper_noun' },
+    { position: 3, transliteration: 'l-raḥmāni', meaning: { en: 'the Most Gracious', bn: 'পরম করুণাময়' }, root: 'ر ح م', lemma: 'رَحْمٰن', partOfSpeech: 'adjective' },
+    { position: 4, transliteration: 'l-raḥīmi', meaning: { en: 'the Most Merciful', bn: 'অতি দয়ালু' }, root: 'ر ح م', lemma: 'رَحِيم', partOfSpeech: 'adjective' },
+  ],
+};
@@ -0,0 +1,165 @@
+import { TafsirData, TafsirComparison, PassageTafsir, SurahOverviewData, WordAnalysis, AyahDisplayData, Language, AiProvider } from '../types';
+import { SEARCH_FIXTURES, DEFAULT_SEARCH_FIXTURE, TAFSIR_FIXTURES, OVERVIEW_FIXTURES, MORPHOLOGY_FIXTURES, fixtureLanguage } from './mockAiFixtures';
+import { primaryTranslation } from './translationService';
+import { CLASSICAL_TAFSIRS } from './aiPrompts';
+
+export interface MockAiConfig {
+  latencyMs?: number; // Simulated response time
+  streamChunkSize?: number; // Characters of tafsirText (or of a follow-up answer) per streamed update
+}
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+// Deterministic stand-in for ayahs without a fixture, built only from the input
+const fallbackTafsir = (ayah: AyahDisplayData, language: Language): TafsirData => {
+  const translation = primaryTranslation(ayah, language);
+  return {
+    ayahReference: `${ayah.surahNameEnglish} ${ayah.surahNumber}:${ayah.ayahNumber}`,
+    arabicSnippet: ayah.arabicText.split(' ').slice(0, 4).join(' '),
+    tafsirText: language === 'bn'
+      ? `### নমুনা তাফসীর\n\n> ${translation}\n\nএটি মক প্রোভাইডারের তৈরি নমুনা লেখা, প্রকৃত তাফসীর নয়।`
+      : `### Sample Tafsir\n\n> ${translation}\n\nThis is placeholder text from the mock AI provider, not real tafsir.`,
+    keyThemes: language === 'bn' ? ['নমুনা', `সূরা ${ayah.surahNumber}`] : ['Sample', `Surah ${ayah.surahNumber}`],
+    // One recognised work and one unknown one, so both verification states show up
+    citations: [
+      { work: 'Tafsir Ibn Kathir', author: 'Ismail ibn Kathir' },
+      { work: 'Mock Commentary', author: 'Mock AI Provider', volume: '1', page: '1' },
+    ],
+    relatedAyahs: [
+      { surahNumber: 2, ayahNumber: 153, reason: language === 'bn' ? 'নমুনা সম্পর্ক' : 'Sample connection' },
+      { surahNumber: 3, ayahNumber: 200, reason: language === 'bn' ? 'নমুনা সম্পর্ক' : 'Sample connection' },
+    ],
+  };
+};
+
+const fallbackComparison = (ayah: AyahDisplayData, sourceIds: string[], language: Language): TafsirComparison => ({
+  ayahReference: `${ayah.surahNameEnglish} ${ayah.surahNumber}:${ayah.ayahNumber}`,
+  perspectives: sourceIds.map(id => {
+    const name = CLASSICAL_TAFSIRS.find(s => s.id === id)?.name ?? id;
+    return {
+      sourceId: id,
+      summary: language === 'bn' ? `**${name}** অনুযায়ী নমুনা ব্যাখ্যা।` : `Placeholder explanation attributed to **${name}**.`,
+    };
+  }),
+  commonGround: language === 'bn' ? 'নমুনা: সব উৎস মূল অর্থে একমত।' : 'Placeholder: the sources agree on the core meaning.',
+  differences: language === 'bn' ? 'নমুনা: খুঁটিনাটি ব্যাখ্যায় পার্থক্য রয়েছে।' : 'Placeholder: the sources differ on details of interpretation.',
+});
+
+const fallbackOverview = (surahName: string, surahNumber: number, language: Language): SurahOverviewData => ({
+  surahName: `${surahName} (${surahNumber})`,
+  introduction: language === 'bn' ? 'মক প্রোভাইডারের নমুনা ভূমিকা।' : 'Placeholder introduction from the mock AI provider.',
+  historicalContext: language === 'bn' ? 'নমুনা ঐতিহাসিক প্রেক্ষাপট।' : 'Placeholder historical context.',
+  keyThemes: language === 'bn' ? ['নমুনা বিষয়'] : ['Sample theme'],
+  keyLessons: language === 'bn' ? ['নমুনা শিক্ষা'] : ['Sample lesson'],
+});
+
+const fallbackPassage = (ayahs: AyahDisplayData[], language: Language): PassageTafsir => {
+  const first = ayahs[0];
+  const last = ayahs[ayahs.length - 1];
+  return {
+    passageReference: `${first.surahNameEnglish} ${first.surahNumber}:${first.ayahNumber}-${last.ayahNumber}`,
+    overview: language === 'bn'
+      ? `### নমুনা অনুচ্ছেদ তাফসীর\n\nএটি মক প্রোভাইডারের তৈরি ${ayahs.length}টি আয়াতের নমুনা লেখা, প্রকৃত তাফসীর নয়।`
+      : `### Sample Passage Tafsir\n\nThis is placeholder text for ${ayahs.length} ayahs from the mock AI provider, not real tafsir.`,
+    ayahNotes: ayahs.map(a => ({
+      ayahNumber: a.ayahNumber,
+      note: language === 'bn' ? `আয়াত ${a.ayahNumber}-এর নমুনা টীকা।` : `Sample note on ayah ${a.ayahNumber}.`,
+    })),
+    keyThemes: language === 'bn' ? ['নমুনা', `সূরা ${first.surahNumber}`] : ['Sample', `Surah ${first.surahNumber}`],
+  };
+};
+
+const fallbackWord = (word: string, position: number, language: Language): WordAnalysis => ({
+  position,
+  arabic: word,
+  transliteration: '-',
+  meaning: language === 'bn' ? `নমুনা অর্থ ${position}` : `Sample meaning ${position}`,
+  root: '',
+  lemma: word,
+  partOfSpeech: 'noun',
+});
+
+// Echoes the question and links a related ayah, so reference links can be exercised offline
+const fallbackAnswer = (ayah: AyahDisplayData, question: string, language: Language): string =>
+  language === 'bn'
+    ? `**নমুনা উত্তর** (${ayah.surahNumber}:${ayah.ayahNumber}): "${question}"\n\nআরও দেখুন 2:153 ও 3:200। এটি মক প্রোভাইডারের তৈরি লেখা।`
+    : `**Sample answer** about ${ayah.surahNumber}:${ayah.ayahNumber}: "${question}"\n\nSee also 2:153 and 3:200. This is placeholder text from the mock AI provider.`;
+
+/**
+ * Offline, deterministic AI provider backed by fixtures. Useful for development without an API key and for tests.
+ */
+export const createMockAiProvider = ({ latencyMs = 300, streamChunkSize = 24 }: MockAiConfig = {}): AiProvider => {
+  const getTafsir = (ayah: AyahDisplayData, language: Language) =>
+    TAFSIR_FIXTURES[`${ayah.surahNumber}:${ayah.ayahNumber}:${language}`] ?? fallbackTafsir(ayah, language);
+
+  return {
+    id: 'mock',
+    model: 'fixtures',
+
+    async searchQuran(query, language, signal) {
+      await wait(latencyMs, signal);
+      const q = query.toLowerCase();
+      const fixture = SEARCH_FIXTURES.find(f => f.keywords.some(k => q.includes(k)));
+      return (fixture?.results ?? DEFAULT_SEARCH_FIXTURE).map(r => ({ ...r, reasoning: r.reasoning[fixtureLanguage(language)] }));
+    },
+
+    async generateTafsir(ayahData, language) {
+      await wait(latencyMs);
+      return getTafsir(ayahData, language);
+    },
+
+    async streamTafsir(ayahData, language, onUpdate, signal) {
+      const tafsir = getTafsir(ayahData, language);
+      await wait(latencyMs, signal);
+      const header = { ayahReference: tafsir.ayahReference, arabicSnippet: tafsir.arabicSnippet };
+      for (let end = streamChunkSize; end < tafsir.tafsirText.length; end += streamChunkSize) {
+        onUpdate({ ...header, tafsirText: tafsir.tafsirText.slice(0, end) });
+        await wait(40, signal);
+      }
+      onUpdate(tafsir);
+      return tafsir;
+    },
+
+    async compareTafsir(ayahData, sourceIds, language, signal) {
+      await wait(latencyMs, signal);
+      return fallbackComparison(ayahData, sourceIds, language);
+    },
+
+    async generatePassageTafsir(ayahs, language, signal) {
+      await wait(latencyMs, signal);
+      return fallbackPassage(ayahs, language);
+    },
+
+    async generateSurahOverview(surahName, surahNumber, language, signal) {
+      await wait(latencyMs, signal);
+      return OVERVIEW_FIXTURES[`${surahNumber}:${language}`] ?? fallbackOverview(surahName, surahNumber, language);
+    },
+
+    async analyzeWords(ayahData, words, language, signal) {
+      await wait(latencyMs, signal);
+      const fixture = MORPHOLOGY_FIXTURES[`${ayahData.surahNumber}:${ayahData.ayahNumber}`];
+      return words.map((word, i) => {
+        const entry = fixture?.find(w => w.position === i + 1);
+        return entry ? { ...entry, arabic: word, meaning: entry.meaning[fixtureLanguage(language)] } : fallbackWord(word, i + 1, language);
+      });
+    },
+
+    async askFollowUp(ayahData, tafsir, messages, language, onUpdate, signal) {
+      const answer = fallbackAnswer(ayahData, messages[messages.length - 1].text, language);
+      await wait(latencyMs, signal);
+      for (let end = streamChunkSize; end < answer.length; end += streamChunkSize) {
+        onUpdate(answer.slice(0, end));
+        await wait(40, signal);
+      }
+      onUpdate(answer);
+      return answer;
+    },
+  };
+};
@@ -0,0 +1,92 @@
+import { AyahDisplayData, Language, WordAnalysis, MorphologyDataset } from '../types';
+import { AiService } from './aiService';
+import { AiCacheService } from './aiCacheService';
+import { PROMPT_VERSIONS, PARTS_OF_SPEECH } from './aiPrompts';
+
+export interface AyahToken {
+  text: string;
+  wordIndex: number | null; // null for tokens without letters, e.g. standalone waqf marks
+}
+
+export interface MorphologyResult {
+  words: WordAnalysis[];
+  source: 'dataset' | 'ai';
+  cachedAt: number | null;
+}
+
+const ARABIC_LETTER = /[\u0621-\u064A\u0671-\u06D3]/;
+
+/**
+ * Splits ayah text on whitespace, numbering only the tokens that are words.
+ */
+export const tokenizeAyah = (text: string): AyahToken[] => {
+  let index = 0;
+  return text.split(/\s+/).filter(Boolean).map(token => ({
+    text: token,
+    wordIndex: ARABIC_LETTER.test(token) ? index++ : null,
+  }));
+};
+
+export const ayahWords = (text: string): string[] =>
+  tokenizeAyah(text).filter(t => t.wordIndex !== null).map(t => t.text);
+
+const datasets = new Map<number, Promise<MorphologyDataset | null>>();
+
+// Per-surah files are optional; a missing file (or the dev server's HTML fallback) means "no dataset"
+const loadDataset = (surahNumber: number): Promise<MorphologyDataset | null> => {
+  if (!datasets.has(surahNumber)) {
+    datasets.set(surahNumber, fetch(`/data/morphology/${surahNumber}.json`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => (data?.version === 1 && data.ayahs ? data as MorphologyDataset : null))
+      .catch(() => null));
+  }
+  return datasets.get(surahNumber)!;
+};
+
+/**
+ * Keeps one well-formed entry per word position, in order.
+ */
+const sanitize = (raw: WordAnalysis[], wordCount: number): WordAnalysis[] => {
+  const byPosition = new Map<number, WordAnalysis>();
+  for (const w of Array.isArray(raw) ? raw : []) {
+    const position = Number(w?.position);
+    if (!Number.isInteger(position) || position < 1 || position > wordCount || byPosition.has(position)) continue;
+    byPosition.set(position, {
+      position,
+      arabic: String(w.arabic ?? ''),
+      transliteration: String(w.transliteration ?? ''),
+      meaning: String(w.meaning ?? ''),
+      root: String(w.root ?? '').trim(),
+      lemma: String(w.lemma ?? ''),
+      partOfSpeech: PARTS_OF_SPEECH.includes(w.partOfSpeech) ? w.partOfSpeech : 'particle',
+    });
+  }
+  return [...byPosition.values()].sort((a, b) => a.position - b.position);
+};
+
+export const MorphologyService = {
+  /**
+   * Word-by-word analysis of an ayah, from the bundled dataset when one covers it, otherwise from the AI (cached).
+   * Aborting `signal` cancels the AI request.
+   */
+  async getWords(ayah: AyahDisplayData, language: Language, refresh = false, signal?: AbortSignal): Promise<MorphologyResult> {
+    const words = ayahWords(ayah.arabicText);
+
+    const dataset = await loadDataset(ayah.surahNumber);
+    const entries = dataset?.ayahs[ayah.ayahNumber];
+    if (entries?.length) {
+      return {
+        words: entries.map(w => ({ ...w, meaning: w.meaning[language] ?? w.meaning.en ?? '' })),
+        source: 'dataset',
+        cachedAt: null,
+      };
+    }
+
+    const { data, cachedAt } = await AiCacheService.getOrGenerate(
+      { kind: 'morphology', surahNumber: ayah.surahNumber, ayahNumber: ayah.ayahNumber, language, model: await AiService.getModelKey(), promptVersion: PROMPT_VERSIONS.morphology },
+      async () => sanitize(await AiService.analyzeWords(ayah, words, language, signal), words.length),
+      refresh
+    );
+    return { words: data, source: 'ai', cachedAt };
+  },
+};
@@ -0,0 +1,105 @@
+import { AyahDisplayData, OfflineSurah, OfflineSurahSummary, QuranDataProvider } from '../types';
+import { STORES, withStore, requestToPromise } from './db';
+import { OfflineService } from './offlineService';
+import { OfflineError, NotFoundError, isAbortError } from './errors';
+
+const byteSize = (value: unknown): number => new Blob([JSON.stringify(value)]).size;
+
+const summarize = ({ ayahs, ...summary }: OfflineSurah): OfflineSurahSummary => summary;
+
+/**
+ * Surahs downloaded for offline reading: their Arabic text and the translations selected at the time,
+ * stored in IndexedDB.
+ */
+export const OfflineLibraryService = {
+  async get(surahNumber: number): Promise<OfflineSurah | null> {
+    try {
+      const saved = await withStore(STORES.offlineSurahs, 'readonly', store =>
+        requestToPromise(store.get(surahNumber) as IDBRequest<OfflineSurah | undefined>)
+      );
+      return saved ?? null;
+    } catch (error) {
+      console.error('Offline library read failed:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Lists downloaded surahs without their ayahs, in surah order.
+   */
+  async list(): Promise<OfflineSurahSummary[]> {
+    const saved = await withStore(STORES.offlineSurahs, 'readonly', store =>
+      requestToPromise(store.getAll() as IDBRequest<OfflineSurah[]>)
+    );
+    return saved.map(summarize);
+  },
+
+  /**
+   * Stores all ayahs of a surah, replacing an earlier download. See QuranService.downloadSurah.
+   */
+  async save(surahNumber: number, ayahs: AyahDisplayData[]): Promise<OfflineSurahSummary> {
+    const record: OfflineSurah = {
+      surahNumber,
+      ayahs,
+      editions: Object.keys(ayahs[0]?.translations ?? {}),
+      size: byteSize(ayahs),
+      downloadedAt: Date.now(),
+    };
+    await withStore(STORES.offlineSurahs, 'readwrite', store => { store.put(record); });
+    return summarize(record);
+  },
+
+  async remove(surahNumber: number): Promise<void> {
+    await withStore(STORES.offlineSurahs, 'readwrite', store => { store.delete(surahNumber); });
+  },
+
+  async clear(): Promise<void> {
+    await withStore(STORES.offlineSurahs, 'readwrite', store => { store.clear(); });
+  },
+};
+
+/**
+ * Wraps a network provider so that downloaded surahs are served from IndexedDB when the device is
+ * offline or the request fails. Surahs that were not downloaded still fail as before.
+ */
+export const withOfflineLibrary = (inner: QuranDataProvider): QuranDataProvider => {
+  const readOrFetch = async <T>(surahNumber: number, fetchRemote: () => Promise<T>, fromSaved: (saved: OfflineSurah) => T): Promise<T> => {
+    if (OfflineService.isOnline()) {
+      try {
+        return await fetchRemote();
+      } catch (error) {
+        if (isAbortError(error) || error instanceof NotFoundError) throw error;
+        const saved = await OfflineLibraryService.get(surahNumber);
+        if (saved) return fromSaved(saved);
+        throw error;
+      }
+    }
+    const saved = await OfflineLibraryService.get(surahNumber);
+    if (!saved) throw new OfflineError(`Surah ${surahNumber} has not been downloaded for offline reading`);
+    return fromSaved(saved);
+  };
+
+  return {
+    source: inner.source,
+
+    getAllSurahs: () => inner.getAllSurahs(),
+
+    getTranslationEditions: () => inner.getTranslationEditions(),
+
+    getAyah: (surahNumber, ayahNumber, editions, signal) => readOrFetch(
+      surahNumber,
+      () => inner.getAyah(surahNumber, ayahNumber, editions, signal),
+      saved => {
+        const ayah = saved.ayahs[ayahNumber - 1];
+        if (!ayah) throw new NotFoundError(`Ayah ${surahNumber}:${ayahNumber} not found.`);
+        return ayah;
+      }
+    ),
+
+    getSurahAyahs: (surahNumber, fromAyah, count, editions, signal) => readOrFetch(
+      surahNumber,
+      () => inner.getSurahAyahs(surahNumber, fromAyah, count, editions, signal),
+      saved => saved.ayahs.slice(fromAyah - 1, fromAyah - 1 + count)
+    ),
+  };
+};
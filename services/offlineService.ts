@@ -0,0 +1,52 @@
+import { OfflineError } from './errors';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Connection state and the service worker that keeps the app shell available offline.
+ */
+export const OfflineService = {
+  isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine;
+  },
+
+  /**
+   * Calls `listener` whenever the browser goes online or offline. Returns an unsubscribe function,
+   * so it can be passed straight to useSyncExternalStore.
+   */
+  subscribe(listener: () => void): () => void {
+    window.addEventListener('online', listener);
+    window.addEventListener('offline', listener);
+    return () => {
+      window.removeEventListener('online', listener);
+      window.removeEventListener('offline', listener);
+    };
+  },
+
+  /**
+   * Throws an OfflineError when there is no connection.
+   */
+  requireOnline() {
+    if (!OfflineService.isOnline()) throw new OfflineError();
+  },
+
+  /**
+   * Registers public/sw.js once the page has loaded, in production builds only: under the dev server it
+   * would cache Vite's modules, so any worker left from a production preview is removed instead.
+   * Browsers only allow service workers on HTTPS or localhost.
+   */
+  registerServiceWorker() {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+    if (!import.meta.env.PROD) {
+      navigator.serviceWorker.getRegistrations()
+        .then(registrations => Promise.all(registrations.map(r => r.unregister())))
+        .catch(error => console.warn('Service worker removal failed:', error));
+      return;
+    }
+    window.addEventListener('load', () => {
+      navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(error => {
+        console.warn('Service worker registration failed:', error);
+      });
+    });
+  },
+};
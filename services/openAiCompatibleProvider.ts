@@ -0,0 +1,228 @@
+import { Schema } from "@google/genai";
+import { SearchResult, TafsirData, TafsirComparison, PassageTafsir, SurahOverviewData, WordAnalysis, AiProvider } from '../types';
+import {
+  buildSearchPrompt, SEARCH_SCHEMA,
+  buildTafsirPrompt, TAFSIR_SCHEMA, readTafsirDraft,
+  buildComparisonPrompt, COMPARISON_SCHEMA, orderPerspectives,
+  buildPassageTafsirPrompt, PASSAGE_TAFSIR_SCHEMA, orderAyahNotes,
+  buildOverviewPrompt, OVERVIEW_SCHEMA,
+  buildMorphologyPrompt, MORPHOLOGY_SCHEMA,
+  buildFollowUpSystemPrompt, chatTurnText,
+} from './aiPrompts';
+import { InvalidAiResponseError, toRequestError } from './errors';
+import { fetchWithRetry, AI_TIMEOUT_MS } from './request';
+import { parseAiJson, generateWithRepair } from './aiResponse';
+
+// Ollama's OpenAI-compatible endpoint; any /v1/chat/completions server works
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+export interface OpenAiCompatibleConfig {
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string; // Optional: local servers usually do not need one
+}
+
+type JsonSchema = Record<string, unknown>;
+
+// The parts of the chat completions wire format read here
+interface ChatCompletion {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+}
+
+/**
+ * Converts a Gemini response schema (OpenAPI subset, upper-case types) into standard JSON Schema.
+ */
+export const toJsonSchema = (schema: Schema): JsonSchema => {
+  const result: JsonSchema = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    result.additionalProperties = false;
+  }
+  if (schema.required) result.required = schema.required;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.minimum !== undefined) result.minimum = schema.minimum;
+  if (schema.maximum !== undefined) result.maximum = schema.maximum;
+  return result;
+};
+
+// Structured outputs need an object at the top level, so arrays are wrapped in { items: [...] }
+const wrapForResponse = (schema: Schema): { schema: JsonSchema; unwrap: (value: unknown) => unknown } => {
+  const json = toJsonSchema(schema);
+  if (json.type !== 'array') return { schema: json, unwrap: v => v };
+  return {
+    schema: { type: 'object', properties: { items: json }, required: ['items'], additionalProperties: false },
+    unwrap: v => (Array.isArray(v) ? v : (v as { items?: unknown } | null)?.items),
+  };
+};
+
+const SYSTEM_PROMPT = 'You are a careful assistant. Reply with a single JSON value that matches the requested schema and nothing else.';
+
+/**
+ * AI provider for any OpenAI-compatible chat completions endpoint, e.g. Ollama, llama.cpp, LM Studio or vLLM.
+ */
+export const createOpenAiCompatibleProvider = ({
+  baseUrl = DEFAULT_OPENAI_BASE_URL,
+  model = DEFAULT_OPENAI_MODEL,
+  apiKey,
+}: OpenAiCompatibleConfig = {}): AiProvider => {
+  const endpoint = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+  const request = (body: Record<string, unknown>, signal?: AbortSignal) =>
+    fetchWithRetry(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, temperature: 0.3, ...body }),
+    }, { signal, timeoutMs: AI_TIMEOUT_MS });
+
+  const post = (prompt: string, schema: JsonSchema, name: string, stream: boolean, signal?: AbortSignal) =>
+    request({
+      stream,
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: prompt },
+      ],
+      response_format: { type: 'json_schema', json_schema: { name, schema } },
+    }, signal);
+
+  // Server-sent events: `data: {chunk}` lines, terminated by `data: [DONE]`
+  const readStream = async (response: Response, onText: (text: string) => void): Promise<string> => {
+    if (!response.body) throw new InvalidAiResponseError('The AI returned an empty response');
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let pending = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending += value;
+      const lines = pending.split('\n');
+      pending = lines.pop() || '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+        buffer += parseAiJson<ChatCompletionChunk>(data).choices?.[0]?.delta?.content || '';
+      }
+      onText(buffer);
+    }
+    if (!buffer) throw new InvalidAiResponseError('The AI returned an empty response');
+    return buffer;
+  };
+
+  const requestJson = async <T>(prompt: string, schema: Schema, name: string, signal?: AbortSignal): Promise<T> => {
+    const { schema: responseSchema, unwrap } = wrapForResponse(schema);
+    const response = await post(prompt, responseSchema, name, false, signal);
+    const json = parseAiJson<ChatCompletion>(await response.text());
+    return unwrap(parseAiJson(json.choices?.[0]?.message?.content)) as T;
+  };
+
+  // Checked against the schema at runtime, with one repair attempt if the response is malformed
+  const completeJson = <T>(prompt: string, schema: Schema, name: string, signal?: AbortSignal): Promise<T> =>
+    generateWithRepair<T>(prompt, schema, repairPrompt => requestJson(repairPrompt, schema, name, signal));
+
+  return {
+    id: 'openai',
+    model,
+
+    async searchQuran(query, language, signal) {
+      try {
+        return await completeJson<SearchResult[]>(buildSearchPrompt(query, language), SEARCH_SCHEMA, 'search_results', signal);
+      } catch (error) {
+        if (!signal?.aborted) console.error("AI Search Error:", error);
+        throw toRequestError(error);
+      }
+    },
+
+    async generateTafsir(ayahData, language) {
+      try {
+        return await completeJson<TafsirData>(buildTafsirPrompt(ayahData, language), TAFSIR_SCHEMA, 'tafsir');
+      } catch (error) {
+        console.error("AI Tafsir Error:", error);
+        throw toRequestError(error);
+      }
+    },
+
+    async streamTafsir(ayahData, language, onUpdate, signal) {
+      try {
+        const prompt = buildTafsirPrompt(ayahData, language);
+        const response = await post(prompt, toJsonSchema(TAFSIR_SCHEMA), 'tafsir', true, signal);
+        const buffer = await readStream(response, text => onUpdate(readTafsirDraft(text)));
+        const tafsir = await generateWithRepair<TafsirData>(
+          prompt, TAFSIR_SCHEMA,
+          repairPrompt => requestJson(repairPrompt, TAFSIR_SCHEMA, 'tafsir', signal),
+          async () => parseAiJson(buffer)
+        );
+        onUpdate(tafsir);
+        return tafsir;
+      } catch (error) {
+        if (!signal?.aborted) console.error("AI Tafsir Stream Error:", error);
+        throw toRequestError(error);
+      }
+    },
+
+    async compareTafsir(ayahData, sourceIds, language, signal) {
+      try {
+        const comparison = await completeJson<TafsirComparison>(buildComparisonPrompt(ayahData, sourceIds, language), COMPARISON_SCHEMA, 'tafsir_comparison', signal);
+        return orderPerspectives(comparison, sourceIds);
+      } catch (error) {
+        if (!signal?.aborted) console.error("AI Tafsir Comparison Error:", error);
+        throw toRequestError(error);
+      }
+    },
+
+    async generatePassageTafsir(ayahs, language, signal) {
+      try {
+        const tafsir = await completeJson<PassageTafsir>(buildPassageTafsirPrompt(ayahs, language), PASSAGE_TAFSIR_SCHEMA, 'passage_tafsir', signal);
+        return orderAyahNotes(tafsir, ayahs);
+      } catch (error) {
+        if (!signal?.aborted) console.error("AI Passage Tafsir Error:", error);
+        throw toRequestError(error);
+      }
+    },
+
+    async generateSurahOverview(surahName, surahNumber, language, signal) {
+      try {
+        return await completeJson<SurahOverviewData>(buildOverviewPrompt(surahName, surahNumber, language), OVERVIEW_SCHEMA, 'surah_overview', signal);
+      } catch (error) {
+        if (!signal?.aborted) console.error("AI Surah Overview Error:", error);
+        throw toRequestError(error);
+      }
+    },
+
+    async analyzeWords(ayahData, words, language, signal) {
+      try {
+        // Not validated here: MorphologyService keeps the well-formed entries of a partly malformed response
+        return await requestJson<WordAnalysis[]>(buildMorphologyPrompt(ayahData, words, language), MORPHOLOGY_SCHEMA, 'word_analysis', signal);
+      } catch (error) {
+        if (!signal?.aborted) console.error("AI Morphology Error:", error);
+        throw toRequestError(error);
+      }
+    },
+
+    async askFollowUp(ayahData, tafsir, messages, language, onUpdate, signal) {
+      try {
+        const response = await request({
+          stream: true,
+          messages: [
+            { role: 'system', content: buildFollowUpSystemPrompt(ayahData, tafsir, language) },
+            ...messages.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: chatTurnText(m) })),
+          ],
+        }, signal);
+        return await readStream(response, onUpdate);
+      } catch (error) {
+        if (!signal?.aborted) console.error("AI Follow-up Error:", error);
+        throw toRequestError(error);
+      }
+    },
+  };
+};
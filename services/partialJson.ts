@@ -0,0 +1,45 @@
+// Helpers for reading fields out of a JSON object that is still being streamed.
+
+export interface PartialString {
+  value: string;
+  complete: boolean; // The closing quote has arrived
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t',
+};
+
+/**
+ * Decodes the (possibly unfinished) string value of a top-level `key` in a JSON buffer.
+ * Returns null until the key and the opening quote of its value have arrived.
+ * An escape sequence cut off at the end of the buffer is held back until it completes.
+ */
+export const readPartialStringField = (buffer: string, key: string): PartialString | null => {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(buffer);
+  if (!match) return null;
+
+  let value = '';
+  let i = match.index + match[0].length;
+  while (i < buffer.length) {
+    const ch = buffer[i];
+    if (ch === '"') return { value, complete: true };
+    if (ch !== '\\') {
+      value += ch;
+      i++;
+      continue;
+    }
+
+    const next = buffer[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = buffer.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+    } else {
+      value += ESCAPES[next] ?? next;
+      i += 2;
+    }
+  }
+  return { value, complete: false };
+};
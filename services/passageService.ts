@@ -0,0 +1,29 @@
+import { AyahDisplayData, PassageRange, Surah } from '../types';
+import { QuranService } from './quranService';
+import { MAX_PASSAGE_AYAHS } from './aiPrompts';
+import { DivisionService } from './divisionService';
+
+export const PassageService = {
+  /**
+   * Puts the ends of a range in order, keeps it inside the surah and shortens it to MAX_PASSAGE_AYAHS.
+   */
+  clampRange(surah: Surah, fromAyah: number, toAyah: number): PassageRange {
+    const clamp = (n: number) => Math.min(Math.max(Math.round(n) || 1, 1), surah.numberOfAyahs);
+    const from = clamp(Math.min(fromAyah, toAyah));
+    const to = clamp(Math.max(fromAyah, toAyah));
+    return { surahNumber: surah.number, fromAyah: from, toAyah: Math.min(to, from + MAX_PASSAGE_AYAHS - 1) };
+  },
+
+  getAyahs(range: PassageRange): Promise<AyahDisplayData[]> {
+    return QuranService.getSurahAyahs(range.surahNumber, range.fromAyah, range.toAyah - range.fromAyah + 1);
+  },
+
+  /**
+   * The ruku an ayah belongs to, shortened to MAX_PASSAGE_AYAHS if it is longer.
+   */
+  findRuku(surah: Surah, ayahNumber: number): PassageRange {
+    const { ruku } = DivisionService.locate(surah.number, ayahNumber);
+    const range = DivisionService.rukuRange(ruku, surah.numberOfAyahs);
+    return PassageService.clampRange(surah, range.fromAyah, range.toAyah);
+  },
+};
@@ -0,0 +1,111 @@
+import { SearchResult, TafsirData, TafsirComparison, PassageTafsir, SurahOverviewData, WordAnalysis, AiProvider } from '../types';
+import { InvalidAiResponseError, errorFromBody, toRequestError } from './errors';
+import { withRetry, AI_TIMEOUT_MS } from './request';
+import { parseAiJson } from './aiResponse';
+
+export const DEFAULT_PROXY_URL = '/api';
+
+export interface ProxyConfig {
+  baseUrl?: string;
+  model?: string; // Cache key label until the server has reported its model (see AiService.getModelKey)
+}
+
+// One line of a streamed response: progress so far, then the result or an error
+interface StreamLine<T, U> {
+  update?: U;
+  result?: T;
+  error?: unknown;
+}
+
+/**
+ * AI provider that calls the app's own server (server/index.ts), which holds the API key and runs the
+ * configured provider. JSON endpoints answer with the result; streaming ones send newline-delimited JSON.
+ */
+export const createProxyAiProvider = ({ baseUrl = DEFAULT_PROXY_URL, model = 'default' }: ProxyConfig = {}): AiProvider => {
+  const root = baseUrl.replace(/\/$/, '');
+
+  const post = (path: string, body: unknown, signal?: AbortSignal) =>
+    withRetry(async abortSignal => {
+      const response = await fetch(`${root}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: abortSignal,
+      });
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw errorFromBody(response.status, errorBody, response.headers.get('Retry-After'));
+      }
+      return response;
+    }, { signal, timeoutMs: AI_TIMEOUT_MS });
+
+  const postJson = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+    const response = await post(path, body, signal);
+    return parseAiJson<T>(await response.text());
+  };
+
+  const postStream = async <T, U>(path: string, body: unknown, onUpdate: (update: U) => void, signal?: AbortSignal): Promise<T> => {
+    try {
+      const response = await post(path, body, signal);
+      if (!response.body) throw new InvalidAiResponseError('The AI returned an empty response');
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let pending = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += value;
+        const lines = pending.split('\n');
+        pending = lines.pop() || '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const message = parseAiJson<StreamLine<T, U>>(line);
+          if (message.error) throw errorFromBody(500, message);
+          if (message.result !== undefined) return message.result;
+          if (message.update !== undefined) onUpdate(message.update);
+        }
+      }
+      throw new InvalidAiResponseError('The AI response ended early');
+    } catch (error) {
+      throw toRequestError(error);
+    }
+  };
+
+  return {
+    id: 'proxy',
+    model,
+
+    searchQuran(query, language, signal) {
+      return postJson<SearchResult[]>('search', { query, language }, signal);
+    },
+
+    generateTafsir(ayah, language) {
+      return postStream<TafsirData, Partial<TafsirData>>('tafsir', { ayah, language }, () => {});
+    },
+
+    async streamTafsir(ayah, language, onUpdate, signal) {
+      const tafsir = await postStream<TafsirData, Partial<TafsirData>>('tafsir', { ayah, language }, onUpdate, signal);
+      onUpdate(tafsir);
+      return tafsir;
+    },
+
+    compareTafsir(ayah, sourceIds, language, signal) {
+      return postJson<TafsirComparison>('compare', { ayah, sourceIds, language }, signal);
+    },
+
+    generatePassageTafsir(ayahs, language, signal) {
+      return postJson<PassageTafsir>('passage', { ayahs, language }, signal);
+    },
+
+    generateSurahOverview(surahName, surahNumber, language, signal) {
+      return postJson<SurahOverviewData>('overview', { surahName, surahNumber, language }, signal);
+    },
+
+    analyzeWords(ayah, words, language, signal) {
+      return postJson<WordAnalysis[]>('words', { ayah, words, language }, signal);
+    },
+
+    askFollowUp(ayah, tafsir, messages, language, onUpdate, signal) {
+      return postStream<string, string>('chat', { ayah, tafsir, messages, language }, onUpdate, signal);
+    },
+  };
+};
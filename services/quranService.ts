@@ -1,60 +1,115 @@
-import { QuranApiResponse, Surah, SingleAyahResponse, AyahDisplayData } from '../types';
+import { Surah, Edition, AyahDisplayData, QuranDataProvider, QuranDataSource, OfflineSurahSummary } from '../types';
+import { createRemoteQuranProvider } from './remoteQuranProvider';
+import { createLocalQuranProvider } from './localQuranProvider';
+import { TranslationService } from './translationService';
+import { OfflineLibraryService, withOfflineLibrary } from './offlineLibraryService';
+import { OfflineService } from './offlineService';
 
-const BASE_URL = 'https://api.alquran.cloud/v1';
+const DATA_SOURCE_KEY = 'quranDataSource';
+
+// The bundled corpus is already offline; API requests fall back to surahs downloaded for offline reading
+const createProvider = (source: QuranDataSource): QuranDataProvider =>
+  source === 'local' ? createLocalQuranProvider() : withOfflineLibrary(createRemoteQuranProvider());
+
+/**
+ * Picks the data source at startup: a saved user choice wins, then the QURAN_DATA_SOURCE env setting.
+ */
+const resolveInitialSource = (): QuranDataSource => {
+  const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(DATA_SOURCE_KEY) : null;
+  if (saved === 'remote' || saved === 'local') return saved;
+  return process.env.QURAN_DATA_SOURCE === 'local' ? 'local' : 'remote';
+};
+
+let provider: QuranDataProvider = createProvider(resolveInitialSource());
+
+// Translation editions requested with every ayah; the app narrows these once the edition catalog loads
+const initialSelection = TranslationService.getSelection();
+let translationEditions: string[] = [...new Set([...initialSelection.bn, ...initialSelection.en])];
 
 export const QuranService = {
+  /**
+   * Returns which data source is currently serving Quran text.
+   */
+  getDataSource(): QuranDataSource {
+    return provider.source;
+  },
+
+  /**
+   * Switches between the Al-Quran Cloud API and the bundled offline corpus, and remembers the choice.
+   */
+  setDataSource(source: QuranDataSource) {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(DATA_SOURCE_KEY, source);
+    if (provider.source !== source) provider = createProvider(source);
+  },
+
+  /**
+   * Replaces the active provider, e.g. with a local provider over an in-memory corpus in tests.
+   */
+  useProvider(next: QuranDataProvider) {
+    provider = next;
+  },
+
+  /**
+   * Lists the translation editions the current data source offers.
+   */
+  getTranslationEditions(): Promise<Edition[]> {
+    return provider.getTranslationEditions();
+  },
+
+  /**
+   * Sets which translation editions are fetched alongside the Arabic text.
+   */
+  setTranslationEditions(editions: string[]) {
+    translationEditions = editions;
+  },
+
   /**
    * Fetches the list of all Surahs.
    */
-  async getAllSurahs(): Promise<Surah[]> {
-    try {
-      const response = await fetch(`${BASE_URL}/surah`);
-      if (!response.ok) throw new Error('Failed to fetch Surahs');
-      const json: QuranApiResponse<Surah[]> = await response.json();
-      return json.data;
-    } catch (error) {
-      console.error('Error fetching surahs:', error);
-      throw error;
-    }
+  getAllSurahs(): Promise<Surah[]> {
+    return provider.getAllSurahs();
   },
 
   /**
-   * Fetches a specific Ayah with Arabic, Bengali, and English translations.
+   * Fetches a specific Ayah with its Arabic text and the selected translations.
+   * Aborting `signal` cancels it, e.g. when the reader has already moved on to another ayah.
    */
-  async getAyah(surahNumber: number, ayahNumber: number): Promise<AyahDisplayData> {
-    // Requesting: Simple Quran (Arabic), Bengali Translation, English Translation (Sahih International)
-    const editions = 'quran-simple,bn.bengali,en.sahih';
-    const url = `${BASE_URL}/ayah/${surahNumber}:${ayahNumber}/editions/${editions}`;
-
-    try {
-      const response = await fetch(url);
-      if (!response.ok) {
-        if (response.status === 404) {
-           throw new Error(`Ayah ${surahNumber}:${ayahNumber} not found.`);
-        }
-        throw new Error('Failed to fetch Ayah data');
-      }
+  getAyah(surahNumber: number, ayahNumber: number, signal?: AbortSignal): Promise<AyahDisplayData> {
+    return provider.getAyah(surahNumber, ayahNumber, translationEditions, signal);
+  },
 
-      const json: QuranApiResponse<SingleAyahResponse> = await response.json();
-      const data = json.data;
-
-      // Identify editions by language
-      const arabicEntry = data.find(d => d.edition.language === 'ar') || data[0];
-      const bengaliEntry = data.find(d => d.edition.language === 'bn');
-      const englishEntry = data.find(d => d.edition.language === 'en');
-
-      return {
-        surahNumber: arabicEntry.surah.number,
-        ayahNumber: arabicEntry.numberInSurah,
-        arabicText: arabicEntry.text,
-        textBn: bengaliEntry?.text || 'অনুবাদ অনুপলব্ধ',
-        textEn: englishEntry?.text || 'Translation unavailable',
-        surahNameEnglish: arabicEntry.surah.englishName,
-        surahNameArabic: arabicEntry.surah.name,
-      };
-    } catch (error) {
-      console.error('Error fetching ayah:', error);
-      throw error;
+  /**
+   * Fetches a run of consecutive ayahs from one surah (a page-sized chunk, or the whole surah) in one request.
+   */
+  getSurahAyahs(surahNumber: number, fromAyah: number, count: number, signal?: AbortSignal): Promise<AyahDisplayData[]> {
+    return provider.getSurahAyahs(surahNumber, fromAyah, count, translationEditions, signal);
+  },
+
+  /**
+   * Fetches a whole surah with the selected translations and saves it for offline reading.
+   */
+  async downloadSurah(surah: Surah, signal?: AbortSignal): Promise<OfflineSurahSummary> {
+    OfflineService.requireOnline();
+    const ayahs = await provider.getSurahAyahs(surah.number, 1, surah.numberOfAyahs, translationEditions, signal);
+    return OfflineLibraryService.save(surah.number, ayahs);
+  },
+
+  /**
+   * Downloads every surah that is not saved yet, one at a time. Stops early when `signal` is aborted;
+   * surahs finished so far stay saved.
+   */
+  async downloadAll(surahs: Surah[], onProgress: (done: number, total: number) => void, signal?: AbortSignal): Promise<void> {
+    const saved = new Set((await OfflineLibraryService.list()).map(s => s.surahNumber));
+    const missing = surahs.filter(s => !saved.has(s.number));
+    onProgress(0, missing.length);
+    for (const [i, surah] of missing.entries()) {
+      try {
+        await QuranService.downloadSurah(surah, signal);
+      } catch (error) {
+        if (signal?.aborted) return;
+        throw error;
+      }
+      onProgress(i + 1, missing.length);
     }
   },
 
@@ -64,4 +119,4 @@ export const QuranService = {
   isValidAyah(surah: Surah, ayahNumber: number): boolean {
     return ayahNumber > 0 && ayahNumber <= surah.numberOfAyahs;
   }
-};
\ No newline at end of file
+};
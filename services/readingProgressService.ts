@@ -0,0 +1,90 @@
+import { AyahDisplayData, ReadingHistoryEntry, Surah, SurahProgress } from '../types';
+import { STORES, withStore, requestToPromise } from './db';
+import { ayahKey } from './studyDataService';
+
+// Oldest visits beyond this are dropped
+export const HISTORY_LIMIT = 100;
+
+export interface KhatmSummary {
+  readAyahs: number;
+  totalAyahs: number;
+  percent: number;
+}
+
+/**
+ * Percentage of a surah read in the current khatm, rounded down so 100% means every ayah.
+ */
+export const surahPercent = (surah: Surah, progress?: SurahProgress) =>
+  progress ? Math.floor((progress.readAyahs.length / surah.numberOfAyahs) * 100) : 0;
+
+export const summarizeKhatm = (surahs: Surah[], progress: Map<number, SurahProgress>): KhatmSummary => {
+  const totalAyahs = surahs.reduce((sum, s) => sum + s.numberOfAyahs, 0);
+  const readAyahs = surahs.reduce((sum, s) => sum + (progress.get(s.number)?.readAyahs.length ?? 0), 0);
+  return { readAyahs, totalAyahs, percent: totalAyahs ? Math.floor((readAyahs / totalAyahs) * 100) : 0 };
+};
+
+/**
+ * Reading history (most recently visited ayahs, the first being the resume position)
+ * and khatm progress (which ayahs of each surah have been read), stored in IndexedDB.
+ */
+export const ReadingProgressService = {
+  /**
+   * Records that an ayah was read. Returns the history entry and the surah's updated progress.
+   */
+  async recordVisit(ayah: AyahDisplayData): Promise<{ entry: ReadingHistoryEntry; progress: SurahProgress }> {
+    const now = Date.now();
+    const entry: ReadingHistoryEntry = {
+      key: ayahKey(ayah.surahNumber, ayah.ayahNumber),
+      surahNumber: ayah.surahNumber,
+      ayahNumber: ayah.ayahNumber,
+      surahNameEnglish: ayah.surahNameEnglish,
+      visitedAt: now,
+    };
+
+    await withStore(STORES.readingHistory, 'readwrite', async store => {
+      store.put(entry);
+      const keys = await requestToPromise(store.index('visitedAt').getAllKeys());
+      keys.slice(0, Math.max(0, keys.length - HISTORY_LIMIT)).forEach(key => store.delete(key));
+    });
+
+    const progress = await withStore(STORES.readingProgress, 'readwrite', async store => {
+      const existing = await requestToPromise(store.get(ayah.surahNumber) as IDBRequest<SurahProgress | undefined>);
+      const readAyahs = existing?.readAyahs ?? [];
+      if (readAyahs.includes(ayah.ayahNumber)) return existing!;
+      const updated: SurahProgress = {
+        surahNumber: ayah.surahNumber,
+        readAyahs: [...readAyahs, ayah.ayahNumber].sort((a, b) => a - b),
+        updatedAt: now,
+      };
+      store.put(updated);
+      return updated;
+    });
+
+    return { entry, progress };
+  },
+
+  /**
+   * Visited ayahs, most recent first.
+   */
+  async loadHistory(): Promise<ReadingHistoryEntry[]> {
+    const entries = await withStore(STORES.readingHistory, 'readonly', store =>
+      requestToPromise(store.index('visitedAt').getAll() as IDBRequest<ReadingHistoryEntry[]>));
+    return entries.reverse();
+  },
+
+  async loadProgress(): Promise<SurahProgress[]> {
+    return withStore(STORES.readingProgress, 'readonly', store =>
+      requestToPromise(store.getAll() as IDBRequest<SurahProgress[]>));
+  },
+
+  clearHistory(): Promise<void> {
+    return withStore(STORES.readingHistory, 'readwrite', store => { store.clear(); });
+  },
+
+  /**
+   * Starts a new khatm by forgetting which ayahs have been read. History is kept.
+   */
+  resetProgress(): Promise<void> {
+    return withStore(STORES.readingProgress, 'readwrite', store => { store.clear(); });
+  },
+};
@@ -0,0 +1,57 @@
+import { Reciter } from '../types';
+
+const RECITER_KEY = 'reciter';
+const SPEED_KEY = 'playbackSpeed';
+
+// Placeholders: {reciter}, {surah}, {ayah}, and zero-padded {surah3}, {ayah3}.
+// Point AUDIO_URL_TEMPLATE at e.g. "/audio/{reciter}/{surah3}{ayah3}.mp3" to serve mp3s from public/audio.
+export const DEFAULT_AUDIO_URL_TEMPLATE = 'https://everyayah.com/data/{reciter}/{surah3}{ayah3}.mp3';
+
+export const PLAYBACK_SPEEDS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// Folder names follow the everyayah.com layout
+export const RECITERS: Reciter[] = [
+  { id: 'Alafasy_128kbps', name: 'Mishary Rashid Alafasy' },
+  { id: 'Abdul_Basit_Murattal_192kbps', name: 'Abdul Basit (Murattal)' },
+  { id: 'Husary_128kbps', name: 'Mahmoud Khalil Al-Husary' },
+  { id: 'Minshawy_Murattal_128kbps', name: 'Mohamed Siddiq Al-Minshawi' },
+  { id: 'Abdurrahmaan_As-Sudais_192kbps', name: 'Abdurrahman As-Sudais' },
+  { id: 'Saood_ash-Shuraym_128kbps', name: 'Saud Ash-Shuraim' },
+];
+
+const template = process.env.AUDIO_URL_TEMPLATE || DEFAULT_AUDIO_URL_TEMPLATE;
+
+export const buildAudioUrl = (urlTemplate: string, reciterId: string, surahNumber: number, ayahNumber: number) =>
+  urlTemplate
+    .replace('{reciter}', reciterId)
+    .replace('{surah3}', String(surahNumber).padStart(3, '0'))
+    .replace('{ayah3}', String(ayahNumber).padStart(3, '0'))
+    .replace('{surah}', String(surahNumber))
+    .replace('{ayah}', String(ayahNumber));
+
+/**
+ * Per-ayah recitation audio URLs and the saved reciter and playback speed.
+ */
+export const RecitationService = {
+  getAudioUrl(reciterId: string, surahNumber: number, ayahNumber: number): string {
+    return buildAudioUrl(template, reciterId, surahNumber, ayahNumber);
+  },
+
+  getReciterId(): string {
+    const saved = localStorage.getItem(RECITER_KEY);
+    return RECITERS.some(r => r.id === saved) ? saved! : RECITERS[0].id;
+  },
+
+  setReciterId(id: string) {
+    localStorage.setItem(RECITER_KEY, id);
+  },
+
+  getSpeed(): number {
+    const saved = Number(localStorage.getItem(SPEED_KEY));
+    return PLAYBACK_SPEEDS.includes(saved) ? saved : 1;
+  },
+
+  setSpeed(speed: number) {
+    localStorage.setItem(SPEED_KEY, String(speed));
+  },
+};
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { QuranCorpus, Surah } from '../types';
+import { matchSurahNames, parseReference } from './referenceParser';
+
+const corpus = JSON.parse(readFileSync(new URL('../public/data/quran-corpus.json', import.meta.url), 'utf8')) as QuranCorpus;
+const surahs: Surah[] = corpus.surahs.map(({ ayahs: _ayahs, ...surah }) => surah);
+
+const parse = (input: string) => parseReference(input, surahs);
+
+describe('parseReference', () => {
+  it('reads numeric references and ranges', () => {
+    assert.deepEqual(parse('2:255'), { surahNumber: 2, ayahNumber: 255, toAyah: null });
+    assert.deepEqual(parse(' 18.1 - 10 '), { surahNumber: 18, ayahNumber: 1, toAyah: 10 });
+    assert.deepEqual(parse('18:10-10'), { surahNumber: 18, ayahNumber: 10, toAyah: null });
+  });
+
+  it('reads Bengali and Arabic-Indic digits', () => {
+    assert.deepEqual(parse('১৮:১-১০'), { surahNumber: 18, ayahNumber: 1, toAyah: 10 });
+    assert.deepEqual(parse('٢:٢٥٥'), { surahNumber: 2, ayahNumber: 255, toAyah: null });
+    assert.deepEqual(parse('۳۶:۱'), { surahNumber: 36, ayahNumber: 1, toAyah: null });
+  });
+
+  it('reads surah names in several spellings and scripts', () => {
+    assert.deepEqual(parse('Al-Baqarah 255'), { surahNumber: 2, ayahNumber: 255, toAyah: null });
+    assert.deepEqual(parse('Al-Imran 200'), { surahNumber: 3, ayahNumber: 200, toAyah: null });
+    assert.deepEqual(parse('Ali Imran 200'), { surahNumber: 3, ayahNumber: 200, toAyah: null });
+    assert.deepEqual(parse('Al-Kahf 1-10'), { surahNumber: 18, ayahNumber: 1, toAyah: 10 });
+    assert.deepEqual(parse('বাকারা ২৫৫'), { surahNumber: 2, ayahNumber: 255, toAyah: null });
+    assert.deepEqual(parse('الرحمن'), { surahNumber: 55, ayahNumber: null, toAyah: null });
+  });
+
+  it('opens a surah named in full without an ayah', () => {
+    assert.deepEqual(parse('Yusuf'), { surahNumber: 12, ayahNumber: null, toAyah: null });
+    assert.deepEqual(parse('Mumin'), { surahNumber: 40, ayahNumber: null, toAyah: null });
+  });
+
+  it('only accepts a meaning or the start of a name with an ayah number', () => {
+    assert.deepEqual(parse('Joseph 4'), { surahNumber: 12, ayahNumber: 4, toAyah: null });
+    for (const input of ['Joseph', 'Mary', 'Baq', 'the']) assert.equal(parse(input), null, input);
+  });
+
+  it('rejects ayahs and surahs that do not exist', () => {
+    for (const input of ['115:1', '0:1', '1:8', '2:0', '18:10-5', 'Al-Fatiha 8', '', '   ', 'patience']) {
+      assert.equal(parse(input), null, input);
+    }
+  });
+
+  it('checks only the surah number without the surah list', () => {
+    assert.deepEqual(parseReference('1:8', []), { surahNumber: 1, ayahNumber: 8, toAyah: null });
+    assert.equal(parseReference('115:1', []), null);
+  });
+});
+
+describe('matchSurahNames', () => {
+  it('puts exact matches before names that start with the text', () => {
+    const matches = matchSurahNames('Naba', surahs);
+    assert.equal(matches[0], 78);
+  });
+
+  it('matches common transliterations', () => {
+    const expected: Record<string, number> = { Kahaf: 18, Yaseen: 36, Rehman: 55, Tauba: 9, Kauthar: 108, Quraish: 106 };
+    for (const [name, surahNumber] of Object.entries(expected)) assert.equal(matchSurahNames(name, surahs)[0], surahNumber, name);
+  });
+});
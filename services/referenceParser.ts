@@ -0,0 +1,178 @@
+import { ParsedReference, Surah } from '../types';
+import { normalizeArabic, containsArabic } from './arabicNormalization';
+import { BENGALI_SURAH_NAMES } from './bengaliSurahNames';
+
+const TOTAL_SURAHS = 114;
+
+// Bengali, Arabic-Indic and Extended Arabic-Indic (Urdu) digits, each block starting at zero
+const DIGIT_ZEROS = [0x09E6, 0x0660, 0x06F0];
+const NON_LATIN_DIGIT = /[০-৯٠-٩۰-۹]/g;
+
+const toLatinDigits = (text: string) => text.replace(NON_LATIN_DIGIT, d => {
+  const code = d.charCodeAt(0);
+  const zero = DIGIT_ZEROS.find(z => code >= z && code <= z + 9)!;
+  return String(code - zero);
+});
+
+const BENGALI_LETTER = /[ঀ-৿]/;
+
+// Transliterations in common use that spelling normalization alone does not reach, by surah number
+const LATIN_SURAH_NAMES: Record<number, string> = {
+  3: 'Imran|Ale Imran',
+  5: 'Maeda',
+  9: "Bara'ah",
+  12: 'Yousef|Yusef',
+  17: 'Bani Israil',
+  18: 'Kahaf',
+  19: 'Mariam',
+  20: 'Toha',
+  21: 'Anbiya',
+  23: 'Mominun',
+  31: 'Lukman',
+  40: "Al-Mu'min|Momin",
+  41: 'Ha-Mim Sajdah',
+  45: 'Jasiyah',
+  48: 'Fatah',
+  51: 'Zariyat',
+  55: 'Rehman',
+  56: 'Waqiyah',
+  60: 'Mumtahinah',
+  62: 'Juma',
+  74: 'Muddassir',
+  76: 'Dahr',
+  93: 'Zuha',
+  94: 'Inshirah|Alam Nashrah',
+  96: 'Iqra',
+  99: 'Zilzal',
+  108: 'Kausar',
+  111: 'Lahab|Tabbat',
+};
+
+// Spelling differences that should not matter when matching a typed name
+const latinKey = (name: string) => name
+  .normalize('NFD')
+  .toLowerCase()
+  .replace(/[^a-z\s-]/g, '')
+  .trim()
+  .replace(/^(surah|surat|sura)[\s-]+/, '')
+  .replace(/^(al|an|ar|as|ash|at|ath|ad|adh|az|the)[\s-]+/, '')
+  .replace(/[\s-]/g, '')
+  .replace(/ee/g, 'i')
+  .replace(/oo|ou/g, 'u')
+  .replace(/au/g, 'aw')
+  .replace(/ai/g, 'ay')
+  .replace(/(.)\1+/g, '$1')
+  .replace(/h$/, '');
+
+// Typed names follow the modern spelling, which mostly leaves out the dagger alefs ("الرحمن")
+const arabicKey = (name: string) => normalizeArabic(name.replace(/\u0670/g, ''))
+  .replace(/ہ/g, 'ه') // Urdu heh goal
+  .replace(/^(سوره|سورت)\s+/, '')
+  .replace(/\s/g, '')
+  .replace(/^ال/, '');
+
+const BENGALI_SPELLINGS: Record<string, string> = {
+  'ী': 'ি', 'ূ': 'ু', 'ঈ': 'ই', 'ঊ': 'উ', 'ণ': 'ন', 'ষ': 'শ',
+};
+
+const bengaliKey = (name: string) => name
+  .normalize('NFC')
+  .trim()
+  .replace(/^(সূরা|সুরা)[\s-]+/, '')
+  .replace(/^(আল|আন|আত|আর|আস|আয|আদ|আশ)[\s-]+/, '')
+  .replace(/[ীূঈঊণষ]/g, ch => BENGALI_SPELLINGS[ch])
+  .replace(/্ব/g, '')
+  .replace(/[\s\-'’্‌‍]/g, '')
+  .replace(/(.)\1+/g, '$1');
+
+const keyFor = (name: string) => containsArabic(name) ? arabicKey(name)
+  : BENGALI_LETTER.test(name) ? bengaliKey(name)
+  : latinKey(name);
+
+interface NameEntry {
+  key: string;
+  surahNumber: number;
+  translated: boolean; // A meaning such as "Mary" or "The Cow", which is just as likely a search term
+}
+
+let indexedSurahs: Surah[] | null = null;
+let nameIndex: NameEntry[] = [];
+
+const splitNames = (names: string, surahNumber: number): Array<[string, number]> =>
+  names.split('|').map(name => [name, surahNumber]);
+
+// Built once per surah list: English, translated and Arabic names from the data source plus the Bengali
+// and transliteration tables
+const getNameIndex = (surahs: Surah[]): NameEntry[] => {
+  if (indexedSurahs === surahs) return nameIndex;
+  const names: Array<[string, number]> = [
+    ...BENGALI_SURAH_NAMES.flatMap((names, i) => splitNames(names, i + 1)),
+    ...Object.entries(LATIN_SURAH_NAMES).flatMap(([number, names]) => splitNames(names, Number(number))),
+    ...surahs.flatMap((surah): Array<[string, number]> => [[surah.englishName, surah.number], [surah.name, surah.number]]),
+  ];
+  const translations = surahs.map(surah => ({ key: keyFor(surah.englishNameTranslation), surahNumber: surah.number, translated: true }));
+  indexedSurahs = surahs;
+  nameIndex = [
+    ...names.map(([name, surahNumber]) => ({ key: keyFor(name), surahNumber, translated: false })),
+    ...translations,
+  ].filter(entry => entry.key);
+  return nameIndex;
+};
+
+const lookupNames = (text: string, surahs: Surah[], { prefixes, translations }: { prefixes: boolean; translations: boolean }): number[] => {
+  const key = keyFor(toLatinDigits(text));
+  if (key.length < 2) return [];
+  const index = getNameIndex(surahs).filter(e => translations || !e.translated);
+  const exact = index.filter(e => e.key === key).map(e => e.surahNumber);
+  const prefix = !prefixes || key.length < 3 ? [] : index.filter(e => e.key.startsWith(key)).map(e => e.surahNumber);
+  return [...new Set([...exact, ...prefix])];
+};
+
+/**
+ * Surahs whose name or its meaning matches the typed text: exact matches (ignoring spelling differences)
+ * first, then names that start with it. Works for English, Arabic and Bengali names. For suggestions only;
+ * parseReference decides what is specific enough to open.
+ */
+export const matchSurahNames = (text: string, surahs: Surah[]): number[] =>
+  lookupNames(text, surahs, { prefixes: true, translations: true });
+
+const NUMERIC_REFERENCE = /^(\d{1,3})\s*[:.]\s*(\d{1,3})(?:\s*[-–—]\s*(\d{1,3}))?$/;
+const NAMED_REFERENCE = /^(.*?\D)[\s:,.]*(\d{1,3})(?:\s*[-–—]\s*(\d{1,3}))?$/;
+
+/**
+ * Recognizes a verse reference: "2:255", "১৮:১-১০", "Al-Baqarah 255", "বাকারা ২৫৫", "Joseph 4", "Al-Kahf 1-10",
+ * or the full name of a surah on its own (ayahNumber null). A surah's meaning ("Mary") or the start of
+ * a name ("Baq") only counts when an ayah number follows. Returns null for anything else, including
+ * references to ayahs that do not exist. Ayah bounds are only checked when the surah list is available.
+ */
+export const parseReference = (input: string, surahs: Surah[]): ParsedReference | null => {
+  const text = toLatinDigits(input).trim();
+  if (!text) return null;
+
+  let surahNumber: number | null = null;
+  let from: string | undefined;
+  let to: string | undefined;
+
+  const numeric = text.match(NUMERIC_REFERENCE);
+  if (numeric) {
+    surahNumber = Number(numeric[1]);
+    [, , from, to] = numeric;
+  } else {
+    const named = text.match(NAMED_REFERENCE);
+    const [match] = named
+      ? lookupNames(named[1], surahs, { prefixes: true, translations: true })
+      : lookupNames(text, surahs, { prefixes: false, translations: false });
+    if (match === undefined) return null;
+    surahNumber = match;
+    if (named) [, , from, to] = named;
+  }
+
+  if (surahNumber < 1 || surahNumber > TOTAL_SURAHS) return null;
+  const ayahCount = surahs.find(s => s.number === surahNumber)?.numberOfAyahs ?? Infinity;
+  const ayahNumber = from ? Number(from) : null;
+  const toAyah = to ? Number(to) : null;
+  if (ayahNumber !== null && (ayahNumber < 1 || ayahNumber > ayahCount)) return null;
+  if (toAyah !== null && (ayahNumber === null || toAyah < ayahNumber || toAyah > ayahCount)) return null;
+
+  return { surahNumber, ayahNumber, toAyah: toAyah === ayahNumber ? null : toAyah };
+};
@@ -0,0 +1,81 @@
+import { QuranApiResponse, Surah, Edition, SingleAyahResponse, SurahEditionsResponse, QuranDataProvider } from '../types';
+import { FALLBACK_EDITIONS } from './translationService';
+import { fetchJson } from './request';
+
+const DEFAULT_BASE_URL = 'https://api.alquran.cloud/v1';
+
+// Simple Quran (Arabic) first, then the requested translations
+const ARABIC_EDITION = 'quran-simple';
+
+const editionList = (translations: string[]) => [ARABIC_EDITION, ...translations].join(',');
+
+/**
+ * Data provider backed by the Al-Quran Cloud REST API.
+ */
+export const createRemoteQuranProvider = (baseUrl: string = DEFAULT_BASE_URL): QuranDataProvider => ({
+  source: 'remote',
+
+  async getAllSurahs() {
+    const json = await fetchJson<QuranApiResponse<Surah[]>>(`${baseUrl}/surah`);
+    return json.data;
+  },
+
+  async getTranslationEditions() {
+    try {
+      const json = await fetchJson<QuranApiResponse<Edition[]>>(`${baseUrl}/edition?format=text`);
+      // Short verse-by-verse tafsirs (e.g. Al-Muyassar) read well alongside translations
+      return json.data.filter(e => e.type === 'translation' || e.type === 'tafsir');
+    } catch (error) {
+      console.warn('Using built-in translation list:', error);
+      return FALLBACK_EDITIONS;
+    }
+  },
+
+  async getAyah(surahNumber, ayahNumber, editions, signal) {
+    const url = `${baseUrl}/ayah/${surahNumber}:${ayahNumber}/editions/${editionList(editions)}`;
+    const { data } = await fetchJson<QuranApiResponse<SingleAyahResponse>>(url, { signal });
+
+    const arabicEntry = data.find(d => d.edition.identifier === ARABIC_EDITION) || data[0];
+    const translations: Record<string, string> = {};
+    for (const entry of data) {
+      if (entry !== arabicEntry) translations[entry.edition.identifier] = entry.text;
+    }
+
+    return {
+      surahNumber: arabicEntry.surah.number,
+      ayahNumber: arabicEntry.numberInSurah,
+      arabicText: arabicEntry.text,
+      translations,
+      surahNameEnglish: arabicEntry.surah.englishName,
+      surahNameArabic: arabicEntry.surah.name,
+      juz: arabicEntry.juz,
+      hizbQuarter: arabicEntry.hizbQuarter,
+      manzil: arabicEntry.manzil,
+      ruku: arabicEntry.ruku,
+      page: arabicEntry.page,
+    };
+  },
+
+  async getSurahAyahs(surahNumber, fromAyah, count, editions, signal) {
+    const url = `${baseUrl}/surah/${surahNumber}/editions/${editionList(editions)}?offset=${fromAyah - 1}&limit=${count}`;
+    const { data } = await fetchJson<QuranApiResponse<SurahEditionsResponse>>(url, { signal });
+
+    const arabicEdition = data.find(d => d.edition.identifier === ARABIC_EDITION) || data[0];
+    const translationEditions = data.filter(d => d !== arabicEdition);
+
+    // Every edition lists the same ayahs in the same order
+    return arabicEdition.ayahs.map((ayah, i) => ({
+      surahNumber: arabicEdition.number,
+      ayahNumber: ayah.numberInSurah,
+      arabicText: ayah.text,
+      translations: Object.fromEntries(translationEditions.map(d => [d.edition.identifier, d.ayahs[i]?.text ?? ''])),
+      surahNameEnglish: arabicEdition.englishName,
+      surahNameArabic: arabicEdition.name,
+      juz: ayah.juz,
+      hizbQuarter: ayah.hizbQuarter,
+      manzil: ayah.manzil,
+      ruku: ayah.ruku,
+      page: ayah.page,
+    }));
+  },
+});
@@ -0,0 +1,109 @@
+import { RequestError, RateLimitedError, errorForStatus, isAbortError, isRetryable, toRequestError } from './errors';
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRIES = 2;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8_000;
+
+// Model responses take far longer than data requests; for streams this covers the wait for the first chunk
+export const AI_TIMEOUT_MS = 60_000;
+
+export interface RequestOptions {
+  signal?: AbortSignal; // Aborting cancels the request and any retry still waiting
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Further attempts after a 429, 5xx, timeout or dropped connection
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential backoff with jitter, or the wait the server asked for
+const retryDelay = (attempt: number, error: unknown): number => {
+  if (error instanceof RateLimitedError && error.retryAfterMs !== null) return Math.min(error.retryAfterMs, MAX_DELAY_MS);
+  return Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS) * (0.5 + Math.random() / 2);
+};
+
+/**
+ * Runs one attempt with a signal aborted by the caller's signal or by the timeout. The timeout stops
+ * once `run` resolves, so a stream it opened can keep going; the caller's signal still cancels it.
+ * AbortSignal.any adds no listener of ours to the caller's signal, so retries do not pile them up on it.
+ */
+const runAttempt = async <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, parent?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  const signal = parent ? AbortSignal.any([parent, controller.signal]) : controller.signal;
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  try {
+    return await run(signal);
+  } catch (error) {
+    if (timedOut && !parent?.aborted) throw new RequestError('timeout', `No response within ${timeoutMs} ms`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Runs a request with a timeout per attempt, retrying with exponential backoff when it fails
+ * in a way that may pass (see isRetryable). Failures are rethrown as typed RequestErrors where
+ * possible; aborting `signal` rejects with the AbortError and never retries.
+ */
+export const withRetry = async <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES }: RequestOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await runAttempt(run, timeoutMs, signal);
+    } catch (raw) {
+      const error = toRequestError(raw);
+      if (signal?.aborted || isAbortError(error) || attempt >= retries || !isRetryable(error)) throw error;
+      await sleep(retryDelay(attempt, error), signal);
+    }
+  }
+};
+
+/**
+ * fetch through withRetry: resolves with a successful response, or rejects with a typed error
+ * for its status (404 NotFoundError, 429 RateLimitedError, and so on). The timeout covers
+ * waiting for the response headers, not reading the body.
+ */
+export const fetchWithRetry = (url: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<Response> =>
+  withRetry(async signal => {
+    const response = await fetch(url, { ...init, signal });
+    if (!response.ok) {
+      throw errorForStatus(response.status, `${init.method ?? 'GET'} ${url} responded with ${response.status}`, response.headers.get('Retry-After'));
+    }
+    return response;
+  }, options);
+
+/**
+ * GETs and parses JSON through withRetry; the timeout covers reading the body too.
+ */
+export const fetchJson = <T>(url: string, options: RequestOptions = {}): Promise<T> =>
+  withRetry(async signal => {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw errorForStatus(response.status, `GET ${url} responded with ${response.status}`, response.headers.get('Retry-After'));
+    }
+    try {
+      return await response.json() as T;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new RequestError('server', `GET ${url} returned invalid JSON`, response.status);
+    }
+  }, options);
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HOME_ROUTE, Route, formatRoute, linkAyahReferences, parseHash } from './router';
+
+describe('parseHash', () => {
+  it('opens the search view for an empty or unknown hash', () => {
+    for (const hash of ['', '#', '#/', '#/unknown/page', '#/0/1', '#/-2/5', '#/surah/abc']) {
+      assert.deepEqual(parseHash(hash), HOME_ROUTE, hash);
+    }
+  });
+
+  it('reads ayah links, with or without the tafsir panel', () => {
+    assert.deepEqual(parseHash('#/2/255'), { name: 'ayah', surahNumber: 2, ayahNumber: 255, panel: null });
+    assert.deepEqual(parseHash('#/2/255/tafsir'), { name: 'ayah', surahNumber: 2, ayahNumber: 255, panel: 'tafsir' });
+    assert.deepEqual(parseHash('#/2/255/notes'), { name: 'ayah', surahNumber: 2, ayahNumber: 255, panel: null });
+  });
+
+  it('starts a surah at its first ayah', () => {
+    assert.deepEqual(parseHash('#/18'), { name: 'ayah', surahNumber: 18, ayahNumber: 1, panel: null });
+    assert.deepEqual(parseHash('#/surah/18'), { name: 'ayah', surahNumber: 18, ayahNumber: 1, panel: null });
+    assert.deepEqual(parseHash('#/18/x'), { name: 'ayah', surahNumber: 18, ayahNumber: 1, panel: null });
+  });
+
+  it('reads overview links', () => {
+    assert.deepEqual(parseHash('#/surah/18/overview'), { name: 'overview', surahNumber: 18 });
+  });
+
+  it('reads search links and their mode', () => {
+    assert.deepEqual(parseHash('#/search?q=patience'), { name: 'search', query: 'patience', mode: 'ai' });
+    assert.deepEqual(parseHash('#/search?q=%D8%A7%D9%84%D8%B5%D8%A8%D8%B1&mode=text'), { name: 'search', query: 'الصبر', mode: 'text' });
+    assert.deepEqual(parseHash('#/search?mode=other'), { name: 'search', query: '', mode: 'ai' });
+  });
+});
+
+describe('formatRoute', () => {
+  it('writes each kind of route', () => {
+    assert.equal(formatRoute(HOME_ROUTE), '#/');
+    assert.equal(formatRoute({ name: 'ayah', surahNumber: 2, ayahNumber: 255, panel: 'tafsir' }), '#/2/255/tafsir');
+    assert.equal(formatRoute({ name: 'overview', surahNumber: 18 }), '#/surah/18/overview');
+    assert.equal(formatRoute({ name: 'search', query: 'mercy & grace', mode: 'text' }), '#/search?q=mercy+%26+grace&mode=text');
+  });
+
+  it('round-trips through parseHash', () => {
+    const routes: Route[] = [
+      HOME_ROUTE,
+      { name: 'search', query: 'الصبر "مع الصابرين"', mode: 'text' },
+      { name: 'search', query: 'patience?', mode: 'ai' },
+      { name: 'ayah', surahNumber: 114, ayahNumber: 6, panel: null },
+      { name: 'ayah', surahNumber: 1, ayahNumber: 1, panel: 'tafsir' },
+      { name: 'overview', surahNumber: 36 },
+    ];
+    for (const route of routes) assert.deepEqual(parseHash(formatRoute(route)), route);
+  });
+});
+
+describe('linkAyahReferences', () => {
+  it('links surah:ayah references', () => {
+    assert.equal(linkAyahReferences('See 3:200 and 2:153.'), 'See [3:200](#/3/200) and [2:153](#/2/153).');
+  });
+
+  it('leaves times, out-of-range surahs and existing links alone', () => {
+    for (const text of ['At 10:30:15', 'Surah 115:1', 'Ayah 2:0', '[3:200](#/3/200)', 'https://example.com/3:200']) {
+      assert.equal(linkAyahReferences(text), text);
+    }
+  });
+});
@@ -0,0 +1,77 @@
+// Hash routes, so links work on any static host:
+//   #/                          search view
+//   #/search?q=...&mode=text    search view with a query (mode defaults to AI search)
+//   #/2/255                     reader at an ayah
+//   #/2/255/tafsir              reader with the tafsir of that ayah open
+//   #/surah/18/overview         reader with the surah overview open
+
+export type SearchRouteMode = 'ai' | 'text';
+
+export type Route =
+  | { name: 'search'; query: string; mode: SearchRouteMode }
+  | { name: 'ayah'; surahNumber: number; ayahNumber: number; panel: 'tafsir' | null }
+  | { name: 'overview'; surahNumber: number };
+
+export const HOME_ROUTE: Route = { name: 'search', query: '', mode: 'ai' };
+
+const toPositiveInt = (value: string | undefined): number | null => {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const n = parseInt(value, 10);
+  return n > 0 ? n : null;
+};
+
+/**
+ * Parses a location hash. Unknown or malformed hashes fall back to the search view.
+ * Surah and ayah numbers are not range-checked here; the data layer rejects invalid ones.
+ */
+export const parseHash = (hash: string): Route => {
+  const [path, queryString = ''] = hash.replace(/^#\/?/, '').split('?');
+  const segments = path.split('/').filter(Boolean);
+
+  if (segments[0] === 'search') {
+    const params = new URLSearchParams(queryString);
+    return { name: 'search', query: params.get('q') ?? '', mode: params.get('mode') === 'text' ? 'text' : 'ai' };
+  }
+
+  if (segments[0] === 'surah') {
+    const surahNumber = toPositiveInt(segments[1]);
+    if (surahNumber && segments[2] === 'overview') return { name: 'overview', surahNumber };
+    if (surahNumber) return { name: 'ayah', surahNumber, ayahNumber: 1, panel: null };
+    return HOME_ROUTE;
+  }
+
+  const surahNumber = toPositiveInt(segments[0]);
+  if (surahNumber) {
+    const ayahNumber = toPositiveInt(segments[1]) ?? 1;
+    return { name: 'ayah', surahNumber, ayahNumber, panel: segments[2] === 'tafsir' ? 'tafsir' : null };
+  }
+
+  return HOME_ROUTE;
+};
+
+export const formatRoute = (route: Route): string => {
+  switch (route.name) {
+    case 'search': {
+      if (!route.query) return '#/';
+      const params = new URLSearchParams({ q: route.query });
+      if (route.mode === 'text') params.set('mode', 'text');
+      return `#/search?${params.toString()}`;
+    }
+    case 'ayah':
+      return `#/${route.surahNumber}/${route.ayahNumber}${route.panel ? `/${route.panel}` : ''}`;
+    case 'overview':
+      return `#/surah/${route.surahNumber}/overview`;
+  }
+};
+
+/**
+ * Turns plain surah:ayah references in Markdown (e.g. "3:200") into links to that ayah.
+ * References already inside a link, and surah numbers outside 1-114, are left alone.
+ */
+export const linkAyahReferences = (markdown: string): string =>
+  markdown.replace(/(?<![\w:/[#.])(\d{1,3}):(\d{1,3})(?![\d:\]])/g, (match, surah: string, ayah: string) => {
+    const surahNumber = Number(surah);
+    const ayahNumber = Number(ayah);
+    if (surahNumber < 1 || surahNumber > 114 || ayahNumber < 1) return match;
+    return `[${match}](${formatRoute({ name: 'ayah', surahNumber, ayahNumber, panel: null })})`;
+  });
@@ -0,0 +1,67 @@
+import { SearchResult, VerifiedSearchResult, Surah } from '../types';
+import { QuranService } from './quranService';
+
+const TOTAL_SURAHS = 114;
+
+const toInteger = (value: unknown): number | null => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? Math.round(num) : null;
+};
+
+export const SearchResultService = {
+  /**
+   * Repairs what can be repaired (numeric strings, fractional numbers, out-of-range confidence),
+   * drops references that cannot exist, and merges duplicates keeping the most confident one.
+   * Ayah bounds are only checked when the surah list is available.
+   */
+  normalize(results: SearchResult[], surahs: Surah[]): SearchResult[] {
+    const byReference = new Map<string, SearchResult>();
+
+    for (const raw of results) {
+      const surahNumber = toInteger(raw.surahNumber);
+      const ayahNumber = toInteger(raw.ayahNumber);
+      if (surahNumber === null || ayahNumber === null) continue;
+      if (surahNumber < 1 || surahNumber > TOTAL_SURAHS || ayahNumber < 1) continue;
+
+      const surah = surahs.find(s => s.number === surahNumber);
+      if (surah && !QuranService.isValidAyah(surah, ayahNumber)) continue;
+
+      const result: SearchResult = {
+        surahNumber,
+        ayahNumber,
+        reasoning: typeof raw.reasoning === 'string' ? raw.reasoning : '',
+        confidenceScore: Math.min(100, Math.max(0, toInteger(raw.confidenceScore) ?? 0)),
+      };
+
+      const key = `${surahNumber}:${ayahNumber}`;
+      const existing = byReference.get(key);
+      if (!existing || existing.confidenceScore < result.confidenceScore) {
+        byReference.set(key, result);
+      }
+    }
+
+    return [...byReference.values()].sort((a, b) => b.confidenceScore - a.confidenceScore);
+  },
+
+  /**
+   * Normalizes AI search results and attaches the real ayah text to each one.
+   * Results whose text could not be fetched are kept but marked as unverified.
+   */
+  async validateAndEnrich(results: SearchResult[], surahs: Surah[]): Promise<VerifiedSearchResult[]> {
+    const normalized = SearchResultService.normalize(results, surahs);
+
+    const lookups = await Promise.allSettled(
+      normalized.map(r => QuranService.getAyah(r.surahNumber, r.ayahNumber))
+    );
+
+    return normalized.map((result, i) => {
+      const lookup = lookups[i];
+      if (lookup.status === 'rejected') {
+        return { ...result, verified: false };
+      }
+      const ayah = lookup.value;
+      const matches = ayah.surahNumber === result.surahNumber && ayah.ayahNumber === result.ayahNumber;
+      return { ...result, verified: matches, ayah };
+    });
+  }
+};
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseStudyData } from './studyDataService';
+
+const file = (contents: Record<string, unknown>) => ({ format: 'nur-al-quran-study-data', version: 1, ...contents });
+
+const bookmark = { key: '2:255', surahNumber: 2, ayahNumber: 255, surahNameEnglish: 'Al-Baqara', folderId: 'f1', color: 'gold', createdAt: 1 };
+const note = { key: '1:1', surahNumber: 1, ayahNumber: 1, markdown: '**Bismillah**', createdAt: 1, updatedAt: 2 };
+const folder = { id: 'f1', name: 'Duas', color: 'sky', createdAt: 1 };
+
+describe('parseStudyData', () => {
+  it('reads a well-formed export', () => {
+    assert.deepEqual(parseStudyData(file({ folders: [folder], bookmarks: [bookmark], notes: [note] })), {
+      folders: [folder],
+      bookmarks: [bookmark],
+      notes: [note],
+    });
+  });
+
+  it('rejects files of another format or a newer version', () => {
+    assert.throws(() => parseStudyData(null), /Not a Nur Al-Quran study data file/);
+    assert.throws(() => parseStudyData({ format: 'something-else', version: 1 }), /Not a Nur Al-Quran study data file/);
+    assert.throws(() => parseStudyData(file({ version: 2 })), /Unsupported study data version: 2/);
+    assert.throws(() => parseStudyData(file({ version: '1' })), /Unsupported study data version/);
+  });
+
+  it('treats missing or non-array lists as empty', () => {
+    assert.deepEqual(parseStudyData(file({ bookmarks: 'none' })), { folders: [], bookmarks: [], notes: [] });
+  });
+
+  it('drops entries with a bad ayah reference', () => {
+    const { bookmarks } = parseStudyData(file({
+      bookmarks: [
+        { ...bookmark, surahNumber: 115, key: '115:1' },
+        { ...bookmark, ayahNumber: 0, key: '2:0' },
+        { ...bookmark, ayahNumber: 1.5, key: '2:1.5' },
+        { ...bookmark, key: '2:256' }, // Does not match its surah and ayah numbers
+        bookmark,
+      ],
+    }));
+    assert.deepEqual(bookmarks, [bookmark]);
+  });
+
+  it('drops entries with missing or mistyped fields', () => {
+    const { folders, notes } = parseStudyData(file({
+      folders: [{ ...folder, name: 7 }, { ...folder, createdAt: -1 }, 'f1'],
+      notes: [{ ...note, markdown: null }, { ...note, updatedAt: Number.NaN }],
+    }));
+    assert.deepEqual(folders, []);
+    assert.deepEqual(notes, []);
+  });
+
+  it('defaults unknown colors and folders and drops unknown fields', () => {
+    const { bookmarks } = parseStudyData(file({ bookmarks: [{ ...bookmark, color: 'neon', folderId: 3, extra: '<script>' }] }));
+    assert.deepEqual(bookmarks, [{ ...bookmark, color: 'emerald', folderId: null }]);
+  });
+});
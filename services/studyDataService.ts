@@ -0,0 +1,200 @@
+import { Bookmark, BookmarkColor, BookmarkFolder, AyahNote, AyahDisplayData, StudyDataExport } from '../types';
+import { STORES, StoreName, withStore, requestToPromise } from './db';
+
+const EXPORT_FORMAT = 'nur-al-quran-study-data';
+const EXPORT_VERSION = 1;
+
+export const BOOKMARK_COLORS: BookmarkColor[] = ['emerald', 'gold', 'sky', 'rose', 'violet', 'slate'];
+
+export const ayahKey = (surahNumber: number, ayahNumber: number) => `${surahNumber}:${ayahNumber}`;
+
+const getAll = <T>(store: StoreName) =>
+  withStore(store, 'readonly', s => requestToPromise(s.getAll() as IDBRequest<T[]>));
+
+const put = <T>(store: StoreName, value: T) =>
+  withStore(store, 'readwrite', s => { s.put(value); });
+
+const remove = (store: StoreName, key: string) =>
+  withStore(store, 'readwrite', s => { s.delete(key); });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isTimestamp = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isPositiveInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 1;
+
+const readColor = (value: unknown): BookmarkColor =>
+  BOOKMARK_COLORS.includes(value as BookmarkColor) ? value as BookmarkColor : 'emerald';
+
+// Imported files are untrusted: each stored field is checked and unknown fields are dropped
+type AyahReference = Pick<Bookmark, 'key' | 'surahNumber' | 'ayahNumber'>;
+
+const readReference = (value: Record<string, unknown>): AyahReference | null => {
+  const { key, surahNumber, ayahNumber } = value;
+  if (!isPositiveInteger(surahNumber) || surahNumber > 114 || !isPositiveInteger(ayahNumber)) return null;
+  if (key !== ayahKey(surahNumber, ayahNumber)) return null;
+  return { key, surahNumber, ayahNumber };
+};
+
+const readFolder = (value: unknown): BookmarkFolder | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || !isTimestamp(value.createdAt)) return null;
+  return { id: value.id, name: value.name, color: readColor(value.color), createdAt: value.createdAt };
+};
+
+const readBookmark = (value: unknown): Bookmark | null => {
+  if (!isRecord(value) || typeof value.surahNameEnglish !== 'string' || !isTimestamp(value.createdAt)) return null;
+  const reference = readReference(value);
+  if (!reference) return null;
+  return {
+    ...reference,
+    surahNameEnglish: value.surahNameEnglish,
+    folderId: typeof value.folderId === 'string' ? value.folderId : null,
+    color: readColor(value.color),
+    createdAt: value.createdAt,
+  };
+};
+
+const readNote = (value: unknown): AyahNote | null => {
+  if (!isRecord(value) || typeof value.markdown !== 'string' || !isTimestamp(value.createdAt) || !isTimestamp(value.updatedAt)) return null;
+  const reference = readReference(value);
+  if (!reference) return null;
+  return { ...reference, markdown: value.markdown, createdAt: value.createdAt, updatedAt: value.updatedAt };
+};
+
+const readList = <T>(value: unknown, read: (item: unknown) => T | null): T[] =>
+  (Array.isArray(value) ? value : []).map(read).filter((item): item is T => item !== null);
+
+/**
+ * Reads an exported file, keeping the folders, bookmarks and notes that are well formed.
+ * Throws when it is not a study data file or was written by a newer version.
+ */
+export const parseStudyData = (raw: unknown): { folders: BookmarkFolder[]; bookmarks: Bookmark[]; notes: AyahNote[] } => {
+  if (!isRecord(raw) || raw.format !== EXPORT_FORMAT) {
+    throw new Error('Not a Nur Al-Quran study data file.');
+  }
+  if (typeof raw.version !== 'number' || raw.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported study data version: ${raw.version}`);
+  }
+  return {
+    folders: readList(raw.folders, readFolder),
+    bookmarks: readList(raw.bookmarks, readBookmark),
+    notes: readList(raw.notes, readNote),
+  };
+};
+
+export interface ImportSummary {
+  folders: number;
+  bookmarks: number;
+  notes: number;
+}
+
+/**
+ * Local storage (IndexedDB) for bookmarks, bookmark folders and per-ayah markdown notes.
+ */
+export const StudyDataService = {
+  async loadAll(): Promise<{ folders: BookmarkFolder[]; bookmarks: Bookmark[]; notes: AyahNote[] }> {
+    const [folders, bookmarks, notes] = await Promise.all([
+      getAll<BookmarkFolder>(STORES.bookmarkFolders),
+      getAll<Bookmark>(STORES.bookmarks),
+      getAll<AyahNote>(STORES.notes),
+    ]);
+    return {
+      folders: folders.sort((a, b) => a.createdAt - b.createdAt),
+      bookmarks: bookmarks.sort((a, b) => a.surahNumber - b.surahNumber || a.ayahNumber - b.ayahNumber),
+      notes: notes.sort((a, b) => b.updatedAt - a.updatedAt),
+    };
+  },
+
+  async saveBookmark(ayah: AyahDisplayData, options: { folderId: string | null; color: BookmarkColor }, existing?: Bookmark): Promise<Bookmark> {
+    const bookmark: Bookmark = {
+      key: ayahKey(ayah.surahNumber, ayah.ayahNumber),
+      surahNumber: ayah.surahNumber,
+      ayahNumber: ayah.ayahNumber,
+      surahNameEnglish: ayah.surahNameEnglish,
+      folderId: options.folderId,
+      color: options.color,
+      createdAt: existing?.createdAt ?? Date.now(),
+    };
+    await put(STORES.bookmarks, bookmark);
+    return bookmark;
+  },
+
+  removeBookmark(key: string): Promise<void> {
+    return remove(STORES.bookmarks, key);
+  },
+
+  async createFolder(name: string, color: BookmarkColor): Promise<BookmarkFolder> {
+    const folder: BookmarkFolder = { id: crypto.randomUUID(), name: name.trim(), color, createdAt: Date.now() };
+    await put(STORES.bookmarkFolders, folder);
+    return folder;
+  },
+
+  /**
+   * Deletes a folder; its bookmarks are kept and moved out of the folder.
+   */
+  async removeFolder(id: string): Promise<void> {
+    const bookmarks = await getAll<Bookmark>(STORES.bookmarks);
+    await withStore(STORES.bookmarks, 'readwrite', store => {
+      bookmarks.filter(b => b.folderId === id).forEach(b => store.put({ ...b, folderId: null }));
+    });
+    await remove(STORES.bookmarkFolders, id);
+  },
+
+  /**
+   * Saves the note for an ayah; an empty note deletes it.
+   */
+  async saveNote(surahNumber: number, ayahNumber: number, markdown: string, existing?: AyahNote): Promise<AyahNote | null> {
+    const key = ayahKey(surahNumber, ayahNumber);
+    if (!markdown.trim()) {
+      await remove(STORES.notes, key);
+      return null;
+    }
+    const now = Date.now();
+    const note: AyahNote = { key, surahNumber, ayahNumber, markdown, createdAt: existing?.createdAt ?? now, updatedAt: now };
+    await put(STORES.notes, note);
+    return note;
+  },
+
+  async exportData(): Promise<StudyDataExport> {
+    const { folders, bookmarks, notes } = await StudyDataService.loadAll();
+    return {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      folders,
+      bookmarks,
+      notes,
+    };
+  },
+
+  /**
+   * Merges an exported file into local data. Bookmarks and folders are upserted;
+   * for notes that exist on both sides the more recently updated one wins.
+   */
+  async importData(raw: unknown): Promise<ImportSummary> {
+    const { folders, bookmarks, notes } = parseStudyData(raw);
+    const folderIds = new Set(folders.map(f => f.id));
+
+    const existingNotes = new Map((await getAll<AyahNote>(STORES.notes)).map(n => [n.key, n]));
+    const existingFolderIds = new Set((await getAll<BookmarkFolder>(STORES.bookmarkFolders)).map(f => f.id));
+
+    await withStore(STORES.bookmarkFolders, 'readwrite', store => {
+      folders.forEach(f => store.put(f));
+    });
+    await withStore(STORES.bookmarks, 'readwrite', store => {
+      bookmarks.forEach(b => store.put({
+        ...b,
+        folderId: b.folderId && (folderIds.has(b.folderId) || existingFolderIds.has(b.folderId)) ? b.folderId : null,
+      }));
+    });
+    const newerNotes = notes.filter(n => (existingNotes.get(n.key)?.updatedAt ?? 0) < n.updatedAt);
+    await withStore(STORES.notes, 'readwrite', store => {
+      newerNotes.forEach(n => store.put(n));
+    });
+
+    return { folders: folders.length, bookmarks: bookmarks.length, notes: newerNotes.length };
+  },
+};
@@ -0,0 +1,29 @@
+import { ChatMessage, TafsirChatThread } from '../types';
+import { STORES, withStore, requestToPromise } from './db';
+import { ayahKey } from './studyDataService';
+
+/**
+ * Follow-up conversations about an ayah's tafsir, stored in IndexedDB so they survive reloads.
+ */
+export const TafsirChatService = {
+  async getMessages(surahNumber: number, ayahNumber: number): Promise<ChatMessage[]> {
+    const thread = await withStore(STORES.tafsirChats, 'readonly', store =>
+      requestToPromise(store.get(ayahKey(surahNumber, ayahNumber)) as IDBRequest<TafsirChatThread | undefined>));
+    return thread?.messages ?? [];
+  },
+
+  saveMessages(surahNumber: number, ayahNumber: number, messages: ChatMessage[]): Promise<void> {
+    const thread: TafsirChatThread = {
+      key: ayahKey(surahNumber, ayahNumber),
+      surahNumber,
+      ayahNumber,
+      messages,
+      updatedAt: Date.now(),
+    };
+    return withStore(STORES.tafsirChats, 'readwrite', store => { store.put(thread); });
+  },
+
+  clear(surahNumber: number, ayahNumber: number): Promise<void> {
+    return withStore(STORES.tafsirChats, 'readwrite', store => { store.delete(ayahKey(surahNumber, ayahNumber)); });
+  },
+};
@@ -0,0 +1,101 @@
+import { RelatedAyah, TafsirCitation, CheckedCitation, VerifiedRelatedAyah } from '../types';
+import { QuranService } from './quranService';
+import { CLASSICAL_TAFSIRS } from './aiPrompts';
+
+const TOTAL_SURAHS = 114;
+const MAX_RELATED_AYAHS = 5;
+
+// Works a tafsir commonly cites, each with the spellings the AI tends to use
+const REFERENCE_WORKS: string[][] = [
+  ...CLASSICAL_TAFSIRS.map(s => [s.name, s.id.replace(/-/g, ' ')]),
+  ['Tafsir al-Tabari', "Jami' al-Bayan"],
+  ['Tafsir al-Qurtubi'],
+  ["Tafsir al-Sa'di", 'Tafsir as-Saadi'],
+  ['Tafsir al-Baghawi', "Ma'alim al-Tanzil"],
+  ['Tafsir al-Razi', 'Mafatih al-Ghayb', 'Al-Tafsir al-Kabir'],
+  ['Tafsir al-Zamakhshari', 'Al-Kashshaf'],
+  ['Tafsir al-Baydawi', "Anwar al-Tanzil"],
+  ['Tafsir al-Muyassar'],
+  ['Tafhim al-Quran', 'Tafheem ul Quran'],
+  ['Fi Zilal al-Quran', 'In the Shade of the Quran'],
+  ['Tafsir Ibn Abbas', 'Tanwir al-Miqbas'],
+  ['Al-Durr al-Manthur'],
+  ['Adwa al-Bayan'],
+  ['Sahih al-Bukhari'],
+  ['Sahih Muslim'],
+  ['Sunan Abi Dawud', 'Sunan Abu Dawud'],
+  ["Jami' at-Tirmidhi", 'Sunan al-Tirmidhi'],
+  ["Sunan an-Nasa'i"],
+  ['Sunan Ibn Majah'],
+  ['Muwatta Malik'],
+  ['Musnad Ahmad'],
+  ['Riyad as-Salihin'],
+];
+
+// Lowercase ASCII letters only, without the words that vary between spellings of the same title
+const simplify = (title: string) => title
+  .normalize('NFD')
+  .toLowerCase()
+  .replace(/[^a-z\s-]/g, '')
+  .split(/[\s-]+/)
+  .filter(word => word && !['al', 'ul', 'as', 'an', 'at', 'ibn', 'tafsir', 'tafseer', 'the', 'of'].includes(word))
+  .join(' ');
+
+const KNOWN_TITLES = REFERENCE_WORKS.flat().map(simplify).filter(Boolean);
+
+const toInteger = (value: unknown): number | null => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? Math.round(num) : null;
+};
+
+// Whole titles only: a title that merely contains a known one ("Kathir's lost volume") is not that work
+const isKnownWork = (citation: TafsirCitation) => {
+  const title = simplify(citation.work);
+  return !!title && KNOWN_TITLES.includes(title);
+};
+
+export const TafsirReferenceService = {
+  /**
+   * Marks each citation whose title is one of the recognised tafsir or hadith collections as a known work.
+   * That says nothing about the volume and page, which are shown as given; there is no source to check them against.
+   */
+  checkCitations(citations: TafsirCitation[] = []): CheckedCitation[] {
+    return citations
+      .filter(c => typeof c.work === 'string' && c.work.trim())
+      .map(c => ({
+        work: c.work.trim(),
+        author: typeof c.author === 'string' ? c.author.trim() : '',
+        volume: c.volume?.trim() || undefined,
+        page: c.page?.trim() || undefined,
+        knownWork: isKnownWork(c),
+      }));
+  },
+
+  /**
+   * Drops impossible and duplicate cross-references (and the ayah itself), then fetches
+   * the real text of the rest. References that cannot be fetched are kept but marked unverified.
+   */
+  async verifyRelatedAyahs(related: RelatedAyah[] = [], surahNumber: number, ayahNumber: number): Promise<VerifiedRelatedAyah[]> {
+    const seen = new Set([`${surahNumber}:${ayahNumber}`]);
+    const normalized: RelatedAyah[] = [];
+    for (const raw of related) {
+      const s = toInteger(raw.surahNumber);
+      const a = toInteger(raw.ayahNumber);
+      if (s === null || a === null || s < 1 || s > TOTAL_SURAHS || a < 1) continue;
+      if (seen.has(`${s}:${a}`)) continue;
+      seen.add(`${s}:${a}`);
+      normalized.push({ surahNumber: s, ayahNumber: a, reason: typeof raw.reason === 'string' ? raw.reason : '' });
+    }
+
+    const kept = normalized.slice(0, MAX_RELATED_AYAHS);
+    const lookups = await Promise.allSettled(kept.map(r => QuranService.getAyah(r.surahNumber, r.ayahNumber)));
+
+    return kept.map((ref, i) => {
+      const lookup = lookups[i];
+      if (lookup.status === 'rejected') return { ...ref, verified: false };
+      const ayah = lookup.value;
+      const matches = ayah.surahNumber === ref.surahNumber && ayah.ayahNumber === ref.ayahNumber;
+      return { ...ref, verified: matches, ayah };
+    });
+  },
+};
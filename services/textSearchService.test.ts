@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { QuranCorpus } from '../types';
+import { buildTextIndex, parseTextQuery, searchTextIndex } from './textSearchService';
+
+const corpus = JSON.parse(readFileSync(new URL('../public/data/quran-corpus.json', import.meta.url), 'utf8')) as QuranCorpus;
+const index = buildTextIndex(corpus);
+
+const refs = (query: string, limit?: number) =>
+  searchTextIndex(index, query, limit).results.map(r => `${r.surahNumber}:${r.ayahNumber}`);
+
+describe('parseTextQuery', () => {
+  it('ANDs plain words', () => {
+    assert.deepEqual(parseTextQuery('patience prayer'), {
+      required: [[{ kind: 'word', value: 'patience' }], [{ kind: 'word', value: 'prayer' }]],
+      excluded: [],
+    });
+  });
+
+  it('reads phrases, prefixes, OR and exclusions', () => {
+    assert.deepEqual(parseTextQuery('"Lord of the worlds" merc* OR grace -fire NOT hell'), {
+      required: [
+        [{ kind: 'phrase', values: ['lord', 'of', 'the', 'worlds'] }],
+        [{ kind: 'prefix', value: 'merc' }, { kind: 'word', value: 'grace' }],
+      ],
+      excluded: [{ kind: 'word', value: 'fire' }, { kind: 'word', value: 'hell' }],
+    });
+  });
+
+  it('normalizes Arabic terms', () => {
+    assert.deepEqual(parseTextQuery('مَٰلِكِ'), { required: [[{ kind: 'word', value: 'مالك' }]], excluded: [] });
+  });
+
+  it('ignores a leading OR and empty quotes', () => {
+    assert.deepEqual(parseTextQuery('OR "" mercy'), { required: [[{ kind: 'word', value: 'mercy' }]], excluded: [] });
+  });
+});
+
+describe('searchTextIndex', () => {
+  it('matches unvocalized Arabic against the Uthmani text', () => {
+    assert.deepEqual(refs('مالك يوم الدين'), ['1:4']);
+  });
+
+  it('finds words behind attached prefixes', () => {
+    assert.deepEqual(refs('الصبر'), ['2:45', '2:153', '90:17', '103:3']);
+  });
+
+  it('matches exact phrases', () => {
+    assert.deepEqual(refs('"مع الصابرين"'), ['2:153', '2:249', '8:46', '8:66']);
+    assert.deepEqual(refs('"আল্লাহ ধৈর্য্যশীলদের"'), ['2:153']);
+  });
+
+  it('drops ayahs with an excluded word', () => {
+    assert.deepEqual(refs('الصبر -استعينوا'), ['90:17', '103:3']);
+  });
+
+  it('highlights the matched words', () => {
+    const [result] = searchTextIndex(index, '"Lord of the worlds"').results;
+    const match = result.matches.find(m => m.field === 'en')!;
+    const [start, end] = match.highlights[0];
+    assert.equal(match.text.slice(start, end).toLowerCase(), 'lord of the worlds');
+  });
+
+  it('counts every matching ayah past the limit', () => {
+    const { results, total } = searchTextIndex(index, 'Allah', 10);
+    assert.equal(results.length, 10);
+    assert.ok(total > 10);
+  });
+
+  it('returns nothing for a query without terms', () => {
+    assert.deepEqual(searchTextIndex(index, '   '), { results: [], total: 0 });
+  });
+});
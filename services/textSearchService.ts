@@ -0,0 +1,256 @@
+import { QuranCorpus, TextSearchField, TextSearchResult, TextSearchResponse, TextSearchMatch } from '../types';
+import { loadBundledCorpus } from './localQuranProvider';
+import { normalizeToken, arabicWordForms, containsArabic } from './arabicNormalization';
+
+// Letters (including Bengali/Arabic combining marks) and digits form words
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+
+const MAX_RESULTS = 200;
+const FIELDS: TextSearchField[] = ['ar', 'bn', 'en'];
+
+interface Token {
+  value: string; // Normalized form
+  forms: string[]; // Every normalized form the token is indexed under, value included
+  start: number; // Offsets into the original text
+  end: number;
+}
+
+interface IndexedDocument {
+  surahNumber: number;
+  ayahNumber: number;
+  surahNameEnglish: string;
+  surahNameArabic: string;
+  field: TextSearchField;
+  text: string;
+  tokens: Token[];
+}
+
+export interface TextSearchIndex {
+  documents: IndexedDocument[];
+  postings: Map<string, number[]>; // Normalized token -> document ids (ascending)
+}
+
+type Term =
+  | { kind: 'word'; value: string }
+  | { kind: 'prefix'; value: string }
+  | { kind: 'phrase'; values: string[] };
+
+export interface ParsedQuery {
+  required: Term[][]; // Every group must match; terms inside a group are OR'ed
+  excluded: Term[];
+}
+
+const tokenize = (text: string): Token[] =>
+  [...text.matchAll(WORD_PATTERN)]
+    .map(m => {
+      const value = normalizeToken(m[0]);
+      const forms = containsArabic(m[0]) ? arabicWordForms(m[0]) : [value];
+      return { value, forms, start: m.index!, end: m.index! + m[0].length };
+    })
+    .filter(t => t.value.length > 0);
+
+/**
+ * Builds an inverted index over the Arabic, Bengali and English text of every ayah.
+ */
+export const buildTextIndex = (corpus: QuranCorpus): TextSearchIndex => {
+  const documents: IndexedDocument[] = [];
+  const postings = new Map<string, number[]>();
+
+  for (const surah of corpus.surahs) {
+    surah.ayahs.forEach((ayah, i) => {
+      for (const field of FIELDS) {
+        const id = documents.length;
+        const tokens = tokenize(ayah[field]);
+        documents.push({
+          surahNumber: surah.number,
+          ayahNumber: i + 1,
+          surahNameEnglish: surah.englishName,
+          surahNameArabic: surah.name,
+          field,
+          text: ayah[field],
+          tokens,
+        });
+        for (const token of new Set(tokens.flatMap(t => t.forms))) {
+          const list = postings.get(token);
+          if (list) list.push(id); else postings.set(token, [id]);
+        }
+      }
+    });
+  }
+
+  return { documents, postings };
+};
+
+/**
+ * Parses the query syntax: `"exact phrase"`, `prefix*`, `a OR b`, `-word` / `NOT word`.
+ * Terms without an operator are AND'ed together.
+ */
+export const parseTextQuery = (query: string): ParsedQuery => {
+  const required: Term[][] = [];
+  const excluded: Term[] = [];
+  const parts = query.match(/-?"[^"]*"?|\S+/g) || [];
+
+  let negateNext = false;
+  let orNext = false;
+
+  for (const part of parts) {
+    if (part === 'OR' || part === '|') { orNext = required.length > 0; continue; }
+    if (part === 'AND' || part === '&') continue;
+    if (part === 'NOT') { negateNext = true; continue; }
+
+    let raw = part;
+    let negate = negateNext;
+    negateNext = false;
+    if (raw.startsWith('-') && raw.length > 1) {
+      negate = true;
+      raw = raw.slice(1);
+    }
+
+    let term: Term | null = null;
+    if (raw.startsWith('"')) {
+      const values = tokenize(raw.replace(/"/g, '')).map(t => t.value);
+      if (values.length === 1) term = { kind: 'word', value: values[0] };
+      else if (values.length > 1) term = { kind: 'phrase', values };
+    } else {
+      const isPrefix = raw.endsWith('*');
+      const values = tokenize(raw).map(t => t.value);
+      // Unquoted punctuation-joined input (e.g. "don't") becomes a phrase
+      if (values.length > 1) term = { kind: 'phrase', values };
+      else if (values.length === 1) term = { kind: isPrefix ? 'prefix' : 'word', value: values[0] };
+    }
+    if (!term) continue;
+
+    if (negate) {
+      excluded.push(term);
+    } else if (orNext) {
+      required[required.length - 1].push(term);
+    } else {
+      required.push([term]);
+    }
+    orNext = false;
+  }
+
+  return { required, excluded };
+};
+
+// Returns the token positions in the document that satisfy the term, or null
+const matchTerm = (doc: IndexedDocument, term: Term): number[] | null => {
+  const hits: number[] = [];
+  const { tokens } = doc;
+
+  if (term.kind === 'phrase') {
+    const n = term.values.length;
+    for (let i = 0; i + n <= tokens.length; i++) {
+      if (term.values.every((v, k) => tokens[i + k].forms.includes(v))) {
+        for (let k = 0; k < n; k++) hits.push(i + k);
+      }
+    }
+  } else {
+    tokens.forEach((t, i) => {
+      if (term.kind === 'word' ? t.forms.includes(term.value) : t.forms.some(f => f.startsWith(term.value))) hits.push(i);
+    });
+  }
+
+  return hits.length > 0 ? hits : null;
+};
+
+// Narrows down documents through the postings lists before scanning tokens
+const candidatesFor = (index: TextSearchIndex, term: Term): Set<number> => {
+  if (term.kind === 'word') return new Set(index.postings.get(term.value) || []);
+  if (term.kind === 'phrase') {
+    // Rarest word of the phrase is the tightest filter
+    const lists = term.values.map(v => index.postings.get(v) || []);
+    return new Set(lists.reduce((a, b) => (b.length < a.length ? b : a)));
+  }
+  const ids = new Set<number>();
+  for (const [token, list] of index.postings) {
+    if (token.startsWith(term.value)) list.forEach(id => ids.add(id));
+  }
+  return ids;
+};
+
+const mergeRanges = (ranges: Array<[number, number]>): Array<[number, number]> => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1] + 1) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+  return merged;
+};
+
+/**
+ * Runs a parsed query against the index and groups the matching fields by ayah, in mushaf order.
+ * Only the first `limit` ayahs are returned, but all of them are counted.
+ */
+export const searchTextIndex = (index: TextSearchIndex, query: string, limit: number = MAX_RESULTS): TextSearchResponse => {
+  const parsed = parseTextQuery(query);
+  if (parsed.required.length === 0) return { results: [], total: 0 };
+
+  // Union of candidates within each OR group, intersected across groups
+  let candidates: Set<number> | null = null;
+  for (const group of parsed.required) {
+    const groupIds = new Set<number>();
+    group.forEach(term => candidatesFor(index, term).forEach(id => groupIds.add(id)));
+    candidates = candidates === null ? groupIds : new Set([...candidates].filter(id => groupIds.has(id)));
+    if (candidates.size === 0) return { results: [], total: 0 };
+  }
+
+  const byAyah = new Map<string, TextSearchResult>();
+  const matchedAyahs = new Set<string>();
+
+  for (const id of [...candidates!].sort((a, b) => a - b)) {
+    const doc = index.documents[id];
+    if (parsed.excluded.some(term => matchTerm(doc, term))) continue;
+
+    const positions: number[] = [];
+    const satisfied = parsed.required.every(group => {
+      const hits = group.map(term => matchTerm(doc, term)).filter((h): h is number[] => h !== null);
+      hits.forEach(h => positions.push(...h));
+      return hits.length > 0;
+    });
+    if (!satisfied) continue;
+
+    const key = `${doc.surahNumber}:${doc.ayahNumber}`;
+    matchedAyahs.add(key);
+    let result = byAyah.get(key);
+    if (!result) {
+      if (byAyah.size >= limit) continue;
+      result = {
+        surahNumber: doc.surahNumber,
+        ayahNumber: doc.ayahNumber,
+        surahNameEnglish: doc.surahNameEnglish,
+        surahNameArabic: doc.surahNameArabic,
+        matches: [],
+      };
+      byAyah.set(key, result);
+    }
+
+    const match: TextSearchMatch = {
+      field: doc.field,
+      text: doc.text,
+      highlights: mergeRanges(positions.map(p => [doc.tokens[p].start, doc.tokens[p].end] as [number, number])),
+    };
+    result.matches.push(match);
+  }
+
+  return { results: [...byAyah.values()], total: matchedAyahs.size };
+};
+
+let indexPromise: Promise<TextSearchIndex> | null = null;
+
+export const TextSearchService = {
+  /**
+   * Searches the bundled corpus without any network or API key. The index is built on first use.
+   */
+  async search(query: string, limit?: number): Promise<TextSearchResponse> {
+    if (!indexPromise) {
+      indexPromise = loadBundledCorpus().then(buildTextIndex).catch(error => {
+        indexPromise = null;
+        throw error;
+      });
+    }
+    return searchTextIndex(await indexPromise, query, limit);
+  }
+};
@@ -0,0 +1,89 @@
+import { AyahDisplayData, Edition, Language, TranslationSelection } from '../types';
+
+const SELECTION_KEY = 'translationEditions';
+
+export const DEFAULT_SELECTION: TranslationSelection = {
+  bn: ['bn.bengali'],
+  en: ['en.sahih'],
+  ur: ['ur.jalandhry'],
+  ar: ['ar.muyassar'], // A concise Arabic tafsir rather than a translation
+};
+
+const edition = (identifier: string, language: string, name: string, englishName: string, direction: 'rtl' | 'ltr' = 'ltr', type = 'translation'): Edition =>
+  ({ identifier, language, name, englishName, format: 'text', type, direction });
+
+// Offered when the Al-Quran Cloud edition catalog cannot be fetched
+export const FALLBACK_EDITIONS: Edition[] = [
+  edition('bn.bengali', 'bn', 'মুহিউদ্দীন খান', 'Muhiuddin Khan'),
+  edition('bn.hoque', 'bn', 'জহুরুল হক', 'Zohurul Hoque'),
+  edition('en.sahih', 'en', 'Saheeh International', 'Saheeh International'),
+  edition('en.pickthall', 'en', 'Pickthall', 'Mohammed Marmaduke William Pickthall'),
+  edition('en.yusufali', 'en', 'Yusuf Ali', 'Abdullah Yusuf Ali'),
+  edition('ur.jalandhry', 'ur', 'جالندہری', 'Fateh Muhammad Jalandhry', 'rtl'),
+  edition('ur.ahmedali', 'ur', 'احمد علی', 'Ahmed Ali', 'rtl'),
+  edition('id.indonesian', 'id', 'Bahasa Indonesia', 'Indonesian Ministry of Religious Affairs'),
+  edition('ar.muyassar', 'ar', 'تفسير الميسر', 'King Fahad Quran Complex', 'rtl', 'tafsir'),
+];
+
+/**
+ * Maps saved identifiers to catalog editions, dropping any the current source does not have.
+ * Falls back to the source's first edition in the interface language, else English, else its first
+ * edition, so something is always shown; missingEditions tells which choices were dropped.
+ */
+export const resolveEditions = (catalog: Edition[], identifiers: string[], language: Language): Edition[] => {
+  const resolved = identifiers
+    .map(id => catalog.find(e => e.identifier === id))
+    .filter((e): e is Edition => !!e);
+  if (resolved.length > 0) return resolved;
+  const fallback = catalog.find(e => e.language === language)
+    ?? catalog.find(e => e.language === 'en')
+    ?? catalog[0];
+  return fallback ? [fallback] : [];
+};
+
+/**
+ * Saved identifiers the current source does not offer (e.g. online editions while reading the bundled corpus).
+ */
+export const missingEditions = (catalog: Edition[], identifiers: string[]): string[] =>
+  catalog.length === 0 ? [] : identifiers.filter(id => !catalog.some(e => e.identifier === id));
+
+/**
+ * A readable name for an edition identifier, from the catalog or the built-in list.
+ */
+export const editionName = (identifier: string, catalog: Edition[] = []): string =>
+  [...catalog, ...FALLBACK_EDITIONS].find(e => e.identifier === identifier)?.englishName ?? identifier;
+
+/**
+ * The single translation used where only one fits (AI prompts, search cards, note editor):
+ * the first edition in the interface language, else English, else the first one available.
+ */
+export const primaryTranslation = (ayah: AyahDisplayData, language: Language): string => {
+  const entries = Object.entries(ayah.translations);
+  const match = entries.find(([id]) => id.startsWith(`${language}.`))
+    ?? entries.find(([id]) => id.startsWith('en.'))
+    ?? entries[0];
+  return match?.[1] ?? '';
+};
+
+/**
+ * The user's chosen translation editions per interface language, saved in localStorage.
+ */
+export const TranslationService = {
+  getSelection(): TranslationSelection {
+    try {
+      const saved = JSON.parse(localStorage.getItem(SELECTION_KEY) || 'null');
+      if (saved && typeof saved === 'object') {
+        // Languages added since the selection was saved keep their defaults
+        return Object.fromEntries(Object.entries(DEFAULT_SELECTION).map(([language, ids]) =>
+          [language, Array.isArray(saved[language]) ? saved[language] : ids])) as TranslationSelection;
+      }
+    } catch (error) {
+      console.warn('Ignoring unreadable translation selection:', error);
+    }
+    return DEFAULT_SELECTION;
+  },
+
+  setSelection(selection: TranslationSelection) {
+    localStorage.setItem(SELECTION_KEY, JSON.stringify(selection));
+  },
+};
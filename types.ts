@@ -22,6 +22,7 @@ export interface Edition {
   englishName: string;
   format: string;
   type: string;
+  direction?: 'rtl' | 'ltr' | null;
 }
 
 export interface AyahContent {
@@ -29,6 +30,8 @@ export interface AyahContent {
   edition: Edition;
   surah: Surah;
   numberInSurah: number;
+  juz: number;
+  page: number;
   hizbQuarter: number;
   ruku: number;
   manzil: number;
@@ -37,8 +40,84 @@ export interface AyahContent {
 // The response structure when requesting multiple editions for a single ayah
 export type SingleAyahResponse = AyahContent[];
 
+// An ayah as listed inside a surah response (surah and edition live on the parent)
+export interface SurahAyah {
+  number: number;
+  text: string;
+  numberInSurah: number;
+  juz: number;
+  manzil: number;
+  page: number;
+  ruku: number;
+  hizbQuarter: number;
+}
+
+export interface SurahEditionContent extends Surah {
+  edition: Edition;
+  ayahs: SurahAyah[];
+}
+
+// The response structure when requesting multiple editions for a whole surah (or a slice of it)
+export type SurahEditionsResponse = SurahEditionContent[];
+
+// Data Source Types
+export type QuranDataSource = 'remote' | 'local';
+
+export interface QuranDataProvider {
+  readonly source: QuranDataSource;
+  getAllSurahs(): Promise<Surah[]>;
+  /** Lists the translation editions this source can serve. */
+  getTranslationEditions(): Promise<Edition[]>;
+  /**
+   * `editions` are translation edition identifiers; sources may ignore ones they do not have.
+   * Aborting `signal` cancels the request. Failures are typed errors from services/errors.ts.
+   */
+  getAyah(surahNumber: number, ayahNumber: number, editions: string[], signal?: AbortSignal): Promise<AyahDisplayData>;
+  /** Fetches `count` consecutive ayahs of a surah starting at `fromAyah` (1-based) in one request. */
+  getSurahAyahs(surahNumber: number, fromAyah: number, count: number, editions: string[], signal?: AbortSignal): Promise<AyahDisplayData[]>;
+}
+
+// Bundled offline corpus (public/data/quran-corpus.json, see scripts/build-corpus.mjs)
+export interface CorpusAyah {
+  ar: string;
+  bn: string;
+  en: string;
+}
+
+export interface CorpusSurah extends Surah {
+  ayahs: CorpusAyah[];
+}
+
+export interface QuranCorpus {
+  version: number;
+  source: string;
+  surahs: CorpusSurah[];
+}
+
+// A surah saved in IndexedDB for reading offline with the remote data source
+export interface OfflineSurah {
+  surahNumber: number;
+  ayahs: AyahDisplayData[];
+  editions: string[]; // Translation editions included when it was downloaded
+  size: number; // Approximate size in bytes
+  downloadedAt: number;
+}
+
+export type OfflineSurahSummary = Omit<OfflineSurah, 'ayahs'>;
+
 // App Types
-export type Language = 'bn' | 'en';
+// Interface language; also the language AI output is requested in
+export type Language = 'bn' | 'en' | 'ur' | 'ar';
+
+// A UI message: plain text, or one text per plural category (see Intl.PluralRules)
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+// Translation edition identifiers shown for each interface language
+export type TranslationSelection = Record<Language, string[]>;
+
+// 'ayah' shows one AyahView at a time, 'surah' scrolls through the whole surah
+export type ReadingMode = 'ayah' | 'surah';
 
 export interface SearchResult {
   surahNumber: number;
@@ -47,14 +126,67 @@ export interface SearchResult {
   confidenceScore: number;
 }
 
+// A search result after checking it against the real corpus
+export interface VerifiedSearchResult extends SearchResult {
+  verified: boolean; // The reference exists and its text was fetched
+  ayah?: AyahDisplayData; // Real Arabic text, translations and surah name
+}
+
+// Local lexical search over the bundled corpus
+export type TextSearchField = 'ar' | 'bn' | 'en';
+
+export interface TextSearchMatch {
+  field: TextSearchField;
+  text: string;
+  highlights: Array<[number, number]>; // [start, end) character ranges in text
+}
+
+export interface TextSearchResult {
+  surahNumber: number;
+  ayahNumber: number;
+  surahNameEnglish: string;
+  surahNameArabic: string;
+  matches: TextSearchMatch[];
+}
+
+export interface TextSearchResponse {
+  results: TextSearchResult[]; // The first matching ayahs, in mushaf order, up to the limit
+  total: number; // Every matching ayah, including those past the limit
+}
+
 export interface AyahDisplayData {
   surahNumber: number;
   ayahNumber: number;
   arabicText: string;
-  textBn: string;
-  textEn: string;
+  translations: Record<string, string>; // Edition identifier (e.g. "bn.bengali") -> text, in the requested order
   surahNameEnglish: string;
   surahNameArabic: string;
+  // Where the ayah falls in the traditional divisions of the mushaf
+  juz: number;
+  hizbQuarter: number;
+  manzil: number;
+  ruku: number; // Counted across the whole Quran, not within the surah
+  page: number;
+}
+
+// Traditional divisions of the mushaf: 30 juz, 240 hizb quarters (4 per hizb), 7 manzils
+// and the 604 pages of the Madani print
+export type QuranDivision = 'juz' | 'hizbQuarter' | 'manzil' | 'page';
+
+export type AyahDivisions = Pick<AyahDisplayData, QuranDivision | 'ruku'>;
+
+// A run of consecutive ayahs within one surah
+export interface PassageRange {
+  surahNumber: number;
+  fromAyah: number;
+  toAyah: number;
+}
+
+// A verse reference typed by the user, e.g. "2:255", "Al-Kahf 1-10" or just "Yasin"
+export interface ParsedReference {
+  surahNumber: number;
+  ayahNumber: number | null; // null when only a surah was named
+  toAyah: number | null; // End of a range, if one was given
 }
 
 // AI Response Types
@@ -63,6 +195,252 @@ export interface TafsirData {
   arabicSnippet: string;
   tafsirText: string; // Markdown formatted
   keyThemes: string[];
+  citations?: TafsirCitation[]; // Absent in tafsir cached before citations were requested
+  relatedAyahs?: RelatedAyah[];
+}
+
+// A work the tafsir draws on, as named by the AI
+export interface TafsirCitation {
+  work: string;
+  author: string;
+  volume?: string; // Only when the AI is confident of it
+  page?: string;
+}
+
+export interface RelatedAyah {
+  surahNumber: number;
+  ayahNumber: number;
+  reason: string;
+}
+
+// One tafsir for a whole passage, with a short note on each of its ayahs
+export interface PassageTafsir {
+  passageReference: string;
+  overview: string; // Markdown formatted
+  ayahNotes: PassageAyahNote[];
+  keyThemes: string[];
+}
+
+export interface PassageAyahNote {
+  ayahNumber: number;
+  note: string; // Markdown formatted
+}
+
+// Citations and cross-references after checking them against known works and the real corpus
+export interface CheckedCitation extends TafsirCitation {
+  knownWork: boolean; // The title is one in the reference list; volume and page remain unchecked
+}
+
+export interface VerifiedRelatedAyah extends RelatedAyah {
+  verified: boolean; // The reference exists and its text was fetched
+  ayah?: AyahDisplayData;
+}
+
+// A classical tafsir work that comparisons can draw on
+export interface TafsirSource {
+  id: string;
+  name: string;
+  author: string;
+}
+
+// What one classical source says about an ayah
+export interface TafsirPerspective {
+  sourceId: string;
+  summary: string; // Markdown
+}
+
+// Several classical tafsirs of one ayah side by side, with where they agree and differ
+export interface TafsirComparison {
+  ayahReference: string;
+  perspectives: TafsirPerspective[]; // In the order the sources were requested
+  commonGround: string; // Markdown
+  differences: string; // Markdown; which scholar holds which view
+}
+
+// Follow-up questions about an ayah, answered in the context of its tafsir
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string; // Markdown for model answers
+  createdAt: number;
+}
+
+// One conversation per ayah, kept in IndexedDB
+export interface TafsirChatThread {
+  key: string; // "surah:ayah"
+  surahNumber: number;
+  ayahNumber: number;
+  messages: ChatMessage[];
+  updatedAt: number;
+}
+
+// Study Data (bookmarks & notes)
+export type BookmarkColor = 'emerald' | 'gold' | 'sky' | 'rose' | 'violet' | 'slate';
+
+export interface BookmarkFolder {
+  id: string;
+  name: string;
+  color: BookmarkColor;
+  createdAt: number;
+}
+
+export interface Bookmark {
+  key: string; // "surah:ayah"
+  surahNumber: number;
+  ayahNumber: number;
+  surahNameEnglish: string;
+  folderId: string | null;
+  color: BookmarkColor;
+  createdAt: number;
+}
+
+export interface AyahNote {
+  key: string; // "surah:ayah"
+  surahNumber: number;
+  ayahNumber: number;
+  markdown: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Versioned file format for moving study data between devices
+export interface StudyDataExport {
+  format: 'nur-al-quran-study-data';
+  version: 1;
+  exportedAt: string;
+  folders: BookmarkFolder[];
+  bookmarks: Bookmark[];
+  notes: AyahNote[];
+}
+
+// Reading History & Khatm Progress
+export interface ReadingHistoryEntry {
+  key: string; // "surah:ayah"
+  surahNumber: number;
+  ayahNumber: number;
+  surahNameEnglish: string;
+  visitedAt: number;
+}
+
+// Ayahs of one surah read during the current khatm
+export interface SurahProgress {
+  surahNumber: number;
+  readAyahs: number[];
+  updatedAt: number;
+}
+
+// Word-by-word Morphology
+export type PartOfSpeech = 'noun' | 'proper_noun' | 'pronoun' | 'adjective' | 'verb' | 'particle' | 'preposition' | 'conjunction';
+
+export interface WordAnalysis {
+  position: number; // 1-based index among the ayah's words
+  arabic: string;
+  transliteration: string;
+  meaning: string; // In the requested language
+  root: string; // Root letters, e.g. "ر ح م"; empty for words without a root
+  lemma: string;
+  partOfSpeech: PartOfSpeech;
+}
+
+// Optional bundled dataset: public/data/morphology/{surah}.json, keyed by ayah number
+export interface MorphologyDatasetWord extends Omit<WordAnalysis, 'meaning'> {
+  meaning: Partial<Record<Language, string>>;
+}
+
+export interface MorphologyDataset {
+  version: 1;
+  source: string;
+  ayahs: Record<string, MorphologyDatasetWord[]>;
+}
+
+// Hifz (memorization) with SM-2 spaced repetition
+export type HifzGrade = 0 | 1 | 2 | 3 | 4 | 5; // SM-2 recall quality; below 3 is a lapse
+
+export type HifzMaskStyle = 'words' | 'lines';
+
+export interface HifzCard {
+  key: string; // "surah:ayah"
+  surahNumber: number;
+  ayahNumber: number;
+  surahNameEnglish: string;
+  repetitions: number; // Successful reviews in a row
+  intervalDays: number;
+  easeFactor: number;
+  dueAt: number; // Start of the day the next review is due
+  lastGrade: HifzGrade;
+  lastReviewedAt: number;
+}
+
+// Recitation Audio
+export interface Reciter {
+  id: string; // Folder name used in audio URLs
+  name: string;
+}
+
+// AI Provider Types
+// 'proxy' is the browser's client for server/index.ts, which runs one of the others
+export type AiProviderId = 'gemini' | 'openai' | 'mock' | 'proxy';
+
+export interface AiProvider {
+  readonly id: AiProviderId;
+  readonly model: string;
+  /** Aborting `signal` cancels the request, e.g. when a newer search replaces it. */
+  searchQuran(query: string, language: Language, signal?: AbortSignal): Promise<SearchResult[]>;
+  generateTafsir(ayahData: AyahDisplayData, language: Language): Promise<TafsirData>;
+  /**
+   * Like generateTafsir, but reports the fields decoded so far through `onUpdate` while the response streams.
+   * Aborting `signal` cancels the request.
+   */
+  streamTafsir(
+    ayahData: AyahDisplayData,
+    language: Language,
+    onUpdate: (partial: Partial<TafsirData>) => void,
+    signal?: AbortSignal
+  ): Promise<TafsirData>;
+  /**
+   * Summarizes each requested classical tafsir (ids from CLASSICAL_TAFSIRS) separately and notes where they differ.
+   * Aborting `signal` cancels the request, e.g. when the comparison is closed.
+   */
+  compareTafsir(ayahData: AyahDisplayData, sourceIds: string[], language: Language, signal?: AbortSignal): Promise<TafsirComparison>;
+  /**
+   * One tafsir for consecutive ayahs of a surah read together, with a note per ayah. Aborting `signal` cancels the request.
+   */
+  generatePassageTafsir(ayahs: AyahDisplayData[], language: Language, signal?: AbortSignal): Promise<PassageTafsir>;
+  generateSurahOverview(surahName: string, surahNumber: number, language: Language, signal?: AbortSignal): Promise<SurahOverviewData>;
+  /**
+   * Word-by-word analysis of an ayah; `words` are the ayah's words in order, as split for display.
+   * Aborting `signal` cancels the request.
+   */
+  analyzeWords(ayahData: AyahDisplayData, words: string[], language: Language, signal?: AbortSignal): Promise<WordAnalysis[]>;
+  /**
+   * Continues a chat about an ayah and its tafsir. `messages` is the conversation so far, ending with
+   * the user's new question; the Markdown answer is reported through `onUpdate` as it streams.
+   */
+  askFollowUp(
+    ayahData: AyahDisplayData,
+    tafsir: TafsirData,
+    messages: ChatMessage[],
+    language: Language,
+    onUpdate: (answer: string) => void,
+    signal?: AbortSignal
+  ): Promise<string>;
+}
+
+// Persistent AI response cache (IndexedDB)
+export type AiCacheKind = 'tafsir' | 'comparison' | 'passage' | 'overview' | 'morphology';
+
+export interface AiCacheEntry<T = unknown> {
+  key: string;
+  kind: AiCacheKind;
+  surahNumber: number;
+  ayahNumber: number | null;
+  language: Language;
+  model: string;
+  promptVersion: number;
+  variant?: string;
+  data: T;
+  size: number; // Approximate size in bytes, used for LRU eviction
+  createdAt: number;
+  lastAccessed: number;
 }
 
 export interface SurahOverviewData {
@@ -1,18 +1,54 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists the hashed build files in dist/sw.js, which otherwise only caches them once they are loaded
+const precacheBuildAssets = (): Plugin => {
+  let outDir = 'dist';
+  let assets: string[] = [];
+  return {
+    name: 'precache-build-assets',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    generateBundle(_, bundle) {
+      assets = Object.keys(bundle).filter(file => file !== 'index.html' && !file.endsWith('.map')).map(file => `/${file}`);
+    },
+    closeBundle() {
+      const swPath = path.join(outDir, 'sw.js');
+      const buildId = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12);
+      const source = fs.readFileSync(swPath, 'utf8')
+        .replace('const BUILD_ASSETS = [];', `const BUILD_ASSETS = ${JSON.stringify(assets)};`)
+        .replace("const BUILD_ID = 'dev';", `const BUILD_ID = '${buildId}';`);
+      fs.writeFileSync(swPath, source);
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // AI requests go to the proxy server (npm run server), which keeps the API keys out of the bundle
+    const apiProxy = {
+      '/api': `http://localhost:${env.SERVER_PORT || 8787}`,
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: apiProxy,
+      },
+      preview: {
+        proxy: apiProxy,
       },
-      plugins: [react()],
+      plugins: [react(), precacheBuildAssets()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.QURAN_DATA_SOURCE': JSON.stringify(env.QURAN_DATA_SOURCE),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL),
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL),
+        'process.env.AUDIO_URL_TEMPLATE': JSON.stringify(env.AUDIO_URL_TEMPLATE)
       },
       resolve: {
         alias: {